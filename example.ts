@@ -128,7 +128,7 @@ async function main() {
           }
         }
 
-        // Replace the cached OpenAI provider (key is 'openai')
+        // Replace the cached OpenAI provider (cached per providerId – 'openai')
         (promptuna as any).providers.set('openai', new AlwaysRateLimited());
 
         // Make another call – fallback should activate automatically
@@ -1,10 +1,16 @@
+import { randomUUID } from 'crypto';
 import { resolve } from 'path';
 import packageJson from '../package.json';
 import type { PromptunaObservability } from './observability/types';
-import { loadAndValidateConfig } from './validation/index.js';
+import {
+  loadAndValidateConfigSource,
+  validateConfig,
+} from './validation/index.js';
+import { watchConfigFiles } from './config/watcher';
 import {
   PromptunaConfig,
   PromptunaRuntimeConfig,
+  ConfigurationError,
   ExecutionError,
   Variant,
   Prompt,
@@ -13,43 +19,186 @@ import {
 } from './config/types.js';
 import { RenderedMessage } from './templates/types';
 import { TemplateProcessor } from './templates/processor';
+import { resolveVariables } from './templates/variables';
 import {
   ChatCompletionOptions,
   ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatCompletionUsage,
   ChatMessage,
   Provider,
 } from './providers/types';
-import { OpenAIProvider } from './providers/openai';
-import { AnthropicProvider } from './providers/anthropic';
-import { GoogleProvider } from './providers/google';
+import { getProviderRegistration } from './providers/registry';
 import { ObservabilityBuilder } from './observability/builder';
 import { selectVariant } from './routing/selector';
 import { executeWithFallback } from './fallbacks/executor';
+import { CircuitBreaker } from './fallbacks/circuitBreaker';
+import { RateLimiter, resolveRateLimits } from './fallbacks/rateLimiter';
+import { MemoryCacheStore } from './cache/memory';
+import { buildCacheKey } from './cache/key';
+import type { CacheStore } from './cache/types';
+import { Cassette } from './cassettes/cassette';
+import {
+  createRecordingProvider,
+  createReplayProvider,
+} from './cassettes/provider';
+import type {
+  CircuitHealth,
+  ExecutionTarget,
+  FallbackCallbackContext,
+  RateLimitLease,
+  RetryPolicy,
+} from './fallbacks/types';
+import { BudgetExceededError, ProviderError } from './errors';
 import { buildProviderParams } from './shared/utils/normalizeParameters';
-import type { ProviderId } from './shared/types';
+import {
+  createAttemptDeadline,
+  type AttemptDeadline,
+} from './shared/utils/abort';
+import type { Tool } from './tools/types';
+import { executeChain } from './chains/runner';
+import { parseStructuredResponse } from './responses/structured';
+import { getModelMetadata } from './models/registry';
+import { addUsage, estimateCostUsd, getModelPricing } from './models/pricing';
+import { CostTracker } from './observability/costs';
+import type {
+  CostDimension,
+  CostFilter,
+  CostSummary,
+} from './observability/costs';
+import { estimateTokens, getTokenizer } from './models/tokenizers';
+import { BudgetTracker } from './budgets/tracker';
+import type { BudgetUsage } from './budgets/types';
+import {
+  buildSummaryMessages,
+  fitToContext,
+  SUMMARY_MAX_TOKENS,
+} from './models/truncation';
+import type { ContextBudget } from './models/truncation';
+import type { ChainResult } from './chains/types';
+import type {
+  ParsedOf,
+  PromptIdOf,
+  PromptunaTypes,
+  TypedChatCompletionParams,
+  TypedGetTemplateParams,
+  TypedRunChainParams,
+  UntypedPromptunaTypes,
+} from './codegen/types';
+
+/** Mutable per-request context used to enrich errors */
+interface ExecutionState {
+  variantId: string;
+  providerType: string;
+}
 
-export class Promptuna {
-  protected configPath: string;
+/** Links a request to the chain step that issued it */
+interface ChainLink {
+  parentRequestId: string;
+  chainStepId: string;
+}
+
+/** Everything needed to call a provider once routing and rendering are done */
+interface PreparedExecution {
+  variantId: string;
+  variant: Variant;
+  targets: ExecutionTarget[];
+  chatMessages: ChatMessage[];
+  responseSchema?: any;
+  tools?: Tool[];
+  /** Per-attempt timeout (call-level value wins over the variant default) */
+  timeoutMs?: number;
+  /** Usage of the call that summarized truncated history, charged with the request */
+  summary?: { usage?: ChatCompletionUsage; costUsd?: number };
+}
+
+/**
+ * Prompt management SDK. Pass the `PromptunaGenerated` interface emitted by
+ * `promptuna-codegen` as `T` to type prompt ids, variant ids, variables and
+ * parsed responses against the config.
+ */
+export class Promptuna<T extends PromptunaTypes = UntypedPromptunaTypes> {
+  protected configPath?: string;
+  /** Version tag of the active config when it came from a `configLoader` */
+  protected configEtag?: string;
   protected templateProcessor: TemplateProcessor;
   protected config: PromptunaConfig | null = null;
   protected configPromise: Promise<PromptunaConfig> | null = null;
   protected providers: Map<string, any> = new Map();
   protected runtimeConfig: PromptunaRuntimeConfig;
+  protected circuitBreaker?: CircuitBreaker;
+  protected rateLimiter = new RateLimiter();
+  protected cacheStore?: CacheStore;
+  protected cassette?: Cassette;
+  protected stopWatching?: () => void;
+  /** Files watched for hot reload, newline separated */
+  private watchedFiles?: string;
+  private closed = false;
+  private reloadGeneration = 0;
 
   // Observability helpers
   protected sdkVersion: string;
   protected environment: 'dev' | 'prod';
-  protected emitObservability?: (event: PromptunaObservability) => void;
+  protected emitObservability: (event: PromptunaObservability) => void;
+  protected costTracker = new CostTracker();
+  protected budgetTracker?: BudgetTracker;
 
   constructor(config: PromptunaRuntimeConfig) {
-    this.runtimeConfig = config;
-    this.configPath = resolve(config.configPath);
-    this.templateProcessor = new TemplateProcessor();
+    // Keep a private copy of an in-memory config so later mutations by the caller have no effect
+    this.runtimeConfig = config.config
+      ? { ...config, config: structuredClone(config.config) }
+      : config;
+
+    const sources = [config.configPath, config.config, config.configLoader];
+    if (sources.filter(source => source !== undefined).length !== 1) {
+      throw new ConfigurationError(
+        'Exactly one of configPath, config or configLoader must be provided'
+      );
+    }
+    if (config.watchConfig && config.configPath === undefined) {
+      throw new ConfigurationError('watchConfig requires configPath');
+    }
+
+    if (config.configPath !== undefined) {
+      this.configPath = resolve(config.configPath);
+    }
+    this.templateProcessor = new TemplateProcessor({
+      strictVariables: config.strictVariables,
+      filters: config.filters,
+    });
+    if (config.circuitBreaker !== false) {
+      this.circuitBreaker = new CircuitBreaker(config.circuitBreaker);
+    }
+    if (config.budgets) {
+      this.budgetTracker = new BudgetTracker(config.budgets);
+    }
+    if (config.cassette) {
+      this.cassette = new Cassette(config.cassette);
+    }
+    if (config.cache) {
+      this.cacheStore =
+        config.cache.store ?? new MemoryCacheStore(config.cache.maxEntries);
+    }
+    if (this.configPath) {
+      // Includes are added once the config has been loaded
+      this.watchFiles([this.configPath]);
+    }
+    if (config.configLoader && config.configPollIntervalMs) {
+      const timer = setInterval(
+        () => void this.reloadConfig(),
+        config.configPollIntervalMs
+      );
+      timer.unref();
+      this.stopWatching = () => clearInterval(timer);
+    }
 
     this.sdkVersion = (packageJson as any).version ?? 'unknown';
 
     this.environment = config.environment ?? 'dev';
-    this.emitObservability = config.onObservability;
+    this.emitObservability = event => {
+      this.costTracker.record(event);
+      config.onObservability?.(event);
+    };
   }
 
   /**
@@ -66,25 +215,166 @@ export class Promptuna {
     }
 
     if (!this.configPromise) {
-      this.configPromise = loadAndValidateConfig(this.configPath).then(
-        config => {
-          this.config = config;
-          return config;
+      const generation = this.reloadGeneration;
+      this.configPromise = this.loadConfig().then(loaded => {
+        if (!loaded) {
+          throw new ConfigurationError(
+            'Config loader returned no configuration on first load'
+          );
         }
-      );
+        // A reload started meanwhile – its configuration is newer
+        if (generation !== this.reloadGeneration && this.config) {
+          return this.config;
+        }
+        this.templateProcessor.setPartials(loaded.config.partials);
+        this.config = loaded.config;
+        this.configEtag = loaded.etag;
+        if (loaded.files) this.watchFiles(loaded.files);
+        return loaded.config;
+      });
     }
 
     return this.configPromise;
   }
 
+  /**
+   * Loads and validates the configuration from whichever source was configured
+   * @private
+   * @returns The validated config (with the files it was read from, for file
+   *   configs), or null if the loader reports no change
+   * @throws ConfigurationError if the configuration is invalid or cannot be loaded
+   */
+  private async loadConfig(): Promise<{
+    config: PromptunaConfig;
+    etag?: string;
+    files?: string[];
+  } | null> {
+    const { config, configLoader, filters } = this.runtimeConfig;
+
+    if (this.configPath) {
+      return loadAndValidateConfigSource(this.configPath, { filters });
+    }
+
+    if (config) {
+      return { config: validateConfig(config, { filters }) };
+    }
+
+    const loaded = await configLoader!({ etag: this.configEtag });
+    if (!loaded) return null;
+
+    let raw = loaded.config;
+    if (typeof raw === 'string') {
+      try {
+        raw = JSON.parse(raw);
+      } catch (error) {
+        throw new ConfigurationError('Failed to parse loaded config', {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    return { config: validateConfig(raw, { filters }), etag: loaded.etag };
+  }
+
+  /**
+   * Re-reads and validates the configuration, then swaps it in atomically.
+   * Requests already in flight finish with the configuration they started with.
+   * If loading or validation fails the current configuration is kept.
+   * Called automatically on file changes when `watchConfig` is enabled and on
+   * every `configPollIntervalMs` tick for loaders.
+   * @returns true if a new configuration was applied
+   */
+  async reloadConfig(): Promise<boolean> {
+    const generation = ++this.reloadGeneration;
+    const timestamp = () => new Date().toISOString();
+
+    try {
+      const loaded = await this.loadConfig();
+      // Unchanged, or a newer reload started meanwhile – let it win
+      if (!loaded || generation !== this.reloadGeneration) return false;
+
+      this.config = loaded.config;
+      this.configEtag = loaded.etag;
+      this.configPromise = Promise.resolve(loaded.config);
+      // Also clears the template cache
+      this.templateProcessor.setPartials(loaded.config.partials);
+      // Provider instances are built from per-provider config that may have changed
+      this.providers.clear();
+      // Includes may have been added or removed
+      if (loaded.files) this.watchFiles(loaded.files);
+
+      this.runtimeConfig.onConfigEvent?.({
+        type: 'config-reloaded',
+        ...(this.configPath && { configPath: this.configPath }),
+        ...(loaded.etag && { etag: loaded.etag }),
+        timestamp: timestamp(),
+      });
+      return true;
+    } catch (error: any) {
+      this.runtimeConfig.onConfigEvent?.({
+        type: 'config-rejected',
+        ...(this.configPath && { configPath: this.configPath }),
+        timestamp: timestamp(),
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Stops watching the configuration file or polling the loader and rejects
+   * calls still queued by the client-side rate limiter. Safe to call more
+   * than once.
+   */
+  close(): void {
+    this.closed = true;
+    this.stopWatching?.();
+    this.stopWatching = undefined;
+    this.rateLimiter.close();
+  }
+
+  /**
+   * Watches the given config files when `watchConfig` is enabled, replacing the
+   * previous watch set. Following the files of the last successful load makes
+   * edits to `$ref` includes and `.liquid` templates trigger reloads too.
+   * @private
+   */
+  private watchFiles(files: string[]): void {
+    const { watchConfig } = this.runtimeConfig;
+    const key = files.join('\n');
+    if (!watchConfig || this.closed || key === this.watchedFiles) return;
+
+    const { debounceMs = 100 } = watchConfig === true ? {} : watchConfig;
+    this.stopWatching?.();
+    this.stopWatching = watchConfigFiles(
+      files,
+      () => void this.reloadConfig(),
+      debounceMs
+    );
+    this.watchedFiles = key;
+  }
+
   /**
    * Gets a template with variables interpolated
    * @param params Parameters for getting the template
    * @returns Array of rendered messages with content ready for LLM
    * @throws ExecutionError if prompt/variant not found or invalid message format
-   * @throws TemplateError if template processing fails
+   * @throws TemplateError if template processing fails or a declared variable
+   *   is missing or has the wrong type
+   */
+  async getTemplate<P extends PromptIdOf<T>>(
+    params: TypedGetTemplateParams<T, P>
+  ): Promise<RenderedMessage[]> {
+    return this.renderTemplate(params as GetTemplateParams);
+  }
+
+  /**
+   * Untyped implementation of {@link getTemplate}
+   * @private
    */
-  async getTemplate(params: GetTemplateParams): Promise<RenderedMessage[]> {
+  private async renderTemplate(
+    params: GetTemplateParams
+  ): Promise<RenderedMessage[]> {
     const { promptId, variantId, variables = {} } = params;
     const config = await this.getConfig();
 
@@ -116,24 +406,33 @@ export class Promptuna {
       });
     }
 
+    // Declared variables get their defaults and are checked before rendering
+    const renderVariables = prompt.variables
+      ? resolveVariables(promptId, prompt.variables, variables || {})
+      : variables || {};
+
     const renderedMessages: RenderedMessage[] = [];
 
     for (const message of messages) {
-      if (!message.role || !message.content?.template) {
+      const hasTemplate = Array.isArray(message.content)
+        ? message.content.length > 0
+        : !!message.content?.template;
+
+      if (!message.role || !hasTemplate) {
         throw new ExecutionError(`Invalid message format in variant`, {
           promptId,
           variantId,
           messageStructure: {
             hasRole: !!message.role,
             hasContent: !!message.content,
-            hasTemplate: !!message.content?.template,
+            hasTemplate,
           },
         });
       }
 
-      const renderedContent = await this.templateProcessor.processTemplate(
-        message.content.template,
-        variables || {}
+      const renderedContent = await this.templateProcessor.processContent(
+        message.content,
+        renderVariables
       );
 
       renderedMessages.push({
@@ -146,232 +445,1121 @@ export class Promptuna {
   }
 
   /**
-   * Gets or creates a provider instance
+   * Health of every provider/model pair this instance has called, as tracked
+   * by its circuit breaker. Empty when the breaker is disabled.
+   * @returns One entry per provider/model pair
+   */
+  getProviderHealth(): CircuitHealth[] {
+    return this.circuitBreaker?.getSnapshot() ?? [];
+  }
+
+  /**
+   * Token usage and estimated cost of the requests made by this instance
+   * @param filter Only count requests of this prompt, variant and/or user
+   * @returns Totals over the matching requests
+   */
+  getCosts(filter?: CostFilter): CostSummary {
+    return this.costTracker.getSummary(filter);
+  }
+
+  /**
+   * Token usage and estimated cost per prompt, variant or user, e.g.
+   * `getCostsBy('variantId', { promptId })` to compare the arms of an A/B test
+   * @param dimension Field to group the requests by
+   * @param filter Only count requests of this prompt, variant and/or user
+   * @returns Totals keyed by prompt id, variant id or user id
+   */
+  getCostsBy(
+    dimension: CostDimension,
+    filter?: CostFilter
+  ): Record<string, CostSummary> {
+    return this.costTracker.groupBy(dimension, filter);
+  }
+
+  /** Clears the totals returned by `getCosts()` and `getCostsBy()` */
+  resetCosts(): void {
+    this.costTracker.reset();
+  }
+
+  /**
+   * Gets or creates the provider instance for a target. Instances are cached per
+   * providerId since each entry may carry its own `config` (base URL, headers...).
+   * With a `cassette`, instances record their calls or are replaced by replays.
    * @private
    */
-  private getProvider(type: string): Provider {
-    if (this.providers.has(type)) {
-      return this.providers.get(type);
+  private getProvider(target: ExecutionTarget): Provider {
+    const { providerId, providerType } = target;
+    if (this.providers.has(providerId)) {
+      return this.providers.get(providerId);
     }
 
-    let provider;
-    switch (type) {
-      case 'openai':
-        if (!this.runtimeConfig.openaiApiKey) {
-          throw new Error('OpenAI API key not provided in configuration');
-        }
-        provider = new OpenAIProvider(this.runtimeConfig.openaiApiKey);
-        break;
-      case 'anthropic':
-        if (!this.runtimeConfig.anthropicApiKey) {
-          throw new Error('Anthropic API key not provided in configuration');
-        }
-        provider = new AnthropicProvider(this.runtimeConfig.anthropicApiKey);
-        break;
-      case 'google':
-        if (!this.runtimeConfig.googleApiKey) {
-          throw new Error('Google API key not provided in configuration');
-        }
-        provider = new GoogleProvider(this.runtimeConfig.googleApiKey);
-        break;
-      default:
-        throw new Error(`Unknown provider type: ${type}`);
+    const registration = getProviderRegistration(providerType);
+    if (!registration) {
+      throw new Error(`Unknown provider type: ${providerType}`);
+    }
+
+    let provider: Provider;
+    if (this.cassette?.mode === 'replay') {
+      provider = createReplayProvider(this.cassette, providerId);
+    } else {
+      provider = registration.factory({
+        runtimeConfig: this.runtimeConfig,
+        providerId,
+        providerConfig: this.config?.providers[providerId] ?? {
+          type: providerType,
+        },
+      });
+      if (this.cassette) {
+        provider = createRecordingProvider(provider, this.cassette, providerId);
+      }
     }
 
-    this.providers.set(type, provider);
+    this.providers.set(providerId, provider);
     return provider;
   }
 
   /**
    * Execute chat completion for a prompt (uses default variant)
    * @param params Parameters for the chat completion
-   * @returns The chat completion response from the LLM provider
+   * @returns The chat completion response from the LLM provider; `json_schema`
+   *   variants also carry the validated answer as `parsed`
+   * @throws ExecutionError if prompt not found, provider fails, or the answer
+   *   violates the response schema (`details.errorCode: 'schema-violation'`)
+   */
+  async chatCompletion<
+    TParsed = never,
+    P extends PromptIdOf<T> = PromptIdOf<T>,
+  >(
+    params: TypedChatCompletionParams<T, P>
+  ): Promise<
+    ChatCompletionResponse<[TParsed] extends [never] ? ParsedOf<T, P> : TParsed>
+  > {
+    const { response } = await this.complete(params as ChatCompletionParams);
+    return response as ChatCompletionResponse<any>;
+  }
+
+  /**
+   * Run a prompt followed by its `chains` steps. Each step renders its prompt
+   * with the chain input plus variables mapped from earlier outputs; every
+   * step emits its own observability event carrying the chain's request id as
+   * `parentRequestId`.
+   * @param params Parameters for the first prompt – input variables are shared with every step
+   * @returns Outputs of every step and the final output
+   * @throws ExecutionError naming the failed step
+   */
+  async runChain<P extends PromptIdOf<T>>(
+    params: TypedRunChainParams<T, P>
+  ): Promise<ChainResult> {
+    const config = await this.getConfig();
+    const prompt: Prompt | undefined = config.prompts[params.promptId];
+    if (!prompt) {
+      throw new ExecutionError(`Prompt not found`, {
+        promptId: params.promptId,
+        availablePrompts: Object.keys(config.prompts),
+      });
+    }
+
+    const requestId = randomUUID();
+    return executeChain({
+      steps: [
+        { prompt: params.promptId, variant: params.variantId },
+        ...(prompt.chains ?? []),
+      ],
+      input: params.variables ?? {},
+      requestId,
+      execute: async ({ stepId, promptId, variantId, variables }) => {
+        const {
+          response,
+          variantId: servedVariant,
+          variant,
+        } = await this.complete(
+          { ...params, promptId, variantId, variables },
+          { parentRequestId: requestId, chainStepId: stepId }
+        );
+        return {
+          response,
+          variantId: servedVariant,
+          structured: variant.responseFormat?.type === 'json_schema',
+        };
+      },
+    });
+  }
+
+  /**
+   * Buffered execution shared by `chatCompletion()` and chain steps
+   * @private
+   */
+  private async complete(
+    params: ChatCompletionParams,
+    chain?: ChainLink
+  ): Promise<{
+    response: ChatCompletionResponse;
+    variantId: string;
+    variant: Variant;
+  }> {
+    const obsBuilder = this.createObservabilityBuilder(params, chain);
+    const state: ExecutionState = {
+      variantId: 'unknown',
+      providerType: 'unknown',
+    };
+
+    try {
+      const execution = await this.prepareExecution(params, obsBuilder, state);
+      const { variant } = execution;
+
+      const cacheKey = this.getCacheKey(execution, params.userId);
+      if (cacheKey) {
+        const cached = await this.readCache(cacheKey);
+        obsBuilder.setCacheHit(!!cached);
+
+        if (cached) {
+          const [primary] = execution.targets;
+          obsBuilder.setProvider(primary.providerType, primary.model);
+          state.providerType = primary.providerType;
+          obsBuilder.setProviderRequestId(cached.id);
+          obsBuilder.setEstimatedCost(0);
+          obsBuilder.buildSuccess();
+
+          return { response: cached, variantId: state.variantId, variant };
+        }
+      }
+
+      let servedBy: ExecutionTarget | undefined;
+      const response = await executeWithFallback<ChatCompletionResponse>(
+        execution.targets,
+        async (provider, target) => {
+          servedBy = target;
+          const deadline = createAttemptDeadline(
+            params.signal,
+            execution.timeoutMs
+          );
+          let lease: RateLimitLease | undefined;
+          let usage: ChatCompletionUsage | undefined;
+          try {
+            lease = await this.acquireRateLimit(
+              target,
+              execution.chatMessages,
+              variant.parameters?.max_tokens ?? 0,
+              deadline
+            );
+            const options = this.buildCompletionOptions(
+              execution,
+              target,
+              params.userId,
+              deadline.signal
+            );
+            const response = await deadline.run(
+              provider.chatCompletion(options)
+            );
+            usage = response.usage;
+            if (!execution.responseSchema) return response;
+
+            return await parseStructuredResponse(response, {
+              schema: execution.responseSchema,
+              responseFormat: variant.responseFormat!,
+              repair: extraMessages =>
+                deadline.run(
+                  provider.chatCompletion({
+                    ...options,
+                    messages: [...options.messages, ...extraMessages],
+                  })
+                ),
+            });
+          } finally {
+            lease?.release(usage?.total_tokens);
+            deadline.dispose();
+          }
+        },
+        target => this.getProvider(target),
+        ctx => this.recordAttempt(ctx, obsBuilder, state),
+        this.circuitBreaker,
+        params.signal
+      );
+
+      // Only primary-target answers are cached so a degraded fallback is never pinned
+      if (cacheKey && servedBy === execution.targets[0]) {
+        await this.writeCache(cacheKey, response, execution.variant);
+      }
+
+      // Success telemetry
+      obsBuilder.markProvider();
+      obsBuilder.setProviderRequestId(response.id);
+      const usage = await this.chargeUsage(
+        params,
+        obsBuilder,
+        execution,
+        servedBy!,
+        response.usage
+      );
+      obsBuilder.buildSuccess();
+
+      return {
+        response: execution.summary ? { ...response, usage } : response,
+        variantId: state.variantId,
+        variant,
+      };
+    } catch (error: any) {
+      obsBuilder.markProvider();
+      obsBuilder.buildError(error);
+
+      throw this.toExecutionError(error, params.promptId, state);
+    }
+  }
+
+  /**
+   * Execute a streaming chat completion for a prompt. Routing and fallbacks work
+   * as in {@link chatCompletion}; a fallback target is only attempted while no
+   * chunk has been delivered yet. A single observability event is emitted once
+   * the stream ends, fails, or is abandoned by the consumer. The timeout covers
+   * the whole stream, but only a timeout before the first chunk falls through.
+   * @param typedParams Parameters for the chat completion
+   * @returns Async iterable of normalised delta chunks
    * @throws ExecutionError if prompt not found or provider fails
    */
-  async chatCompletion(
-    params: ChatCompletionParams
-  ): Promise<ChatCompletionResponse> {
+  async *streamChatCompletion<P extends PromptIdOf<T>>(
+    typedParams: TypedChatCompletionParams<T, P>
+  ): AsyncGenerator<ChatCompletionChunk, void, undefined> {
+    const params = typedParams as ChatCompletionParams;
+    const obsBuilder = this.createObservabilityBuilder(params);
+    const state: ExecutionState = {
+      variantId: 'unknown',
+      providerType: 'unknown',
+    };
+
+    let iterator: AsyncIterator<ChatCompletionChunk> | undefined;
+    let deadline: AttemptDeadline | undefined;
+    let lease: RateLimitLease | undefined;
+    let usage: ChatCompletionChunk['usage'];
+    let started:
+      | { execution: PreparedExecution; target: ExecutionTarget }
+      | undefined;
+    let finished = false;
+
+    try {
+      const execution = await this.prepareExecution(params, obsBuilder, state);
+
+      const opened = await executeWithFallback(
+        execution.targets,
+        async (provider, target) => {
+          if (!provider.streamChatCompletion) {
+            throw new ProviderError(
+              'provider-error',
+              `Provider type "${target.providerType}" does not support streaming`,
+              true
+            );
+          }
+
+          const attemptDeadline = createAttemptDeadline(
+            params.signal,
+            execution.timeoutMs
+          );
+          let lease: RateLimitLease | undefined;
+          try {
+            lease = await this.acquireRateLimit(
+              target,
+              execution.chatMessages,
+              execution.variant.parameters?.max_tokens ?? 0,
+              attemptDeadline
+            );
+            const stream = provider.streamChatCompletion(
+              this.buildCompletionOptions(
+                execution,
+                target,
+                params.userId,
+                attemptDeadline.signal
+              )
+            );
+            const it = stream[Symbol.asyncIterator]();
+            // Pull the first chunk inside the attempt so connection and auth
+            // failures can still fall through to the next target
+            const first = await attemptDeadline.run(it.next());
+            return { it, first, deadline: attemptDeadline, target, lease };
+          } catch (error) {
+            lease?.release();
+            attemptDeadline.dispose();
+            throw error;
+          }
+        },
+        target => this.getProvider(target),
+        ctx => this.recordAttempt(ctx, obsBuilder, state),
+        this.circuitBreaker,
+        params.signal
+      );
+
+      iterator = opened.it;
+      deadline = opened.deadline;
+      lease = opened.lease;
+      started = { execution, target: opened.target };
+      obsBuilder.markFirstToken();
+
+      let result = opened.first;
+      while (!result.done) {
+        const chunk = result.value;
+        if (chunk.usage) usage = chunk.usage;
+        obsBuilder.setProviderRequestId(chunk.id);
+
+        yield chunk;
+        result = await deadline.run(iterator.next());
+      }
+
+      finished = true;
+      obsBuilder.markProvider();
+      await this.chargeUsage(
+        params,
+        obsBuilder,
+        execution,
+        opened.target,
+        usage
+      );
+      obsBuilder.buildSuccess();
+    } catch (error: any) {
+      finished = true;
+      obsBuilder.markProvider();
+      obsBuilder.buildError(error);
+
+      throw this.toExecutionError(error, params.promptId, state);
+    } finally {
+      lease?.release(usage?.total_tokens);
+      deadline?.dispose();
+      if (!finished) {
+        // Consumer stopped iterating early – close the upstream stream and
+        // still report and charge the (partial) request
+        await iterator?.return?.();
+        obsBuilder.markProvider();
+        if (started) {
+          const { execution, target } = started;
+          // Without reported usage yet the pre-flight estimate is charged
+          await this.chargeUsage(
+            params,
+            obsBuilder,
+            execution,
+            target,
+            usage,
+            usage ? undefined : this.projectUsage(execution, target)
+          );
+        }
+        obsBuilder.buildSuccess();
+      }
+    }
+  }
+
+  /**
+   * Creates the observability builder at request start to capture full E2E timing
+   * @private
+   */
+  private createObservabilityBuilder(
+    params: ChatCompletionParams,
+    chain?: ChainLink
+  ): ObservabilityBuilder {
+    return new ObservabilityBuilder({
+      sdkVersion: this.sdkVersion,
+      environment: this.environment,
+      promptId: params.promptId,
+      userId: params.userId,
+      ...chain,
+      variantId: 'unknown',
+      routingReason: 'default',
+      emit: this.emitObservability,
+    });
+  }
+
+  /**
+   * Selects the variant, renders its templates and resolves the ordered list of
+   * provider targets shared by the buffered and streaming entry points.
+   * @private
+   */
+  private async prepareExecution(
+    params: ChatCompletionParams,
+    obsBuilder: ObservabilityBuilder,
+    state: ExecutionState
+  ): Promise<PreparedExecution> {
     const {
       promptId,
-      variables = {},
-      messageHistory = [],
       userId,
       tags = [],
       unixTime = Math.floor(Date.now() / 1000),
     } = params;
 
-    // Observability builder created at function start to capture full E2E timing
-    const obsBuilder = new ObservabilityBuilder({
-      sdkVersion: this.sdkVersion,
-      environment: this.environment,
+    const config = await this.getConfig();
+
+    // Fetch prompt definition
+    const prompt: Prompt | undefined = config.prompts[promptId];
+    if (!prompt) {
+      throw new ExecutionError(`Prompt not found`, {
+        promptId,
+        availablePrompts: Object.keys(config.prompts),
+      });
+    }
+
+    // ---------------------- routing & selection ----------------------
+    const {
+      variantId: selectedId,
+      variant,
+      reason,
+      weightPicked,
+    } = selectVariant({
+      prompt,
       promptId,
       userId,
-      variantId: 'unknown',
-      routingReason: 'default',
-      emit: this.emitObservability,
+      tags,
+      variantId: params.variantId,
+      now: unixTime,
     });
 
-    let variantId: string | 'unknown' = 'unknown';
-    let lastProviderType: string = 'unknown';
+    state.variantId = selectedId; // for error paths
 
-    try {
-      const config = await this.getConfig();
+    // update builder routing info
+    obsBuilder.setVariantId(selectedId);
+    obsBuilder.setRouting(reason, tags.length ? tags : undefined);
+    if (weightPicked !== undefined) {
+      obsBuilder.setExperimentContext({
+        tags,
+        weightedSelection: true,
+        selectedWeight: weightPicked,
+      });
+    }
+
+    let execution = await this.buildExecution(
+      config,
+      params,
+      selectedId,
+      variant,
+      obsBuilder
+    );
+    // Budgets are checked before any provider call, a history summary included
+    if (this.budgetTracker) {
+      execution = await this.enforceBudgets(
+        config,
+        params,
+        execution,
+        obsBuilder,
+        state
+      );
+    }
+    return this.fitToContextWindow(
+      config,
+      params,
+      execution,
+      obsBuilder,
+      state
+    );
+  }
 
-      // Fetch prompt definition
-      const prompt: Prompt | undefined = config.prompts[promptId];
-      if (!prompt) {
-        throw new ExecutionError(`Prompt not found`, {
+  /**
+   * Renders the variant and resolves its provider targets, messages, schema
+   * and tools
+   * @private
+   */
+  private async buildExecution(
+    config: PromptunaConfig,
+    params: ChatCompletionParams,
+    variantId: string,
+    variant: Variant,
+    obsBuilder: ObservabilityBuilder
+  ): Promise<PreparedExecution> {
+    const { promptId, variables = {}, messageHistory = [] } = params;
+
+    // Render template
+    const messages = await this.renderTemplate({
+      promptId,
+      variantId,
+      variables,
+    });
+    obsBuilder.markTemplate();
+
+    // ---------------------- fallback execution ----------------------
+    // Build **ordered** list of provider/model combos to attempt.
+    // 1) primary variant itself
+    // 2) any fallback targets defined in the variant
+    type BasicTarget = {
+      providerId: string;
+      model: string;
+      retry?: RetryPolicy;
+    };
+
+    const primaryTarget: BasicTarget = {
+      providerId: variant.provider,
+      model: variant.model,
+      retry: variant.retry,
+    };
+
+    const fallbackTargets: BasicTarget[] = (variant.fallback ?? []).map(fb => ({
+      providerId: fb.provider,
+      model: fb.model,
+      retry: fb.retry ?? variant.retry,
+    }));
+
+    // Enrich each target with its concrete provider type ("openai", "anthropic", ...)
+    const targets = [primaryTarget, ...fallbackTargets].map(target => {
+      const providerCfg = config.providers[target.providerId];
+
+      if (!providerCfg) {
+        // Configuration error – provider referenced in variant but not declared globally
+        throw new ExecutionError(`Provider configuration not found`, {
           promptId,
-          availablePrompts: Object.keys(config.prompts),
+          variantId,
+          providerId: target.providerId,
+          availableProviders: Object.keys(config.providers),
         });
       }
 
-      // ---------------------- routing & selection ----------------------
-      const {
-        variantId: selectedId,
-        variant,
-        reason,
-        weightPicked,
-      } = selectVariant({ prompt, promptId, userId, tags, now: unixTime });
-
-      variantId = selectedId; // for error paths
-
-      // update builder routing info
-      obsBuilder.setVariantId(selectedId);
-      obsBuilder.setRouting(reason, tags.length ? tags : undefined);
-      if (weightPicked !== undefined) {
-        obsBuilder.setExperimentContext({
-          tags,
-          weightedSelection: true,
-          selectedWeight: weightPicked,
+      return {
+        ...target,
+        providerType: providerCfg.type, // Ensures we know which concrete SDK class to instantiate
+      };
+    });
+
+    // Transform rendered template messages to ChatMessage format
+    const templateMessages: ChatMessage[] = messages.map(msg => ({
+      role: msg.role,
+      content: msg.content,
+    }));
+
+    // Combine message history with template messages; the history is trimmed
+    // to the context window once budgets allow the request
+    const chatMessages: ChatMessage[] = [
+      ...messageHistory,
+      ...templateMessages,
+    ];
+
+    // Get response schema if needed (validation guarantees it exists)
+    const responseSchema =
+      variant.responseFormat?.type === 'json_schema'
+        ? config.responseSchemas?.[variant.responseFormat.schemaRef!]
+        : undefined;
+
+    // Resolve tool references (validation guarantees they exist)
+    const tools: Tool[] | undefined = variant.tools?.map(name => ({
+      name,
+      ...config.tools![name],
+    }));
+
+    return {
+      variantId,
+      variant,
+      targets,
+      chatMessages,
+      responseSchema,
+      tools,
+      timeoutMs: params.timeoutMs ?? variant.timeoutMs,
+    };
+  }
+
+  /**
+   * Trims the message history to the context window of every target when the
+   * variant has a `truncationStrategy`. The usage of a `summarize` call is
+   * charged to budgets right away and reported with the request.
+   * @private
+   */
+  private async fitToContextWindow(
+    config: PromptunaConfig,
+    params: ChatCompletionParams,
+    execution: PreparedExecution,
+    obsBuilder: ObservabilityBuilder,
+    state: ExecutionState
+  ): Promise<PreparedExecution> {
+    const { variant, targets, timeoutMs } = execution;
+    const { messageHistory = [] } = params;
+    if (!variant.truncationStrategy) return execution;
+
+    const budgets = this.getContextBudgets(config, variant, targets);
+    if (!budgets.length) return execution;
+
+    let summary: PreparedExecution['summary'];
+    const fitted = await fitToContext({
+      strategy: variant.truncationStrategy,
+      history: messageHistory,
+      messages: execution.chatMessages.slice(messageHistory.length),
+      budgets,
+      summarize: async dropped => {
+        const result = await this.summarizeMessages(
+          targets,
+          dropped,
+          params,
+          timeoutMs,
+          obsBuilder,
+          state
+        );
+        summary = { usage: result.usage, costUsd: result.costUsd };
+        await this.recordBudgetUsage(params, result.usage, result.costUsd);
+        return result.summary;
+      },
+    });
+    obsBuilder.setTruncation(fitted.truncation);
+
+    return {
+      ...execution,
+      chatMessages: fitted.messages,
+      ...(summary && { summary }),
+    };
+  }
+
+  /**
+   * Checks the request against the runtime `budgets`. An exceeded `downgrade`
+   * limit switches to the variant's `budgetFallback` when that fits every
+   * limit; otherwise the request is rejected before any provider is called.
+   * @private
+   * @throws BudgetExceededError when no variant fits
+   */
+  private async enforceBudgets(
+    config: PromptunaConfig,
+    params: ChatCompletionParams,
+    execution: PreparedExecution,
+    obsBuilder: ObservabilityBuilder,
+    state: ExecutionState
+  ): Promise<PreparedExecution> {
+    const tracker = this.budgetTracker!;
+    const request = {
+      promptId: params.promptId,
+      userId: params.userId,
+      tenantId: params.tenantId,
+    };
+
+    let violation = await tracker.check(
+      request,
+      this.projectBudgetUsage(params, execution)
+    );
+    if (!violation) {
+      obsBuilder.setBudget({ decision: 'allowed' });
+      return execution;
+    }
+
+    const fallbackId = execution.variant.budgetFallback;
+    if (violation.limit.onExceeded === 'downgrade' && fallbackId) {
+      const fallback = await this.buildExecution(
+        config,
+        params,
+        fallbackId,
+        config.prompts[params.promptId].variants[fallbackId],
+        obsBuilder
+      );
+      const fallbackViolation = await tracker.check(
+        request,
+        this.projectBudgetUsage(params, fallback)
+      );
+      if (!fallbackViolation) {
+        state.variantId = fallbackId;
+        obsBuilder.setVariantId(fallbackId);
+        obsBuilder.setBudget({
+          decision: 'downgraded',
+          limit: violation.limit.name,
+          originalVariantId: execution.variantId,
         });
+        return fallback;
       }
+      violation = fallbackViolation;
+    }
 
-      // Render template
-      const messages = await this.getTemplate({
-        promptId,
-        variantId: selectedId,
-        variables,
-      });
-      obsBuilder.markTemplate();
-
-      // ---------------------- fallback execution ----------------------
-      // Build **ordered** list of provider/model combos to attempt.
-      // 1) primary variant itself
-      // 2) any fallback targets defined in the variant
-      type BasicTarget = { providerId: string; model: string };
+    const { limit, usage, projected } = violation;
+    obsBuilder.setBudget({ decision: 'rejected', limit: limit.name });
+    throw new BudgetExceededError(`Budget "${limit.name}" exceeded`, {
+      limit: limit.name,
+      scope: limit.scope,
+      usage,
+      projected,
+      ...(limit.maxTokens !== undefined && { maxTokens: limit.maxTokens }),
+      ...(limit.maxCostUsd !== undefined && { maxCostUsd: limit.maxCostUsd }),
+    });
+  }
 
-      const primaryTarget: BasicTarget = {
-        providerId: variant.provider,
-        model: variant.model,
-      };
+  /**
+   * Waits for the target's client-side rate limits (`config.rateLimits` of its
+   * provider), counting the call's worst-case tokens – the estimated prompt
+   * plus `maxOutputTokens` – against `tpm`
+   * @private
+   * @returns The lease to release after the call, or undefined without limits
+   * @throws ProviderError `rate-limit` when the wait would exceed `maxQueueMs`
+   */
+  private async acquireRateLimit(
+    target: ExecutionTarget,
+    messages: ChatMessage[],
+    maxOutputTokens: number,
+    deadline: AttemptDeadline
+  ): Promise<RateLimitLease | undefined> {
+    const limits = resolveRateLimits(
+      this.config?.providers[target.providerId]?.config?.rateLimits,
+      target.model
+    );
+    if (!limits) return undefined;
 
-      const fallbackTargets: BasicTarget[] = (variant.fallback ?? []).map(
-        fb => ({
-          providerId: fb.provider,
-          model: fb.model,
-        })
+    const tokens =
+      estimateTokens(messages, getTokenizer(target.providerType)) +
+      maxOutputTokens;
+    try {
+      return await this.rateLimiter.acquire(
+        target,
+        limits,
+        tokens,
+        deadline.signal
       );
+    } catch (error) {
+      throw deadline.normalize(error);
+    }
+  }
 
-      // Enrich each target with its concrete provider type ("openai", "anthropic", ...)
-      const targets = [primaryTarget, ...fallbackTargets].map(target => {
-        const providerCfg = config.providers[target.providerId];
-
-        if (!providerCfg) {
-          // Configuration error – provider referenced in variant but not declared globally
-          throw new ExecutionError(`Provider configuration not found`, {
-            promptId,
-            variantId: selectedId,
-            providerId: target.providerId,
-            availableProviders: Object.keys(config.providers),
-          });
-        }
+  /**
+   * Worst-case usage of a prepared request on a target (default: its primary
+   * target): the estimated prompt tokens plus the variant's full `max_tokens`
+   * @private
+   */
+  private projectUsage(
+    execution: PreparedExecution,
+    target: ExecutionTarget = execution.targets[0]
+  ): BudgetUsage {
+    const promptTokens = estimateTokens(
+      execution.chatMessages,
+      getTokenizer(target.providerType)
+    );
+    const completionTokens = execution.variant.parameters?.max_tokens ?? 0;
 
-        return {
-          ...target,
-          providerType: providerCfg.type, // Ensures we know which concrete SDK class to instantiate
-        };
-      });
+    return {
+      tokens: promptTokens + completionTokens,
+      costUsd:
+        this.estimateCost(target, {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+        }) ?? 0,
+    };
+  }
 
-      // Transform rendered template messages to ChatMessage format
-      const templateMessages: ChatMessage[] = messages.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      }));
+  /**
+   * Worst-case usage checked against budgets before any provider call. A
+   * variant that summarizes its history may also spend a summary reply, which
+   * is then sent along with the prompt.
+   * @private
+   */
+  private projectBudgetUsage(
+    params: ChatCompletionParams,
+    execution: PreparedExecution
+  ): BudgetUsage {
+    const projected = this.projectUsage(execution);
+    if (
+      execution.variant.truncationStrategy !== 'summarize' ||
+      !params.messageHistory?.length
+    ) {
+      return projected;
+    }
 
-      // Combine message history with template messages
-      const chatMessages: ChatMessage[] = [
-        ...messageHistory,
-        ...templateMessages,
-      ];
+    const summary = {
+      prompt_tokens: SUMMARY_MAX_TOKENS,
+      completion_tokens: SUMMARY_MAX_TOKENS,
+    };
+    return {
+      tokens: projected.tokens + 2 * SUMMARY_MAX_TOKENS,
+      costUsd:
+        projected.costUsd +
+        (this.estimateCost(execution.targets[0], summary) ?? 0),
+    };
+  }
 
-      // Get response schema if needed (validation guarantees it exists)
-      const responseSchema =
-        variant.responseFormat?.type === 'json_schema'
-          ? config.responseSchemas?.[variant.responseFormat.schemaRef!]
-          : undefined;
+  /**
+   * Counts the usage of a completed request against the runtime `budgets`
+   * @private
+   */
+  private async recordBudgetUsage(
+    params: ChatCompletionParams,
+    usage: Pick<ChatCompletionUsage, 'total_tokens'> | undefined,
+    costUsd: number | undefined
+  ): Promise<void> {
+    if (!this.budgetTracker || !usage) return;
+    await this.budgetTracker.record(
+      {
+        promptId: params.promptId,
+        userId: params.userId,
+        tenantId: params.tenantId,
+      },
+      { tokens: usage.total_tokens, costUsd: costUsd ?? 0 }
+    );
+  }
 
-      const response = await executeWithFallback<ChatCompletionResponse>(
-        targets,
-        async (provider, target) => {
-          const providerParams = buildProviderParams(
-            target.providerType as ProviderId,
-            variant.parameters ?? {}
-          );
+  /**
+   * Context budgets of the targets whose model limits are known (built-in
+   * table, `registerModel()` or the provider's `config.models`). The reserved
+   * output is the variant's `max_tokens`, capped at the model's output limit.
+   * @private
+   */
+  private getContextBudgets(
+    config: PromptunaConfig,
+    variant: Variant,
+    targets: ExecutionTarget[]
+  ): ContextBudget[] {
+    return targets.flatMap(target => {
+      const metadata = getModelMetadata(
+        target.providerType,
+        target.model,
+        config.providers[target.providerId]?.config?.models
+      );
+      if (!metadata) return [];
 
-          const options: ChatCompletionOptions = {
-            messages: chatMessages,
-            model: target.model,
-            userId,
-            responseFormat: variant.responseFormat,
-            responseSchema,
-            ...providerParams,
-          };
-
-          const res = await provider.chatCompletion(options);
-          return res;
+      return [
+        {
+          model: target.model,
+          contextWindow: metadata.contextWindow,
+          reservedOutputTokens: Math.min(
+            variant.parameters?.max_tokens ?? 0,
+            metadata.maxOutputTokens ?? Infinity
+          ),
+          tokenizer: getTokenizer(target.providerType),
         },
-        (type: string) => this.getProvider(type),
-        ctx => {
-          if (ctx.error) {
-            obsBuilder.addFallbackAttempt({
-              provider: ctx.target.providerType,
-              model: ctx.target.model,
-              reason: ctx.error.reason,
-            });
-          } else {
-            // Successful attempt – record provider used
-            obsBuilder.setProvider(ctx.target.providerType, ctx.target.model);
-            lastProviderType = ctx.target.providerType;
-          }
+      ];
+    });
+  }
+
+  /**
+   * Cost of a response at the target's pricing: the provider's `config.pricing`,
+   * then the runtime `pricing` option, then the built-in prices
+   * @private
+   */
+  private estimateCost(
+    target: ExecutionTarget,
+    usage?: Pick<ChatCompletionUsage, 'prompt_tokens' | 'completion_tokens'>
+  ): number | undefined {
+    if (!usage) return undefined;
+    const pricing = getModelPricing(
+      target.providerType,
+      target.model,
+      this.config?.providers[target.providerId]?.config?.pricing,
+      this.runtimeConfig.pricing?.[target.providerType]
+    );
+    return pricing && estimateCostUsd(usage, pricing);
+  }
+
+  /**
+   * Summarize history messages dropped by the `summarize` truncation strategy.
+   * The call runs on the variant's targets like the request itself: fallbacks,
+   * retries, circuit breaker, rate limits, timeout and the caller's signal
+   * apply, and failed attempts are reported on the request's event.
+   * @private
+   * @returns The summary with the usage and cost to charge to the request
+   */
+  private async summarizeMessages(
+    targets: ExecutionTarget[],
+    dropped: ChatMessage[],
+    params: ChatCompletionParams,
+    timeoutMs: number | undefined,
+    obsBuilder: ObservabilityBuilder,
+    state: ExecutionState
+  ): Promise<{
+    summary: string;
+    usage?: ChatCompletionUsage;
+    costUsd?: number;
+  }> {
+    const messages = buildSummaryMessages(dropped);
+    let servedBy: ExecutionTarget | undefined;
+    const response = await executeWithFallback<ChatCompletionResponse>(
+      targets,
+      async (provider, target) => {
+        servedBy = target;
+        const deadline = createAttemptDeadline(params.signal, timeoutMs);
+        let lease: RateLimitLease | undefined;
+        let usage: ChatCompletionUsage | undefined;
+        try {
+          lease = await this.acquireRateLimit(
+            target,
+            messages,
+            SUMMARY_MAX_TOKENS,
+            deadline
+          );
+          const response = await deadline.run(
+            provider.chatCompletion({
+              messages,
+              model: target.model,
+              userId: params.userId,
+              signal: deadline.signal,
+              ...buildProviderParams(target.providerType, {
+                max_tokens: SUMMARY_MAX_TOKENS,
+              }),
+            })
+          );
+          usage = response.usage;
+          return response;
+        } finally {
+          lease?.release(usage?.total_tokens);
+          deadline.dispose();
         }
-      );
+      },
+      target => this.getProvider(target),
+      ctx => {
+        // The event's provider is the one that answers the prompt itself
+        if (ctx.error) this.recordAttempt(ctx, obsBuilder, state);
+      },
+      this.circuitBreaker,
+      params.signal
+    );
 
-      // Success telemetry
-      obsBuilder.markProvider();
-      obsBuilder.setProviderRequestId(response.id);
-      obsBuilder.setTokenUsage(response.usage);
-      obsBuilder.buildSuccess();
+    return {
+      summary: response.choices[0]?.message.content ?? '',
+      usage: response.usage,
+      costUsd: this.estimateCost(servedBy!, response.usage),
+    };
+  }
 
-      return response;
-    } catch (error: any) {
-      obsBuilder.markProvider();
-      obsBuilder.buildError(error);
+  /**
+   * Reports a request's usage and cost on its event, including the call that
+   * summarized its history, and counts the request's own usage against the
+   * runtime `budgets` (the summary was charged when it was written). Without
+   * reported usage the `projected` estimate is charged instead.
+   * @private
+   * @returns The combined usage
+   */
+  private async chargeUsage(
+    params: ChatCompletionParams,
+    obsBuilder: ObservabilityBuilder,
+    execution: PreparedExecution,
+    target: ExecutionTarget,
+    usage: ChatCompletionUsage | undefined,
+    projected?: BudgetUsage
+  ): Promise<ChatCompletionUsage | undefined> {
+    const { summary } = execution;
+    const ownCost = usage
+      ? this.estimateCost(target, usage)
+      : projected?.costUsd;
+    await this.recordBudgetUsage(
+      params,
+      usage ?? (projected && { total_tokens: projected.tokens }),
+      ownCost
+    );
 
-      const errorDetails = {
-        promptId,
-        variantId,
-        provider: lastProviderType,
-        originalError: error instanceof Error ? error.message : String(error),
-        errorType: error?.constructor?.name ?? 'Error',
-        ...(error?.code && { errorCode: error.code }),
-        ...(error?.details && { providerDetails: error.details }),
-      };
+    const total = addUsage(usage, summary?.usage);
+    const costs = [ownCost, summary?.costUsd].filter(
+      (cost): cost is number => cost !== undefined
+    );
+    obsBuilder.setTokenUsage(total);
+    obsBuilder.setEstimatedCost(
+      costs.length ? costs.reduce((sum, cost) => sum + cost, 0) : undefined
+    );
+    return total;
+  }
 
-      throw new ExecutionError(
-        `Chat completion failed for ${lastProviderType}: ${error instanceof Error ? error.message : String(error)}`,
-        errorDetails
-      );
+  /**
+   * Builds the provider-agnostic options for a single target attempt
+   * @private
+   */
+  private buildCompletionOptions(
+    execution: PreparedExecution,
+    target: ExecutionTarget,
+    userId?: string,
+    signal?: AbortSignal
+  ): ChatCompletionOptions {
+    const providerParams = buildProviderParams(
+      target.providerType,
+      execution.variant.parameters ?? {}
+    );
+
+    return {
+      messages: execution.chatMessages,
+      model: target.model,
+      userId,
+      ...(signal && { signal }),
+      responseFormat: execution.variant.responseFormat,
+      responseSchema: execution.responseSchema,
+      ...(execution.tools?.length && {
+        tools: execution.tools,
+        toolChoice: execution.variant.toolChoice,
+      }),
+      ...providerParams,
+    };
+  }
+
+  /**
+   * Cache key for the primary target, or undefined when caching does not apply
+   * @private
+   */
+  private getCacheKey(
+    execution: PreparedExecution,
+    userId?: string
+  ): string | undefined {
+    if (!this.cacheStore || execution.variant.cache?.enabled === false) {
+      return undefined;
     }
+
+    const [primary] = execution.targets;
+    return buildCacheKey(
+      primary.providerType,
+      this.buildCompletionOptions(execution, primary, userId)
+    );
+  }
+
+  /**
+   * Cache lookups never fail a request – a store error counts as a miss
+   * @private
+   */
+  private async readCache(
+    key: string
+  ): Promise<ChatCompletionResponse | undefined> {
+    try {
+      return await this.cacheStore!.get(key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a response using the variant TTL (falling back to the runtime default)
+   * @private
+   */
+  private async writeCache(
+    key: string,
+    response: ChatCompletionResponse,
+    variant: Variant
+  ): Promise<void> {
+    const ttlMs =
+      variant.cache?.ttlMs ?? this.runtimeConfig.cache?.defaultTtlMs;
+    try {
+      await this.cacheStore!.set(key, response, ttlMs);
+    } catch {
+      // Caching is best-effort
+    }
+  }
+
+  /**
+   * Records the outcome of a single target attempt in telemetry
+   * @private
+   */
+  private recordAttempt(
+    ctx: FallbackCallbackContext,
+    obsBuilder: ObservabilityBuilder,
+    state: ExecutionState
+  ): void {
+    if (ctx.error) {
+      obsBuilder.addFallbackAttempt({
+        provider: ctx.target.providerType,
+        model: ctx.target.model,
+        reason: ctx.error.reason,
+        attempt: ctx.attempt,
+        ...(ctx.retryDelayMs !== undefined && {
+          retryDelayMs: ctx.retryDelayMs,
+        }),
+      });
+    } else {
+      // Successful attempt – record provider used
+      obsBuilder.setProvider(ctx.target.providerType, ctx.target.model);
+      state.providerType = ctx.target.providerType;
+    }
+  }
+
+  /**
+   * Wraps any failure in an ExecutionError carrying prompt/variant/provider context
+   * @private
+   */
+  private toExecutionError(
+    error: any,
+    promptId: string,
+    state: ExecutionState
+  ): ExecutionError {
+    const errorDetails = {
+      promptId,
+      variantId: state.variantId,
+      provider: state.providerType,
+      originalError: error instanceof Error ? error.message : String(error),
+      errorType: error?.constructor?.name ?? 'Error',
+      ...(error?.code && { errorCode: error.code }),
+      ...(error?.details && { providerDetails: error.details }),
+    };
+
+    return new ExecutionError(
+      `Chat completion failed for ${state.providerType}: ${error instanceof Error ? error.message : String(error)}`,
+      errorDetails
+    );
   }
 }
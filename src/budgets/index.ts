@@ -0,0 +1,12 @@
+export { BudgetTracker, getBudgetKey } from './tracker';
+export { MemoryBudgetStore } from './memory';
+export type {
+  BudgetScope,
+  BudgetLimit,
+  BudgetUsage,
+  BudgetStore,
+  BudgetOptions,
+  BudgetRequest,
+  BudgetViolation,
+  BudgetOutcome,
+} from './types';
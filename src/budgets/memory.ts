@@ -0,0 +1,42 @@
+import type { BudgetStore, BudgetUsage } from './types';
+
+interface UsageEntry extends BudgetUsage {
+  at: number;
+}
+
+/**
+ * In-process budget counters. Keeps one entry per recorded request and drops
+ * entries once they leave their key's window.
+ */
+export class MemoryBudgetStore implements BudgetStore {
+  private readonly entries = new Map<string, UsageEntry[]>();
+  private readonly now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  async getUsage(key: string, windowMs: number): Promise<BudgetUsage> {
+    const since = this.now() - windowMs;
+    const usage = { tokens: 0, costUsd: 0 };
+    for (const entry of this.entries.get(key) ?? []) {
+      if (entry.at <= since) continue;
+      usage.tokens += entry.tokens;
+      usage.costUsd += entry.costUsd;
+    }
+    return usage;
+  }
+
+  async record(
+    key: string,
+    usage: BudgetUsage,
+    windowMs: number
+  ): Promise<void> {
+    const now = this.now();
+    const live = (this.entries.get(key) ?? []).filter(
+      entry => entry.at > now - windowMs
+    );
+    live.push({ ...usage, at: now });
+    this.entries.set(key, live);
+  }
+}
@@ -0,0 +1,93 @@
+import { MemoryBudgetStore } from './memory';
+import type {
+  BudgetLimit,
+  BudgetOptions,
+  BudgetRequest,
+  BudgetStore,
+  BudgetUsage,
+  BudgetViolation,
+} from './types';
+
+/**
+ * Store key of a limit for a request, or undefined when the limit does not
+ * apply to it
+ */
+export function getBudgetKey(
+  limit: BudgetLimit,
+  request: BudgetRequest
+): string | undefined {
+  if (limit.promptIds && !limit.promptIds.includes(request.promptId)) {
+    return undefined;
+  }
+  const id = {
+    user: request.userId,
+    prompt: request.promptId,
+    tenant: request.tenantId,
+  }[limit.scope];
+  return id === undefined
+    ? undefined
+    : `budget:${limit.name}:${limit.scope}:${id}`;
+}
+
+function exceeds(
+  limit: BudgetLimit,
+  usage: BudgetUsage,
+  projected: BudgetUsage
+): boolean {
+  return (
+    (limit.maxTokens !== undefined &&
+      usage.tokens + projected.tokens > limit.maxTokens) ||
+    (limit.maxCostUsd !== undefined &&
+      usage.costUsd + projected.costUsd > limit.maxCostUsd)
+  );
+}
+
+/**
+ * Checks requests against the configured limits and counts their usage.
+ * Store failures never fail a request: a failed read counts as no usage, a
+ * failed write is dropped.
+ */
+export class BudgetTracker {
+  private readonly limits: BudgetLimit[];
+  private readonly store: BudgetStore;
+
+  constructor(options: BudgetOptions) {
+    this.limits = options.limits;
+    this.store = options.store ?? new MemoryBudgetStore();
+  }
+
+  /**
+   * First limit the request would exceed with its estimated usage
+   * @param request Ids the request is counted under
+   * @param projected Estimated tokens and cost of the request
+   */
+  async check(
+    request: BudgetRequest,
+    projected: BudgetUsage
+  ): Promise<BudgetViolation | undefined> {
+    for (const limit of this.limits) {
+      const key = getBudgetKey(limit, request);
+      if (!key) continue;
+
+      const usage = await this.store
+        .getUsage(key, limit.windowMs)
+        .catch(() => ({ tokens: 0, costUsd: 0 }));
+      if (exceeds(limit, usage, projected)) {
+        return { limit, usage, projected };
+      }
+    }
+    return undefined;
+  }
+
+  /** Adds the actual usage of a completed request to every applicable limit */
+  async record(request: BudgetRequest, usage: BudgetUsage): Promise<void> {
+    await Promise.all(
+      this.limits.map(limit => {
+        const key = getBudgetKey(limit, request);
+        return key
+          ? this.store.record(key, usage, limit.windowMs).catch(() => {})
+          : undefined;
+      })
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * What a limit counts usage per – each `userId`, each `promptId` or each
+ * `tenantId` passed with the request
+ */
+export type BudgetScope = 'user' | 'prompt' | 'tenant';
+
+export interface BudgetLimit {
+  /** Identifies the limit in errors, observability events and store keys */
+  name: string;
+  /** Requests without the scope's id (e.g. no `userId`) are not limited */
+  scope: BudgetScope;
+  /** Only count and limit these prompts (default: all prompts) */
+  promptIds?: string[];
+  /** Most tokens (prompt + completion) per window */
+  maxTokens?: number;
+  /** Most estimated spend in USD per window – models without pricing count as free */
+  maxCostUsd?: number;
+  /** Length of the rolling window in ms */
+  windowMs: number;
+  /**
+   * `reject` (default) fails the call; `downgrade` runs the variant's
+   * `budgetFallback` instead, and only rejects when that does not fit either
+   */
+  onExceeded?: 'reject' | 'downgrade';
+}
+
+export interface BudgetUsage {
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * Counter storage for budgets. Implement this to share budgets across
+ * processes (e.g. Redis sorted sets); every key belongs to a single limit, so
+ * its window length never changes.
+ */
+export interface BudgetStore {
+  /** Usage recorded under `key` during the last `windowMs` */
+  getUsage(key: string, windowMs: number): Promise<BudgetUsage>;
+  /** Adds usage to `key`; entries older than `windowMs` may be discarded */
+  record(key: string, usage: BudgetUsage, windowMs: number): Promise<void>;
+}
+
+/** `budgets` option on `PromptunaRuntimeConfig` */
+export interface BudgetOptions {
+  limits: BudgetLimit[];
+  /** Counter storage (default: in-memory, per process) */
+  store?: BudgetStore;
+}
+
+/** Ids a request is counted under */
+export interface BudgetRequest {
+  promptId: string;
+  userId?: string;
+  tenantId?: string;
+}
+
+/** A limit the request would exceed, with the usage it was checked against */
+export interface BudgetViolation {
+  limit: BudgetLimit;
+  /** Usage already recorded in the window */
+  usage: BudgetUsage;
+  /** Estimated usage of the request itself */
+  projected: BudgetUsage;
+}
+
+/** Recorded on observability events whenever budgets are configured */
+export interface BudgetOutcome {
+  decision: 'allowed' | 'downgraded' | 'rejected';
+  /** Limit that caused the downgrade or rejection */
+  limit?: string;
+  /** Variant picked by routing before the downgrade */
+  originalVariantId?: string;
+}
@@ -0,0 +1,7 @@
+export { MemoryCacheStore } from './memory';
+export { buildCacheKey } from './key';
+export type {
+  CacheStore,
+  ResponseCacheOptions,
+  VariantCacheConfig,
+} from './types';
@@ -0,0 +1,41 @@
+import { createHash } from 'crypto';
+import type { ChatCompletionOptions } from '../providers/types';
+
+/**
+ * Serialise a value with object keys sorted so logically equal inputs always
+ * produce the same string
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .filter(key => record[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Derive the cache key for a provider call. Covers everything that changes the
+ * model output – rendered messages, model, normalised parameters, response
+ * format and tools – but not per-request metadata such as `userId` or `signal`.
+ *
+ * @param providerType Concrete provider type the options were built for
+ * @param options Provider-agnostic options as passed to `Provider.chatCompletion`
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function buildCacheKey(
+  providerType: string,
+  options: ChatCompletionOptions
+): string {
+  const { userId, signal, ...material } = options;
+
+  return createHash('sha256')
+    .update(stableStringify({ providerType, ...material }))
+    .digest('hex');
+}
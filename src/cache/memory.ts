@@ -0,0 +1,67 @@
+import type { ChatCompletionResponse } from '../providers/types';
+import type { CacheStore } from './types';
+
+interface MemoryEntry {
+  value: ChatCompletionResponse;
+  expiresAt?: number;
+}
+
+/**
+ * In-process LRU store. Relies on `Map` keeping insertion order: reads move an
+ * entry to the back, and the front entry is evicted once `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(maxEntries = 1000, now: () => number = Date.now) {
+    this.maxEntries = maxEntries;
+    this.now = now;
+  }
+
+  async get(key: string): Promise<ChatCompletionResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(
+    key: string,
+    value: ChatCompletionResponse,
+    ttlMs?: number
+  ): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      ...(ttlMs !== undefined && { expiresAt: this.now() + ttlMs }),
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /** Number of entries currently held (expired entries included until read) */
+  get size(): number {
+    return this.entries.size;
+  }
+}
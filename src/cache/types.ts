@@ -0,0 +1,35 @@
+import type { ChatCompletionResponse } from '../providers/types';
+
+/**
+ * Storage backend for cached responses. Implement this to back the cache with
+ * Redis, Memcached, etc. – values are plain JSON-serialisable objects.
+ */
+export interface CacheStore {
+  get(key: string): Promise<ChatCompletionResponse | undefined>;
+  /** `ttlMs` is omitted when the entry should not expire */
+  set(
+    key: string,
+    value: ChatCompletionResponse,
+    ttlMs?: number
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** `cache` option on `PromptunaRuntimeConfig` – setting it enables caching */
+export interface ResponseCacheOptions {
+  /** Backing store (default: in-memory LRU) */
+  store?: CacheStore;
+  /** Capacity of the default in-memory store (default 1000) */
+  maxEntries?: number;
+  /** TTL applied when a variant does not set one; omit for no expiry */
+  defaultTtlMs?: number;
+}
+
+/** Per-variant cache settings */
+export interface VariantCacheConfig {
+  /** Set to false to never cache this variant (default true when caching is enabled) */
+  enabled?: boolean;
+  /** Overrides `ResponseCacheOptions.defaultTtlMs` */
+  ttlMs?: number;
+}
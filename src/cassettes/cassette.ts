@@ -0,0 +1,171 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { ConfigurationError } from '../config/types';
+import { CassetteMismatchError } from '../errors';
+import type { ChatCompletionOptions } from '../providers/types';
+import type {
+  CassetteFile,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+} from './types';
+
+/** Per-request metadata that never changes the model output */
+const ALWAYS_IGNORED = ['signal', 'userId'];
+
+/** Copy of a JSON value with object keys sorted and `undefined` entries dropped */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .filter(key => record[key] !== undefined)
+        .map(key => [key, sortKeys(record[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Request/response pairs of provider calls, stored in a JSON file. Requests
+ * are matched on their normalised options, so a replayed run must render the
+ * same messages with the same model and parameters as the recorded one. A
+ * request recorded again replaces the earlier interaction.
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  readonly path: string;
+  private readonly ignore: Set<string>;
+  private interactions?: Promise<Map<string, CassetteInteraction>>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: CassetteOptions) {
+    this.mode = options.mode;
+    this.path = resolve(options.path);
+    this.ignore = new Set([...ALWAYS_IGNORED, ...(options.ignore ?? [])]);
+  }
+
+  /** Options as stored in and matched against the cassette */
+  normalize(options: ChatCompletionOptions): Record<string, unknown> {
+    const kept = Object.fromEntries(
+      Object.entries(options).filter(([key]) => !this.ignore.has(key))
+    );
+    return sortKeys(JSON.parse(JSON.stringify(kept))) as Record<
+      string,
+      unknown
+    >;
+  }
+
+  /**
+   * Find the recorded interaction for a request
+   * @throws CassetteMismatchError if nothing was recorded for it
+   * @throws ConfigurationError if the cassette file is missing or invalid
+   */
+  async find(
+    providerId: string,
+    stream: boolean,
+    options: ChatCompletionOptions
+  ): Promise<CassetteInteraction> {
+    const request = this.normalize(options);
+    const interactions = await this.load();
+    const match = interactions.get(this.key(providerId, stream, request));
+    if (match) return structuredClone(match);
+
+    throw new CassetteMismatchError(
+      `No recorded ${stream ? 'streamed ' : ''}request to "${providerId}" matches in cassette ${this.path}`,
+      {
+        cassette: this.path,
+        providerId,
+        stream,
+        request,
+        recorded: [...interactions.values()].filter(
+          interaction => interaction.providerId === providerId
+        ).length,
+      }
+    );
+  }
+
+  /** Add (or replace) an interaction and rewrite the cassette file */
+  async record(
+    providerId: string,
+    stream: boolean,
+    options: ChatCompletionOptions,
+    result: Pick<CassetteInteraction, 'response' | 'chunks'>
+  ): Promise<void> {
+    const request = this.normalize(options);
+    const interactions = await this.load();
+    interactions.set(
+      this.key(providerId, stream, request),
+      JSON.parse(JSON.stringify({ providerId, stream, request, ...result }))
+    );
+
+    const file: CassetteFile = {
+      version: 1,
+      interactions: [...interactions.values()],
+    };
+    // Chained so concurrent requests never interleave writes of the same file
+    const write = this.writes.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`);
+    });
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+
+  private key(
+    providerId: string,
+    stream: boolean,
+    request: Record<string, unknown>
+  ): string {
+    return JSON.stringify([providerId, stream, request]);
+  }
+
+  private load(): Promise<Map<string, CassetteInteraction>> {
+    this.interactions ??= this.read();
+    return this.interactions;
+  }
+
+  private async read(): Promise<Map<string, CassetteInteraction>> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf-8');
+    } catch (error: any) {
+      // Recording starts a new cassette; replaying needs an existing one
+      if (this.mode === 'record' && error?.code === 'ENOENT') return new Map();
+      throw new ConfigurationError(`Failed to read cassette: ${this.path}`, {
+        path: this.path,
+        error: error?.message ?? error,
+      });
+    }
+
+    let file: CassetteFile;
+    try {
+      file = JSON.parse(text);
+    } catch (error: any) {
+      throw new ConfigurationError(`Invalid JSON in cassette: ${this.path}`, {
+        path: this.path,
+        error: error.message,
+      });
+    }
+    if (!Array.isArray(file?.interactions)) {
+      throw new ConfigurationError(
+        `Cassette ${this.path} has no "interactions" array`,
+        { path: this.path }
+      );
+    }
+
+    return new Map(
+      file.interactions.map(interaction => [
+        this.key(
+          interaction.providerId,
+          interaction.stream ?? false,
+          // Keys ignored now may have been recorded
+          this.normalize(interaction.request as ChatCompletionOptions)
+        ),
+        interaction,
+      ])
+    );
+  }
+}
@@ -0,0 +1,8 @@
+export { Cassette } from './cassette';
+export { createRecordingProvider, createReplayProvider } from './provider';
+export type {
+  CassetteMode,
+  CassetteOptions,
+  CassetteInteraction,
+  CassetteFile,
+} from './types';
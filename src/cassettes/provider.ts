@@ -0,0 +1,60 @@
+import type {
+  ChatCompletionChunk,
+  ChatCompletionOptions,
+  Provider,
+} from '../providers/types';
+import type { Cassette } from './cassette';
+
+/**
+ * Wrap a real provider so every successful call is saved to the cassette.
+ * Streams are saved once fully consumed; failed calls are not recorded.
+ */
+export function createRecordingProvider(
+  provider: Provider,
+  cassette: Cassette,
+  providerId: string
+): Provider {
+  const recording: Provider = {
+    async chatCompletion(options) {
+      const response = await provider.chatCompletion(options);
+      await cassette.record(providerId, false, options, { response });
+      return response;
+    },
+  };
+
+  if (provider.streamChatCompletion) {
+    const stream = provider.streamChatCompletion.bind(provider);
+    recording.streamChatCompletion = async function* (
+      options: ChatCompletionOptions
+    ) {
+      const chunks: ChatCompletionChunk[] = [];
+      for await (const chunk of stream(options)) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      await cassette.record(providerId, true, options, { chunks });
+    };
+  }
+
+  return recording;
+}
+
+/**
+ * Provider answering from the cassette alone – never touches the network and
+ * needs no API key
+ */
+export function createReplayProvider(
+  cassette: Cassette,
+  providerId: string
+): Provider {
+  return {
+    async chatCompletion(options) {
+      const { response } = await cassette.find(providerId, false, options);
+      return response!;
+    },
+    async *streamChatCompletion(options) {
+      const { chunks } = await cassette.find(providerId, true, options);
+      yield* chunks ?? [];
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+} from '../providers/types';
+
+/**
+ * - `record` – call the real providers and save every request/response pair
+ * - `replay` – answer from the cassette only; unmatched requests throw
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/** `cassette` option on `PromptunaRuntimeConfig` */
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** JSON file the interactions are written to and read from */
+  path: string;
+  /**
+   * Option keys left out when matching requests, in addition to `signal` and
+   * `userId` (e.g. `temperature` when it varies between runs)
+   */
+  ignore?: string[];
+}
+
+/** One provider call as stored in a cassette */
+export interface CassetteInteraction {
+  providerId: string;
+  /** Streamed calls are matched separately from buffered ones */
+  stream: boolean;
+  /** Normalised `ChatCompletionOptions` – keys sorted, ignored keys removed */
+  request: Record<string, unknown>;
+  /** Buffered calls only */
+  response?: ChatCompletionResponse;
+  /** Streamed calls only – every chunk in order */
+  chunks?: ChatCompletionChunk[];
+}
+
+/** Contents of a cassette file */
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
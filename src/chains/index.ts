@@ -0,0 +1,23 @@
+export {
+  executeChain,
+  getPath,
+  getStepId,
+  isConditionMet,
+  isParallelStep,
+} from './runner';
+export type {
+  ChainStepExecutor,
+  ChainStepRequest,
+  ChainStepExecution,
+  ExecuteChainOptions,
+} from './runner';
+export type {
+  ChainPath,
+  ChainCondition,
+  ChainPromptStep,
+  ChainParallelStep,
+  ChainStep,
+  RunChainParams,
+  ChainStepResult,
+  ChainResult,
+} from './types';
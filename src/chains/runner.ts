@@ -0,0 +1,254 @@
+import { isDeepStrictEqual } from 'util';
+import { ExecutionError } from '../config/types';
+import type { ChatCompletionResponse } from '../providers/types';
+import type {
+  ChainCondition,
+  ChainParallelStep,
+  ChainPath,
+  ChainPromptStep,
+  ChainResult,
+  ChainStep,
+  ChainStepResult,
+} from './types';
+
+/** A single prompt execution requested by the chain runner */
+export interface ChainStepRequest {
+  stepId: string;
+  promptId: string;
+  variantId?: string;
+  variables: Record<string, any>;
+}
+
+/** Result of a prompt execution – `structured` when the variant used a `json_schema` response format */
+export interface ChainStepExecution {
+  response: ChatCompletionResponse;
+  variantId: string;
+  structured: boolean;
+}
+
+export type ChainStepExecutor = (
+  request: ChainStepRequest
+) => Promise<ChainStepExecution>;
+
+export interface ExecuteChainOptions {
+  /** Steps in order – the first one is usually the chain's own prompt */
+  steps: ChainStep[];
+  /** Input variables visible to every step */
+  input: Record<string, any>;
+  /** Parent request id reported in errors */
+  requestId: string;
+  execute: ChainStepExecutor;
+}
+
+export function isParallelStep(step: ChainStep): step is ChainParallelStep {
+  return Array.isArray((step as ChainParallelStep).parallel);
+}
+
+/** Output key of a step – undefined for an anonymous parallel group */
+export function getStepId(step: ChainStep): string | undefined {
+  return step.id ?? (isParallelStep(step) ? undefined : step.prompt);
+}
+
+/**
+ * Resolve a dot path (`classify.labels.0`) against the outputs collected so far
+ */
+export function getPath(
+  outputs: Record<string, unknown>,
+  path: ChainPath
+): unknown {
+  return path.split('.').reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== 'object') return undefined;
+    return (current as Record<string, unknown>)[segment];
+  }, outputs);
+}
+
+export function isConditionMet(
+  condition: ChainCondition,
+  outputs: Record<string, unknown>
+): boolean {
+  const value = getPath(outputs, condition.path);
+
+  if (
+    condition.exists !== undefined &&
+    condition.exists !== (value !== undefined && value !== null)
+  ) {
+    return false;
+  }
+  if ('equals' in condition && !isDeepStrictEqual(value, condition.equals)) {
+    return false;
+  }
+  if (
+    'notEquals' in condition &&
+    isDeepStrictEqual(value, condition.notEquals)
+  ) {
+    return false;
+  }
+  if (
+    condition.in &&
+    !condition.in.some(candidate => isDeepStrictEqual(value, candidate))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Run chain steps in order. Each prompt step receives the chain input
+ * overlaid with its `map`ped variables; its output is stored under its id for
+ * later steps. `parallel` groups and `forEach` steps fan out concurrently and
+ * fan back in as a single stored output.
+ *
+ * @throws ExecutionError naming the failed step (`details.chainStepId`)
+ */
+export async function executeChain(
+  options: ExecuteChainOptions
+): Promise<ChainResult> {
+  const { steps, input, requestId, execute } = options;
+  const outputs: Record<string, unknown> = {};
+  const results: ChainStepResult[] = [];
+  let output: unknown;
+
+  const runOnce = async (
+    step: ChainPromptStep,
+    resultId: string,
+    variables: Record<string, any>
+  ): Promise<ChainStepResult> => {
+    let execution: ChainStepExecution;
+    try {
+      execution = await execute({
+        stepId: resultId,
+        promptId: step.prompt,
+        variantId: step.variant,
+        variables,
+      });
+    } catch (error: any) {
+      throw new ExecutionError(
+        `Chain step "${resultId}" failed: ${error?.message ?? error}`,
+        {
+          ...(error instanceof ExecutionError && error.details),
+          chainStepId: resultId,
+          parentRequestId: requestId,
+        }
+      );
+    }
+
+    const { response, variantId, structured } = execution;
+    const content = response.choices[0]?.message.content ?? '';
+    const asJson = (step.output ?? (structured ? 'json' : 'text')) === 'json';
+
+    return {
+      id: resultId,
+      promptId: step.prompt,
+      status: 'completed',
+      variantId,
+      // Schema-validated answers are already parsed
+      output: !asJson
+        ? content
+        : response.parsed !== undefined
+          ? response.parsed
+          : parseJsonOutput(content, resultId, requestId),
+      response,
+    };
+  };
+
+  /** Runs a prompt step and returns its per-execution results in order */
+  const runPromptStep = async (
+    step: ChainPromptStep
+  ): Promise<{ value: unknown; executions: ChainStepResult[] }> => {
+    const id = getStepId(step)!;
+    const variables = { ...input };
+    for (const [name, path] of Object.entries(step.map ?? {})) {
+      variables[name] = getPath(outputs, path);
+    }
+
+    if (step.forEach === undefined) {
+      const execution = await runOnce(step, id, variables);
+      return { value: execution.output, executions: [execution] };
+    }
+
+    const items = getPath(outputs, step.forEach);
+    if (!Array.isArray(items)) {
+      throw new ExecutionError(
+        `Chain step "${id}" expected an array at "${step.forEach}"`,
+        {
+          chainStepId: id,
+          parentRequestId: requestId,
+          actualType: typeof items,
+        }
+      );
+    }
+
+    const executions = await Promise.all(
+      items.map((item, index) =>
+        runOnce(step, `${id}[${index}]`, {
+          ...variables,
+          [step.as ?? 'item']: item,
+          index,
+        })
+      )
+    );
+    return { value: executions.map(e => e.output), executions };
+  };
+
+  for (const step of steps) {
+    const stepId = getStepId(step);
+
+    if (step.when && !isConditionMet(step.when, outputs)) {
+      const skipped = isParallelStep(step)
+        ? step.parallel.map(branch => getStepId(branch)!)
+        : [stepId!];
+      for (const id of skipped) results.push({ id, status: 'skipped' });
+      continue;
+    }
+
+    if (!isParallelStep(step)) {
+      const { value, executions } = await runPromptStep(step);
+      outputs[stepId!] = value;
+      results.push(...executions);
+      output = value;
+      continue;
+    }
+
+    // Branches only see outputs from before the group, never each other's
+    const active = step.parallel.filter(
+      branch => !branch.when || isConditionMet(branch.when, outputs)
+    );
+    const settled = await Promise.all(active.map(runPromptStep));
+
+    const group: Record<string, unknown> = {};
+    for (const branch of step.parallel) {
+      const index = active.indexOf(branch);
+      const id = getStepId(branch)!;
+      if (index === -1) {
+        results.push({ id, status: 'skipped' });
+        continue;
+      }
+      outputs[id] = settled[index].value;
+      group[id] = settled[index].value;
+      results.push(...settled[index].executions);
+    }
+    if (stepId) outputs[stepId] = group;
+    output = group;
+  }
+
+  return { requestId, output, outputs, steps: results };
+}
+
+function parseJsonOutput(
+  content: string,
+  stepId: string,
+  requestId: string
+): unknown {
+  try {
+    return JSON.parse(content);
+  } catch (error: any) {
+    throw new ExecutionError(
+      `Chain step "${stepId}" did not return valid JSON`,
+      {
+        chainStepId: stepId,
+        parentRequestId: requestId,
+        error: error.message,
+      }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import type { ChatCompletionParams } from '../config/types';
+import type { ChatCompletionResponse } from '../providers/types';
+
+/**
+ * Dot path into the outputs of earlier steps, keyed by step id – e.g.
+ * `"classify"` (the whole output) or `"classify.category"` / `"items.0"`
+ */
+export type ChainPath = string;
+
+/**
+ * Gate a step on an earlier output. Every check given must hold; a step whose
+ * condition fails is skipped.
+ */
+export interface ChainCondition {
+  path: ChainPath;
+  equals?: unknown;
+  notEquals?: unknown;
+  in?: unknown[];
+  /** `true` – value must be present, `false` – value must be absent */
+  exists?: boolean;
+}
+
+interface ChainStepBase {
+  /** Key the step's output is stored under; defaults to the prompt id */
+  id?: string;
+  when?: ChainCondition;
+}
+
+/** Runs one prompt (once, or once per item with `forEach`) */
+export interface ChainPromptStep extends ChainStepBase {
+  prompt: string;
+  /** Pins the variant; routing picks one when omitted */
+  variant?: string;
+  /** Variables for this step: `variableName → path` into earlier outputs */
+  map?: Record<string, ChainPath>;
+  /**
+   * How the response is stored: `text` keeps the message content, `json`
+   * parses it. Defaults to `json` for `json_schema` variants, else `text`.
+   */
+  output?: 'text' | 'json';
+  /** Fan-out – run once per element of the array at this path; the output is the array of results */
+  forEach?: ChainPath;
+  /** Variable holding the current element in a `forEach` step (default `item`) */
+  as?: string;
+}
+
+/**
+ * Fan-out – runs its steps concurrently. Each branch stores its own output;
+ * the group output (under `id`, if given) maps branch ids to their outputs.
+ */
+export interface ChainParallelStep extends ChainStepBase {
+  parallel: ChainPromptStep[];
+}
+
+export type ChainStep = ChainPromptStep | ChainParallelStep;
+
+/** Parameters for `runChain()` – the chain's input variables are visible to every step */
+export type RunChainParams = Omit<ChatCompletionParams, 'messageHistory'>;
+
+/** Outcome of a single prompt execution within a chain */
+export interface ChainStepResult {
+  /** Step id; `forEach` executions are suffixed with the item index (`summarise[2]`) */
+  id: string;
+  promptId?: string;
+  status: 'completed' | 'skipped';
+  variantId?: string;
+  output?: unknown;
+  response?: ChatCompletionResponse;
+}
+
+export interface ChainResult {
+  /** Parent request id shared by the observability events of every step */
+  requestId: string;
+  /** Output of the last step that ran */
+  output: unknown;
+  /** Outputs of every completed step, keyed by step id */
+  outputs: Record<string, unknown>;
+  steps: ChainStepResult[];
+}
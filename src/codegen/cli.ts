@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+
+import { writeFile } from 'fs/promises';
+import { basename, resolve } from 'path';
+import { loadAndValidateConfig } from '../validation/index.js';
+import { loadFilterModule } from '../validation/filterModule.js';
+import { generateTypes } from './generate.js';
+
+(async () => {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Promptuna Type Generator
+
+Usage: promptuna-codegen <config-file> [options]
+
+Options:
+  -o, --out <file>         Write the declarations to a file instead of stdout
+  --import-from <module>   Module to import Promptuna types from (default: promptuna)
+  --filters <module>       JS module exporting the app's custom template filters
+  -h, --help               Show this help message
+
+Examples:
+  promptuna-codegen promptuna.json -o src/promptuna.generated.d.ts
+  promptuna-codegen config.yaml > prompts.d.ts
+`);
+    process.exit(0);
+  }
+
+  const option = (...names: string[]) => {
+    const index = args.findIndex(arg => names.includes(arg));
+    return index === -1 ? undefined : args[index + 1];
+  };
+  const out = option('-o', '--out');
+  const importFrom = option('--import-from');
+  const filtersModule = option('--filters');
+  const configPath = resolve(args[0]);
+
+  try {
+    const filters = filtersModule
+      ? await loadFilterModule(filtersModule)
+      : undefined;
+    const config = await loadAndValidateConfig(configPath, { filters });
+    const output = generateTypes(config, {
+      source: basename(configPath),
+      importFrom,
+    });
+
+    if (out) {
+      await writeFile(resolve(out), output);
+      console.log(
+        `✅ Generated types for ${Object.keys(config.prompts).length} prompts → ${out}`
+      );
+    } else {
+      process.stdout.write(output);
+    }
+
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Type generation failed:', error.message);
+    process.exit(1);
+  }
+})();
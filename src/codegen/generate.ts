@@ -0,0 +1,238 @@
+import { Liquid } from 'liquidjs';
+import type { PromptunaConfig, Variant } from '../config/types.js';
+import { registerCustomFilters } from '../templates/filters.js';
+import {
+  getBinaryVariables,
+  getMessageTemplates,
+  getTemplateVariables,
+} from '../templates/analysis.js';
+import { isVariableRequired } from '../templates/variables.js';
+import type { VariableType } from '../templates/types.js';
+import { schemaToTypeScript, toPropertyKey, toTypeName } from './schemaToTs.js';
+
+export interface GenerateTypesOptions {
+  /** Config file name mentioned in the header comment */
+  source?: string;
+  /** Module the generated file imports Promptuna types from (default `promptuna`) */
+  importFrom?: string;
+}
+
+/** Merged view of how a variable is used across the templates of a prompt */
+interface VariableNode {
+  /** Read by a binary part – typed as `BinaryInput` */
+  binary: boolean;
+  /** Used in a way that says nothing about its shape (`items.size`, `items[0]`) */
+  opaque: boolean;
+  /** TypeScript type from the prompt's variable declaration */
+  declared?: string;
+  children: Map<string, VariableNode>;
+}
+
+/** TypeScript types of declared variable types; `any`/`object` fall back to template analysis */
+const DECLARED_TYPES: Partial<Record<VariableType, string>> = {
+  string: 'string',
+  number: 'number',
+  integer: 'number',
+  boolean: 'boolean',
+  array: 'unknown[]',
+  binary: 'BinaryInput',
+};
+
+/** Liquid properties available on arrays and strings, not object keys */
+const SPECIAL_PROPERTIES = new Set(['size', 'first', 'last']);
+
+const createNode = (): VariableNode => ({
+  binary: false,
+  opaque: false,
+  children: new Map(),
+});
+
+function addPath(root: VariableNode, path: string[], indexed: boolean): void {
+  let node = root;
+  for (const [index, segment] of path.entries()) {
+    if (index > 0 && SPECIAL_PROPERTIES.has(segment)) {
+      node.opaque = true;
+      return;
+    }
+    let child = node.children.get(segment);
+    if (!child) {
+      child = createNode();
+      node.children.set(segment, child);
+    }
+    node = child;
+  }
+  if (indexed) node.opaque = true;
+}
+
+function renderNode(node: VariableNode, depth: number): string {
+  if (node.declared) return node.declared;
+  if (node.binary) return 'BinaryInput';
+  if (node.opaque || !node.children.size) return 'unknown';
+  return renderMembers(
+    [...node.children].map(([key, child]) => [key, child, true]),
+    depth
+  );
+}
+
+function renderMembers(
+  members: [string, VariableNode, boolean][],
+  depth: number
+): string {
+  if (!members.length) return 'Record<string, never>';
+  const pad = '  '.repeat(depth + 1);
+  const lines = members.map(
+    ([key, node, required]) =>
+      `${pad}${toPropertyKey(key)}${required ? '' : '?'}: ${renderNode(node, depth + 1)};`
+  );
+  return `{\n${lines.join('\n')}\n${'  '.repeat(depth)}}`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Generate a `.d.ts` module describing a config's prompts: a
+ * `PromptunaGenerated` interface (variant ids, variables and parsed response
+ * type of every prompt) for `new Promptuna<PromptunaGenerated>(...)`, a
+ * `PromptId` union and one type per entry of `responseSchemas`.
+ *
+ * Prompts with a `variables` section are typed from the declarations. Otherwise
+ * variables are found by static Liquid analysis: a variable referenced by every
+ * variant of a prompt is required, one referenced by only some variants is
+ * optional. Dotted paths (`user.name`) produce object types, binary part
+ * variables are `BinaryInput` and everything else is `unknown`.
+ * @param config A validated configuration
+ * @throws The Liquid parse error of an invalid template
+ */
+export function generateTypes(
+  config: PromptunaConfig,
+  options: GenerateTypesOptions = {}
+): string {
+  const { source, importFrom = 'promptuna' } = options;
+  const liquid = new Liquid({ templates: config.partials ?? {} });
+  registerCustomFilters(liquid);
+
+  const schemaNames = new Map<string, string>();
+  const schemaDeclarations: string[] = [];
+  for (const [schemaId, schema] of Object.entries(
+    config.responseSchemas ?? {}
+  )) {
+    const { name, declarations } = schemaToTypeScript(
+      toTypeName(schemaId),
+      schema
+    );
+    schemaNames.set(schemaId, name);
+    schemaDeclarations.push(...declarations);
+  }
+
+  const variantVariables = (variant: Variant): [VariableNode, Set<string>] => {
+    const root = createNode();
+    (variant.messages ?? []).forEach((message, index) => {
+      for (const { template } of getMessageTemplates(message, `${index}`)) {
+        for (const { path, indexed } of getTemplateVariables(
+          liquid,
+          template
+        )) {
+          addPath(root, path, indexed);
+        }
+      }
+      for (const name of getBinaryVariables(message)) {
+        addPath(root, [name], false);
+        root.children.get(name)!.binary = true;
+      }
+    });
+    return [root, new Set(root.children.keys())];
+  };
+
+  let usesBinary = false;
+  const promptEntries = Object.entries(config.prompts).map(
+    ([promptId, prompt]) => {
+      const variants = Object.entries(prompt.variants ?? {});
+      const merged = createNode();
+      const perVariant: Set<string>[] = [];
+      const parsed = new Set<string>();
+
+      for (const [, variant] of variants) {
+        const [root, names] = variantVariables(variant);
+        perVariant.push(names);
+        mergeNodes(merged, root);
+
+        if (variant.responseFormat?.type === 'json_schema') {
+          const schemaRef = variant.responseFormat.schemaRef;
+          parsed.add((schemaRef && schemaNames.get(schemaRef)) ?? 'unknown');
+        }
+      }
+
+      const members = prompt.variables
+        ? Object.entries(prompt.variables).map(
+            ([name, definition]): [string, VariableNode, boolean] => {
+              const node = merged.children.get(name) ?? createNode();
+              node.declared =
+                definition.type && DECLARED_TYPES[definition.type];
+              if (definition.type === 'object' && !node.children.size) {
+                node.declared = 'Record<string, unknown>';
+              }
+              return [name, node, isVariableRequired(definition)];
+            }
+          )
+        : [...merged.children].map(
+            ([name, node]): [string, VariableNode, boolean] => [
+              name,
+              node,
+              perVariant.every(names => names.has(name)),
+            ]
+          );
+      usesBinary ||= members.some(([, node]) =>
+        renderNode(node, 0).includes('BinaryInput')
+      );
+      const variantUnion = variants.length
+        ? variants.map(([variantId]) => quote(variantId)).join(' | ')
+        : 'never';
+
+      return [
+        `    ${toPropertyKey(promptId)}: {`,
+        `      variants: ${variantUnion};`,
+        `      variables: ${renderMembers(members, 3)};`,
+        `      parsed: ${parsed.size ? [...parsed].join(' | ') : 'never'};`,
+        `    };`,
+      ].join('\n');
+    }
+  );
+
+  const sections = [
+    [
+      '/**',
+      ` * Generated by promptuna-codegen${source ? ` from ${source}` : ''} – do not edit.`,
+      ' * Use with `new Promptuna<PromptunaGenerated>(...)`.',
+      ' */',
+      ...(usesBinary
+        ? [`import type { BinaryInput } from ${quote(importFrom)};`]
+        : []),
+    ].join('\n'),
+    ...schemaDeclarations,
+    [
+      'export interface PromptunaGenerated {',
+      '  prompts: {',
+      ...promptEntries,
+      '  };',
+      '}',
+    ].join('\n'),
+    "export type PromptId = keyof PromptunaGenerated['prompts'];",
+  ];
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function mergeNodes(target: VariableNode, source: VariableNode): void {
+  target.binary ||= source.binary;
+  target.opaque ||= source.opaque;
+  for (const [key, child] of source.children) {
+    let existing = target.children.get(key);
+    if (!existing) {
+      existing = createNode();
+      target.children.set(key, existing);
+    }
+    mergeNodes(existing, child);
+  }
+}
@@ -0,0 +1,16 @@
+export { generateTypes } from './generate';
+export type { GenerateTypesOptions } from './generate';
+export { schemaToTypeScript } from './schemaToTs';
+export type { SchemaDeclarations } from './schemaToTs';
+export type {
+  PromptTypes,
+  PromptunaTypes,
+  UntypedPromptunaTypes,
+  PromptIdOf,
+  VariantIdOf,
+  VariablesOf,
+  ParsedOf,
+  TypedChatCompletionParams,
+  TypedRunChainParams,
+  TypedGetTemplateParams,
+} from './types';
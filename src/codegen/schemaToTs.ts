@@ -0,0 +1,193 @@
+/** Named TypeScript declarations produced for one JSON Schema */
+export interface SchemaDeclarations {
+  /** Name of the type describing the schema root */
+  name: string;
+  /** `export type`/`export interface` declarations, root first */
+  declarations: string[];
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** A schema that is not a boolean – keywords are read as they are found */
+type SchemaObject = Record<string, unknown>;
+
+function isSchemaObject(value: unknown): value is SchemaObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+const asSchemaObject = (value: unknown): SchemaObject =>
+  isSchemaObject(value) ? value : {};
+
+/**
+ * `user_profile`, `user-profile` and `userProfile` all become `UserProfile`
+ */
+export function toTypeName(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(pascal) ? pascal : `T${pascal}`;
+}
+
+/** Property key as written in a type literal */
+export function toPropertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function indent(text: string, depth: number): string {
+  const pad = '  '.repeat(depth);
+  return text
+    .split('\n')
+    .map(line => (line ? pad + line : line))
+    .join('\n');
+}
+
+function docComment(schema: unknown): string {
+  const { title, description } = asSchemaObject(schema);
+  const text = [title, description]
+    .filter(value => typeof value === 'string' && value.trim())
+    .join(' – ');
+  return text ? `/** ${text.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+/** Whether a type is a single `{ ... }` literal (and can become an interface) */
+function isObjectLiteral(type: string): boolean {
+  if (!type.startsWith('{')) return false;
+  let depth = 0;
+  for (let i = 0; i < type.length; i++) {
+    if (type[i] === '{') depth++;
+    if (type[i] === '}' && --depth === 0) return i === type.length - 1;
+  }
+  return false;
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length ? unique.join(' | ') : 'never';
+}
+
+/**
+ * Convert a JSON Schema (draft 2020-12 / draft-07 subset) to TypeScript type
+ * declarations. Local `$defs`/`definitions` become their own named types;
+ * anything the converter does not understand (remote `$ref`s, `not`,
+ * conditionals) is typed as `unknown` rather than guessed.
+ * @param name Name of the root type
+ * @param schema The JSON Schema
+ */
+export function schemaToTypeScript(
+  name: string,
+  schema: unknown
+): SchemaDeclarations {
+  const root = asSchemaObject(schema);
+  const definitions: SchemaObject = {
+    ...asSchemaObject(root.definitions),
+    ...asSchemaObject(root.$defs),
+  };
+  const definitionName = (key: string) => `${name}${toTypeName(key)}`;
+
+  const convert = (node: unknown): string => {
+    if (node === true || node === undefined) return 'unknown';
+    if (node === false) return 'never';
+    if (!isSchemaObject(node)) return 'unknown';
+
+    const { $ref } = node;
+    if (typeof $ref === 'string') {
+      if ($ref === '#') return name;
+      const match = /^#\/(?:\$defs|definitions)\/([^/]+)$/.exec($ref);
+      return match && match[1] in definitions
+        ? definitionName(match[1])
+        : 'unknown';
+    }
+
+    if ('const' in node) return JSON.stringify(node.const);
+    if (Array.isArray(node.enum)) {
+      return union(node.enum.map((value: unknown) => JSON.stringify(value)));
+    }
+
+    const variants = node.anyOf ?? node.oneOf;
+    if (Array.isArray(variants)) {
+      return union(variants.map(variant => wrap(convert(variant))));
+    }
+    if (Array.isArray(node.allOf)) {
+      return node.allOf.map(part => wrap(convert(part))).join(' & ');
+    }
+
+    const types: unknown[] = Array.isArray(node.type)
+      ? node.type
+      : node.type
+        ? [node.type]
+        : node.properties
+          ? ['object']
+          : node.items
+            ? ['array']
+            : [];
+    if (!types.length) return 'unknown';
+
+    return union(types.map(type => convertType(type, node)));
+  };
+
+  const wrap = (type: string) =>
+    !isObjectLiteral(type) && (type.includes(' | ') || type.includes(' & '))
+      ? `(${type})`
+      : type;
+
+  const convertType = (type: unknown, node: SchemaObject): string => {
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        if (Array.isArray(node.prefixItems)) {
+          return `[${node.prefixItems.map(convert).join(', ')}]`;
+        }
+        return `${wrap(convert(node.items))}[]`;
+      case 'object':
+        return convertObject(node);
+      default:
+        return 'unknown';
+    }
+  };
+
+  const convertObject = (node: SchemaObject): string => {
+    const required = new Set(Array.isArray(node.required) ? node.required : []);
+    const members = Object.entries(asSchemaObject(node.properties)).map(
+      ([key, property]) =>
+        `${docComment(property)}${toPropertyKey(key)}${
+          required.has(key) ? '' : '?'
+        }: ${convert(property)};`
+    );
+
+    const additional = node.additionalProperties;
+    if (additional !== false && (additional || !node.properties)) {
+      members.push(`[key: string]: ${convert(additional)};`);
+    }
+
+    return members.length
+      ? `{\n${indent(members.join('\n'), 1)}\n}`
+      : 'Record<string, never>';
+  };
+
+  const declare = (typeName: string, node: unknown): string => {
+    const type = convert(node);
+    return isObjectLiteral(type)
+      ? `${docComment(node)}export interface ${typeName} ${type}`
+      : `${docComment(node)}export type ${typeName} = ${type};`;
+  };
+
+  return {
+    name,
+    declarations: [
+      declare(name, schema),
+      ...Object.entries(definitions).map(([key, definition]) =>
+        declare(definitionName(key), definition)
+      ),
+    ],
+  };
+}
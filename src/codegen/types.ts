@@ -0,0 +1,76 @@
+import type { ChatCompletionParams } from '../config/types.js';
+
+/** What the generated types record about a single prompt */
+export interface PromptTypes {
+  /** Union of the prompt's variant ids */
+  variants: string;
+  /** Variables referenced by the prompt's templates */
+  variables: Record<string, unknown>;
+  /** Type of `response.parsed` – the variants' response schemas */
+  parsed: unknown;
+}
+
+/**
+ * Shape of the `PromptunaGenerated` interface emitted by `promptuna-codegen`,
+ * used as the type argument of `Promptuna<T>`
+ */
+export interface PromptunaTypes {
+  prompts: Record<string, PromptTypes>;
+}
+
+/** Type argument of an untyped `Promptuna` – any prompt id, any variables */
+export interface UntypedPromptunaTypes {
+  prompts: Record<
+    string,
+    { variants: string; variables: Record<string, any>; parsed: unknown }
+  >;
+}
+
+export type PromptIdOf<T extends PromptunaTypes> = keyof T['prompts'] & string;
+
+export type VariantIdOf<
+  T extends PromptunaTypes,
+  P extends PromptIdOf<T>,
+> = T['prompts'][P]['variants'];
+
+export type VariablesOf<
+  T extends PromptunaTypes,
+  P extends PromptIdOf<T>,
+> = T['prompts'][P]['variables'];
+
+export type ParsedOf<
+  T extends PromptunaTypes,
+  P extends PromptIdOf<T>,
+> = T['prompts'][P]['parsed'];
+
+/** `variables` may be left out only when the prompt needs none */
+type VariablesParam<V> = {} extends V ? { variables?: V } : { variables: V };
+
+/** Prompt id, optional pinned variant and the prompt's variables */
+type PromptSelection<T extends PromptunaTypes, P extends PromptIdOf<T>> = {
+  promptId: P;
+  variantId?: VariantIdOf<T, P>;
+} & VariablesParam<VariablesOf<T, P>>;
+
+/** `ChatCompletionParams` narrowed to one prompt of the generated types */
+export type TypedChatCompletionParams<
+  T extends PromptunaTypes,
+  P extends PromptIdOf<T> = PromptIdOf<T>,
+> = Omit<ChatCompletionParams, 'promptId' | 'variantId' | 'variables'> &
+  PromptSelection<T, P>;
+
+/** `RunChainParams` narrowed to the chain's first prompt */
+export type TypedRunChainParams<
+  T extends PromptunaTypes,
+  P extends PromptIdOf<T> = PromptIdOf<T>,
+> = Omit<
+  ChatCompletionParams,
+  'promptId' | 'variantId' | 'variables' | 'messageHistory'
+> &
+  PromptSelection<T, P>;
+
+/** `GetTemplateParams` narrowed to one prompt of the generated types */
+export type TypedGetTemplateParams<
+  T extends PromptunaTypes,
+  P extends PromptIdOf<T> = PromptIdOf<T>,
+> = PromptSelection<T, P> & { variantId: VariantIdOf<T, P> };
@@ -1,6 +1,10 @@
 export type {
   PromptunaConfig,
   PromptunaRuntimeConfig,
+  ConfigWatchOptions,
+  ConfigLoader,
+  LoadedConfig,
+  ConfigEvent,
   ProviderConfig,
   ValidationResult,
   PromptunaError,
@@ -0,0 +1,49 @@
+import type { ConfigLoader, LoadedConfig } from './types';
+import { ConfigurationError } from './types';
+
+export interface HttpConfigLoaderOptions {
+  /** Extra request headers, e.g. authorization */
+  headers?: Record<string, string>;
+  /** Fetch implementation (default: global `fetch`) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Loader for a config served over HTTP(S). Sends `If-None-Match` with the
+ * active ETag so polling is cheap: a `304 Not Modified` resolves `null` and the
+ * current configuration is kept.
+ *
+ * @param url Location of the JSON config
+ * @param options Optional headers and fetch implementation
+ * @returns A `ConfigLoader` for `PromptunaRuntimeConfig.configLoader`
+ */
+export function createHttpConfigLoader(
+  url: string,
+  options: HttpConfigLoaderOptions = {}
+): ConfigLoader {
+  const doFetch = options.fetch ?? fetch;
+
+  return async ({ etag }): Promise<LoadedConfig | null> => {
+    const response = await doFetch(url, {
+      headers: {
+        accept: 'application/json',
+        ...options.headers,
+        ...(etag && { 'if-none-match': etag }),
+      },
+    });
+
+    if (response.status === 304) return null;
+
+    if (!response.ok) {
+      throw new ConfigurationError(
+        `Failed to load config from ${url}: HTTP ${response.status}`,
+        { url, status: response.status }
+      );
+    }
+
+    return {
+      config: await response.text(),
+      etag: response.headers.get('etag') ?? undefined,
+    };
+  };
+}
@@ -1,31 +1,122 @@
 import type { PromptunaObservability } from '../observability/types';
-import type { Message } from '../templates/types';
+import type { Message, VariableDefinition } from '../templates/types';
+import type { TemplateFilters } from '../templates/filters';
 import type {
   ResponseFormat,
   FallbackTarget,
   ModelParams,
 } from '../responses/types';
 import type { Routing } from '../routing/types';
+import type { RetryPolicy, CircuitBreakerOptions } from '../fallbacks/types';
 import type { ChatMessage } from '../providers/types';
+import type { ToolDefinition, ToolChoice } from '../tools/types';
+import type { ProviderId } from '../shared/types';
+import type { ChainStep } from '../chains/types';
+import type { ResponseCacheOptions, VariantCacheConfig } from '../cache/types';
+import type { ModelPricing, TruncationStrategy } from '../models/types';
+import type { BudgetOptions } from '../budgets/types';
+import type { CassetteOptions } from '../cassettes/types';
 
 export interface PromptunaConfig {
   version: string;
   providers: Record<string, ProviderConfig>;
   responseSchemas?: Record<string, any>;
+  /** Liquid snippets available to every template via `{% render %}` / `{% include %}` */
+  partials?: Record<string, string>;
+  tools?: Record<string, ToolDefinition>;
   prompts: Record<string, Prompt>;
 }
 
+/**
+ * Where the configuration comes from – exactly one of `configPath`, `config`
+ * or `configLoader` must be set.
+ */
 export interface PromptunaRuntimeConfig {
-  configPath: string;
+  /** Path to a JSON config file */
+  configPath?: string;
+  /** Config object already in memory (validated on first use) */
+  config?: PromptunaConfig;
+  /** Async loader, e.g. for S3, a database or a remote config service */
+  configLoader?: ConfigLoader;
+  /** Poll `configLoader` for changes at this interval (ms); off by default */
+  configPollIntervalMs?: number;
   openaiApiKey?: string;
   anthropicApiKey?: string;
   googleApiKey?: string;
+  /** API keys keyed by providerId – take precedence over the per-vendor keys above */
+  apiKeys?: Record<string, string>;
   environment?: 'dev' | 'prod';
+  /** Per provider/model circuit breaker settings, or `false` to disable it */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /** Extra Liquid filters for templates, also accepted by config validation */
+  filters?: TemplateFilters;
+  /** Fail rendering when a template reads a variable that was not passed (off by default) */
+  strictVariables?: boolean;
+  /**
+   * Token prices by provider type and model (name or prefix), USD per million
+   * tokens – replaces the built-in prices; a provider's `config.pricing` wins
+   */
+  pricing?: Record<string, Record<string, ModelPricing>>;
+  /** Token and spend limits per user, prompt or tenant (off by default) */
+  budgets?: BudgetOptions;
+  /**
+   * Record provider calls to a cassette file, or replay them without network
+   * access – for deterministic tests (off by default)
+   */
+  cassette?: CassetteOptions;
+  /** Enables response caching for `chatCompletion` (off by default) */
+  cache?: ResponseCacheOptions;
+  /** Reload the config file whenever it changes on disk (off by default, `configPath` only) */
+  watchConfig?: boolean | ConfigWatchOptions;
+  /** Notified after every hot reload attempt */
+  onConfigEvent?: (event: ConfigEvent) => void;
   onObservability?: (event: PromptunaObservability) => void;
 }
 
+/** Raw configuration returned by a `ConfigLoader` */
+export interface LoadedConfig {
+  /** Parsed config object, or its JSON source text */
+  config: unknown;
+  /** Version tag (e.g. an HTTP ETag) passed back on the next load */
+  etag?: string;
+}
+
+/**
+ * Loads the configuration from an arbitrary source. Receives the `etag` of the
+ * currently active config and resolves `null` when nothing changed.
+ */
+export type ConfigLoader = (context: {
+  etag?: string;
+}) => Promise<LoadedConfig | null>;
+
+export interface ConfigWatchOptions {
+  /** Quiet period after the last change event before reloading (default 100ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Outcome of a config reload. On `config-rejected` the previous configuration
+ * stays active.
+ */
+export type ConfigEvent =
+  | {
+      type: 'config-reloaded';
+      /** Only set for file based configs */
+      configPath?: string;
+      /** Version tag of the new config when the loader provides one */
+      etag?: string;
+      timestamp: string;
+    }
+  | {
+      type: 'config-rejected';
+      configPath?: string;
+      timestamp: string;
+      error: Error;
+    };
+
 export interface ProviderConfig {
-  type: 'openai' | 'anthropic' | 'google';
+  /** Built-in type or one added with `registerProvider()` */
+  type: ProviderId;
   config?: Record<string, any>; // provider-specific additional config
 }
 
@@ -37,13 +128,29 @@ export interface Variant {
   messages: Message[];
   responseFormat?: ResponseFormat;
   fallback?: FallbackTarget[];
+  /** Retry policy for the primary target and (unless overridden) every fallback target */
+  retry?: RetryPolicy;
+  /** Default per-attempt timeout in ms; a timed out attempt falls through to the next target */
+  timeoutMs?: number;
+  /** Response cache settings – only used when caching is enabled at runtime */
+  cache?: VariantCacheConfig;
+  /** Tool ids from the top-level `tools` section */
+  tools?: string[];
+  toolChoice?: ToolChoice;
+  /** What to do when `messageHistory` plus the template exceeds the model's context window */
+  truncationStrategy?: TruncationStrategy;
+  /** Variant of the same prompt to run instead when a `downgrade` budget would be exceeded */
+  budgetFallback?: string;
 }
 
 export interface Prompt {
   description: string;
   variants: Record<string, Variant>;
   routing: Routing;
-  chains?: any[]; // loosely typed for now
+  /** Declared variables – checked against the templates and enforced at render time */
+  variables?: Record<string, VariableDefinition>;
+  /** Steps run after this prompt by `runChain()` */
+  chains?: ChainStep[];
 }
 
 export interface ValidationResult {
@@ -87,16 +194,24 @@ export class ExecutionError extends Error {
 export interface ChatCompletionParams {
   /** The ID of the prompt */
   promptId: string;
+  /** Runs this variant instead of routing (reported as routing reason `pinned`) */
+  variantId?: string;
   /** Variables to interpolate into the template */
   variables?: Record<string, any>;
   /** Conversation history to prepend to the prompt (e.g., previous messages) */
   messageHistory?: ChatMessage[];
   /** Stable identifier used to hash into deterministic traffic buckets */
   userId?: string;
+  /** Customer, workspace or other key that `tenant` budgets count usage per */
+  tenantId?: string;
   /** Tags that describe the request context (e.g., geography, experiment flags) */
   tags?: string[];
   /** Unix timestamp (seconds) to evaluate phased roll-outs. Defaults to now. */
   unixTime?: number;
+  /** Cancels the request (including any pending retries or fallbacks) when aborted */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in ms. Overrides the variant's `timeoutMs` */
+  timeoutMs?: number;
 }
 
 export interface GetTemplateParams {
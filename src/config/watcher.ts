@@ -0,0 +1,49 @@
+import { watch, type FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+
+/**
+ * Watch config files for changes and invoke `onChange` once writes settle.
+ *
+ * The parent directories are watched rather than the files themselves so
+ * editors and deploy tools that replace a file via rename keep triggering
+ * reloads.
+ *
+ * @param files Absolute paths of the files to watch – the root config and its includes
+ * @param onChange Called after `debounceMs` without further change events
+ * @param debounceMs Quiet period collapsing bursts of events into one reload
+ * @returns Function that stops watching
+ */
+export function watchConfigFiles(
+  files: string[],
+  onChange: () => void,
+  debounceMs: number
+): () => void {
+  const fileNames = new Map<string, Set<string>>();
+  for (const file of files) {
+    const dir = dirname(file);
+    fileNames.set(dir, (fileNames.get(dir) ?? new Set()).add(basename(file)));
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const watchers = [...fileNames].map(([dir, names]) => {
+    const watcher: FSWatcher = watch(dir, (_event, changed) => {
+      // Some platforms omit the file name – reload to be safe
+      if (changed && !names.has(changed.toString())) return;
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = undefined;
+        onChange();
+      }, debounceMs);
+    });
+
+    // Never keep the process alive just to watch config
+    watcher.unref();
+    return watcher;
+  });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}
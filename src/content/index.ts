@@ -0,0 +1,19 @@
+export {
+  getTextContent,
+  hasBinaryParts,
+  toDataUrl,
+  isBinaryInput,
+  resolveBinaryInput,
+} from './utils';
+export type {
+  TextPart,
+  ImagePart,
+  FilePart,
+  AudioPart,
+  ContentPart,
+  MessageContent,
+  BinaryInput,
+  TextPartTemplate,
+  BinaryPartTemplate,
+  MessagePartTemplate,
+} from './types';
@@ -0,0 +1,78 @@
+/** Plain text part */
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Binary inputs are given either by `url` or as base64 `data` with its
+ * `mimeType`. Which of the two a provider accepts depends on the part type.
+ */
+interface BinarySource {
+  url?: string;
+  /** Base64 encoded bytes (no `data:` prefix) */
+  data?: string;
+  mimeType?: string;
+}
+
+export interface ImagePart extends BinarySource {
+  type: 'image';
+  /** OpenAI only – image fidelity hint */
+  detail?: 'auto' | 'low' | 'high';
+}
+
+/** Document such as a PDF */
+export interface FilePart extends BinarySource {
+  type: 'file';
+  filename?: string;
+}
+
+export interface AudioPart extends BinarySource {
+  type: 'audio';
+}
+
+export type ContentPart = TextPart | ImagePart | FilePart | AudioPart;
+
+/** Plain text, or an ordered list of typed parts for multimodal messages */
+export type MessageContent = string | ContentPart[];
+
+/**
+ * What a variable referenced by a binary part may hold:
+ * - `Uint8Array` / `Buffer` / `ArrayBuffer` – raw bytes (the part must declare `mimeType`)
+ * - `string` – an `http(s)://` / `gs://` URL, a `data:` URL, or base64 data
+ * - an object carrying any of the above plus `mimeType` / `filename`
+ */
+export type BinaryInput =
+  | string
+  | Uint8Array
+  | ArrayBuffer
+  | {
+      url?: string;
+      data?: string | Uint8Array | ArrayBuffer;
+      mimeType?: string;
+      filename?: string;
+    };
+
+/** Text part in the config – rendered with Liquid like `content.template` */
+export interface TextPartTemplate {
+  type: 'text';
+  template: string;
+}
+
+/**
+ * Binary part in the config. The input comes from exactly one of:
+ * - `variable` – name of a request variable holding a `BinaryInput`
+ * - `url` – Liquid template rendering to a URL (e.g. `"{{ receipt_url }}"`)
+ * - `data` – inline base64
+ */
+export interface BinaryPartTemplate {
+  type: 'image' | 'file' | 'audio';
+  variable?: string;
+  url?: string;
+  data?: string;
+  mimeType?: string;
+  filename?: string;
+  detail?: ImagePart['detail'];
+}
+
+export type MessagePartTemplate = TextPartTemplate | BinaryPartTemplate;
@@ -0,0 +1,97 @@
+import type { BinaryInput, ContentPart, MessageContent } from './types';
+
+type BinaryPart = Exclude<ContentPart, { type: 'text' }>;
+
+const URL_PATTERN = /^(https?|gs):\/\//i;
+const DATA_URL_PATTERN = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/is;
+
+/**
+ * Text of a message – text parts joined by newlines, binary parts dropped.
+ * Used where a provider only accepts plain text (system prompts, tool results).
+ */
+export function getTextContent(content: MessageContent): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter(part => part.type === 'text')
+    .map(part => (part as { text: string }).text)
+    .join('\n');
+}
+
+/** Whether any part of the content is not plain text */
+export function hasBinaryParts(content: MessageContent): boolean {
+  return typeof content !== 'string' && content.some(p => p.type !== 'text');
+}
+
+/**
+ * `data:` URL for a part carrying base64 data
+ */
+export function toDataUrl(part: BinaryPart): string {
+  return `data:${part.mimeType ?? 'application/octet-stream'};base64,${part.data}`;
+}
+
+function toBase64(bytes: Uint8Array | ArrayBuffer): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  return Buffer.from(view.buffer, view.byteOffset, view.byteLength).toString(
+    'base64'
+  );
+}
+
+/**
+ * Whether a value is a `BinaryInput` that `resolveBinaryInput()` accepts
+ */
+export function isBinaryInput(value: unknown): value is BinaryInput {
+  if (typeof value === 'string') return true;
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) return true;
+  if (!value || typeof value !== 'object') return false;
+
+  const { url, data } = value as Record<string, unknown>;
+  return data !== undefined ? isBinaryInput(data) : typeof url === 'string';
+}
+
+/**
+ * Normalise a variable value into the `url` / `data` / `mimeType` / `filename`
+ * fields of a binary part
+ * @throws TypeError if the value is not a supported `BinaryInput`
+ */
+export function resolveBinaryInput(
+  input: BinaryInput
+): Pick<BinaryPart, 'url' | 'data' | 'mimeType'> & { filename?: string } {
+  if (typeof input === 'string') {
+    if (URL_PATTERN.test(input)) return { url: input };
+    const dataUrl = DATA_URL_PATTERN.exec(input);
+    if (dataUrl) {
+      return {
+        data: dataUrl[2],
+        ...(dataUrl[1] && { mimeType: dataUrl[1] }),
+      };
+    }
+    return { data: input };
+  }
+
+  if (input instanceof Uint8Array || input instanceof ArrayBuffer) {
+    return { data: toBase64(input) };
+  }
+
+  if (input && typeof input === 'object') {
+    const { url, data, mimeType, filename } = input;
+    if (data !== undefined) {
+      const resolved = resolveBinaryInput(data);
+      return {
+        ...resolved,
+        ...(mimeType && { mimeType }),
+        ...(filename && { filename }),
+      };
+    }
+    if (typeof url === 'string') {
+      return {
+        url,
+        ...(mimeType && { mimeType }),
+        ...(filename && { filename }),
+      };
+    }
+  }
+
+  throw new TypeError(
+    'Expected a URL, base64 string, bytes, or { url | data, mimeType }'
+  );
+}
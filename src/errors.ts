@@ -1,21 +1,29 @@
-export type FallbackReason = 'provider-error' | 'timeout' | 'rate-limit';
+export type FallbackReason =
+  | 'provider-error'
+  | 'timeout'
+  | 'rate-limit'
+  | 'circuit-open'
+  | 'invalid-output';
 
 /**
  * Normalised error thrown by provider wrappers so the core SDK can treat them uniformly.
  * `retryable` indicates whether the operation may succeed if attempted again (e.g. with a different provider).
+ * `retryAfterMs` carries the provider's Retry-After hint when one was sent.
  */
 export class ProviderError extends Error {
   public readonly reason: FallbackReason;
   public readonly retryable: boolean;
   public readonly code?: string;
   public readonly httpStatus?: number;
+  public readonly retryAfterMs?: number;
 
   constructor(
     reason: FallbackReason,
     message: string,
     retryable = false,
     code?: string,
-    httpStatus?: number
+    httpStatus?: number,
+    retryAfterMs?: number
   ) {
     super(message);
     this.name = 'ProviderError';
@@ -23,5 +31,72 @@ export class ProviderError extends Error {
     this.retryable = retryable;
     this.code = code;
     this.httpStatus = httpStatus;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The model answered, but its output does not match the variant's response
+ * schema. Only retryable (falls through to the next target) when the variant
+ * sets `responseFormat.onInvalid: "fallback"`.
+ */
+export class SchemaValidationError extends ProviderError {
+  public readonly details: { errors: string[]; content: string };
+
+  constructor(
+    message: string,
+    errors: string[],
+    content: string,
+    retryable = false
+  ) {
+    super('invalid-output', message, retryable, 'schema-violation');
+    this.name = 'SchemaValidationError';
+    this.details = { errors, content };
+  }
+}
+
+/**
+ * The request would take a user, prompt or tenant over one of the runtime
+ * `budgets` limits (and no cheaper `budgetFallback` variant fits). Never
+ * retried or passed to fallback targets.
+ */
+export class BudgetExceededError extends Error {
+  public readonly code = 'budget-exceeded';
+  public readonly details: {
+    limit: string;
+    scope: string;
+    usage: { tokens: number; costUsd: number };
+    projected: { tokens: number; costUsd: number };
+    maxTokens?: number;
+    maxCostUsd?: number;
+  };
+
+  constructor(message: string, details: BudgetExceededError['details']) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    this.details = details;
+  }
+}
+
+/**
+ * Replay mode found no interaction in the cassette for a provider request.
+ * Never retried or passed to fallback targets, so a test fails on the first
+ * request that differs from the recording.
+ */
+export class CassetteMismatchError extends Error {
+  public readonly code = 'cassette-mismatch';
+  public readonly details: {
+    cassette: string;
+    providerId: string;
+    stream: boolean;
+    request: Record<string, unknown>;
+    /** Interactions recorded for the same provider */
+    recorded: number;
+  };
+
+  constructor(message: string, details: CassetteMismatchError['details']) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+    this.details = details;
   }
 }
@@ -0,0 +1,277 @@
+import { isDeepStrictEqual } from 'util';
+import { ConfigurationError } from '../config/types.js';
+import type { ChatCompletionParams } from '../config/types.js';
+import type { ChatCompletionResponse } from '../providers/types.js';
+import { validateStructuredContent } from '../responses/structured.js';
+import type {
+  Assertion,
+  AssertionContext,
+  AssertionOutcome,
+  AssertionResult,
+  AssertionType,
+  CustomAssertion,
+} from './types.js';
+
+/** What assertions may call out to */
+export interface AssertionEnvironment {
+  customAssertions?: Record<string, CustomAssertion>;
+  /** Runs `llm-judge` prompts */
+  chatCompletion?: (
+    params: ChatCompletionParams
+  ) => Promise<ChatCompletionResponse>;
+}
+
+const ASSERTION_TYPES: AssertionType[] = [
+  'exact',
+  'contains',
+  'regex',
+  'json-schema',
+  'custom',
+  'llm-judge',
+];
+
+/** An assertion whose `type` is known but whose other fields are unchecked */
+type UncheckedAssertion = {
+  [A in Assertion as A['type']]: { type: A['type'] } & {
+    [K in Exclude<keyof A, 'type'>]?: unknown;
+  };
+}[AssertionType];
+
+const isAssertionType = (type: unknown): type is AssertionType =>
+  ASSERTION_TYPES.includes(type as AssertionType);
+
+/**
+ * Check the shape of an assertion before anything runs
+ * @param assertion Assertion as read from a dataset or options
+ * @param location Where the assertion came from, for the error message
+ * @throws ConfigurationError describing the first problem found
+ */
+export function validateAssertion(assertion: unknown, location: string): void {
+  const fail: (problem: string) => never = problem => {
+    throw new ConfigurationError(
+      `Invalid assertion in ${location}: ${problem}`,
+      {
+        location,
+        assertion,
+      }
+    );
+  };
+
+  if (!assertion || typeof assertion !== 'object' || Array.isArray(assertion)) {
+    return fail('must be an object');
+  }
+  const { type } = assertion as Record<string, unknown>;
+  if (!isAssertionType(type)) {
+    return fail(
+      `unknown type ${JSON.stringify(type)} (expected one of ${ASSERTION_TYPES.join(', ')})`
+    );
+  }
+
+  const spec = assertion as UncheckedAssertion;
+  switch (spec.type) {
+    case 'regex':
+      if (typeof spec.pattern !== 'string') fail('"pattern" must be a string');
+      if (spec.flags !== undefined && typeof spec.flags !== 'string') {
+        fail('"flags" must be a string');
+      }
+      try {
+        new RegExp(spec.pattern, spec.flags);
+      } catch (error: any) {
+        fail(error.message);
+      }
+      break;
+    case 'json-schema':
+      if (!spec.schema || typeof spec.schema !== 'object') {
+        fail('"schema" must be an object');
+      }
+      break;
+    case 'custom':
+      if (typeof spec.name !== 'string') fail('"name" must be a string');
+      break;
+    case 'llm-judge':
+      if (typeof spec.promptId !== 'string') {
+        fail('"promptId" must be a string');
+      }
+      break;
+  }
+}
+
+const normalize = (text: string, ignoreCase?: boolean) =>
+  ignoreCase ? text.trim().toLowerCase() : text.trim();
+
+const preview = (value: unknown) => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return JSON.stringify(text.length > 80 ? `${text.slice(0, 77)}...` : text);
+};
+
+function checkExact(
+  assertion: Extract<Assertion, { type: 'exact' }>,
+  context: AssertionContext
+): AssertionOutcome {
+  const expected =
+    assertion.value !== undefined ? assertion.value : context.case.expected;
+  if (expected === undefined) {
+    return { pass: false, reason: 'No expected value to compare against' };
+  }
+
+  if (typeof expected !== 'string') {
+    let actual = context.parsed;
+    if (actual === undefined) {
+      try {
+        actual = JSON.parse(context.output);
+      } catch {
+        return { pass: false, reason: 'Output is not JSON' };
+      }
+    }
+    return isDeepStrictEqual(actual, expected)
+      ? { pass: true }
+      : {
+          pass: false,
+          reason: `Expected ${preview(expected)}, got ${preview(actual)}`,
+        };
+  }
+
+  return normalize(context.output, assertion.ignoreCase) ===
+    normalize(expected, assertion.ignoreCase)
+    ? { pass: true }
+    : {
+        pass: false,
+        reason: `Expected ${preview(expected)}, got ${preview(context.output)}`,
+      };
+}
+
+function checkContains(
+  assertion: Extract<Assertion, { type: 'contains' }>,
+  context: AssertionContext
+): AssertionOutcome {
+  const value = assertion.value ?? context.case.expected;
+  if (typeof value !== 'string' && !Array.isArray(value)) {
+    return { pass: false, reason: 'No text to look for' };
+  }
+
+  const output = assertion.ignoreCase
+    ? context.output.toLowerCase()
+    : context.output;
+  const missing = (Array.isArray(value) ? value : [value]).filter(
+    needle =>
+      !output.includes(assertion.ignoreCase ? needle.toLowerCase() : needle)
+  );
+  return missing.length
+    ? {
+        pass: false,
+        reason: `Missing ${missing.map(needle => preview(needle)).join(', ')}`,
+      }
+    : { pass: true };
+}
+
+/** Read `{ pass, score, reason }` from a judge's parsed or JSON answer */
+function readVerdict(
+  response: ChatCompletionResponse,
+  threshold: number
+): AssertionOutcome {
+  let verdict: any = response.parsed;
+  if (verdict === undefined) {
+    try {
+      verdict = JSON.parse(response.choices[0]?.message.content ?? '');
+    } catch {
+      verdict = undefined;
+    }
+  }
+  if (!verdict || typeof verdict !== 'object') {
+    return { pass: false, reason: 'Judge did not return a JSON verdict' };
+  }
+
+  const score = typeof verdict.score === 'number' ? verdict.score : undefined;
+  if (typeof verdict.pass !== 'boolean' && score === undefined) {
+    return { pass: false, reason: 'Judge verdict has no "pass" or "score"' };
+  }
+  return {
+    pass:
+      typeof verdict.pass === 'boolean' ? verdict.pass : score! >= threshold,
+    score,
+    reason: typeof verdict.reason === 'string' ? verdict.reason : undefined,
+  };
+}
+
+async function checkJudge(
+  assertion: Extract<Assertion, { type: 'llm-judge' }>,
+  context: AssertionContext,
+  environment: AssertionEnvironment
+): Promise<AssertionOutcome> {
+  if (!environment.chatCompletion) {
+    return { pass: false, reason: 'No client to run the judge prompt with' };
+  }
+  const response = await environment.chatCompletion({
+    promptId: assertion.promptId,
+    variantId: assertion.variantId,
+    variables: {
+      input: context.case.variables ?? {},
+      output: context.output,
+      expected: context.case.expected ?? null,
+      criteria: assertion.criteria ?? null,
+    },
+  });
+  return readVerdict(response, assertion.threshold ?? 0.5);
+}
+
+/**
+ * Run one assertion against a variant's output. Assertions never throw –
+ * errors (including failed judge requests) become a failed result.
+ */
+export async function runAssertion(
+  assertion: Assertion,
+  context: AssertionContext,
+  environment: AssertionEnvironment = {}
+): Promise<AssertionResult> {
+  const name = assertion.type === 'custom' ? assertion.name : undefined;
+  let outcome: AssertionOutcome;
+
+  try {
+    switch (assertion.type) {
+      case 'exact':
+        outcome = checkExact(assertion, context);
+        break;
+      case 'contains':
+        outcome = checkContains(assertion, context);
+        break;
+      case 'regex':
+        outcome = new RegExp(assertion.pattern, assertion.flags).test(
+          context.output
+        )
+          ? { pass: true }
+          : { pass: false, reason: `No match for /${assertion.pattern}/` };
+        break;
+      case 'json-schema': {
+        const result = validateStructuredContent(
+          context.output,
+          assertion.schema
+        );
+        outcome = result.valid
+          ? { pass: true }
+          : { pass: false, reason: result.errors.join('; ') };
+        break;
+      }
+      case 'custom': {
+        const assert =
+          assertion.assert ?? environment.customAssertions?.[assertion.name];
+        if (!assert) {
+          outcome = {
+            pass: false,
+            reason: `Custom assertion "${assertion.name}" is not registered`,
+          };
+          break;
+        }
+        const result = await assert(context);
+        outcome = typeof result === 'boolean' ? { pass: result } : result;
+        break;
+      }
+      case 'llm-judge':
+        outcome = await checkJudge(assertion, context, environment);
+        break;
+    }
+  } catch (error: any) {
+    outcome = { pass: false, reason: error?.message ?? String(error) };
+  }
+
+  return { type: assertion.type, ...(name && { name }), ...outcome };
+}
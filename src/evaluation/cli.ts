@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+
+import { writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { Promptuna } from '../Promptuna.js';
+import { loadAndValidateConfig } from '../validation/index.js';
+import { loadFilterModule } from '../validation/filterModule.js';
+import { loadAssertionModule, loadDataset } from './dataset.js';
+import { evaluate } from './evaluate.js';
+import { formatReport } from './report.js';
+
+(async () => {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Promptuna Evaluator
+
+Usage: promptuna-eval <config-file> --prompt <id> --dataset <file.jsonl> [options]
+
+Options:
+  -p, --prompt <id>          Prompt to evaluate
+  -d, --dataset <file>       JSONL file with one case per line
+  --variants <ids>           Comma-separated variants (default: all variants of the prompt)
+  --assertions <module>      JS module exporting custom assertion functions
+  --filters <module>         JS module exporting the app's custom template filters
+  --concurrency <n>          Cases run at the same time (default: 1)
+  --min-pass-rate <rate>     Exit with 1 if a variant passes fewer cases (0-1)
+  --json                     Print the full report as JSON
+  -o, --out <file>           Also write the JSON report to a file
+  -h, --help                 Show this help message
+
+API keys are read from OPENAI_API_KEY, ANTHROPIC_API_KEY and GOOGLE_API_KEY.
+
+Examples:
+  promptuna-eval promptuna.json -p greeting -d evals/greeting.jsonl
+  promptuna-eval promptuna.json -p summarize -d cases.jsonl --variants v_short,v_long --min-pass-rate 0.9
+`);
+    process.exit(0);
+  }
+
+  const option = (...names: string[]) => {
+    const index = args.findIndex(arg => names.includes(arg));
+    return index === -1 ? undefined : args[index + 1];
+  };
+  const promptId = option('-p', '--prompt');
+  const datasetPath = option('-d', '--dataset');
+  const variantList = option('--variants');
+  const assertionsModule = option('--assertions');
+  const filtersModule = option('--filters');
+  const concurrency = Number(option('--concurrency') ?? 1);
+  const minPassRate = option('--min-pass-rate');
+  const out = option('-o', '--out');
+  const configPath = resolve(args[0]);
+
+  let promptuna: Promptuna | undefined;
+  try {
+    if (!promptId || !datasetPath) {
+      throw new Error('--prompt and --dataset are required');
+    }
+
+    const filters = filtersModule
+      ? await loadFilterModule(filtersModule)
+      : undefined;
+    const config = await loadAndValidateConfig(configPath, { filters });
+    const prompt = config.prompts[promptId];
+    if (!prompt) {
+      throw new Error(
+        `Prompt "${promptId}" not found (available: ${Object.keys(config.prompts).join(', ')})`
+      );
+    }
+
+    const variants = variantList
+      ? variantList.split(',').map(variantId => variantId.trim())
+      : Object.keys(prompt.variants);
+    const unknown = variants.filter(variantId => !prompt.variants[variantId]);
+    if (unknown.length) {
+      throw new Error(
+        `Unknown variants of "${promptId}": ${unknown.join(', ')}`
+      );
+    }
+
+    const cases = await loadDataset(datasetPath);
+    const customAssertions = assertionsModule
+      ? await loadAssertionModule(assertionsModule)
+      : undefined;
+
+    promptuna = new Promptuna({
+      config,
+      filters,
+      openaiApiKey: process.env.OPENAI_API_KEY,
+      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+      googleApiKey: process.env.GOOGLE_API_KEY,
+    });
+
+    const json = args.includes('--json');
+    const report = await evaluate(promptuna, {
+      promptId,
+      variants,
+      cases,
+      customAssertions,
+      concurrency,
+      onResult: json
+        ? undefined
+        : result =>
+            process.stderr.write(
+              `${result.pass ? '✓' : '✗'} ${result.variantId} · case ${result.caseId}\n`
+            ),
+    });
+
+    if (out) await writeFile(resolve(out), JSON.stringify(report, null, 2));
+    if (json) {
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    } else {
+      process.stdout.write(`\n${formatReport(report)}`);
+    }
+
+    const threshold = minPassRate === undefined ? 0 : Number(minPassRate);
+    const below = report.variants.filter(
+      variant => variant.passRate < threshold
+    );
+    if (below.length) {
+      console.error(
+        `❌ Below the minimum pass rate of ${threshold}: ${below
+          .map(variant => variant.variantId)
+          .join(', ')}`
+      );
+      process.exit(1);
+    }
+
+    promptuna.close();
+    process.exit(0);
+  } catch (error: any) {
+    promptuna?.close();
+    console.error('❌ Evaluation failed:', error.message);
+    process.exit(1);
+  }
+})();
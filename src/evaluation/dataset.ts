@@ -0,0 +1,122 @@
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { ConfigurationError } from '../config/types.js';
+import { validateAssertion } from './assertions.js';
+import type { CustomAssertion, EvaluationCase } from './types.js';
+
+/**
+ * Parse a JSONL dataset – one case per line, blank lines and `//` comments
+ * skipped. Cases without an `id` are named after their line number.
+ * @param text Dataset contents
+ * @param source File name used in error messages
+ * @throws ConfigurationError naming the line of a malformed case
+ */
+export function parseDataset(
+  text: string,
+  source = 'dataset'
+): EvaluationCase[] {
+  const cases: EvaluationCase[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('//')) return;
+    const location = `${source}:${index + 1}`;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (error: any) {
+      throw new ConfigurationError(`Invalid JSON in ${location}`, {
+        location,
+        error: error.message,
+      });
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ConfigurationError(
+        `Case in ${location} must be a JSON object`,
+        { location }
+      );
+    }
+    if (
+      parsed.variables !== undefined &&
+      (typeof parsed.variables !== 'object' ||
+        parsed.variables === null ||
+        Array.isArray(parsed.variables))
+    ) {
+      throw new ConfigurationError(
+        `"variables" in ${location} must be an object`,
+        { location }
+      );
+    }
+    if (parsed.assertions !== undefined) {
+      if (!Array.isArray(parsed.assertions)) {
+        throw new ConfigurationError(
+          `"assertions" in ${location} must be an array`,
+          { location }
+        );
+      }
+      parsed.assertions.forEach((assertion: unknown) =>
+        validateAssertion(assertion, location)
+      );
+    }
+
+    cases.push({ ...parsed, id: parsed.id ?? `${index + 1}` });
+  });
+
+  return cases;
+}
+
+/**
+ * Read and parse a JSONL dataset file
+ * @throws ConfigurationError if the file cannot be read or a case is malformed
+ */
+export async function loadDataset(path: string): Promise<EvaluationCase[]> {
+  let text: string;
+  try {
+    text = await readFile(resolve(path), 'utf-8');
+  } catch (error: any) {
+    throw new ConfigurationError(`Failed to read dataset: ${path}`, {
+      path,
+      error: error.message,
+    });
+  }
+  return parseDataset(text, path);
+}
+
+/**
+ * Import the custom assertions referenced by a dataset. The module must export
+ * them as `assertions` or as its default export.
+ * @param modulePath Path to a JS module (relative to the working directory)
+ * @throws ConfigurationError if the module cannot be loaded or exports no functions
+ */
+export async function loadAssertionModule(
+  modulePath: string
+): Promise<Record<string, CustomAssertion>> {
+  let loaded: any;
+  try {
+    loaded = await import(pathToFileURL(resolve(modulePath)).href);
+  } catch (error) {
+    throw new ConfigurationError(
+      `Failed to load assertion module: ${modulePath}`,
+      {
+        modulePath,
+        error: error instanceof Error ? error.message : error,
+      }
+    );
+  }
+
+  const assertions = loaded.assertions ?? loaded.default;
+  if (
+    !assertions ||
+    typeof assertions !== 'object' ||
+    !Object.values(assertions).every(assert => typeof assert === 'function')
+  ) {
+    throw new ConfigurationError(
+      `Assertion module ${modulePath} must export an object of assertion functions as "assertions" or default`,
+      { modulePath }
+    );
+  }
+  return assertions;
+}
@@ -0,0 +1,220 @@
+import { ConfigurationError } from '../config/types.js';
+import type { Promptuna } from '../Promptuna.js';
+import type { CostSummary } from '../observability/costs.js';
+import { runAssertion, validateAssertion } from './assertions.js';
+import type {
+  Assertion,
+  AssertionResult,
+  CaseResult,
+  EvaluateOptions,
+  EvaluationCase,
+  EvaluationReport,
+  VariantReport,
+} from './types.js';
+
+/** The parts of a `Promptuna` client an evaluation uses */
+export type EvaluationClient = Pick<
+  Promptuna<any>,
+  'chatCompletion' | 'getCosts'
+>;
+
+/** Assertions a case is scored with */
+function getAssertions(
+  testCase: EvaluationCase,
+  defaults?: Assertion[]
+): Assertion[] {
+  if (testCase.assertions) return testCase.assertions;
+  if (defaults) return defaults;
+  return testCase.expected === undefined ? [] : [{ type: 'exact' }];
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (!sorted.length) return 0;
+  return sorted[
+    Math.min(sorted.length - 1, Math.ceil(sorted.length * fraction) - 1)
+  ];
+}
+
+function summarizeVariant(
+  variantId: string,
+  results: CaseResult[],
+  before: CostSummary,
+  after: CostSummary
+): VariantReport {
+  const passed = results.filter(result => result.pass).length;
+  const latencies = results
+    .map(result => result.latencyMs)
+    .sort((a, b) => a - b);
+  const scores = results.flatMap(result =>
+    result.assertions.flatMap(({ score }) =>
+      score === undefined ? [] : [score]
+    )
+  );
+
+  return {
+    variantId,
+    cases: results.length,
+    passed,
+    errors: results.filter(result => result.error !== undefined).length,
+    passRate: results.length ? passed / results.length : 0,
+    ...(scores.length && {
+      averageScore:
+        scores.reduce((sum, score) => sum + score, 0) / scores.length,
+    }),
+    averageLatencyMs: latencies.length
+      ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+      : 0,
+    p95LatencyMs: percentile(latencies, 0.95),
+    promptTokens: after.promptTokens - before.promptTokens,
+    completionTokens: after.completionTokens - before.completionTokens,
+    estimatedCostUsd: after.estimatedCostUsd - before.estimatedCostUsd,
+    results,
+  };
+}
+
+/**
+ * Run every case of a dataset through each of the given variants (pinned, so
+ * routing is bypassed) and score the outputs with the case's assertions.
+ * Request errors fail the case instead of aborting the run. Token and cost
+ * totals come from the client's cost tracker, so judge prompts are not
+ * counted against the evaluated variants.
+ * @param promptuna Client the prompt and any `llm-judge` prompts run on
+ * @param options Prompt, variants, cases and assertions
+ * @returns One report per variant, in the order given
+ * @throws ConfigurationError for invalid assertions or unregistered custom assertions
+ */
+export async function evaluate(
+  promptuna: EvaluationClient,
+  options: EvaluateOptions
+): Promise<EvaluationReport> {
+  const { promptId, variants, cases, customAssertions = {} } = options;
+  if (!variants.length) {
+    throw new ConfigurationError('No variants to evaluate', { promptId });
+  }
+
+  options.assertions?.forEach(assertion =>
+    validateAssertion(assertion, 'options.assertions')
+  );
+  cases.forEach((testCase, index) => {
+    for (const assertion of getAssertions(testCase, options.assertions)) {
+      validateAssertion(assertion, `case ${testCase.id ?? index + 1}`);
+      if (
+        assertion.type === 'custom' &&
+        !assertion.assert &&
+        !customAssertions[assertion.name]
+      ) {
+        throw new ConfigurationError(
+          `Custom assertion "${assertion.name}" is not registered`,
+          {
+            caseId: testCase.id ?? `${index + 1}`,
+            registered: Object.keys(customAssertions),
+          }
+        );
+      }
+    }
+  });
+
+  const startTime = Date.now();
+  const costsBefore = variants.map(variantId =>
+    promptuna.getCosts({ promptId, variantId })
+  );
+  const environment = {
+    customAssertions,
+    chatCompletion: promptuna.chatCompletion.bind(promptuna),
+  };
+
+  const runCase = async (
+    variantId: string,
+    testCase: EvaluationCase,
+    index: number
+  ): Promise<CaseResult> => {
+    const caseId = testCase.id ?? `${index + 1}`;
+    const caseStart = Date.now();
+    let response;
+    try {
+      response = await promptuna.chatCompletion({
+        promptId,
+        variantId,
+        variables: testCase.variables ?? {},
+        messageHistory: testCase.messageHistory,
+        userId: testCase.userId,
+        tags: testCase.tags,
+      });
+    } catch (error: any) {
+      return {
+        caseId,
+        variantId,
+        pass: false,
+        error: error?.message ?? String(error),
+        assertions: [],
+        latencyMs: Date.now() - caseStart,
+      };
+    }
+    const latencyMs = Date.now() - caseStart;
+
+    const output = response.choices[0]?.message.content ?? '';
+    const assertions: AssertionResult[] = [];
+    for (const assertion of getAssertions(testCase, options.assertions)) {
+      assertions.push(
+        await runAssertion(
+          assertion,
+          {
+            output,
+            parsed: response.parsed,
+            response,
+            case: testCase,
+            variantId,
+          },
+          environment
+        )
+      );
+    }
+
+    return {
+      caseId,
+      variantId,
+      pass: assertions.every(assertion => assertion.pass),
+      output,
+      assertions,
+      latencyMs,
+    };
+  };
+
+  const tasks = variants.flatMap((variantId, variantIndex) =>
+    cases.map((testCase, caseIndex) => ({
+      variantIndex,
+      caseIndex,
+      run: () => runCase(variantId, testCase, caseIndex),
+    }))
+  );
+  const results: CaseResult[][] = variants.map(() => []);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      const result = await task.run();
+      results[task.variantIndex][task.caseIndex] = result;
+      options.onResult?.(result);
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(options.concurrency ?? 1, tasks.length)) },
+      worker
+    )
+  );
+
+  return {
+    promptId,
+    cases: cases.length,
+    variants: variants.map((variantId, index) =>
+      summarizeVariant(
+        variantId,
+        results[index],
+        costsBefore[index],
+        promptuna.getCosts({ promptId, variantId })
+      )
+    ),
+    durationMs: Date.now() - startTime,
+  };
+}
@@ -0,0 +1,25 @@
+export { evaluate } from './evaluate';
+export type { EvaluationClient } from './evaluate';
+export { runAssertion, validateAssertion } from './assertions';
+export type { AssertionEnvironment } from './assertions';
+export { parseDataset, loadDataset, loadAssertionModule } from './dataset';
+export { formatReport } from './report';
+export type {
+  EvaluationCase,
+  Assertion,
+  AssertionType,
+  ExactAssertion,
+  ContainsAssertion,
+  RegexAssertion,
+  JsonSchemaAssertion,
+  CustomAssertionSpec,
+  LlmJudgeAssertion,
+  AssertionContext,
+  AssertionOutcome,
+  AssertionResult,
+  CustomAssertion,
+  EvaluateOptions,
+  CaseResult,
+  VariantReport,
+  EvaluationReport,
+} from './types';
@@ -0,0 +1,81 @@
+import type { EvaluationReport } from './types.js';
+
+const formatCost = (usd: number) =>
+  usd === 0 ? '-' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+function table(rows: string[][]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map(row => row[column].length))
+  );
+  return rows
+    .map(row =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+/**
+ * Render a report as plain text: one comparison row per variant, followed by
+ * the failed cases and why they failed
+ * @param report Result of `evaluate()`
+ * @param options `failures: false` leaves out the failure list
+ */
+export function formatReport(
+  report: EvaluationReport,
+  options: { failures?: boolean } = {}
+): string {
+  const header = [
+    'Variant',
+    'Pass rate',
+    'Passed',
+    'Errors',
+    'Avg score',
+    'Avg latency',
+    'p95 latency',
+    'Tokens',
+    'Est. cost',
+  ];
+  const rows = report.variants.map(variant => [
+    variant.variantId,
+    `${(variant.passRate * 100).toFixed(1)}%`,
+    `${variant.passed}/${variant.cases}`,
+    `${variant.errors}`,
+    variant.averageScore === undefined ? '-' : variant.averageScore.toFixed(2),
+    `${Math.round(variant.averageLatencyMs)}ms`,
+    `${Math.round(variant.p95LatencyMs)}ms`,
+    `${variant.promptTokens + variant.completionTokens}`,
+    formatCost(variant.estimatedCostUsd),
+  ]);
+
+  const lines = [
+    `Prompt: ${report.promptId} · ${report.cases} cases · ${report.variants.length} variants`,
+    '',
+    table([header, ...rows]),
+  ];
+
+  if (options.failures !== false) {
+    const failures = report.variants.flatMap(variant =>
+      variant.results
+        .filter(result => !result.pass)
+        .map(result => {
+          const reasons = result.error
+            ? [`error: ${result.error}`]
+            : result.assertions
+                .filter(assertion => !assertion.pass)
+                .map(
+                  assertion =>
+                    `${assertion.name ?? assertion.type}${
+                      assertion.reason ? `: ${assertion.reason}` : ''
+                    }`
+                );
+          return `  ✗ ${variant.variantId} · case ${result.caseId} – ${reasons.join('; ')}`;
+        })
+    );
+    if (failures.length) lines.push('', 'Failures:', ...failures);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,162 @@
+import type {
+  ChatCompletionResponse,
+  ChatMessage,
+} from '../providers/types.js';
+
+/** One line of an evaluation dataset */
+export interface EvaluationCase {
+  /** Name shown in reports; defaults to the case's line number */
+  id?: string;
+  /** Variables the prompt is rendered with */
+  variables?: Record<string, any>;
+  /** Conversation history prepended to the prompt */
+  messageHistory?: ChatMessage[];
+  /** Expected output – a string, or the expected `parsed` value of `json_schema` variants */
+  expected?: unknown;
+  /** Checks for this case; replaces `EvaluateOptions.assertions` */
+  assertions?: Assertion[];
+  userId?: string;
+  tags?: string[];
+}
+
+/** Output equals `value` (default: the case's `expected`) */
+export interface ExactAssertion {
+  type: 'exact';
+  value?: unknown;
+  ignoreCase?: boolean;
+}
+
+/** Output contains `value` – every entry when an array (default: `expected`) */
+export interface ContainsAssertion {
+  type: 'contains';
+  value?: string | string[];
+  ignoreCase?: boolean;
+}
+
+/** Output matches a regular expression */
+export interface RegexAssertion {
+  type: 'regex';
+  pattern: string;
+  flags?: string;
+}
+
+/** Output is JSON that validates against a schema */
+export interface JsonSchemaAssertion {
+  type: 'json-schema';
+  schema: object;
+}
+
+/** Function registered in `EvaluateOptions.customAssertions` (or passed inline) */
+export interface CustomAssertionSpec {
+  type: 'custom';
+  name: string;
+  assert?: CustomAssertion;
+}
+
+/**
+ * Another prompt grades the output. It is rendered with the variables
+ * `input`, `output`, `expected` and `criteria` and must answer with JSON
+ * (`{ "pass": true, "score": 0.9, "reason": "..." }`), ideally through a
+ * `json_schema` response format.
+ */
+export interface LlmJudgeAssertion {
+  type: 'llm-judge';
+  promptId: string;
+  variantId?: string;
+  /** What the judge should check, passed to the judge prompt */
+  criteria?: string;
+  /** Minimum `score` to pass when the verdict has no `pass` field (default 0.5) */
+  threshold?: number;
+}
+
+export type Assertion =
+  | ExactAssertion
+  | ContainsAssertion
+  | RegexAssertion
+  | JsonSchemaAssertion
+  | CustomAssertionSpec
+  | LlmJudgeAssertion;
+
+export type AssertionType = Assertion['type'];
+
+/** What an assertion gets to look at */
+export interface AssertionContext {
+  /** Text content of the first choice */
+  output: string;
+  /** `response.parsed` of `json_schema` variants */
+  parsed?: unknown;
+  response: ChatCompletionResponse;
+  case: EvaluationCase;
+  variantId: string;
+}
+
+/** Verdict of a single assertion */
+export interface AssertionOutcome {
+  pass: boolean;
+  /** Optional grade between 0 and 1 */
+  score?: number;
+  reason?: string;
+}
+
+export type CustomAssertion = (
+  context: AssertionContext
+) => boolean | AssertionOutcome | Promise<boolean | AssertionOutcome>;
+
+export interface AssertionResult extends AssertionOutcome {
+  type: AssertionType;
+  /** Name of a custom assertion */
+  name?: string;
+}
+
+export interface EvaluateOptions {
+  promptId: string;
+  /** Variants to run every case through */
+  variants: string[];
+  cases: EvaluationCase[];
+  /** Assertions for cases without their own (default: `exact` when `expected` is set) */
+  assertions?: Assertion[];
+  /** Custom assertions referenced by name from the dataset */
+  customAssertions?: Record<string, CustomAssertion>;
+  /** Cases run at the same time (default 1) */
+  concurrency?: number;
+  /** Called after every case, e.g. for progress output */
+  onResult?: (result: CaseResult) => void;
+}
+
+export interface CaseResult {
+  caseId: string;
+  variantId: string;
+  /** No error and every assertion passed */
+  pass: boolean;
+  output?: string;
+  /** Message of the request error, when the prompt could not be run */
+  error?: string;
+  assertions: AssertionResult[];
+  latencyMs: number;
+}
+
+/** How one variant did across the dataset */
+export interface VariantReport {
+  variantId: string;
+  cases: number;
+  passed: number;
+  /** Cases whose request failed */
+  errors: number;
+  passRate: number;
+  /** Mean of the scores reported by assertions, if any reported one */
+  averageScore?: number;
+  averageLatencyMs: number;
+  p95LatencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** From the cost tracker – 0 for unpriced models */
+  estimatedCostUsd: number;
+  results: CaseResult[];
+}
+
+export interface EvaluationReport {
+  promptId: string;
+  cases: number;
+  variants: VariantReport[];
+  durationMs: number;
+}
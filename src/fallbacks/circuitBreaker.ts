@@ -0,0 +1,163 @@
+import { ProviderError } from '../errors';
+import type {
+  CircuitBreakerOptions,
+  CircuitHealth,
+  CircuitState,
+  ExecutionTarget,
+} from './types';
+
+/** Defaults applied to every option left out */
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Required<
+  Omit<CircuitBreakerOptions, 'now'>
+> = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+interface CircuitEntry {
+  providerId: string;
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  lastFailureReason?: ProviderError['reason'];
+  /** Whether the single half-open probe is currently in flight */
+  probing: boolean;
+}
+
+/**
+ * Tracks the health of every provider/model pair used by a `Promptuna` instance.
+ *
+ * - **closed** – calls go through; consecutive retryable failures are counted
+ * - **open** – entered after `failureThreshold` failures; targets are skipped
+ *   without calling the provider until `resetTimeoutMs` has passed
+ * - **half-open** – a single probe call is let through; success closes the
+ *   circuit, a retryable failure opens it again
+ *
+ * Only retryable `ProviderError`s (outages, timeouts, rate limits) count as
+ * failures – a bad request or off-schema output says nothing about the
+ * provider's health.
+ */
+export class CircuitBreaker {
+  private readonly circuits = new Map<string, CircuitEntry>();
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold =
+      options.failureThreshold ??
+      DEFAULT_CIRCUIT_BREAKER_OPTIONS.failureThreshold;
+    this.resetTimeoutMs =
+      options.resetTimeoutMs ?? DEFAULT_CIRCUIT_BREAKER_OPTIONS.resetTimeoutMs;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Whether a call may be made against the target right now. Moves an open
+   * circuit to half-open once its reset timeout has elapsed and claims the probe.
+   */
+  canAttempt(target: ExecutionTarget): boolean {
+    const entry = this.circuits.get(this.key(target));
+    if (!entry || entry.state === 'closed') return true;
+
+    if (
+      entry.state === 'open' &&
+      this.now() - (entry.openedAt ?? 0) >= this.resetTimeoutMs
+    ) {
+      entry.state = 'half-open';
+    }
+
+    if (entry.state === 'half-open' && !entry.probing) {
+      entry.probing = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /** Record a successful call – closes the circuit */
+  recordSuccess(target: ExecutionTarget): void {
+    const entry = this.getOrCreate(target);
+    entry.state = 'closed';
+    entry.consecutiveFailures = 0;
+    entry.openedAt = undefined;
+    entry.probing = false;
+  }
+
+  /**
+   * Record a failed call – retryable `ProviderError`s count towards opening the
+   * circuit, anything else (including calls refused by the client-side rate
+   * limiter) only releases a pending half-open probe
+   */
+  recordFailure(target: ExecutionTarget, error: unknown): void {
+    const entry = this.getOrCreate(target);
+    entry.probing = false;
+
+    if (
+      !(error instanceof ProviderError) ||
+      !error.retryable ||
+      error.reason === 'invalid-output' ||
+      // Our own limiter refused the call – the provider was never reached
+      error.code === 'client-rate-limit'
+    ) {
+      return;
+    }
+
+    entry.consecutiveFailures++;
+    entry.lastFailureReason = error.reason;
+
+    if (
+      entry.state === 'half-open' ||
+      entry.consecutiveFailures >= this.failureThreshold
+    ) {
+      entry.state = 'open';
+      entry.openedAt = this.now();
+    }
+  }
+
+  /**
+   * Point-in-time view of every provider/model pair seen so far
+   */
+  getSnapshot(): CircuitHealth[] {
+    return [...this.circuits.values()].map(entry => {
+      // Report an expired open circuit as half-open without claiming the probe
+      const state =
+        entry.state === 'open' &&
+        this.now() - (entry.openedAt ?? 0) >= this.resetTimeoutMs
+          ? 'half-open'
+          : entry.state;
+
+      return {
+        providerId: entry.providerId,
+        model: entry.model,
+        state,
+        consecutiveFailures: entry.consecutiveFailures,
+        ...(entry.openedAt !== undefined && { openedAt: entry.openedAt }),
+        ...(entry.lastFailureReason && {
+          lastFailureReason: entry.lastFailureReason,
+        }),
+      };
+    });
+  }
+
+  private getOrCreate(target: ExecutionTarget): CircuitEntry {
+    const key = this.key(target);
+    let entry = this.circuits.get(key);
+    if (!entry) {
+      entry = {
+        providerId: target.providerId,
+        model: target.model,
+        state: 'closed',
+        consecutiveFailures: 0,
+        probing: false,
+      };
+      this.circuits.set(key, entry);
+    }
+    return entry;
+  }
+
+  private key(target: ExecutionTarget): string {
+    return `${target.providerId}:${target.model}`;
+  }
+}
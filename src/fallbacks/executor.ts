@@ -1,46 +1,98 @@
 import { Provider } from '../providers/types';
 import { ProviderError } from '../errors';
 import type { ExecutionTarget, FallbackCallbackContext } from './types';
+import { computeRetryDelay, resolveRetryPolicy, sleep } from './retry';
+import type { CircuitBreaker } from './circuitBreaker';
+import { cancellationError } from '../shared/utils/abort';
 
 /**
  * Execute a chat completion (or any provider operation) against a list of targets.
- * The first target is the primary one; subsequent targets are fallbacks.
+ * The first target is the primary one; subsequent targets are fallbacks. Each
+ * target is retried according to its `retry` policy before moving on. Targets
+ * whose circuit is open are skipped without calling the provider. Once the
+ * caller's signal aborts no further attempt is made and a pending backoff ends
+ * at once.
  *
  * @param targets Ordered list of provider/model pairs to try
  * @param attempt Function that performs the call given a provider instance and model name
- * @param getProvider Function that returns a provider instance for a given provider type
+ * @param getProvider Function that returns the provider instance for a target
  * @param onAttempt Optional hook invoked after each attempt (success or failure)
+ * @param circuitBreaker Optional breaker shared across executions to track target health
+ * @param signal Optional caller signal that cancels retries and fallbacks
  * @returns Result of the first successful attempt
  * @throws The last ProviderError if all attempts fail, or the original error for non-retryable failures
  */
 export async function executeWithFallback<T>(
   targets: ExecutionTarget[],
   attempt: (provider: Provider, target: ExecutionTarget) => Promise<T>,
-  getProvider: (providerType: string) => Provider,
-  onAttempt?: (ctx: FallbackCallbackContext) => void
+  getProvider: (target: ExecutionTarget) => Provider,
+  onAttempt?: (ctx: FallbackCallbackContext) => void,
+  circuitBreaker?: CircuitBreaker,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: ProviderError | undefined;
 
   for (const target of targets) {
-    const provider = getProvider(target.providerType);
-
-    try {
-      const result = await attempt(provider, target);
-      // Success – notify callback without error and exit
-      onAttempt?.({ target });
-      return result;
-    } catch (err) {
-      if (err instanceof ProviderError) {
-        onAttempt?.({ target, error: err });
+    // Resolve first – canAttempt may claim the half-open probe, which only an
+    // attempt outcome releases
+    const provider = getProvider(target);
+
+    if (circuitBreaker && !circuitBreaker.canAttempt(target)) {
+      // Unhealthy target – skip straight to the next one
+      lastError = new ProviderError(
+        'circuit-open',
+        `Circuit open for ${target.providerId}/${target.model}`,
+        true,
+        'circuit-open'
+      );
+      onAttempt?.({ target, error: lastError, attempt: 0 });
+      continue;
+    }
+
+    const policy = resolveRetryPolicy(target.retry);
+
+    for (let attemptNo = 1; ; attemptNo++) {
+      if (signal?.aborted) throw cancellationError(signal);
+      // A failure may have opened the circuit – don't keep hammering the target
+      if (attemptNo > 1 && !(circuitBreaker?.canAttempt(target) ?? true)) {
+        break;
+      }
+
+      try {
+        const result = await attempt(provider, target);
+        circuitBreaker?.recordSuccess(target);
+        // Success – notify callback without error and exit
+        onAttempt?.({ target, attempt: attemptNo });
+        return result;
+      } catch (err) {
+        circuitBreaker?.recordFailure(target, err);
+
+        if (!(err instanceof ProviderError)) {
+          // Unknown error type – rethrow
+          throw err;
+        }
+
+        const delay =
+          err.retryable && attemptNo < policy.maxAttempts
+            ? computeRetryDelay(policy, attemptNo, err)
+            : undefined;
+
+        onAttempt?.({
+          target,
+          error: err,
+          attempt: attemptNo,
+          ...(delay !== undefined && { retryDelayMs: delay }),
+        });
+
         if (!err.retryable) {
           // Non-retryable – propagate immediately
           throw err;
         }
         lastError = err; // store to throw later if all retries fail
-        continue; // try next target if available
+
+        if (delay === undefined) break; // try next target if available
+        await sleep(delay, signal);
       }
-      // Unknown error type – rethrow
-      throw err;
     }
   }
 
@@ -1,2 +1,26 @@
 export { executeWithFallback } from './executor';
-export type { ExecutionTarget, FallbackCallbackContext } from './types';
+export {
+  computeRetryDelay,
+  resolveRetryPolicy,
+  DEFAULT_RETRY_POLICY,
+} from './retry';
+export {
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+} from './circuitBreaker';
+export {
+  RateLimiter,
+  resolveRateLimits,
+  DEFAULT_MAX_QUEUE_MS,
+} from './rateLimiter';
+export type {
+  ExecutionTarget,
+  FallbackCallbackContext,
+  RetryPolicy,
+  CircuitBreakerOptions,
+  CircuitHealth,
+  CircuitState,
+  RateLimits,
+  ProviderRateLimits,
+  RateLimitLease,
+} from './types';
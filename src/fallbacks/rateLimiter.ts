@@ -0,0 +1,251 @@
+import { ProviderError } from '../errors';
+import { findModelEntry } from '../models/registry';
+import type {
+  ExecutionTarget,
+  ProviderRateLimits,
+  RateLimitLease,
+  RateLimits,
+} from './types';
+
+/** How long a call may wait for capacity when `maxQueueMs` is not set */
+export const DEFAULT_MAX_QUEUE_MS = 10_000;
+
+const MINUTE_MS = 60_000;
+
+/** Refills continuously at `capacity` per minute */
+interface TokenBucket {
+  capacity: number;
+  available: number;
+  updatedAt: number;
+}
+
+interface Waiter {
+  tokens: number;
+  grant: (lease: RateLimitLease) => void;
+  fail: (error: Error) => void;
+  cleanup: () => void;
+}
+
+interface LimiterEntry {
+  limits: RateLimits;
+  requests?: TokenBucket;
+  tokens?: TokenBucket;
+  active: number;
+  queue: Waiter[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Limits of a model from a provider's `config.rateLimits`: the provider-wide
+ * values, overridden by the matching `models` entry (exact name or prefix)
+ * @returns The limits, or undefined when none apply
+ */
+export function resolveRateLimits(
+  config: ProviderRateLimits | undefined,
+  model: string
+): RateLimits | undefined {
+  if (!config) return undefined;
+  const { models, ...shared } = config;
+  const limits = { ...shared, ...findModelEntry(models, model) };
+  return limits.rpm || limits.tpm || limits.maxConcurrency ? limits : undefined;
+}
+
+function syncBucket(
+  bucket: TokenBucket | undefined,
+  capacity: number | undefined,
+  now: number
+): TokenBucket | undefined {
+  if (!capacity) return undefined;
+  if (!bucket) return { capacity, available: capacity, updatedAt: now };
+
+  bucket.available = Math.min(
+    capacity,
+    bucket.available + ((now - bucket.updatedAt) * capacity) / MINUTE_MS
+  );
+  bucket.capacity = capacity;
+  bucket.updatedAt = now;
+  return bucket;
+}
+
+/** Ms until the bucket holds `amount` (capped at its capacity) */
+function waitFor(bucket: TokenBucket | undefined, amount: number): number {
+  if (!bucket) return 0;
+  const missing = Math.min(amount, bucket.capacity) - bucket.available;
+  return missing > 0 ? Math.ceil((missing * MINUTE_MS) / bucket.capacity) : 0;
+}
+
+/**
+ * Client-side requests-per-minute, tokens-per-minute and concurrency limits
+ * for every provider/model pair used by a `Promptuna` instance.
+ *
+ * Calls queue in FIFO order until a token bucket has refilled and a
+ * concurrency slot is free. A call that cannot start within `maxQueueMs`
+ * fails with a retryable `rate-limit` error (code `client-rate-limit`), so the
+ * executor moves on to the next target instead of waiting.
+ */
+export class RateLimiter {
+  private readonly entries = new Map<string, LimiterEntry>();
+  private readonly now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /**
+   * Waits for capacity on the target
+   * @param target Provider/model pair to call
+   * @param limits Its limits (see `resolveRateLimits()`)
+   * @param tokens Estimated tokens of the call, counted against `tpm`
+   * @param signal Gives up the place in the queue when aborted
+   * @returns A lease to release once the call has finished
+   * @throws ProviderError when the call would wait longer than `maxQueueMs`
+   */
+  acquire(
+    target: ExecutionTarget,
+    limits: RateLimits,
+    tokens: number,
+    signal?: AbortSignal
+  ): Promise<RateLimitLease> {
+    const key = `${target.providerId}:${target.model}`;
+    const entry = this.getEntry(key, limits);
+    const maxQueueMs = limits.maxQueueMs ?? DEFAULT_MAX_QUEUE_MS;
+
+    const rejection = (retryAfterMs?: number) =>
+      new ProviderError(
+        'rate-limit',
+        `Client-side rate limit for ${target.providerId}/${target.model}: no capacity within ${maxQueueMs}ms`,
+        true,
+        'client-rate-limit',
+        undefined,
+        retryAfterMs
+      );
+
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    // Fail fast when the buckets alone make the wait too long
+    if (!entry.queue.length) {
+      const wait = this.bucketWait(entry, tokens);
+      if (wait > maxQueueMs) return Promise.reject(rejection(wait));
+    }
+
+    return new Promise<RateLimitLease>((resolve, reject) => {
+      const remove = () => {
+        const index = entry.queue.indexOf(waiter);
+        if (index !== -1) entry.queue.splice(index, 1);
+        waiter.cleanup();
+        // The head of the queue may have been blocking others
+        this.pump(entry);
+      };
+      const deadline = setTimeout(() => {
+        remove();
+        reject(rejection());
+      }, maxQueueMs);
+      const onAbort = () => {
+        remove();
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const waiter: Waiter = {
+        tokens,
+        grant: resolve,
+        fail: reject,
+        cleanup: () => {
+          clearTimeout(deadline);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      };
+      entry.queue.push(waiter);
+      this.pump(entry);
+    });
+  }
+
+  /**
+   * Rejects every queued call and stops the refill timers. Leases already
+   * granted stay valid, and later calls are limited as before.
+   */
+  close(): void {
+    for (const entry of this.entries.values()) {
+      clearTimeout(entry.timer);
+      entry.timer = undefined;
+      for (const waiter of entry.queue.splice(0)) {
+        waiter.cleanup();
+        waiter.fail(
+          new ProviderError(
+            'provider-error',
+            'Rate limiter closed while the call was queued',
+            false,
+            'client-closed'
+          )
+        );
+      }
+    }
+  }
+
+  private getEntry(key: string, limits: RateLimits): LimiterEntry {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { limits, active: 0, queue: [] };
+      this.entries.set(key, entry);
+    }
+    // Limits may change with a config reload
+    entry.limits = limits;
+    const now = this.now();
+    entry.requests = syncBucket(entry.requests, limits.rpm, now);
+    entry.tokens = syncBucket(entry.tokens, limits.tpm, now);
+    return entry;
+  }
+
+  private bucketWait(entry: LimiterEntry, tokens: number): number {
+    const now = this.now();
+    entry.requests = syncBucket(entry.requests, entry.limits.rpm, now);
+    entry.tokens = syncBucket(entry.tokens, entry.limits.tpm, now);
+    return Math.max(waitFor(entry.requests, 1), waitFor(entry.tokens, tokens));
+  }
+
+  /** Starts queued calls while capacity lasts */
+  private pump(entry: LimiterEntry): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = undefined;
+    }
+
+    while (entry.queue.length) {
+      const { maxConcurrency } = entry.limits;
+      // A release will pump again
+      if (maxConcurrency && entry.active >= maxConcurrency) return;
+
+      const waiter = entry.queue[0];
+      const wait = this.bucketWait(entry, waiter.tokens);
+      if (wait > 0) {
+        entry.timer = setTimeout(() => this.pump(entry), wait);
+        // Queued calls keep the process alive through their own deadline
+        entry.timer.unref();
+        return;
+      }
+
+      entry.queue.shift();
+      waiter.cleanup();
+      if (entry.requests) entry.requests.available -= 1;
+      if (entry.tokens) entry.tokens.available -= waiter.tokens;
+      entry.active++;
+      waiter.grant(this.createLease(entry, waiter.tokens));
+    }
+  }
+
+  private createLease(entry: LimiterEntry, estimated: number): RateLimitLease {
+    let released = false;
+    return {
+      release: actualTokens => {
+        if (released) return;
+        released = true;
+        entry.active--;
+        // Settle the token bucket with what the call really used
+        if (entry.tokens && actualTokens !== undefined) {
+          entry.tokens.available -= actualTokens - estimated;
+        }
+        this.pump(entry);
+      },
+    };
+  }
+}
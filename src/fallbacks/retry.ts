@@ -0,0 +1,85 @@
+import type { ProviderError } from '../errors';
+import type { RetryPolicy } from './types';
+import { cancellationError } from '../shared/utils/abort';
+
+/** Defaults applied to every field a policy leaves out – no retries unless configured */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 1,
+  baseDelayMs: 250,
+  maxDelayMs: 10_000,
+  jitter: 'full',
+  respectRetryAfter: true,
+};
+
+/**
+ * Fill in defaults for a (possibly partial) retry policy
+ */
+export function resolveRetryPolicy(
+  policy?: RetryPolicy
+): Required<RetryPolicy> {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Compute how long to wait before retrying the same target.
+ *
+ * Uses exponential backoff (`baseDelayMs * 2^(attempt-1)`, capped at
+ * `maxDelayMs`) with the configured jitter. A provider `Retry-After` hint wins
+ * when honoured; if it asks for longer than `maxDelayMs` there is no point
+ * waiting, so `undefined` is returned and the caller moves to the next target.
+ *
+ * @param policy Resolved retry policy
+ * @param attempt 1-based number of the attempt that just failed
+ * @param error The retryable error raised by that attempt
+ * @param random Source of randomness in [0,1) – injectable for tests
+ * @returns Delay in ms, or `undefined` if the target should not be retried
+ */
+export function computeRetryDelay(
+  policy: Required<RetryPolicy>,
+  attempt: number,
+  error: ProviderError,
+  random: () => number = Math.random
+): number | undefined {
+  if (policy.respectRetryAfter && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs
+      ? error.retryAfterMs
+      : undefined;
+  }
+
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+
+  switch (policy.jitter) {
+    case 'none':
+      return backoff;
+    case 'equal':
+      return backoff / 2 + random() * (backoff / 2);
+    case 'full':
+    default:
+      return random() * backoff;
+  }
+}
+
+/**
+ * Wait out a retry backoff
+ * @param ms Delay in ms
+ * @param signal Caller signal – aborting it ends the wait at once
+ * @throws ProviderError `aborted` (or `timeout` for a timed out signal) when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(cancellationError(signal));
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancellationError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
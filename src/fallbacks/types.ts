@@ -1,12 +1,87 @@
-import type { ProviderError } from '../errors';
+import type { FallbackReason, ProviderError } from '../errors';
+
+/**
+ * Retry behaviour for a single target. Only retryable `ProviderError`s
+ * (rate limits, timeouts) are retried; anything else moves straight on.
+ */
+export interface RetryPolicy {
+  /** Total attempts against the target, including the first (default 1 – no retries) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on every further retry (default 250) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (default 10000) */
+  maxDelayMs?: number;
+  /** Randomisation applied to the backoff delay (default "full") */
+  jitter?: 'full' | 'equal' | 'none';
+  /** Wait for the provider's Retry-After hint when present (default true) */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Per provider/model circuit breaker settings (see `CircuitBreaker`)
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive retryable failures that open the circuit (default 5) */
+  failureThreshold?: number;
+  /** How long an open circuit skips its target before a probe is allowed (default 30000) */
+  resetTimeoutMs?: number;
+  /** Clock used for open/reset timing – injectable for tests */
+  now?: () => number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** Health snapshot for a single provider/model pair */
+export interface CircuitHealth {
+  providerId: string;
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Epoch ms when the circuit last opened */
+  openedAt?: number;
+  lastFailureReason?: FallbackReason;
+}
+
+/**
+ * Client-side limits for one provider/model pair, enforced by `RateLimiter`
+ */
+export interface RateLimits {
+  /** Requests per minute */
+  rpm?: number;
+  /** Tokens per minute – estimated prompt tokens plus `max_tokens`, settled with the actual usage */
+  tpm?: number;
+  /** Calls in flight at the same time */
+  maxConcurrency?: number;
+  /** Longest a call waits for capacity before falling through to the next target (default 10000) */
+  maxQueueMs?: number;
+}
+
+/**
+ * `config.rateLimits` of a provider: limits applied to each of its models
+ * separately, with per-model overrides (exact name or prefix)
+ */
+export interface ProviderRateLimits extends RateLimits {
+  models?: Record<string, RateLimits>;
+}
+
+/** Capacity granted by `RateLimiter.acquire()` */
+export interface RateLimitLease {
+  /** Frees the concurrency slot; pass the actual token usage when known */
+  release(actualTokens?: number): void;
+}
 
 export interface ExecutionTarget {
   providerId: string; // Key into config.providers
   providerType: string; // e.g. "openai", "anthropic", "google"
   model: string;
+  retry?: RetryPolicy;
 }
 
 export interface FallbackCallbackContext {
   target: ExecutionTarget;
   error?: ProviderError;
+  /** 1-based attempt number against this target (0 when skipped by an open circuit) */
+  attempt: number;
+  /** Present when the same target will be retried after this many ms */
+  retryDelayMs?: number;
 }
@@ -6,7 +6,13 @@ export type {
   PromptunaRuntimeConfig,
   ProviderConfig,
   ValidationResult,
+  ConfigWatchOptions,
+  ConfigEvent,
+  ConfigLoader,
+  LoadedConfig,
 } from './config/index.js';
+export { createHttpConfigLoader } from './config/loaders.js';
+export type { HttpConfigLoaderOptions } from './config/loaders.js';
 
 // Core types
 export type { Variant, Prompt, ExecutionError } from './config/index.js';
@@ -17,16 +23,115 @@ export type {
 } from './config/index.js';
 
 // Templates
-export type { Message, RenderedMessage } from './templates/index.js';
+export type {
+  Message,
+  RenderedMessage,
+  VariableDefinition,
+  VariableType,
+  TemplateFilter,
+  TemplateFilters,
+} from './templates/index.js';
+
+// Multimodal content
+export type {
+  ContentPart,
+  TextPart,
+  ImagePart,
+  FilePart,
+  AudioPart,
+  MessageContent,
+  BinaryInput,
+  MessagePartTemplate,
+  TextPartTemplate,
+  BinaryPartTemplate,
+} from './content/index.js';
+
+// Chains
+export type {
+  ChainStep,
+  ChainPromptStep,
+  ChainParallelStep,
+  ChainCondition,
+  ChainPath,
+  RunChainParams,
+  ChainResult,
+  ChainStepResult,
+} from './chains/index.js';
+
+// Generated types
+export { generateTypes } from './codegen/index.js';
+export type {
+  GenerateTypesOptions,
+  PromptTypes,
+  PromptunaTypes,
+  UntypedPromptunaTypes,
+  PromptIdOf,
+  VariantIdOf,
+  VariablesOf,
+  ParsedOf,
+  TypedChatCompletionParams,
+  TypedRunChainParams,
+  TypedGetTemplateParams,
+} from './codegen/index.js';
+
+// Evaluation
+export {
+  evaluate,
+  parseDataset,
+  loadDataset,
+  formatReport,
+} from './evaluation/index.js';
+export type {
+  EvaluateOptions,
+  EvaluationCase,
+  EvaluationReport,
+  VariantReport,
+  CaseResult,
+  Assertion,
+  AssertionContext,
+  AssertionOutcome,
+  AssertionResult,
+  CustomAssertion,
+} from './evaluation/index.js';
 
 // Providers
+export { registerProvider } from './providers/index.js';
+export type {
+  ProviderFactory,
+  ProviderFactoryContext,
+  ProviderRegistration,
+  MockProviderConfig,
+  MockFailure,
+} from './providers/index.js';
 export type {
   ChatMessage,
+  ResponseMessage,
   ChatCompletionOptions,
   ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatCompletionUsage,
   Provider,
 } from './providers/index.js';
 
+// Models
+export {
+  registerModel,
+  getModelMetadata,
+  registerTokenizer,
+  getTokenizer,
+  createCharacterEstimator,
+  estimateTokens,
+  getModelPricing,
+  estimateCostUsd,
+} from './models/index.js';
+export type {
+  ModelMetadata,
+  ModelPricing,
+  Tokenizer,
+  TruncationStrategy,
+  TruncationResult,
+} from './models/index.js';
+
 // Response types
 export type {
   ResponseFormat,
@@ -34,6 +139,46 @@ export type {
   FallbackTarget,
 } from './responses/index.js';
 
+// Tools
+export type {
+  ToolDefinition,
+  Tool,
+  ToolChoice,
+  ToolCall,
+} from './tools/index.js';
+
+// Fallbacks
+export type {
+  RetryPolicy,
+  CircuitBreakerOptions,
+  CircuitHealth,
+  CircuitState,
+  RateLimits,
+  ProviderRateLimits,
+} from './fallbacks/index.js';
+
+// Caching
+export { MemoryCacheStore } from './cache/index.js';
+export type {
+  CacheStore,
+  ResponseCacheOptions,
+  VariantCacheConfig,
+} from './cache/index.js';
+
+// Record/replay
+export type { CassetteMode, CassetteOptions } from './cassettes/index.js';
+
+// Budgets
+export { MemoryBudgetStore } from './budgets/index.js';
+export type {
+  BudgetScope,
+  BudgetLimit,
+  BudgetUsage,
+  BudgetStore,
+  BudgetOptions,
+  BudgetOutcome,
+} from './budgets/index.js';
+
 // Routing
 export type {
   VariantSelection,
@@ -46,5 +191,9 @@ export type {
 export type {
   PromptunaObservability,
   TokenUsage,
+  FallbackAttempt,
   RoutingReason,
+  CostFilter,
+  CostDimension,
+  CostSummary,
 } from './observability/index.js';
@@ -0,0 +1,18 @@
+export { registerModel, getModelMetadata } from './registry';
+export { getModelPricing, estimateCostUsd } from './pricing';
+export {
+  createCharacterEstimator,
+  registerTokenizer,
+  getTokenizer,
+  estimateMessageTokens,
+  estimateTokens,
+} from './tokenizers';
+export { fitToContext } from './truncation';
+export type { ContextBudget, FitToContextOptions } from './truncation';
+export type {
+  ModelMetadata,
+  ModelPricing,
+  Tokenizer,
+  TruncationStrategy,
+  TruncationResult,
+} from './types';
@@ -0,0 +1,89 @@
+import type { ChatCompletionUsage } from '../providers/types';
+import { findModelEntry } from './registry';
+import type { ModelPricing } from './types';
+
+type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * List prices (USD per million tokens, standard tier) of popular models, keyed
+ * like the model metadata table. Prices change – override them with the
+ * `pricing` runtime option or a provider's `config.pricing`.
+ */
+const BUILT_IN_PRICING: Record<string, PricingTable> = {
+  openai: {
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+    'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+    'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+    'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+    'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+    o1: { inputPerMillion: 15, outputPerMillion: 60 },
+    'o1-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+    o3: { inputPerMillion: 2, outputPerMillion: 8 },
+    'o3-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+    'o4-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  },
+  anthropic: {
+    'claude-opus-4': { inputPerMillion: 15, outputPerMillion: 75 },
+    'claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+    'claude-3-opus': { inputPerMillion: 15, outputPerMillion: 75 },
+    'claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  },
+  google: {
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+    'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  },
+};
+
+/**
+ * Looks up a model's token prices. Tables are checked most specific first.
+ * @param providerType Provider type the model is served by
+ * @param model Model name as used in the variant
+ * @param overrides Pricing tables in order of precedence, e.g. the provider's
+ *   `config.pricing` followed by the runtime `pricing[providerType]`
+ * @returns The pricing, or undefined when the model has no known price
+ */
+export function getModelPricing(
+  providerType: string,
+  model: string,
+  ...overrides: Array<PricingTable | undefined>
+): ModelPricing | undefined {
+  for (const table of [...overrides, BUILT_IN_PRICING[providerType]]) {
+    const pricing = findModelEntry(table, model);
+    if (pricing) return pricing;
+  }
+  return undefined;
+}
+
+/** Cost of a response in USD */
+export function estimateCostUsd(
+  usage: Pick<ChatCompletionUsage, 'prompt_tokens' | 'completion_tokens'>,
+  pricing: ModelPricing
+): number {
+  return (
+    (usage.prompt_tokens * pricing.inputPerMillion +
+      usage.completion_tokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/** Token usage of two calls made for one request */
+export function addUsage(
+  a?: ChatCompletionUsage,
+  b?: ChatCompletionUsage
+): ChatCompletionUsage | undefined {
+  if (!a || !b) return a ?? b;
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+  };
+}
@@ -0,0 +1,98 @@
+import type { ModelMetadata } from './types';
+
+type ModelTable = Record<string, ModelMetadata>;
+
+/**
+ * Published limits of popular models. Keys match the model name exactly or as
+ * a prefix followed by `-` (`gpt-4o` covers `gpt-4o-2024-08-06`); the longest
+ * matching key wins.
+ */
+const BUILT_IN_MODELS: Record<string, ModelTable> = {
+  openai: {
+    'gpt-4o': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+    'gpt-4o-mini': { contextWindow: 128_000, maxOutputTokens: 16_384 },
+    'gpt-4.1': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+    'gpt-4.1-mini': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+    'gpt-4.1-nano': { contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+    'gpt-4-turbo': { contextWindow: 128_000, maxOutputTokens: 4_096 },
+    'gpt-4': { contextWindow: 8_192, maxOutputTokens: 8_192 },
+    'gpt-3.5-turbo': { contextWindow: 16_385, maxOutputTokens: 4_096 },
+    o1: { contextWindow: 200_000, maxOutputTokens: 100_000 },
+    'o1-mini': { contextWindow: 128_000, maxOutputTokens: 65_536 },
+    o3: { contextWindow: 200_000, maxOutputTokens: 100_000 },
+    'o3-mini': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+    'o4-mini': { contextWindow: 200_000, maxOutputTokens: 100_000 },
+  },
+  anthropic: {
+    'claude-opus-4': { contextWindow: 200_000, maxOutputTokens: 32_000 },
+    'claude-sonnet-4': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+    'claude-3-7-sonnet': { contextWindow: 200_000, maxOutputTokens: 64_000 },
+    'claude-3-5-sonnet': { contextWindow: 200_000, maxOutputTokens: 8_192 },
+    'claude-3-5-haiku': { contextWindow: 200_000, maxOutputTokens: 8_192 },
+    'claude-3-opus': { contextWindow: 200_000, maxOutputTokens: 4_096 },
+    'claude-3-haiku': { contextWindow: 200_000, maxOutputTokens: 4_096 },
+  },
+  google: {
+    'gemini-2.5-pro': { contextWindow: 1_048_576, maxOutputTokens: 65_536 },
+    'gemini-2.5-flash': { contextWindow: 1_048_576, maxOutputTokens: 65_536 },
+    'gemini-2.0-flash': { contextWindow: 1_048_576, maxOutputTokens: 8_192 },
+    'gemini-1.5-pro': { contextWindow: 2_097_152, maxOutputTokens: 8_192 },
+    'gemini-1.5-flash': { contextWindow: 1_048_576, maxOutputTokens: 8_192 },
+  },
+};
+
+const registered = new Map<string, ModelTable>();
+
+/**
+ * Adds or replaces the metadata of a model. Registered entries win over the
+ * built-in table and match model names the same way (exactly or as a prefix).
+ * @param providerType Provider type the model is served by (`openai`, `anthropic`, ...)
+ * @param model Model name or name prefix
+ * @param metadata Context window and output limit
+ */
+export function registerModel(
+  providerType: string,
+  model: string,
+  metadata: ModelMetadata
+): void {
+  registered.set(providerType, {
+    ...registered.get(providerType),
+    [model]: metadata,
+  });
+}
+
+/**
+ * Entry of a per-model table: the exact model name, else the longest key that
+ * is followed by `-` in the name (`gpt-4o` for `gpt-4o-2024-08-06`)
+ */
+export function findModelEntry<T>(
+  table: Record<string, T> | undefined,
+  model: string
+): T | undefined {
+  if (!table) return undefined;
+  if (table[model]) return table[model];
+
+  const key = Object.keys(table)
+    .filter(prefix => model.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : undefined;
+}
+
+/**
+ * Looks up a model's limits
+ * @param providerType Provider type the model is served by
+ * @param model Model name as used in the variant
+ * @param overrides Per-provider entries (`providers[id].config.models`), checked first
+ * @returns The metadata, or undefined for unknown models
+ */
+export function getModelMetadata(
+  providerType: string,
+  model: string,
+  overrides?: Record<string, ModelMetadata>
+): ModelMetadata | undefined {
+  return (
+    findModelEntry(overrides, model) ??
+    findModelEntry(registered.get(providerType), model) ??
+    findModelEntry(BUILT_IN_MODELS[providerType], model)
+  );
+}
@@ -0,0 +1,88 @@
+import type { ChatMessage } from '../providers/types';
+import type { Tokenizer } from './types';
+
+/** Framing tokens every message costs on top of its content (role, separators) */
+const MESSAGE_OVERHEAD = 4;
+
+/** Flat estimates for non-text content, which tokenizers cannot measure */
+const PART_TOKENS: Record<string, number> = {
+  image: 1_000,
+  file: 2_000,
+  audio: 1_000,
+};
+
+/**
+ * Estimates tokens as characters divided by an average characters-per-token
+ * ratio. Good to a few percent on English prose, less so on code or other
+ * languages – register an exact tokenizer where that matters.
+ */
+export function createCharacterEstimator(charsPerToken: number): Tokenizer {
+  return {
+    countTokens: text => Math.ceil(text.length / charsPerToken),
+  };
+}
+
+const DEFAULT_TOKENIZER = createCharacterEstimator(4);
+
+const tokenizers = new Map<string, Tokenizer>([
+  ['openai', DEFAULT_TOKENIZER],
+  ['openai-compatible', DEFAULT_TOKENIZER],
+  ['anthropic', createCharacterEstimator(3.5)],
+  ['google', DEFAULT_TOKENIZER],
+]);
+
+/**
+ * Replaces the token counter of a provider type, e.g. with an exact tokenizer
+ * @param providerType Built-in or registered provider type
+ * @param tokenizer Counter used for every model of the provider type
+ */
+export function registerTokenizer(
+  providerType: string,
+  tokenizer: Tokenizer
+): void {
+  tokenizers.set(providerType, tokenizer);
+}
+
+/** Token counter of a provider type; unknown types get a 4 chars/token estimate */
+export function getTokenizer(providerType: string): Tokenizer {
+  return tokenizers.get(providerType) ?? DEFAULT_TOKENIZER;
+}
+
+/**
+ * Estimated prompt tokens of a message: its text, tool calls and a flat
+ * amount per binary part, plus the per-message framing overhead
+ */
+export function estimateMessageTokens(
+  message: ChatMessage,
+  tokenizer: Tokenizer
+): number {
+  let tokens = MESSAGE_OVERHEAD;
+
+  if (typeof message.content === 'string') {
+    tokens += tokenizer.countTokens(message.content);
+  } else {
+    for (const part of message.content) {
+      tokens +=
+        part.type === 'text'
+          ? tokenizer.countTokens(part.text)
+          : PART_TOKENS[part.type];
+    }
+  }
+
+  for (const call of message.toolCalls ?? []) {
+    tokens += tokenizer.countTokens(`${call.name}${call.arguments}`);
+  }
+
+  return tokens;
+}
+
+/** Estimated prompt tokens of a message list */
+export function estimateTokens(
+  messages: ChatMessage[],
+  tokenizer: Tokenizer
+): number {
+  return messages.reduce(
+    (total, message) => total + estimateMessageTokens(message, tokenizer),
+    0
+  );
+}
@@ -0,0 +1,143 @@
+import { ExecutionError } from '../config/types';
+import type { ChatMessage } from '../providers/types';
+import { estimateTokens } from './tokenizers';
+import type { Tokenizer, TruncationResult, TruncationStrategy } from './types';
+
+/** Prompt tokens a target can accept */
+export interface ContextBudget {
+  model: string;
+  contextWindow: number;
+  /** Tokens kept free for the response (`max_tokens`, else the model's output limit) */
+  reservedOutputTokens: number;
+  tokenizer: Tokenizer;
+}
+
+export interface FitToContextOptions {
+  strategy: TruncationStrategy;
+  /** Caller supplied `messageHistory` – the only messages that may be dropped */
+  history: ChatMessage[];
+  /** Rendered template messages – always sent */
+  messages: ChatMessage[];
+  /** One budget per target; the messages must fit all of them */
+  budgets: ContextBudget[];
+  /** Writes the summary of dropped messages (`summarize` strategy only) */
+  summarize?: (dropped: ChatMessage[]) => Promise<string>;
+}
+
+/** Prompt tokens kept free for the summary that replaces dropped messages */
+export const SUMMARY_MAX_TOKENS = 512;
+
+const SUMMARY_INSTRUCTIONS =
+  'Summarize the following conversation in a few sentences. Keep names, ' +
+  'facts, decisions and open questions; leave out pleasantries.';
+
+/**
+ * Request that asks a model to summarize messages dropped from the history
+ */
+export function buildSummaryMessages(dropped: ChatMessage[]): ChatMessage[] {
+  const transcript = dropped
+    .map(message => {
+      const text =
+        typeof message.content === 'string'
+          ? message.content
+          : message.content
+              .map(part =>
+                part.type === 'text' ? part.text : `[${part.type}]`
+              )
+              .join(' ');
+      const calls = (message.toolCalls ?? []).map(
+        call => `[called ${call.name}(${call.arguments})]`
+      );
+      return `${message.role}: ${[text, ...calls].filter(Boolean).join(' ')}`;
+    })
+    .join('\n');
+
+  return [
+    { role: 'system', content: SUMMARY_INSTRUCTIONS },
+    { role: 'user', content: transcript },
+  ];
+}
+
+/**
+ * Fit `messageHistory` plus the rendered template into the context window of
+ * every target. History messages are dropped oldest first; a tool result is
+ * never kept without the assistant message that requested it.
+ * @returns The messages to send and what was done to them
+ * @throws ExecutionError when the strategy is `fail`, or when the template
+ *   messages alone do not fit
+ */
+export async function fitToContext(
+  options: FitToContextOptions
+): Promise<{ messages: ChatMessage[]; truncation: TruncationResult }> {
+  const { strategy, history, messages, budgets } = options;
+
+  const overflow = (candidate: ChatMessage[], reserve = 0) =>
+    budgets.find(
+      budget =>
+        estimateTokens(candidate, budget.tokenizer) + reserve >
+        budget.contextWindow - budget.reservedOutputTokens
+    );
+  const estimate = (candidate: ChatMessage[]) =>
+    Math.max(
+      0,
+      ...budgets.map(budget => estimateTokens(candidate, budget.tokenizer))
+    );
+  const reject = (candidate: ChatMessage[], budget: ContextBudget) =>
+    new ExecutionError(
+      `Messages exceed the context window of model "${budget.model}"`,
+      {
+        strategy,
+        model: budget.model,
+        estimatedTokens: estimateTokens(candidate, budget.tokenizer),
+        contextWindow: budget.contextWindow,
+        reservedOutputTokens: budget.reservedOutputTokens,
+      }
+    );
+  const done = (
+    sent: ChatMessage[],
+    droppedMessages: number,
+    summarized = false
+  ) => ({
+    messages: sent,
+    truncation: {
+      strategy,
+      estimatedTokens: estimate(sent),
+      droppedMessages,
+      summarized,
+    },
+  });
+
+  const all = [...history, ...messages];
+  const exceeded = overflow(all);
+  if (!exceeded) return done(all, 0);
+  if (strategy === 'fail') throw reject(all, exceeded);
+
+  // Reserve room for the summary so it can be added without another pass
+  const reserve = strategy === 'summarize' ? SUMMARY_MAX_TOKENS : 0;
+  let cut = 1;
+  for (; cut <= history.length; cut++) {
+    if (history[cut]?.role === 'tool') continue;
+    if (!overflow([...history.slice(cut), ...messages], reserve)) break;
+  }
+  if (cut > history.length) {
+    const tooLarge = overflow(messages);
+    if (tooLarge) throw reject(messages, tooLarge);
+    cut = history.length;
+  }
+
+  const kept = [...history.slice(cut), ...messages];
+  if (strategy === 'drop-oldest' || !options.summarize) {
+    return done(kept, cut);
+  }
+
+  const summary = await options.summarize(history.slice(0, cut));
+  const summarized: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `Summary of the earlier conversation: ${summary}`,
+    },
+    ...kept,
+  ];
+  // A summary longer than requested is dropped rather than overflowing
+  return overflow(summarized) ? done(kept, cut) : done(summarized, cut, true);
+}
@@ -0,0 +1,42 @@
+/** Limits of a model, used to budget prompts before they are sent */
+export interface ModelMetadata {
+  /** Tokens the model accepts per request – prompt and completion together */
+  contextWindow: number;
+  /** Most tokens the model generates in one response */
+  maxOutputTokens?: number;
+}
+
+/**
+ * Counts (or estimates) the tokens of a piece of text for one provider's
+ * models. Plug in an exact tokenizer (e.g. tiktoken) with `registerTokenizer()`.
+ */
+export interface Tokenizer {
+  countTokens(text: string): number;
+}
+
+/**
+ * What happens when `messageHistory` plus the rendered template does not fit
+ * the model's context window:
+ * - `drop-oldest` – drop history messages, oldest first, until it fits
+ * - `summarize` – like `drop-oldest`, but the dropped messages are replaced by
+ *   a summary written by the variant's model
+ * - `fail` – reject the request before calling the provider
+ */
+export type TruncationStrategy = 'drop-oldest' | 'summarize' | 'fail';
+
+/** How a request was fitted into the context window */
+export interface TruncationResult {
+  strategy: TruncationStrategy;
+  /** Estimated prompt tokens of the messages that were sent */
+  estimatedTokens: number;
+  /** History messages that were removed */
+  droppedMessages: number;
+  /** Whether the removed messages were replaced by a summary */
+  summarized: boolean;
+}
+
+/** Token prices of a model in USD per million tokens */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
@@ -1,5 +1,10 @@
 import { randomUUID } from 'crypto';
-import { PromptunaObservability, TokenUsage, BuilderInit } from './types';
+import {
+  PromptunaObservability,
+  TokenUsage,
+  BuilderInit,
+  FallbackAttempt,
+} from './types';
 import { ObservabilityTimer } from './timer';
 
 /**
@@ -15,9 +20,13 @@ export class ObservabilityBuilder {
     | 'success'
     | 'error'
     | 'tokenUsage'
+    | 'estimatedCostUsd'
     | 'provider'
     | 'model'
     | 'providerRequestId'
+    | 'cacheHit'
+    | 'truncation'
+    | 'budget'
     | 'fallbackUsed'
     | 'fallbacks'
     | 'variantId'
@@ -31,11 +40,16 @@ export class ObservabilityBuilder {
   private model?: string;
   private providerRequestId?: string;
   private tokenUsage?: TokenUsage;
+  private estimatedCostUsd?: number;
   private variantId: string;
   private experimentContext?: PromptunaObservability['experimentContext'];
   private routingReason: PromptunaObservability['routingReason'];
   private routingTags?: string[];
   private fallbacks: NonNullable<PromptunaObservability['fallbacks']> = [];
+  private retries = 0;
+  private cacheHit?: boolean;
+  private truncation?: PromptunaObservability['truncation'];
+  private budget?: PromptunaObservability['budget'];
 
   constructor(init: BuilderInit) {
     this.emit = init.emit;
@@ -47,6 +61,8 @@ export class ObservabilityBuilder {
       environment: init.environment,
       promptId: init.promptId,
       userId: init.userId,
+      ...(init.parentRequestId && { parentRequestId: init.parentRequestId }),
+      ...(init.chainStepId && { chainStepId: init.chainStepId }),
       // routing fields will be added dynamically on build so keep minimal here
     } as const;
 
@@ -80,6 +96,11 @@ export class ObservabilityBuilder {
     this.timer.mark('provider');
   }
 
+  /** Streaming only – record when the first chunk reached the caller */
+  markFirstToken(): void {
+    this.timer.mark('firstToken');
+  }
+
   /* ------------------------- field setters ------------------------- */
   setProvider(type: string, model: string): void {
     this.provider = type;
@@ -103,21 +124,44 @@ export class ObservabilityBuilder {
     };
   }
 
+  setEstimatedCost(costUsd?: number): void {
+    this.estimatedCostUsd = costUsd;
+  }
+
+  /** Record the response cache outcome – a hit reports zero provider time */
+  setCacheHit(hit: boolean): void {
+    this.cacheHit = hit;
+  }
+
+  setTruncation(truncation: PromptunaObservability['truncation']): void {
+    this.truncation = truncation;
+  }
+
+  setBudget(budget: PromptunaObservability['budget']): void {
+    this.budget = budget;
+  }
+
   /** Update the variantId once it becomes known */
   setVariantId(id: string): void {
     this.variantId = id;
   }
 
   /** Record a fallback attempt (called for both success & failure) */
-  addFallbackAttempt(attempt: {
-    provider: string;
-    model: string;
-    reason: 'provider-error' | 'timeout' | 'rate-limit';
-  }): void {
+  addFallbackAttempt(attempt: FallbackAttempt): void {
     this.fallbacks.push(attempt);
+    if (attempt.retryDelayMs !== undefined) this.retries++;
   }
 
   /* ------------------------- finalisation ------------------------- */
+  private buildTimings(): PromptunaObservability['timings'] {
+    const timings = this.timer.end();
+    return {
+      ...timings,
+      ...(this.cacheHit && { provider: 0 }),
+      ...(this.retries && { retries: this.retries }),
+    };
+  }
+
   buildSuccess(): PromptunaObservability {
     const event: PromptunaObservability = {
       ...this.baseStatic,
@@ -127,8 +171,12 @@ export class ObservabilityBuilder {
       provider: this.provider ?? 'unknown',
       model: this.model ?? 'unknown',
       providerRequestId: this.providerRequestId,
-      timings: this.timer.end(),
+      cacheHit: this.cacheHit,
+      truncation: this.truncation,
+      budget: this.budget,
+      timings: this.buildTimings(),
       tokenUsage: this.tokenUsage,
+      estimatedCostUsd: this.estimatedCostUsd,
       fallbackUsed: this.fallbacks.length > 0,
       fallbacks: this.fallbacks.length ? this.fallbacks : undefined,
       success: true,
@@ -148,7 +196,10 @@ export class ObservabilityBuilder {
       provider: this.provider ?? 'unknown',
       model: this.model ?? 'unknown',
       providerRequestId: this.providerRequestId,
-      timings: this.timer.end(),
+      cacheHit: this.cacheHit,
+      truncation: this.truncation,
+      budget: this.budget,
+      timings: this.buildTimings(),
       fallbackUsed: this.fallbacks.length > 0,
       fallbacks: this.fallbacks.length ? this.fallbacks : undefined,
       success: false,
@@ -0,0 +1,119 @@
+import type { PromptunaObservability } from './types';
+
+/** Narrows a cost query – every given field must match */
+export interface CostFilter {
+  promptId?: string;
+  variantId?: string;
+  userId?: string;
+}
+
+export type CostDimension = keyof CostFilter;
+
+export interface CostSummary {
+  /** Requests that reported an observability event, successful or not */
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCostUsd: number;
+  /** Requests with token usage but no known price – not included in the cost */
+  unpricedRequests: number;
+}
+
+interface CostBucket extends CostSummary {
+  promptId: string;
+  variantId: string;
+  userId?: string;
+}
+
+const emptySummary = (): CostSummary => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  estimatedCostUsd: 0,
+  unpricedRequests: 0,
+});
+
+function addTo(summary: CostSummary, other: CostSummary): void {
+  summary.requests += other.requests;
+  summary.promptTokens += other.promptTokens;
+  summary.completionTokens += other.completionTokens;
+  summary.estimatedCostUsd += other.estimatedCostUsd;
+  summary.unpricedRequests += other.unpricedRequests;
+}
+
+/**
+ * Sums token usage and estimated cost of observability events per
+ * prompt/variant/user, so variants can be compared on cost. Only the totals
+ * are kept, never individual events.
+ */
+export class CostTracker {
+  private readonly buckets = new Map<string, CostBucket>();
+
+  record(event: PromptunaObservability): void {
+    const key = JSON.stringify([
+      event.promptId,
+      event.variantId,
+      event.userId ?? null,
+    ]);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        promptId: event.promptId,
+        variantId: event.variantId,
+        ...(event.userId !== undefined && { userId: event.userId }),
+        ...emptySummary(),
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    bucket.requests++;
+    bucket.promptTokens += event.tokenUsage?.prompt ?? 0;
+    bucket.completionTokens += event.tokenUsage?.completion ?? 0;
+    bucket.estimatedCostUsd += event.estimatedCostUsd ?? 0;
+    if (event.tokenUsage && event.estimatedCostUsd === undefined) {
+      bucket.unpricedRequests++;
+    }
+  }
+
+  /** Totals of the requests matching the filter (all requests by default) */
+  getSummary(filter: CostFilter = {}): CostSummary {
+    const summary = emptySummary();
+    for (const bucket of this.matching(filter)) addTo(summary, bucket);
+    return summary;
+  }
+
+  /**
+   * Totals per prompt, variant or user of the requests matching the filter.
+   * Requests without a `userId` are grouped under `"anonymous"`.
+   */
+  groupBy(
+    dimension: CostDimension,
+    filter: CostFilter = {}
+  ): Record<string, CostSummary> {
+    const groups: Record<string, CostSummary> = {};
+    for (const bucket of this.matching(filter)) {
+      const group = bucket[dimension] ?? 'anonymous';
+      groups[group] ??= emptySummary();
+      addTo(groups[group], bucket);
+    }
+    return groups;
+  }
+
+  reset(): void {
+    this.buckets.clear();
+  }
+
+  private *matching(filter: CostFilter): Iterable<CostBucket> {
+    for (const bucket of this.buckets.values()) {
+      if (
+        (filter.promptId === undefined ||
+          bucket.promptId === filter.promptId) &&
+        (filter.variantId === undefined ||
+          bucket.variantId === filter.variantId) &&
+        (filter.userId === undefined || bucket.userId === filter.userId)
+      ) {
+        yield bucket;
+      }
+    }
+  }
+}
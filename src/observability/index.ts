@@ -1,8 +1,11 @@
 export { ObservabilityBuilder } from './builder';
 export { ObservabilityTimer } from './timer';
+export { CostTracker } from './costs';
+export type { CostFilter, CostDimension, CostSummary } from './costs';
 export type {
   PromptunaObservability,
   TokenUsage,
+  FallbackAttempt,
   RoutingReason,
   ObservabilityError,
   Timings,
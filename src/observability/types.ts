@@ -1,8 +1,15 @@
+import type { TruncationResult } from '../models/types';
+import type { BudgetOutcome } from '../budgets/types';
+
 export interface PromptunaObservability {
   // Request identification
   requestId: string;
   /** Stable identifier for the end-user making the request */
   userId?: string;
+  /** Request id of the `runChain()` call this request belongs to */
+  parentRequestId?: string;
+  /** Id of the chain step that issued this request */
+  chainStepId?: string;
   /** ISO-8601 timestamp in UTC */
   timestamp: string;
   /** Version of the Promptuna SDK (e.g. read from package.json) */
@@ -25,25 +32,31 @@ export interface PromptunaObservability {
     template?: number;
     /** Time spent waiting for the LLM provider (ms) */
     provider?: number;
+    /** Time until the first streamed chunk arrived (ms) – streaming only */
+    firstToken?: number;
     /** Number of automatic retries that occurred */
     retries?: number;
   };
   tokenUsage?: TokenUsage;
+  /** Cost of `tokenUsage` at the model's pricing – unset when usage or pricing is unknown, 0 for cache hits */
+  estimatedCostUsd?: number;
 
   // Provider information
   provider: string;
   model: string;
   /** Provider-side request / response identifier for easier cross-referencing */
   providerRequestId?: string;
+  /** Set whenever the response cache was consulted – true when it served the response */
+  cacheHit?: boolean;
+  /** Set whenever runtime `budgets` are configured – whether the request was allowed, downgraded or rejected */
+  budget?: BudgetOutcome;
+  /** Set for variants with a `truncationStrategy` – how the messages were fitted into the context window */
+  truncation?: TruncationResult;
 
   // Fallback tracking
   fallbackUsed: boolean;
   /** Full chain of fallback attempts – first element is the initial attempt when fallbackUsed is true */
-  fallbacks?: Array<{
-    provider: string;
-    model: string;
-    reason: 'provider-error' | 'timeout' | 'rate-limit';
-  }>;
+  fallbacks?: Array<FallbackAttempt>;
 
   // Request outcome
   success: boolean;
@@ -68,6 +81,22 @@ export interface PromptunaObservability {
   custom?: Record<string, any>;
 }
 
+/** A single failed attempt – retries of the same target appear as separate entries */
+export interface FallbackAttempt {
+  provider: string;
+  model: string;
+  reason:
+    | 'provider-error'
+    | 'timeout'
+    | 'rate-limit'
+    | 'circuit-open'
+    | 'invalid-output';
+  /** 1-based attempt number against this provider/model */
+  attempt?: number;
+  /** Present when the same target was retried after this delay (ms) */
+  retryDelayMs?: number;
+}
+
 export interface TokenUsage {
   prompt: number;
   completion: number;
@@ -88,6 +117,7 @@ export type RoutingReason =
   | 'tag-match'
   | 'phased-rollout'
   | 'weight-distribution'
+  | 'pinned'
   | 'default';
 
 export interface Timings {
@@ -97,6 +127,8 @@ export interface Timings {
   template?: number;
   /** Time spent waiting for provider response */
   provider?: number;
+  /** Time until the first streamed chunk arrived */
+  firstToken?: number;
   /** Number of retries that occurred */
   retries?: number;
   // eslint-disable-next-line @typescript-eslint/ban-types
@@ -108,6 +140,9 @@ export interface BuilderInit {
   environment?: 'dev' | 'prod';
   promptId: string;
   userId?: string;
+  /** Set for requests issued by a chain step */
+  parentRequestId?: string;
+  chainStepId?: string;
   /** Variant may be unknown at construction time */
   variantId?: string;
   routingReason: PromptunaObservability['routingReason'];
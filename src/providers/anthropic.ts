@@ -2,8 +2,14 @@ import {
   Provider,
   ChatCompletionOptions,
   ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatMessage,
 } from './types';
+import type { ToolCall } from '../tools/types';
 import { ProviderError } from '../errors';
+import { getTextContent } from '../content/utils';
+import type { ContentPart } from '../content/types';
+import { getRetryAfterMs } from '../shared/utils/retryAfter';
 
 export class AnthropicProvider implements Provider {
   private client: any;
@@ -43,54 +49,37 @@ export class AnthropicProvider implements Provider {
     }
 
     try {
-      // Transform messages to Anthropic format
-      const { system, messages } = this.transformMessages(options.messages);
-
-      const {
-        model,
-        messages: _omit,
-        userId,
-        responseFormat,
-        responseSchema,
-        ...rest
-      } = options; // We _omit the original messages since using the transformMessages function above
-
-      const anthropicOptions: any = {
-        model,
-        messages,
-        system,
-        ...(userId && { metadata: { user_id: userId } }),
-        ...rest,
-      };
-
-      // Handle structured response format using function calling
-      if (responseFormat?.type === 'json_schema' && responseSchema) {
-        anthropicOptions.tools = [
-          {
-            name: 'structured_response',
-            description: 'Return structured response in the specified format',
-            input_schema: responseSchema,
-          },
-        ];
-        anthropicOptions.tool_choice = {
-          type: 'tool',
-          name: 'structured_response',
-        };
-      }
-
-      const response = await this.client.messages.create(anthropicOptions);
+      const response = await this.client.messages.create(
+        this.buildRequest(options),
+        { signal: options.signal }
+      );
 
       // Handle structured response extraction from tool_use
       let messageContent: string;
+      let toolCalls: ToolCall[] | undefined;
       if (
-        responseFormat?.type === 'json_schema' &&
+        options.responseFormat?.type === 'json_schema' &&
         response.content[0]?.type === 'tool_use'
       ) {
         // Extract structured data from tool_use response
         messageContent = JSON.stringify(response.content[0].input);
       } else {
-        // Regular text response
-        messageContent = response.content[0].text;
+        // Regular text response, possibly interleaved with tool calls
+        messageContent = response.content
+          .filter((block: any) => block.type === 'text')
+          .map((block: any) => block.text)
+          .join('');
+
+        const toolUses = response.content.filter(
+          (block: any) => block.type === 'tool_use'
+        );
+        if (toolUses.length) {
+          toolCalls = toolUses.map((block: any) => ({
+            id: block.id,
+            name: block.name,
+            arguments: JSON.stringify(block.input ?? {}),
+          }));
+        }
       }
 
       return {
@@ -101,6 +90,7 @@ export class AnthropicProvider implements Provider {
             message: {
               role: 'assistant',
               content: messageContent,
+              ...(toolCalls && { toolCalls }),
             },
             finish_reason: response.stop_reason || 'stop',
             index: 0,
@@ -116,40 +106,311 @@ export class AnthropicProvider implements Provider {
           : undefined,
       };
     } catch (error: any) {
-      // Normalize Anthropic errors via HTTP status if present
-      const message: string = error?.message ?? 'Anthropic API error';
-      const status: number | undefined = error?.status ?? error?.httpStatus;
-
-      let reason: 'provider-error' | 'timeout' | 'rate-limit' =
-        'provider-error';
-      let retryable = false;
-
-      if (status === 429) {
-        reason = 'rate-limit';
-        retryable = true;
-      } else if (status === 408 || status === 504) {
-        reason = 'timeout';
-        retryable = true;
+      throw this.normalizeError(error);
+    }
+  }
+
+  async *streamChatCompletion(
+    options: ChatCompletionOptions
+  ): AsyncGenerator<ChatCompletionChunk> {
+    await this.initializeClient();
+
+    if (!this.client) {
+      throw new Error('Anthropic client not initialized');
+    }
+
+    try {
+      const stream = await this.client.messages.create(
+        { ...this.buildRequest(options), stream: true },
+        { signal: options.signal }
+      );
+
+      let id = '';
+      let inputTokens = 0;
+      // tool_use blocks by content block index, emitted once their input is complete
+      const toolBlocks = new Map<number, ToolCall>();
+
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'message_start':
+            id = event.message?.id ?? id;
+            inputTokens = event.message?.usage?.input_tokens ?? 0;
+            yield {
+              id,
+              model: options.model,
+              choices: [
+                { delta: { role: 'assistant' }, finish_reason: null, index: 0 },
+              ],
+            };
+            break;
+
+          case 'content_block_start':
+            // The forced structured_response tool streams as content instead
+            if (
+              event.content_block?.type === 'tool_use' &&
+              !(
+                options.responseFormat?.type === 'json_schema' &&
+                event.content_block.name === 'structured_response'
+              )
+            ) {
+              toolBlocks.set(event.index, {
+                id: event.content_block.id,
+                name: event.content_block.name,
+                arguments: '',
+              });
+            }
+            break;
+
+          case 'content_block_delta': {
+            const toolBlock = toolBlocks.get(event.index);
+            if (toolBlock) {
+              toolBlock.arguments += event.delta?.partial_json ?? '';
+              break;
+            }
+
+            // Structured responses stream the forced tool input as partial JSON
+            const text =
+              event.delta?.type === 'input_json_delta'
+                ? event.delta.partial_json
+                : event.delta?.text;
+            if (text) {
+              yield {
+                id,
+                model: options.model,
+                choices: [
+                  { delta: { content: text }, finish_reason: null, index: 0 },
+                ],
+              };
+            }
+            break;
+          }
+
+          case 'content_block_stop': {
+            const toolBlock = toolBlocks.get(event.index);
+            toolBlocks.delete(event.index);
+            if (!toolBlock) break;
+
+            yield {
+              id,
+              model: options.model,
+              choices: [
+                {
+                  delta: {
+                    toolCalls: [
+                      {
+                        ...toolBlock,
+                        arguments: toolBlock.arguments || '{}',
+                      },
+                    ],
+                  },
+                  finish_reason: null,
+                  index: 0,
+                },
+              ],
+            };
+            break;
+          }
+
+          case 'message_delta': {
+            const outputTokens = event.usage?.output_tokens ?? 0;
+            yield {
+              id,
+              model: options.model,
+              choices: [
+                {
+                  delta: {},
+                  finish_reason: event.delta?.stop_reason || 'stop',
+                  index: 0,
+                },
+              ],
+              usage: {
+                prompt_tokens: inputTokens,
+                completion_tokens: outputTokens,
+                total_tokens: inputTokens + outputTokens,
+              },
+            };
+            break;
+          }
+
+          default:
+            // ping and message_stop carry no deltas
+            break;
+        }
+      }
+    } catch (error: any) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  /**
+   * Translate normalised options into the request body expected by the Anthropic SDK
+   */
+  private buildRequest(options: ChatCompletionOptions): any {
+    // Transform messages to Anthropic format
+    const { system, messages } = this.transformMessages(options.messages);
+
+    const {
+      model,
+      messages: _omit,
+      userId,
+      responseFormat,
+      responseSchema,
+      tools,
+      toolChoice,
+      signal,
+      ...rest
+    } = options; // We _omit the original messages since using the transformMessages function above
+
+    const anthropicOptions: any = {
+      model,
+      messages,
+      system,
+      ...(userId && { metadata: { user_id: userId } }),
+      ...rest,
+    };
+
+    if (tools?.length) {
+      anthropicOptions.tools = tools.map(tool => ({
+        name: tool.name,
+        ...(tool.description && { description: tool.description }),
+        input_schema: tool.parameters,
+      }));
+      if (toolChoice) {
+        anthropicOptions.tool_choice =
+          typeof toolChoice === 'object'
+            ? { type: 'tool', name: toolChoice.name }
+            : { type: toolChoice === 'required' ? 'any' : toolChoice };
       }
+    }
 
-      throw new ProviderError(reason, message, retryable, error?.code, status);
+    // Handle structured response format using function calling
+    if (responseFormat?.type === 'json_schema' && responseSchema) {
+      anthropicOptions.tools = [
+        ...(anthropicOptions.tools ?? []),
+        {
+          name: 'structured_response',
+          description: 'Return structured response in the specified format',
+          input_schema: responseSchema,
+        },
+      ];
+      anthropicOptions.tool_choice = {
+        type: 'tool',
+        name: 'structured_response',
+      };
+    }
+
+    return anthropicOptions;
+  }
+
+  /**
+   * Normalize Anthropic errors via HTTP status if present
+   */
+  private normalizeError(error: any): ProviderError {
+    const message: string = error?.message ?? 'Anthropic API error';
+    const status: number | undefined = error?.status ?? error?.httpStatus;
+
+    let reason: 'provider-error' | 'timeout' | 'rate-limit' = 'provider-error';
+    let retryable = false;
+
+    if (status === 429) {
+      reason = 'rate-limit';
+      retryable = true;
+    } else if (status === 408 || status === 504) {
+      reason = 'timeout';
+      retryable = true;
     }
+
+    return new ProviderError(
+      reason,
+      message,
+      retryable,
+      error?.code,
+      status,
+      getRetryAfterMs(error)
+    );
   }
 
-  private transformMessages(messages: any[]) {
+  private transformMessages(messages: ChatMessage[]) {
     const systemMessages = messages.filter(msg => msg.role === 'system');
     const conversationMessages = messages.filter(msg => msg.role !== 'system');
 
     const system =
       systemMessages.length > 0
-        ? systemMessages.map(msg => msg.content).join('\n\n')
+        ? systemMessages.map(msg => getTextContent(msg.content)).join('\n\n')
         : undefined;
 
-    const anthropicMessages = conversationMessages.map(msg => ({
-      role: msg.role === 'assistant' ? 'assistant' : 'user',
-      content: msg.content,
-    }));
+    const anthropicMessages = conversationMessages.map(msg => {
+      // Tool results are sent back as user turns with tool_result blocks
+      if (msg.role === 'tool') {
+        return {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: msg.toolCallId,
+              content: getTextContent(msg.content),
+            },
+          ],
+        };
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        const text = getTextContent(msg.content);
+        return {
+          role: 'assistant',
+          content: [
+            ...(text ? [{ type: 'text', text }] : []),
+            ...msg.toolCalls.map(call => ({
+              type: 'tool_use',
+              id: call.id,
+              name: call.name,
+              input: JSON.parse(call.arguments || '{}'),
+            })),
+          ],
+        };
+      }
+
+      return {
+        role: msg.role === 'assistant' ? 'assistant' : 'user',
+        content:
+          typeof msg.content === 'string'
+            ? msg.content
+            : msg.content.map(part => this.transformPart(part)),
+      };
+    });
 
     return { system, messages: anthropicMessages };
   }
+
+  /**
+   * Map a content part to a Messages API content block – images become
+   * `image` blocks, files (PDFs) become `document` blocks
+   */
+  private transformPart(part: ContentPart): any {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+
+    if (part.type === 'audio') {
+      throw new ProviderError(
+        'provider-error',
+        'Anthropic does not support audio input',
+        false,
+        'unsupported-content'
+      );
+    }
+
+    const source =
+      part.url !== undefined
+        ? { type: 'url', url: part.url }
+        : { type: 'base64', media_type: part.mimeType, data: part.data };
+
+    return part.type === 'image'
+      ? { type: 'image', source }
+      : {
+          type: 'document',
+          source,
+          ...(part.filename && { title: part.filename }),
+        };
+  }
 }
@@ -2,8 +2,14 @@ import {
   Provider,
   ChatCompletionOptions,
   ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatMessage,
 } from './types';
+import type { ToolCall } from '../tools/types';
 import { ProviderError } from '../errors';
+import { getTextContent, hasBinaryParts } from '../content/utils';
+import type { ContentPart } from '../content/types';
+import { getRetryAfterMs } from '../shared/utils/retryAfter';
 
 export class GoogleProvider implements Provider {
   private ai: any;
@@ -43,40 +49,19 @@ export class GoogleProvider implements Provider {
     }
 
     try {
-      // Transform messages to get contents and system instruction
-      const { contents, systemInstruction } = this.transformMessages(
-        options.messages
+      // Use the correct API structure
+      const response = await this.ai.models.generateContent(
+        this.buildRequest(options)
       );
 
-      const {
-        model,
-        messages: _msgs,
-        userId,
-        responseFormat,
-        responseSchema,
-        ...rest
-      } = options;
-
-      // Build config object
-      const config: any = { ...rest };
-
-      // Add system instruction if present
-      if (systemInstruction) {
-        config.systemInstruction = [systemInstruction];
-      }
-
-      // Handle structured response format
-      if (responseFormat?.type === 'json_schema' && responseSchema) {
-        config.responseSchema = responseSchema;
-        config.responseMimeType = 'application/json';
-      }
-
-      // Use the correct API structure
-      const response = await this.ai.models.generateContent({
-        model,
-        contents,
-        config,
-      });
+      const toolCalls: ToolCall[] | undefined = response.functionCalls?.length
+        ? response.functionCalls.map((call: any, index: number) => ({
+            // Gemini does not always assign ids – synthesise stable ones
+            id: call.id ?? `call_${index}`,
+            name: call.name,
+            arguments: JSON.stringify(call.args ?? {}),
+          }))
+        : undefined;
 
       return {
         id: response.id || 'google-response',
@@ -86,41 +71,178 @@ export class GoogleProvider implements Provider {
             message: {
               role: 'assistant',
               content: response.text,
+              ...(toolCalls && { toolCalls }),
             },
             finish_reason: 'stop',
             index: 0,
           },
         ],
-        usage: response.usage
+        usage: response.usageMetadata
           ? {
-              prompt_tokens: response.usage.promptTokens || 0,
-              completion_tokens: response.usage.completionTokens || 0,
-              total_tokens: response.usage.totalTokens || 0,
+              prompt_tokens: response.usageMetadata.promptTokenCount || 0,
+              completion_tokens:
+                response.usageMetadata.candidatesTokenCount || 0,
+              total_tokens: response.usageMetadata.totalTokenCount || 0,
             }
           : undefined,
       };
     } catch (error: any) {
-      const message: string = error?.message ?? 'Google API error';
-      const status: number | undefined = error?.status ?? error?.httpStatus;
-
-      let reason: 'provider-error' | 'timeout' | 'rate-limit' =
-        'provider-error';
-      let retryable = false;
-
-      if (status === 429) {
-        reason = 'rate-limit';
-        retryable = true;
-      } else if (status === 408 || status === 504) {
-        reason = 'timeout';
-        retryable = true;
+      throw this.normalizeError(error);
+    }
+  }
+
+  async *streamChatCompletion(
+    options: ChatCompletionOptions
+  ): AsyncGenerator<ChatCompletionChunk> {
+    await this.initializeClient();
+
+    if (!this.ai) {
+      throw new Error('Google client not initialized');
+    }
+
+    try {
+      const stream = await this.ai.models.generateContentStream(
+        this.buildRequest(options)
+      );
+
+      // Function calls arrive whole – count them so synthesised ids stay unique
+      let callCount = 0;
+
+      for await (const response of stream) {
+        const finishReason = response.candidates?.[0]?.finishReason;
+        // Usage is cumulative per chunk
+        const usage = response.usageMetadata;
+        const toolCalls: ToolCall[] = (response.functionCalls ?? []).map(
+          (call: any) => ({
+            id: call.id ?? `call_${callCount++}`,
+            name: call.name,
+            arguments: JSON.stringify(call.args ?? {}),
+          })
+        );
+
+        yield {
+          id: response.responseId || response.id || 'google-response',
+          model: options.model,
+          choices: [
+            {
+              delta: {
+                role: 'assistant',
+                ...(response.text && { content: response.text }),
+                ...(toolCalls.length && { toolCalls }),
+              },
+              finish_reason: finishReason ? finishReason.toLowerCase() : null,
+              index: 0,
+            },
+          ],
+          usage: usage
+            ? {
+                prompt_tokens: usage.promptTokenCount || 0,
+                completion_tokens: usage.candidatesTokenCount || 0,
+                total_tokens: usage.totalTokenCount || 0,
+              }
+            : undefined,
+        };
+      }
+    } catch (error: any) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  /**
+   * Translate normalised options into the request expected by `@google/genai`
+   */
+  private buildRequest(options: ChatCompletionOptions): any {
+    // Transform messages to get contents and system instruction
+    const { contents, systemInstruction } = this.transformMessages(
+      options.messages
+    );
+
+    const {
+      model,
+      messages: _msgs,
+      userId,
+      responseFormat,
+      responseSchema,
+      tools,
+      toolChoice,
+      signal,
+      ...rest
+    } = options;
+
+    // Build config object
+    const config: any = { ...rest };
+
+    // The SDK takes the cancellation signal as part of the request config
+    if (signal) {
+      config.abortSignal = signal;
+    }
+
+    if (tools?.length) {
+      config.tools = [
+        {
+          functionDeclarations: tools.map(tool => ({
+            name: tool.name,
+            ...(tool.description && { description: tool.description }),
+            parameters: tool.parameters,
+          })),
+        },
+      ];
+      if (toolChoice) {
+        config.toolConfig = {
+          functionCallingConfig:
+            typeof toolChoice === 'object'
+              ? { mode: 'ANY', allowedFunctionNames: [toolChoice.name] }
+              : {
+                  mode:
+                    toolChoice === 'required'
+                      ? 'ANY'
+                      : toolChoice.toUpperCase(),
+                },
+        };
       }
+    }
+
+    // Add system instruction if present
+    if (systemInstruction) {
+      config.systemInstruction = [systemInstruction];
+    }
+
+    // Handle structured response format
+    if (responseFormat?.type === 'json_schema' && responseSchema) {
+      config.responseSchema = responseSchema;
+      config.responseMimeType = 'application/json';
+    }
+
+    return { model, contents, config };
+  }
+
+  private normalizeError(error: any): ProviderError {
+    const message: string = error?.message ?? 'Google API error';
+    const status: number | undefined = error?.status ?? error?.httpStatus;
 
-      throw new ProviderError(reason, message, retryable, error?.code, status);
+    let reason: 'provider-error' | 'timeout' | 'rate-limit' = 'provider-error';
+    let retryable = false;
+
+    if (status === 429) {
+      reason = 'rate-limit';
+      retryable = true;
+    } else if (status === 408 || status === 504) {
+      reason = 'timeout';
+      retryable = true;
     }
+
+    return new ProviderError(
+      reason,
+      message,
+      retryable,
+      error?.code,
+      status,
+      getRetryAfterMs(error)
+    );
   }
 
-  private transformMessages(messages: any[]): {
-    contents: string;
+  private transformMessages(messages: ChatMessage[]): {
+    contents: string | any[];
     systemInstruction?: string;
   } {
     if (messages.length === 0) {
@@ -133,18 +255,115 @@ export class GoogleProvider implements Provider {
     // Create system instruction from system messages
     const systemInstruction =
       systemMessages.length > 0
-        ? systemMessages.map(s => s.content).join('\n\n')
+        ? systemMessages.map(s => getTextContent(s.content)).join('\n\n')
         : undefined;
 
+    // Function calls, function responses and binary parts cannot be expressed
+    // in a flattened prompt, so such conversations are sent as structured contents
+    const needsStructure = conversationMessages.some(
+      msg =>
+        msg.role === 'tool' ||
+        msg.toolCalls?.length ||
+        hasBinaryParts(msg.content)
+    );
+    if (needsStructure) {
+      return {
+        contents: this.toStructuredContents(conversationMessages),
+        systemInstruction,
+      };
+    }
+
     // Convert conversation messages to a single string prompt
     // For the @google/genai API, contents should be a string
     const contents = conversationMessages
       .map(msg => {
         const rolePrefix = msg.role === 'assistant' ? 'Assistant: ' : 'User: ';
-        return `${rolePrefix}${msg.content}`;
+        return `${rolePrefix}${getTextContent(msg.content)}`;
       })
       .join('\n\n');
 
     return { contents, systemInstruction };
   }
+
+  private toStructuredContents(messages: ChatMessage[]): any[] {
+    // functionResponse parts need the tool name – recover it from the call id
+    const toolNames = new Map<string, string>();
+    for (const msg of messages) {
+      for (const call of msg.toolCalls ?? []) toolNames.set(call.id, call.name);
+    }
+
+    return messages.map(msg => {
+      if (msg.role === 'tool') {
+        const name =
+          msg.name ?? toolNames.get(msg.toolCallId ?? '') ?? 'unknown';
+        // Gemini expects an object payload for function responses
+        const output = getTextContent(msg.content);
+        let response: any = { output };
+        try {
+          const parsed = JSON.parse(output);
+          if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            response = parsed;
+          }
+        } catch {
+          // Plain-text tool output – keep the wrapped string
+        }
+        return {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                ...(msg.toolCallId && { id: msg.toolCallId }),
+                name,
+                response,
+              },
+            },
+          ],
+        };
+      }
+
+      if (msg.role === 'assistant') {
+        const text = getTextContent(msg.content);
+        return {
+          role: 'model',
+          parts: [
+            ...(text ? [{ text }] : []),
+            ...(msg.toolCalls ?? []).map(call => ({
+              functionCall: {
+                id: call.id,
+                name: call.name,
+                args: JSON.parse(call.arguments || '{}'),
+              },
+            })),
+          ],
+        };
+      }
+
+      return {
+        role: 'user',
+        parts:
+          typeof msg.content === 'string'
+            ? [{ text: msg.content }]
+            : msg.content.map(part => this.transformPart(part)),
+      };
+    });
+  }
+
+  /**
+   * Map a content part to a Gemini part – URLs become `fileData`, base64
+   * becomes `inlineData`
+   */
+  private transformPart(part: ContentPart): any {
+    if (part.type === 'text') {
+      return { text: part.text };
+    }
+
+    return part.url !== undefined
+      ? {
+          fileData: {
+            fileUri: part.url,
+            ...(part.mimeType && { mimeType: part.mimeType }),
+          },
+        }
+      : { inlineData: { mimeType: part.mimeType, data: part.data } };
+  }
 }
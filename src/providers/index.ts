@@ -1,10 +1,25 @@
 export { OpenAIProvider } from './openai';
 export { AnthropicProvider } from './anthropic';
 export { GoogleProvider } from './google';
+export { MockProvider } from './mock';
+export type { MockProviderConfig, MockFailure } from './mock';
+export {
+  registerProvider,
+  getProviderRegistration,
+  getRegisteredProviderTypes,
+} from './registry';
+export type {
+  ProviderFactory,
+  ProviderFactoryContext,
+  ProviderRegistration,
+} from './registry';
 
 export type {
   ChatMessage,
+  ResponseMessage,
   ChatCompletionOptions,
   ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatCompletionUsage,
   Provider,
 } from './types';
@@ -0,0 +1,304 @@
+import { Liquid, type Template } from 'liquidjs';
+import {
+  Provider,
+  ChatCompletionOptions,
+  ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatCompletionUsage,
+} from './types';
+import { ConfigurationError } from '../config/types';
+import { ProviderError } from '../errors';
+import { getTextContent } from '../content/utils';
+import { estimateTokens, getTokenizer } from '../models/tokenizers';
+import { synthesizeFromSchema } from '../responses/synthesize';
+
+/** Simulated failure served by the mock provider */
+export type MockFailure = 'error' | 'rate-limit' | 'timeout';
+
+/** `config` of a `mock` provider entry */
+export interface MockProviderConfig {
+  /** Canned reply; a list is served in turn, starting over after the last one */
+  response?: string | string[];
+  /**
+   * Liquid template for the reply, rendered with `messages`, `lastMessage`
+   * (text of the last user message), `model` and `options`
+   */
+  template?: string;
+  /** Delay before answering in ms – fixed, or `[min, max]` for a random delay */
+  latencyMs?: number | [number, number];
+  /** Share of calls (0-1) failing with a retryable 500 error */
+  errorRate?: number;
+  /** Share of calls (0-1) rejected with a 429 rate limit */
+  rateLimitRate?: number;
+  /** `Retry-After` hint of simulated rate limits */
+  retryAfterMs?: number;
+  /** Failures returned in order by the first calls, before any random ones */
+  failures?: MockFailure[];
+}
+
+const FAILURES: MockFailure[] = ['error', 'rate-limit', 'timeout'];
+
+/** Invalid setting of a mock provider config */
+export interface MockConfigIssue {
+  /** Offending `config` key */
+  key: keyof MockProviderConfig;
+  problem: string;
+}
+
+/**
+ * Check the simulation settings of a mock provider config. Shared by the
+ * provider and config validation, which reports issues at load time.
+ * @param config The entry's `config`
+ * @returns Every invalid setting, empty when the config is usable
+ */
+export function getMockConfigIssues(
+  config: MockProviderConfig
+): MockConfigIssue[] {
+  const issues: MockConfigIssue[] = [];
+
+  for (const key of ['errorRate', 'rateLimitRate'] as const) {
+    const rate = config[key];
+    if (
+      rate !== undefined &&
+      (typeof rate !== 'number' || rate < 0 || rate > 1)
+    ) {
+      issues.push({
+        key,
+        problem: `"${key}" must be a number between 0 and 1`,
+      });
+    }
+  }
+  const latency = config.latencyMs;
+  if (
+    latency !== undefined &&
+    !(typeof latency === 'number' && latency >= 0) &&
+    !(
+      Array.isArray(latency) &&
+      latency.length === 2 &&
+      latency.every(value => typeof value === 'number' && value >= 0) &&
+      latency[0] <= latency[1]
+    )
+  ) {
+    issues.push({
+      key: 'latencyMs',
+      problem: '"latencyMs" must be a number or a [min, max] pair',
+    });
+  }
+  if (Array.isArray(config.response) && !config.response.length) {
+    issues.push({
+      key: 'response',
+      problem: '"response" must not be an empty list',
+    });
+  }
+  const unknown = (config.failures ?? []).filter(
+    failure => !FAILURES.includes(failure)
+  );
+  if (unknown.length) {
+    issues.push({
+      key: 'failures',
+      problem: `unknown failures ${unknown.map(failure => JSON.stringify(failure)).join(', ')} (expected ${FAILURES.join(', ')})`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Offline provider for local development and tests. Replies with a canned
+ * response, a rendered template or an echo of the last user message; variants
+ * with a `json_schema` response format get JSON synthesized from the schema
+ * unless a response or template is configured. Latency, errors and rate limits
+ * can be simulated to exercise retries and fallbacks.
+ */
+export class MockProvider implements Provider {
+  private readonly config: MockProviderConfig;
+  private readonly template?: Template[];
+  private readonly liquid = new Liquid();
+  private readonly pendingFailures: MockFailure[];
+  private calls = 0;
+  private served = 0;
+
+  /**
+   * @param providerId Key of the provider entry, for error messages
+   * @param config The entry's `config`
+   * @throws ConfigurationError for invalid settings
+   */
+  constructor(providerId: string, config: MockProviderConfig = {}) {
+    const fail = (problem: string): never => {
+      throw new ConfigurationError(
+        `Invalid config of mock provider "${providerId}": ${problem}`,
+        { providerId }
+      );
+    };
+
+    const [issue] = getMockConfigIssues(config);
+    if (issue) fail(issue.problem);
+    if (config.template !== undefined) {
+      try {
+        this.template = this.liquid.parse(config.template);
+      } catch (error: any) {
+        fail(`invalid template (${error.message})`);
+      }
+    }
+
+    this.config = config;
+    this.pendingFailures = [...(config.failures ?? [])];
+  }
+
+  async chatCompletion(
+    options: ChatCompletionOptions
+  ): Promise<ChatCompletionResponse> {
+    const id = await this.begin(options);
+    const content = await this.buildContent(options);
+
+    return {
+      id,
+      model: options.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: this.buildUsage(options, content),
+    };
+  }
+
+  async *streamChatCompletion(
+    options: ChatCompletionOptions
+  ): AsyncIterable<ChatCompletionChunk> {
+    const id = await this.begin(options);
+    const content = await this.buildContent(options);
+    const pieces = content.match(/\s*\S+/g) ?? [''];
+
+    for (const [index, piece] of pieces.entries()) {
+      const last = index === pieces.length - 1;
+      yield {
+        id,
+        model: options.model,
+        choices: [
+          {
+            index: 0,
+            delta:
+              index === 0
+                ? { role: 'assistant', content: piece }
+                : { content: piece },
+            finish_reason: last ? 'stop' : null,
+          },
+        ],
+        ...(last && { usage: this.buildUsage(options, content) }),
+      };
+    }
+  }
+
+  /** Wait out the simulated latency, then fail if a failure is due */
+  private async begin(options: ChatCompletionOptions): Promise<string> {
+    const call = ++this.calls;
+    await this.delay(options.signal);
+
+    const failure =
+      this.pendingFailures.shift() ??
+      (Math.random() < (this.config.rateLimitRate ?? 0)
+        ? 'rate-limit'
+        : Math.random() < (this.config.errorRate ?? 0)
+          ? 'error'
+          : undefined);
+
+    switch (failure) {
+      case 'rate-limit':
+        throw new ProviderError(
+          'rate-limit',
+          'Mock provider rate limit exceeded',
+          true,
+          'rate-limit',
+          429,
+          this.config.retryAfterMs
+        );
+      case 'timeout':
+        throw new ProviderError(
+          'timeout',
+          'Mock provider timed out',
+          true,
+          'timeout',
+          504
+        );
+      case 'error':
+        throw new ProviderError(
+          'provider-error',
+          'Mock provider error',
+          true,
+          'mock-error',
+          500
+        );
+    }
+    return `mock-${call}`;
+  }
+
+  private delay(signal?: AbortSignal): Promise<void> {
+    const { latencyMs } = this.config;
+    const ms = Array.isArray(latencyMs)
+      ? latencyMs[0] + Math.random() * (latencyMs[1] - latencyMs[0])
+      : (latencyMs ?? 0);
+    if (ms <= 0) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        clearTimeout(timer);
+        // Like an SDK abort – the attempt deadline tells timeouts from cancellation
+        reject(signal?.reason ?? new Error('Request aborted'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', abort);
+        resolve();
+      }, ms);
+      if (signal?.aborted) abort();
+      else signal?.addEventListener('abort', abort, { once: true });
+    });
+  }
+
+  private async buildContent(options: ChatCompletionOptions): Promise<string> {
+    const { response } = this.config;
+    if (response !== undefined) {
+      return Array.isArray(response)
+        ? response[this.served++ % response.length]
+        : response;
+    }
+
+    const lastUser = [...options.messages]
+      .reverse()
+      .find(message => message.role === 'user');
+    const lastMessage = lastUser ? getTextContent(lastUser.content) : '';
+
+    if (this.template) {
+      const { signal, ...rest } = options;
+      return this.liquid.render(this.template, {
+        messages: options.messages,
+        lastMessage,
+        model: options.model,
+        options: rest,
+      });
+    }
+    if (
+      options.responseFormat?.type === 'json_schema' &&
+      options.responseSchema
+    ) {
+      return JSON.stringify(synthesizeFromSchema(options.responseSchema));
+    }
+    return lastMessage;
+  }
+
+  private buildUsage(
+    options: ChatCompletionOptions,
+    content: string
+  ): ChatCompletionUsage {
+    const tokenizer = getTokenizer('mock');
+    const prompt_tokens = estimateTokens(options.messages, tokenizer);
+    const completion_tokens = tokenizer.countTokens(content);
+    return {
+      prompt_tokens,
+      completion_tokens,
+      total_tokens: prompt_tokens + completion_tokens,
+    };
+  }
+}
@@ -2,15 +2,35 @@ import {
   Provider,
   ChatCompletionOptions,
   ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatMessage,
 } from './types';
+import type { ToolCall } from '../tools/types';
 import { ProviderError } from '../errors';
+import { getTextContent, toDataUrl } from '../content/utils';
+import type { ContentPart } from '../content/types';
+import { getRetryAfterMs } from '../shared/utils/retryAfter';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  /** Base URL of an OpenAI-compatible API (vLLM, Ollama, LM Studio, Azure deployment URL) */
+  baseURL?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  organization?: string;
+  /** Azure OpenAI `api-version` – also switches auth to the `api-key` header */
+  apiVersion?: string;
+}
 
 export class OpenAIProvider implements Provider {
   private client: any;
-  private apiKey: string;
+  private options: OpenAIProviderOptions;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(apiKeyOrOptions: string | OpenAIProviderOptions) {
+    this.options =
+      typeof apiKeyOrOptions === 'string'
+        ? { apiKey: apiKeyOrOptions }
+        : apiKeyOrOptions;
   }
 
   private async initializeClient() {
@@ -19,7 +39,7 @@ export class OpenAIProvider implements Provider {
     try {
       // @ts-ignore - Optional dependency
       const OpenAI = (await import('openai')).default;
-      this.client = new OpenAI({ apiKey: this.apiKey });
+      this.client = new OpenAI(this.buildClientOptions());
     } catch (error: any) {
       if (
         error.code === 'MODULE_NOT_FOUND' ||
@@ -43,34 +63,10 @@ export class OpenAIProvider implements Provider {
     }
 
     try {
-      const {
-        model,
-        messages,
-        userId,
-        responseFormat,
-        responseSchema,
-        ...rest
-      } = options;
-
-      const openaiOptions: any = {
-        model,
-        messages,
-        ...(userId && { user: userId }),
-        ...rest,
-      };
-
-      // Handle structured response format
-      if (responseFormat?.type === 'json_schema' && responseSchema) {
-        openaiOptions.response_format = {
-          type: 'json_schema',
-          json_schema: {
-            name: 'response_schema', // OpenAI requires a name field
-            schema: responseSchema, // Schema must be nested under 'schema' property
-          },
-        };
-      }
-
-      const response = await this.client.chat.completions.create(openaiOptions);
+      const response = await this.client.chat.completions.create(
+        this.buildRequest(options),
+        { signal: options.signal }
+      );
 
       return {
         id: response.id,
@@ -79,6 +75,13 @@ export class OpenAIProvider implements Provider {
           message: {
             role: choice.message.role,
             content: choice.message.content,
+            ...(choice.message.tool_calls?.length && {
+              toolCalls: choice.message.tool_calls.map((call: any) => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: call.function.arguments,
+              })),
+            }),
           },
           finish_reason: choice.finish_reason,
           index: choice.index,
@@ -92,23 +95,261 @@ export class OpenAIProvider implements Provider {
           : undefined,
       };
     } catch (error: any) {
-      // Normalize into ProviderError – prefer HTTP status codes for mapping
-      const message: string = error?.message ?? 'OpenAI API error';
-      const status: number | undefined = error?.status ?? error?.httpStatus;
-
-      let reason: 'provider-error' | 'timeout' | 'rate-limit' =
-        'provider-error';
-      let retryable = false;
-
-      if (status === 429) {
-        reason = 'rate-limit';
-        retryable = true;
-      } else if (status === 408 || status === 504) {
-        reason = 'timeout';
-        retryable = true;
+      throw this.normalizeError(error);
+    }
+  }
+
+  async *streamChatCompletion(
+    options: ChatCompletionOptions
+  ): AsyncGenerator<ChatCompletionChunk> {
+    await this.initializeClient();
+
+    if (!this.client) {
+      throw new Error('OpenAI client not initialized');
+    }
+
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          ...this.buildRequest(options),
+          stream: true,
+          // Ask for a trailing chunk with token usage so observability stays complete
+          stream_options: { include_usage: true },
+        },
+        { signal: options.signal }
+      );
+
+      // Tool call fragments by choice index, emitted whole with the finish reason
+      const toolCalls = new Map<number, ToolCall[]>();
+
+      for await (const chunk of stream) {
+        yield {
+          id: chunk.id,
+          model: chunk.model,
+          choices: (chunk.choices ?? []).map((choice: any) => {
+            const calls = toolCalls.get(choice.index) ?? [];
+            for (const fragment of choice.delta?.tool_calls ?? []) {
+              const call = (calls[fragment.index] ??= {
+                id: '',
+                name: '',
+                arguments: '',
+              });
+              if (fragment.id) call.id = fragment.id;
+              if (fragment.function?.name) call.name = fragment.function.name;
+              call.arguments += fragment.function?.arguments ?? '';
+            }
+            toolCalls.set(choice.index, calls);
+
+            const completed = choice.finish_reason ? calls.filter(Boolean) : [];
+            return {
+              delta: {
+                ...(choice.delta?.role && { role: choice.delta.role }),
+                ...(choice.delta?.content != null && {
+                  content: choice.delta.content,
+                }),
+                ...(completed.length && { toolCalls: completed }),
+              },
+              finish_reason: choice.finish_reason ?? null,
+              index: choice.index,
+            };
+          }),
+          usage: chunk.usage
+            ? {
+                prompt_tokens: chunk.usage.prompt_tokens,
+                completion_tokens: chunk.usage.completion_tokens,
+                total_tokens: chunk.usage.total_tokens,
+              }
+            : undefined,
+        };
+      }
+    } catch (error: any) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  /**
+   * Client constructor options – only set what was configured so the SDK
+   * defaults (and its OPENAI_* environment variables) still apply
+   */
+  private buildClientOptions(): Record<string, any> {
+    const { apiKey, baseURL, headers, organization, apiVersion } = this.options;
+
+    return {
+      apiKey,
+      ...(baseURL && { baseURL }),
+      ...(organization && { organization }),
+      ...(apiVersion
+        ? {
+            // Azure expects the key in `api-key` and the version as a query param
+            defaultHeaders: { 'api-key': apiKey, ...headers },
+            defaultQuery: { 'api-version': apiVersion },
+          }
+        : headers && { defaultHeaders: headers }),
+    };
+  }
+
+  /**
+   * Translate normalised options into the request body expected by the OpenAI SDK
+   */
+  private buildRequest(options: ChatCompletionOptions): any {
+    const {
+      model,
+      messages,
+      userId,
+      responseFormat,
+      responseSchema,
+      tools,
+      toolChoice,
+      signal,
+      ...rest
+    } = options;
+
+    const openaiOptions: any = {
+      model,
+      messages: messages.map(msg => this.transformMessage(msg)),
+      ...(userId && { user: userId }),
+      ...rest,
+    };
+
+    if (tools?.length) {
+      openaiOptions.tools = tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          ...(tool.description && { description: tool.description }),
+          parameters: tool.parameters,
+        },
+      }));
+      if (toolChoice) {
+        openaiOptions.tool_choice =
+          typeof toolChoice === 'string'
+            ? toolChoice
+            : { type: 'function', function: { name: toolChoice.name } };
       }
+    }
+
+    // Handle structured response format
+    if (responseFormat?.type === 'json_schema' && responseSchema) {
+      openaiOptions.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: 'response_schema', // OpenAI requires a name field
+          schema: responseSchema, // Schema must be nested under 'schema' property
+        },
+      };
+    }
 
-      throw new ProviderError(reason, message, retryable, error?.code, status);
+    return openaiOptions;
+  }
+
+  /**
+   * Convert tool call bookkeeping on normalised messages into OpenAI fields
+   */
+  private transformMessage(msg: ChatMessage): any {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: msg.toolCallId,
+        content: getTextContent(msg.content),
+      };
     }
+
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: getTextContent(msg.content) || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+
+    // Only user turns accept image, file and audio parts
+    if (typeof msg.content !== 'string' && msg.role !== 'user') {
+      return { role: msg.role, content: getTextContent(msg.content) };
+    }
+
+    return {
+      role: msg.role,
+      content:
+        typeof msg.content === 'string'
+          ? msg.content
+          : msg.content.map(part => this.transformPart(part)),
+    };
+  }
+
+  /**
+   * Map a content part to its Chat Completions equivalent. Files and audio
+   * must be inline – the API cannot fetch them from a URL.
+   */
+  private transformPart(part: ContentPart): any {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return {
+          type: 'image_url',
+          image_url: {
+            url: part.url ?? toDataUrl(part),
+            ...(part.detail && { detail: part.detail }),
+          },
+        };
+      case 'file':
+        if (part.data === undefined) break;
+        return {
+          type: 'file',
+          file: {
+            file_data: toDataUrl(part),
+            filename: part.filename ?? 'file',
+          },
+        };
+      case 'audio':
+        if (part.data === undefined) break;
+        return {
+          type: 'input_audio',
+          input_audio: {
+            data: part.data,
+            // Chat Completions accepts wav and mp3 only
+            format: /mpeg|mp3/.test(part.mimeType ?? '') ? 'mp3' : 'wav',
+          },
+        };
+    }
+
+    throw new ProviderError(
+      'provider-error',
+      `OpenAI does not accept ${part.type} URLs – supply the ${part.type} as base64 data`,
+      false,
+      'unsupported-content'
+    );
+  }
+
+  /**
+   * Normalize into ProviderError – prefer HTTP status codes for mapping
+   */
+  private normalizeError(error: any): ProviderError {
+    const message: string = error?.message ?? 'OpenAI API error';
+    const status: number | undefined = error?.status ?? error?.httpStatus;
+
+    let reason: 'provider-error' | 'timeout' | 'rate-limit' = 'provider-error';
+    let retryable = false;
+
+    if (status === 429) {
+      reason = 'rate-limit';
+      retryable = true;
+    } else if (status === 408 || status === 504) {
+      reason = 'timeout';
+      retryable = true;
+    }
+
+    return new ProviderError(
+      reason,
+      message,
+      retryable,
+      error?.code,
+      status,
+      getRetryAfterMs(error)
+    );
   }
 }
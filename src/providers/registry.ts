@@ -0,0 +1,176 @@
+import type { PromptunaRuntimeConfig, ProviderConfig } from '../config/types';
+import type { MappingRule, ProviderId } from '../shared/types';
+import { ProviderCapabilities } from '../shared/utils/providerCapabilities';
+import type { Provider } from './types';
+import { OpenAIProvider, OpenAIProviderOptions } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { GoogleProvider } from './google';
+import { MockProvider } from './mock';
+
+export interface ProviderFactoryContext {
+  /** Runtime settings passed to the `Promptuna` constructor (API keys etc.) */
+  runtimeConfig: PromptunaRuntimeConfig;
+  /** Key of the provider entry in `config.providers` */
+  providerId: string;
+  /** The provider entry itself, including its provider-specific `config` */
+  providerConfig: ProviderConfig;
+}
+
+/** Creates a provider instance – called once per providerId per `Promptuna` instance */
+export type ProviderFactory = (ctx: ProviderFactoryContext) => Provider;
+
+export interface ProviderRegistration {
+  factory: ProviderFactory;
+  /**
+   * How canonical `variant.parameters` map onto this provider. When omitted,
+   * every canonical parameter is passed through under its canonical name
+   * (or, when replacing an already registered type, its mapping is kept).
+   */
+  parameters?: Record<string, MappingRule>;
+  /** Canonical parameters every variant using this provider type must set */
+  requiredParameters?: string[];
+  /** Keys that must be present in the provider entry's `config` object */
+  requiredConfig?: string[];
+}
+
+const registry = new Map<string, ProviderRegistration>();
+
+/**
+ * Registers a provider type so it can be referenced from `providers[].type`
+ * in the configuration. Registering an existing type (including a built-in
+ * one) replaces it.
+ * @param type Provider type name used in the configuration
+ * @param registration Factory function, or factory plus parameter rules
+ */
+export function registerProvider(
+  type: string,
+  registration: ProviderFactory | ProviderRegistration
+): void {
+  if (!/^[a-zA-Z0-9_-]+$/.test(type)) {
+    throw new Error(
+      `Invalid provider type "${type}". Types can only contain letters, numbers, underscores, and hyphens.`
+    );
+  }
+
+  const entry: ProviderRegistration =
+    typeof registration === 'function'
+      ? { factory: registration }
+      : registration;
+
+  // Replacing a registered type without new rules keeps its existing mapping
+  if (!entry.parameters && registry.has(type)) {
+    registry.set(type, entry);
+    return;
+  }
+
+  // Keep the shared capability table in sync so buildProviderParams picks the
+  // new type up without any special casing
+  const canonicalKeys = new Set([
+    ...Object.keys(ProviderCapabilities),
+    ...Object.keys(entry.parameters ?? {}),
+  ]);
+  for (const key of canonicalKeys) {
+    const rule = entry.parameters ? entry.parameters[key] : { param: key };
+    ProviderCapabilities[key] = { ...ProviderCapabilities[key] };
+    if (rule === undefined) {
+      delete ProviderCapabilities[key][type];
+    } else {
+      ProviderCapabilities[key][type] = rule;
+    }
+  }
+
+  registry.set(type, entry);
+}
+
+/**
+ * Returns the registration for a provider type, if any
+ */
+export function getProviderRegistration(
+  type: ProviderId
+): ProviderRegistration | undefined {
+  return registry.get(type);
+}
+
+/**
+ * Lists every provider type that can be used in a configuration
+ */
+export function getRegisteredProviderTypes(): string[] {
+  return [...registry.keys()];
+}
+
+/* ------------------------- built-in providers ------------------------- */
+// Built-ins keep their hand-written rows in ProviderCapabilities, so they are
+// added to the registry directly rather than through registerProvider().
+
+/**
+ * Per-provider keys (`apiKeys[providerId]`) win over the per-vendor defaults
+ */
+function resolveApiKey(
+  { runtimeConfig, providerId }: ProviderFactoryContext,
+  fallback?: string
+): string | undefined {
+  return runtimeConfig.apiKeys?.[providerId] ?? fallback;
+}
+
+/**
+ * Picks the OpenAI client settings out of the provider entry's `config`
+ */
+function openAIClientOptions(
+  providerConfig: ProviderConfig
+): Omit<OpenAIProviderOptions, 'apiKey'> {
+  const { baseURL, headers, organization, apiVersion } =
+    providerConfig.config ?? {};
+  return { baseURL, headers, organization, apiVersion };
+}
+
+registry.set('openai', {
+  factory: ctx => {
+    const apiKey = resolveApiKey(ctx, ctx.runtimeConfig.openaiApiKey);
+    if (!apiKey) {
+      throw new Error('OpenAI API key not provided in configuration');
+    }
+    return new OpenAIProvider({
+      apiKey,
+      ...openAIClientOptions(ctx.providerConfig),
+    });
+  },
+});
+
+registry.set('openai-compatible', {
+  factory: ctx =>
+    new OpenAIProvider({
+      // Never fall back to openaiApiKey – it must not leak to third-party
+      // servers. Local servers (Ollama, LM Studio, vLLM) ignore the key.
+      apiKey: resolveApiKey(ctx) ?? 'not-needed',
+      ...openAIClientOptions(ctx.providerConfig),
+    }),
+  requiredConfig: ['baseURL'],
+});
+
+registry.set('anthropic', {
+  factory: ctx => {
+    const apiKey = resolveApiKey(ctx, ctx.runtimeConfig.anthropicApiKey);
+    if (!apiKey) {
+      throw new Error('Anthropic API key not provided in configuration');
+    }
+    return new AnthropicProvider(apiKey);
+  },
+  requiredParameters: ['max_tokens'],
+});
+
+registry.set('google', {
+  factory: ctx => {
+    const apiKey = resolveApiKey(ctx, ctx.runtimeConfig.googleApiKey);
+    if (!apiKey) {
+      throw new Error('Google API key not provided in configuration');
+    }
+    return new GoogleProvider(apiKey);
+  },
+});
+
+// The mock passes every canonical parameter through unchanged, so it is
+// registered like a custom type
+registerProvider('mock', {
+  factory: ({ providerId, providerConfig }) =>
+    new MockProvider(providerId, providerConfig.config),
+});
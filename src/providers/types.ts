@@ -1,9 +1,24 @@
+import type { MessageContent } from '../content/types';
+
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  /** Plain text, or typed parts (text, image, file, audio) for multimodal input */
+  content: MessageContent;
+  /** Assistant messages only – tool calls requested by the model */
+  toolCalls?: ToolCall[];
+  /** Tool messages only – id of the tool call this message answers */
+  toolCallId?: string;
+  /** Tool messages only – name of the tool that produced the result */
+  name?: string;
+}
+
+/** Messages returned by providers always carry plain text */
+export interface ResponseMessage extends ChatMessage {
   content: string;
 }
 
 import type { ResponseFormat } from '../responses/types';
+import type { Tool, ToolCall, ToolChoice } from '../tools/types';
 
 export interface ChatCompletionOptions {
   messages: ChatMessage[];
@@ -11,6 +26,10 @@ export interface ChatCompletionOptions {
   userId?: string;
   responseFormat?: ResponseFormat;
   responseSchema?: any; // Resolved JSON schema for json_schema type
+  tools?: Tool[]; // Resolved from config.tools via variant.tools
+  toolChoice?: ToolChoice;
+  /** Forwarded to the provider SDK so in-flight requests can be cancelled */
+  signal?: AbortSignal;
   temperature?: number;
   max_tokens?: number;
   top_p?: number;
@@ -21,23 +40,47 @@ export interface ChatCompletionOptions {
   [key: string]: any; // Allow arbitrary parameters since we will transform these into provider-specific params
 }
 
-export interface ChatCompletionResponse {
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletionResponse<TParsed = unknown> {
+  id: string;
+  model: string;
+  choices: Array<{
+    message: ResponseMessage;
+    finish_reason: string | null;
+    index: number;
+  }>;
+  usage?: ChatCompletionUsage;
+  /** `json_schema` variants only – the answer parsed and validated against the response schema */
+  parsed?: TParsed;
+}
+
+/**
+ * Incremental piece of a streamed completion. Content deltas are concatenated
+ * by the caller; `usage` is only present on the chunk that carries the final
+ * token counts (usually the last one).
+ */
+export interface ChatCompletionChunk {
   id: string;
   model: string;
   choices: Array<{
-    message: ChatMessage;
+    delta: Partial<ResponseMessage>;
     finish_reason: string | null;
     index: number;
   }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: ChatCompletionUsage;
 }
 
 export interface Provider {
   chatCompletion(
     options: ChatCompletionOptions
   ): Promise<ChatCompletionResponse>;
+  /** Optional – providers without streaming support are skipped by `streamChatCompletion` */
+  streamChatCompletion?(
+    options: ChatCompletionOptions
+  ): AsyncIterable<ChatCompletionChunk>;
 }
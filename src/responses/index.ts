@@ -1 +1,9 @@
 export type { ResponseFormat, FallbackTarget, ModelParams } from './types';
+export {
+  validateStructuredContent,
+  parseStructuredResponse,
+} from './structured';
+export type {
+  StructuredValidationResult,
+  StructuredResponseOptions,
+} from './structured';
@@ -0,0 +1,117 @@
+import Ajv2020, { type ValidateFunction } from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+import { SchemaValidationError } from '../errors';
+import { addUsage } from '../models/pricing';
+import type {
+  ChatCompletionResponse,
+  ChatCompletionUsage,
+  ChatMessage,
+} from '../providers/types';
+import type { ResponseFormat } from './types';
+
+export type StructuredValidationResult =
+  | { valid: true; parsed: unknown }
+  | { valid: false; errors: string[] };
+
+let ajv: Ajv2020 | undefined;
+/** Compiled validators keyed by schema object – schemas are reused across requests */
+const compiled = new WeakMap<object, ValidateFunction>();
+
+function getValidator(schema: object): ValidateFunction {
+  let validate = compiled.get(schema);
+  if (!validate) {
+    if (!ajv) {
+      ajv = new Ajv2020({ allErrors: true, strict: false });
+      addFormats(ajv);
+    }
+    validate = ajv.compile(schema);
+    compiled.set(schema, validate);
+  }
+  return validate;
+}
+
+/**
+ * Parse model output as JSON and validate it against a response schema
+ * @param content Raw message content
+ * @param schema Resolved JSON schema from `config.responseSchemas`
+ */
+export function validateStructuredContent(
+  content: string,
+  schema: object
+): StructuredValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error: any) {
+    return { valid: false, errors: [`not valid JSON (${error.message})`] };
+  }
+
+  const validate = getValidator(schema);
+  if (validate(parsed)) return { valid: true, parsed };
+
+  return {
+    valid: false,
+    errors: (validate.errors ?? []).map(
+      error => `${error.instancePath || '/'} ${error.message}`
+    ),
+  };
+}
+
+/** Follow-up turn asking the model to fix its previous answer */
+function buildRepairMessages(content: string, errors: string[]): ChatMessage[] {
+  return [
+    { role: 'assistant', content },
+    {
+      role: 'user',
+      content: `Your previous response did not match the required JSON schema:\n${errors.map(e => `- ${e}`).join('\n')}\nReply with corrected JSON only.`,
+    },
+  ];
+}
+
+export interface StructuredResponseOptions {
+  schema: object;
+  responseFormat: ResponseFormat;
+  /** Re-sends the conversation with the repair turns appended */
+  repair: (extraMessages: ChatMessage[]) => Promise<ChatCompletionResponse>;
+}
+
+/**
+ * Validate a `json_schema` response and attach the parsed value as `parsed`.
+ * Invalid output is re-prompted up to `responseFormat.repairAttempts` times;
+ * token usage of repair calls is added to the returned response.
+ *
+ * @throws SchemaValidationError when the output still violates the schema –
+ *   retryable (so the next fallback target is tried) when `onInvalid` is `fallback`
+ */
+export async function parseStructuredResponse(
+  response: ChatCompletionResponse,
+  options: StructuredResponseOptions
+): Promise<ChatCompletionResponse> {
+  const { schema, responseFormat, repair } = options;
+  const maxRepairs = responseFormat.repairAttempts ?? 0;
+  const repairTurns: ChatMessage[] = [];
+  let current = response;
+  let usage = response.usage;
+
+  for (let repairs = 0; ; repairs++) {
+    const content = current.choices[0]?.message.content ?? '';
+    const result = validateStructuredContent(content, schema);
+
+    if (result.valid) {
+      return { ...current, usage, parsed: result.parsed };
+    }
+
+    if (repairs >= maxRepairs) {
+      throw new SchemaValidationError(
+        `Response does not match schema "${responseFormat.schemaRef}": ${result.errors.join('; ')}`,
+        result.errors,
+        content,
+        responseFormat.onInvalid === 'fallback'
+      );
+    }
+
+    repairTurns.push(...buildRepairMessages(content, result.errors));
+    current = await repair(repairTurns);
+    usage = addUsage(usage, current.usage);
+  }
+}
@@ -0,0 +1,157 @@
+/** Placeholder strings for common `format`s */
+const FORMAT_EXAMPLES: Record<string, string> = {
+  email: 'user@example.com',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  uuid: '00000000-0000-4000-8000-000000000000',
+  date: '2024-01-01',
+  'date-time': '2024-01-01T00:00:00Z',
+  time: '00:00:00Z',
+  ipv4: '127.0.0.1',
+  ipv6: '::1',
+  hostname: 'example.com',
+};
+
+/** Deepest nesting followed before optional parts are left out (recursive schemas) */
+const MAX_DEPTH = 8;
+
+/** A schema that is not a boolean – keywords are read as they are found */
+type SchemaObject = Record<string, unknown>;
+
+function isSchemaObject(value: unknown): value is SchemaObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+const asSchemaObject = (value: unknown): SchemaObject =>
+  isSchemaObject(value) ? value : {};
+
+/** A numeric keyword such as `minimum`, ignored when it is not a number */
+function numberKeyword(schema: SchemaObject, key: string): number | undefined {
+  const value = schema[key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+function synthesizeString(schema: SchemaObject, name?: string): string {
+  const { format } = schema;
+  if (typeof format === 'string' && format in FORMAT_EXAMPLES) {
+    return FORMAT_EXAMPLES[format];
+  }
+  let value = name ?? 'string';
+  const minLength = numberKeyword(schema, 'minLength') ?? 0;
+  while (value.length < minLength) value += 'x';
+  const maxLength = numberKeyword(schema, 'maxLength');
+  return maxLength !== undefined
+    ? value.slice(0, Math.max(maxLength, minLength))
+    : value;
+}
+
+function synthesizeNumber(schema: SchemaObject, integer: boolean): number {
+  const exclusiveMinimum = numberKeyword(schema, 'exclusiveMinimum');
+  const maximum = numberKeyword(schema, 'maximum');
+  const exclusiveMaximum = numberKeyword(schema, 'exclusiveMaximum');
+  const multipleOf = numberKeyword(schema, 'multipleOf');
+
+  let value = numberKeyword(schema, 'minimum') ?? 0;
+  if (exclusiveMinimum !== undefined) {
+    value = Math.max(value, exclusiveMinimum + (integer ? 1 : 0.5));
+  }
+  if (maximum !== undefined) value = Math.min(value, maximum);
+  if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) {
+    value = exclusiveMaximum - (integer ? 1 : 0.5);
+  }
+  if (multipleOf) {
+    value = Math.ceil(value / multipleOf) * multipleOf;
+  }
+  return integer ? Math.ceil(value) : value;
+}
+
+/**
+ * Build a small value that satisfies a JSON Schema: required properties (and
+ * every other property down to a fixed depth), `minItems` array entries, the
+ * first `enum`/`const`/`examples` value, the first `anyOf`/`oneOf` branch,
+ * merged `allOf` parts and placeholders for common string formats. Local
+ * `$ref`s into `$defs`/`definitions` are followed. Patterns and conditionals
+ * are not interpreted.
+ * @param schema A JSON Schema (draft 2020-12 / draft-07 subset)
+ */
+export function synthesizeFromSchema(schema: unknown): unknown {
+  const root = asSchemaObject(schema);
+  const definitions: SchemaObject = {
+    ...asSchemaObject(root.definitions),
+    ...asSchemaObject(root.$defs),
+  };
+
+  const build = (node: unknown, depth: number, name?: string): unknown => {
+    // Required self-references cannot be satisfied by a finite value
+    if (depth > 2 * MAX_DEPTH) return null;
+    if (!isSchemaObject(node)) return null;
+
+    const { $ref } = node;
+    if (typeof $ref === 'string') {
+      if ($ref === '#') return build(schema, depth + 1, name);
+      const match = /^#\/(?:\$defs|definitions)\/([^/]+)$/.exec($ref);
+      return match ? build(definitions[match[1]], depth + 1, name) : null;
+    }
+
+    if ('const' in node) return node.const;
+    if (Array.isArray(node.enum) && node.enum.length) return node.enum[0];
+    if (Array.isArray(node.examples) && node.examples.length) {
+      return node.examples[0];
+    }
+    if ('default' in node) return node.default;
+
+    const branches = node.anyOf ?? node.oneOf;
+    if (Array.isArray(branches) && branches.length) {
+      return build(branches[0], depth, name);
+    }
+    if (Array.isArray(node.allOf)) {
+      const parts = node.allOf.map(part => build(part, depth, name));
+      return parts.every(
+        (part: unknown) =>
+          part && typeof part === 'object' && !Array.isArray(part)
+      )
+        ? Object.assign({}, ...parts)
+        : parts[0];
+    }
+
+    const type = Array.isArray(node.type)
+      ? (node.type.find(candidate => candidate !== 'null') ?? node.type[0])
+      : (node.type ??
+        (node.properties ? 'object' : node.items ? 'array' : undefined));
+
+    switch (type) {
+      case 'string':
+        return synthesizeString(node, name);
+      case 'integer':
+        return synthesizeNumber(node, true);
+      case 'number':
+        return synthesizeNumber(node, false);
+      case 'boolean':
+        return true;
+      case 'array': {
+        const count =
+          numberKeyword(node, 'minItems') ?? (depth < MAX_DEPTH ? 1 : 0);
+        if (Array.isArray(node.prefixItems)) {
+          return node.prefixItems.map(item => build(item, depth + 1));
+        }
+        return Array.from({ length: count }, () =>
+          build(node.items, depth + 1)
+        );
+      }
+      case 'object': {
+        const required = new Set(
+          Array.isArray(node.required) ? node.required : []
+        );
+        return Object.fromEntries(
+          Object.entries(asSchemaObject(node.properties))
+            .filter(([key]) => required.has(key) || depth < MAX_DEPTH)
+            .map(([key, property]) => [key, build(property, depth + 1, key)])
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  return build(schema, 0);
+}
@@ -1,11 +1,19 @@
+import type { RetryPolicy } from '../fallbacks/types';
+
 export interface ResponseFormat {
   type: 'json_schema' | 'raw_text';
   schemaRef?: string;
+  /** Times an answer that violates the schema is sent back to the model for correction (default 0) */
+  repairAttempts?: number;
+  /** What happens when the answer still violates the schema: fail (default) or try the next fallback target */
+  onInvalid?: 'error' | 'fallback';
 }
 
 export interface FallbackTarget {
   provider: string;
   model: string;
+  /** Overrides the variant-level retry policy for this target */
+  retry?: RetryPolicy;
 }
 
 export interface ModelParams {
@@ -55,8 +55,18 @@ export function selectVariant(params: VariantSelectorParams): VariantSelection {
     promptId,
     userId,
     tags = [],
+    variantId,
     now = Math.floor(Date.now() / 1000),
   } = params;
+
+  /* ---------------- pinned variant ----------------- */
+  if (variantId !== undefined) {
+    return {
+      variantId,
+      variant: validateAndGetVariant(prompt.variants, variantId, promptId),
+      reason: 'pinned',
+    };
+  }
   const routing = prompt.routing ?? {};
   const rules: RoutingRule[] = routing.rules ?? [];
 
@@ -13,6 +13,8 @@ export interface VariantSelectorParams {
   promptId: string;
   userId?: string;
   tags?: string[];
+  /** Explicitly requested variant – bypasses every routing rule */
+  variantId?: string;
   /** Unix timestamp in seconds */
   now?: number;
 }
@@ -1,4 +1,17 @@
-export type ProviderId = 'openai' | 'anthropic' | 'google';
+/** Provider types shipped with the SDK */
+export type BuiltInProviderId =
+  | 'openai'
+  | 'openai-compatible'
+  | 'anthropic'
+  | 'google'
+  | 'mock';
+
+/**
+ * Any provider type known to the registry. Built-in ids keep editor
+ * autocompletion while custom types registered via `registerProvider()` are
+ * accepted as plain strings.
+ */
+export type ProviderId = BuiltInProviderId | (string & {});
 
 /**
  * Mapping rules for a single parameter for a specific provider.
@@ -0,0 +1,120 @@
+import { ProviderError } from '../../errors';
+
+/**
+ * Cancellation scope for a single provider attempt. Combines the caller's
+ * `AbortSignal` with an optional per-attempt timeout into one signal that is
+ * handed to the provider SDK.
+ */
+export interface AttemptDeadline {
+  /** Aborted when either the caller cancels or the timeout elapses */
+  signal: AbortSignal;
+  /** Runs `operation`, rejecting as soon as the deadline signal aborts – even if the provider ignores it */
+  run<T>(operation: Promise<T>): Promise<T>;
+  /**
+   * Map an error raised while the deadline was active to a `ProviderError`:
+   * timeouts become retryable `timeout` errors (so they fall through to the next
+   * target), caller cancellation becomes a non-retryable `aborted` error.
+   * Other errors are returned unchanged.
+   */
+  normalize(error: unknown): unknown;
+  /** Clear the timer and detach from the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Error for a request whose caller signal aborted outside of an attempt (e.g.
+ * during a retry backoff): a signal that timed out (`AbortSignal.timeout()`)
+ * gives a `timeout` error, anything else an `aborted` one. Neither is retried.
+ * @param signal The aborted caller signal
+ */
+export function cancellationError(signal: AbortSignal): ProviderError {
+  const reason: unknown = signal.reason;
+  return reason instanceof Error && reason.name === 'TimeoutError'
+    ? new ProviderError('timeout', 'Request timed out', false, 'timeout')
+    : new ProviderError(
+        'provider-error',
+        'Request aborted by caller',
+        false,
+        'aborted'
+      );
+}
+
+/**
+ * Create the cancellation scope for one provider attempt
+ * @param parent Caller supplied signal (from `ChatCompletionParams.signal`)
+ * @param timeoutMs Per-attempt timeout; omitted or non-positive means no timeout
+ */
+export function createAttemptDeadline(
+  parent?: AbortSignal,
+  timeoutMs?: number
+): AttemptDeadline {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onParentAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs && timeoutMs > 0 && !controller.signal.aborted
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  const toProviderError = (error: unknown): unknown => {
+    if (
+      error instanceof ProviderError &&
+      (error.code === 'timeout' || error.code === 'aborted')
+    ) {
+      return error;
+    }
+    if (timedOut) {
+      return new ProviderError(
+        'timeout',
+        `Request timed out after ${timeoutMs}ms`,
+        true,
+        'timeout'
+      );
+    }
+    if (parent?.aborted) {
+      return cancellationError(parent);
+    }
+    return error;
+  };
+
+  return {
+    signal: controller.signal,
+    run<T>(operation: Promise<T>): Promise<T> {
+      if (controller.signal.aborted) {
+        // Avoid an unhandled rejection from the discarded operation
+        operation.catch(() => undefined);
+        return Promise.reject(toProviderError(undefined));
+      }
+
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(toProviderError(undefined));
+        controller.signal.addEventListener('abort', onAbort, { once: true });
+        operation.then(
+          value => {
+            controller.signal.removeEventListener('abort', onAbort);
+            resolve(value);
+          },
+          error => {
+            controller.signal.removeEventListener('abort', onAbort);
+            reject(toProviderError(error));
+          }
+        );
+      });
+    },
+    normalize: toProviderError,
+    dispose() {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
@@ -1,3 +1,6 @@
 export { buildProviderParams } from './normalizeParameters';
 export { ProviderCapabilities } from './providerCapabilities';
-export type { ProviderId, MappingRule } from '../types';
+export { getRetryAfterMs } from './retryAfter';
+export { cancellationError, createAttemptDeadline } from './abort';
+export type { AttemptDeadline } from './abort';
+export type { BuiltInProviderId, ProviderId, MappingRule } from '../types';
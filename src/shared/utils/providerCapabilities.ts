@@ -18,6 +18,12 @@ export const ProviderCapabilities: Record<
       max: 2,
       scale: (v: number) => v * 2,
     },
+    'openai-compatible': {
+      param: 'temperature',
+      min: 0,
+      max: 2,
+      scale: (v: number) => v * 2,
+    },
     anthropic: { param: 'temperature', min: 0, max: 1 },
     google: {
       param: 'temperature',
@@ -28,31 +34,38 @@ export const ProviderCapabilities: Record<
   },
   max_tokens: {
     openai: { param: 'max_completion_tokens' },
+    // Most compatible servers only understand the legacy name
+    'openai-compatible': { param: 'max_tokens' },
     anthropic: { param: 'max_tokens' },
     google: { param: 'maxOutputTokens' },
   },
   top_p: {
     openai: { param: 'top_p' },
+    'openai-compatible': { param: 'top_p' },
     anthropic: { param: 'top_p' },
     google: { param: 'topP' },
   },
   frequency_penalty: {
     openai: { param: 'frequency_penalty', min: -2, max: 2 },
+    'openai-compatible': { param: 'frequency_penalty', min: -2, max: 2 },
     anthropic: false,
     google: { param: 'frequencyPenalty', min: -2, max: 2 },
   },
   presence_penalty: {
     openai: { param: 'presence_penalty', min: -2, max: 2 },
+    'openai-compatible': { param: 'presence_penalty', min: -2, max: 2 },
     anthropic: false,
     google: { param: 'presencePenalty', min: -2, max: 2 },
   },
   stop: {
     openai: { param: 'stop' },
+    'openai-compatible': { param: 'stop' },
     anthropic: { param: 'stop_sequences' },
     google: { param: 'stopSequences' },
   },
   logit_bias: {
     openai: { param: 'logit_bias' },
+    'openai-compatible': { param: 'logit_bias' },
     anthropic: false,
     google: false,
   },
@@ -0,0 +1,29 @@
+/**
+ * Extract a Retry-After hint (in ms) from an SDK error. Understands the
+ * non-standard `retry-after-ms` header as well as `retry-after` given either in
+ * seconds or as an HTTP date. Headers may be a `Headers` instance or a plain object.
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.headers;
+  if (!headers) return undefined;
+
+  const read = (name: string): string | undefined => {
+    const value =
+      typeof headers.get === 'function' ? headers.get(name) : headers[name];
+    return value == null ? undefined : String(value);
+  };
+
+  const retryAfterMs = read('retry-after-ms');
+  if (retryAfterMs !== undefined && Number.isFinite(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const retryAfter = read('retry-after');
+  if (retryAfter === undefined) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,95 @@
+import type { Liquid } from 'liquidjs';
+import type { Message } from './types';
+
+export interface MessageTemplate {
+  template: string;
+  /** JSON pointer of the template in the config */
+  pointer: string;
+  /** Index of the content part, for multimodal content */
+  part?: number;
+}
+
+/**
+ * Every Liquid template of a message – `content.template`, or the text part
+ * templates and URL templates of multimodal content
+ */
+export function getMessageTemplates(
+  message: Message,
+  pointer: string
+): MessageTemplate[] {
+  if (!Array.isArray(message.content)) {
+    return message.content?.template
+      ? [{ template: message.content.template, pointer: `${pointer}/template` }]
+      : [];
+  }
+
+  return message.content.flatMap((part, index): MessageTemplate[] => {
+    if (part.type === 'text') {
+      return [
+        {
+          template: part.template,
+          pointer: `${pointer}/${index}/template`,
+          part: index,
+        },
+      ];
+    }
+    return part.url
+      ? [
+          {
+            template: part.url,
+            pointer: `${pointer}/${index}/url`,
+            part: index,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Names of the request variables read directly by binary parts
+ * (`{ "type": "image", "variable": "photo" }`)
+ */
+export function getBinaryVariables(message: Message): string[] {
+  if (!Array.isArray(message.content)) return [];
+  return message.content.flatMap(part =>
+    part.type !== 'text' && part.variable ? [part.variable] : []
+  );
+}
+
+export interface TemplateVariable {
+  /** Property path from the render context, e.g. `['user', 'name']` */
+  path: string[];
+  /** The template continues the path with a numeric or dynamic segment (`items[0]`) */
+  indexed: boolean;
+}
+
+/**
+ * Variables a Liquid template reads from its render context, e.g.
+ * `{{ user.name }}` → `['user', 'name']`. Loop and `assign` locals are
+ * excluded; each path stops at its first numeric or dynamic segment.
+ * @throws The Liquid parse error for invalid templates
+ */
+export function getTemplateVariables(
+  liquid: Liquid,
+  template: string
+): TemplateVariable[] {
+  return liquid.globalVariableSegmentsSync(template).map(segments => {
+    const end = segments.findIndex(segment => typeof segment !== 'string');
+    return end === -1
+      ? { path: segments as string[], indexed: false }
+      : { path: segments.slice(0, end) as string[], indexed: true };
+  });
+}
+
+const PARTIAL_TAG = /\{%-?\s*(?:render|include)\s+(['"])([^'"]+)\1/g;
+
+/**
+ * Names of the partials a template pulls in with `{% render 'name' %}` or
+ * `{% include 'name' %}`. Partials named by a variable cannot be resolved
+ * statically and are not listed.
+ */
+export function getPartialReferences(template: string): string[] {
+  return [
+    ...new Set([...template.matchAll(PARTIAL_TAG)].map(match => match[2])),
+  ];
+}
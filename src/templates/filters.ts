@@ -3,11 +3,24 @@
  * Used by TemplateProcessor, ConfigLoader, and ConfigValidator
  */
 
+/**
+ * A Liquid filter: receives the piped value followed by the filter's arguments
+ * (`{{ text | truncate_tokens: 200 }}` → `(text, 200)`). Must be synchronous.
+ */
+export type TemplateFilter = (value: any, ...args: any[]) => any;
+
+/** User filters keyed by the name used in templates */
+export type TemplateFilters = Record<string, TemplateFilter>;
+
 /**
  * Registers all custom filters with a Liquid instance
  * @param liquid The Liquid instance to register filters with
+ * @param filters User filters, registered after (and overriding) the built-in ones
  */
-export function registerCustomFilters(liquid: any): void {
+export function registerCustomFilters(
+  liquid: any,
+  filters: TemplateFilters = {}
+): void {
   // Join array with separator
   liquid.registerFilter('join', (array: any[], separator = ', ') => {
     if (!Array.isArray(array)) return array;
@@ -55,22 +68,39 @@ export function registerCustomFilters(liquid: any): void {
     }
     return 0;
   });
+
+  for (const [name, filter] of Object.entries(filters)) {
+    liquid.registerFilter(name, filter);
+  }
+}
+
+/**
+ * Names of the built-in custom filters plus any user filters
+ * @param filters User filters
+ */
+export function getFilterNames(filters: TemplateFilters = {}): string[] {
+  return [...new Set([...CUSTOM_FILTER_NAMES, ...Object.keys(filters)])];
 }
 
 /**
  * Provides helpful suggestions for common template errors
  * @param errorMessage The error message from template processing
+ * @param filters User filters to list alongside the built-in ones
  * @returns A helpful suggestion string
  */
-export function getTemplateSuggestion(errorMessage: string): string {
+export function getTemplateSuggestion(
+  errorMessage: string,
+  filters?: TemplateFilters
+): string {
+  const filterList = getFilterNames(filters).join(', ');
   if (errorMessage.includes('unexpected token')) {
     return 'Check for missing closing braces }} or %} in your template';
   }
   if (errorMessage.includes('Unknown filter')) {
-    return 'Available custom filters: join, numbered, default, capitalize, downcase, upcase, size';
+    return `Available custom filters: ${filterList}`;
   }
   if (errorMessage.includes('filter')) {
-    return 'Available filters: join, numbered, default, capitalize, downcase, upcase, size';
+    return `Available filters: ${filterList}`;
   }
   if (errorMessage.includes('EOF')) {
     return 'Template appears to be incomplete - check for missing closing tags';
@@ -1,7 +1,21 @@
 export { TemplateProcessor } from './processor';
+export type { TemplateProcessorOptions } from './processor';
+export {
+  resolveVariables,
+  matchesVariableType,
+  isVariableRequired,
+} from './variables';
 export {
   registerCustomFilters,
   getTemplateSuggestion,
+  getFilterNames,
   CUSTOM_FILTER_NAMES,
 } from './filters';
-export type { Message, RenderedMessage, TemplateError } from './types';
+export type { TemplateFilter, TemplateFilters } from './filters';
+export type {
+  Message,
+  RenderedMessage,
+  TemplateError,
+  VariableDefinition,
+  VariableType,
+} from './types';
@@ -1,18 +1,65 @@
 import { Liquid } from 'liquidjs';
-import { TemplateError } from './types';
-import { registerCustomFilters, getTemplateSuggestion } from './filters';
+import { TemplateError, type Message } from './types';
+import {
+  registerCustomFilters,
+  getTemplateSuggestion,
+  type TemplateFilters,
+} from './filters';
+import { resolveBinaryInput } from '../content/utils';
+import type {
+  BinaryInput,
+  BinaryPartTemplate,
+  ContentPart,
+  MessageContent,
+} from '../content/types';
+
+export interface TemplateProcessorOptions {
+  /**
+   * Throw on variables missing from the render context instead of rendering
+   * them as empty. `if`/`unless` conditions and the `default` filter still
+   * accept missing variables.
+   */
+  strictVariables?: boolean;
+  /** Snippets available to `{% render 'name' %}` / `{% include 'name' %}` */
+  partials?: Record<string, string>;
+  /** User filters, registered on top of the built-in custom filters */
+  filters?: TemplateFilters;
+}
 
 export class TemplateProcessor {
   private liquid: Liquid;
   private templateCache: Map<string, any> = new Map();
+  private readonly strictVariables: boolean;
+  private readonly filters: TemplateFilters;
 
-  constructor() {
-    this.liquid = new Liquid({
-      strictVariables: false,
+  constructor(options: TemplateProcessorOptions = {}) {
+    this.strictVariables = options.strictVariables ?? false;
+    this.filters = options.filters ?? {};
+    this.liquid = this.createLiquid(options.partials);
+  }
+
+  /**
+   * Replaces the partials available to templates (e.g. after a config reload)
+   * and clears the template cache
+   * @param partials Snippets keyed by name
+   */
+  setPartials(partials: Record<string, string> = {}): void {
+    this.liquid = this.createLiquid(partials);
+    this.clearCache();
+  }
+
+  // Partials are served from memory only – templates never touch the file system
+  private createLiquid(partials: Record<string, string> = {}): Liquid {
+    const liquid = new Liquid({
+      strictVariables: this.strictVariables,
+      lenientIf: true,
       strictFilters: false,
+      templates: partials,
+      cache: true,
     });
 
-    registerCustomFilters(this.liquid);
+    registerCustomFilters(liquid, this.filters);
+    return liquid;
   }
 
   /**
@@ -43,11 +90,92 @@ export class TemplateProcessor {
         template: template,
         variables: Object.keys(variables),
         error: error.message,
-        suggestion: getTemplateSuggestion(error.message),
+        suggestion: getTemplateSuggestion(error.message, this.filters),
       });
     }
   }
 
+  /**
+   * Renders a message's content. `{ template }` content renders to a string;
+   * part lists render text templates and URL templates, and resolve binary
+   * parts from their `variable`.
+   * @param content Message content from the config
+   * @param variables The variables to interpolate into the templates
+   * @throws TemplateError if a template fails or a binary variable is missing or invalid
+   */
+  async processContent(
+    content: Message['content'],
+    variables: Record<string, any>
+  ): Promise<MessageContent> {
+    if (!Array.isArray(content)) {
+      return this.processTemplate(content.template, variables);
+    }
+
+    const parts: ContentPart[] = [];
+    for (const part of content) {
+      if (part.type === 'text') {
+        parts.push({
+          type: 'text',
+          text: await this.processTemplate(part.template, variables),
+        });
+      } else {
+        parts.push(await this.processBinaryPart(part, variables));
+      }
+    }
+    return parts;
+  }
+
+  private async processBinaryPart(
+    part: BinaryPartTemplate,
+    variables: Record<string, any>
+  ): Promise<ContentPart> {
+    const { type, variable, url, data, mimeType, filename, detail } = part;
+
+    let source: ReturnType<typeof resolveBinaryInput>;
+    if (variable !== undefined) {
+      const value = variables[variable] as BinaryInput | undefined;
+      if (value === undefined || value === null) {
+        throw new TemplateError(
+          `Missing variable "${variable}" for ${type} part`,
+          { variable, variables: Object.keys(variables) }
+        );
+      }
+      try {
+        source = resolveBinaryInput(value);
+      } catch (error: any) {
+        throw new TemplateError(
+          `Invalid value for ${type} variable "${variable}": ${error.message}`,
+          { variable, error: error.message }
+        );
+      }
+    } else if (url !== undefined) {
+      source = { url: await this.processTemplate(url, variables) };
+    } else {
+      source = { data };
+    }
+
+    // Part-level settings win over what the variable carried
+    const resolvedMime = mimeType ?? source.mimeType;
+    const resolvedFilename = filename ?? source.filename;
+
+    if (source.data !== undefined && !resolvedMime) {
+      throw new TemplateError(
+        `The ${type} part needs a mimeType for base64 data`,
+        { variable }
+      );
+    }
+
+    return {
+      type,
+      ...(source.url !== undefined && { url: source.url }),
+      ...(source.data !== undefined && { data: source.data }),
+      ...(resolvedMime && { mimeType: resolvedMime }),
+      ...(type === 'file' &&
+        resolvedFilename && { filename: resolvedFilename }),
+      ...(type === 'image' && detail && { detail }),
+    } as ContentPart;
+  }
+
   /**
    * Validates template syntax without rendering
    * @param template The template string to validate
@@ -60,7 +188,7 @@ export class TemplateProcessor {
       throw new TemplateError(`Template syntax error: ${error.message}`, {
         template: template,
         error: error.message,
-        suggestion: getTemplateSuggestion(error.message),
+        suggestion: getTemplateSuggestion(error.message, this.filters),
       });
     }
   }
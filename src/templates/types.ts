@@ -1,15 +1,43 @@
 import { PromptunaError } from '../config/types';
+import type { MessageContent, MessagePartTemplate } from '../content/types';
 
 export interface Message {
   role: 'system' | 'user' | 'assistant';
-  content: {
-    template: string;
-  };
+  /** A single text template, or typed parts for multimodal messages */
+  content:
+    | {
+        template: string;
+      }
+    | MessagePartTemplate[];
 }
 
 export interface RenderedMessage {
   role: 'system' | 'user' | 'assistant';
-  content: string;
+  /** A string for `{ template }` content, parts for multimodal content */
+  content: MessageContent;
+}
+
+/** Value types a prompt variable can be declared with */
+export type VariableType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'array'
+  | 'object'
+  /** A `BinaryInput` for an image/file/audio part */
+  | 'binary'
+  | 'any';
+
+/** Declaration of a variable in a prompt's `variables` section */
+export interface VariableDefinition {
+  /** Expected value type (default `any`) */
+  type?: VariableType;
+  /** Whether callers must pass the variable – defaults to true unless a `default` is given */
+  required?: boolean;
+  /** Value used when the caller omits the variable */
+  default?: unknown;
+  description?: string;
 }
 
 export class TemplateError extends PromptunaError {
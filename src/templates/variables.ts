@@ -0,0 +1,99 @@
+import { TemplateError } from './types';
+import type { VariableDefinition, VariableType } from './types';
+import { isBinaryInput } from '../content/utils';
+
+/** Whether a declared variable must be passed by the caller */
+export function isVariableRequired(definition: VariableDefinition): boolean {
+  return definition.required ?? definition.default === undefined;
+}
+
+/** Type name of a value as used in variable error messages */
+export function describeValueType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    return 'binary';
+  }
+  return typeof value;
+}
+
+/** Whether a value satisfies a declared variable type */
+export function matchesVariableType(
+  value: unknown,
+  type: VariableType = 'any'
+): boolean {
+  switch (type) {
+    case 'any':
+      return true;
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+      );
+    case 'binary':
+      return isBinaryInput(value);
+  }
+}
+
+/**
+ * Apply a prompt's variable declarations to the caller's variables: fill in
+ * defaults, then reject missing required variables and values of the wrong
+ * type. Undeclared variables pass through untouched; optional variables that
+ * were left out render as empty.
+ * @param promptId Prompt the declarations belong to (for error messages)
+ * @param definitions The prompt's `variables` section
+ * @param variables Variables passed by the caller
+ * @returns The variables to render with
+ * @throws TemplateError naming the missing or mistyped variable
+ */
+export function resolveVariables(
+  promptId: string,
+  definitions: Record<string, VariableDefinition>,
+  variables: Record<string, any>
+): Record<string, any> {
+  const resolved = { ...variables };
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    const value = resolved[name] ?? definition.default;
+
+    if (value === undefined || value === null) {
+      if (isVariableRequired(definition)) {
+        throw new TemplateError(
+          `Missing required variable "${name}" for prompt "${promptId}"`,
+          {
+            promptId,
+            variable: name,
+            expected: definition.type ?? 'any',
+            variables: Object.keys(variables),
+          }
+        );
+      }
+      // Keeps strict rendering from failing on an omitted optional variable
+      resolved[name] = null;
+      continue;
+    }
+
+    if (!matchesVariableType(value, definition.type)) {
+      throw new TemplateError(
+        `Variable "${name}" for prompt "${promptId}" must be ${definition.type}, got ${describeValueType(value)}`,
+        {
+          promptId,
+          variable: name,
+          expected: definition.type,
+          received: describeValueType(value),
+        }
+      );
+    }
+    resolved[name] = value;
+  }
+
+  return resolved;
+}
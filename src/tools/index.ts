@@ -0,0 +1 @@
+export type { ToolDefinition, Tool, ToolChoice, ToolCall } from './types';
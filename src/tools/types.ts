@@ -0,0 +1,31 @@
+/**
+ * Tool declared once under the top-level `tools` section of the config and
+ * referenced by id from variants.
+ */
+export interface ToolDefinition {
+  description?: string;
+  /** JSON Schema describing the tool arguments */
+  parameters: Record<string, any>;
+}
+
+/** Tool resolved for a single request – the config key becomes its name */
+export interface Tool extends ToolDefinition {
+  name: string;
+}
+
+/**
+ * How the model may use the variant's tools:
+ * - `auto`     : model decides (provider default)
+ * - `none`     : tools are declared but must not be called
+ * - `required` : model must call at least one tool
+ * - `{ name }` : model must call the named tool
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/** Normalised tool call returned in `choices[].message.toolCalls` */
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments object */
+  arguments: string;
+}
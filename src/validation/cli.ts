@@ -2,6 +2,7 @@
 
 import { resolve } from 'path';
 import { loadAndValidateConfig } from './index.js';
+import { loadFilterModule } from './filterModule.js';
 
 (async () => {
   const args = process.argv.slice(2);
@@ -10,23 +11,31 @@ import { loadAndValidateConfig } from './index.js';
     console.log(`
 Promptuna Configuration Validator
 
-Usage: promptuna-validate <config-file>
+Usage: promptuna-validate <config-file> [options]
 
 Options:
-  -h, --help     Show this help message
+  --filters <module>   JS module exporting the app's custom template filters
+  -h, --help           Show this help message
 
 Examples:
   promptuna-validate config.json
   promptuna-validate ./path/to/config.json
+  promptuna-validate config.json --filters ./dist/promptuna-filters.js
 `);
     process.exit(0);
   }
 
   const configPath = resolve(args[0]);
+  const filtersIndex = args.indexOf('--filters');
+  const filtersModule =
+    filtersIndex === -1 ? undefined : args[filtersIndex + 1];
 
   try {
     const startTime = Date.now();
-    const config = await loadAndValidateConfig(configPath);
+    const filters = filtersModule
+      ? await loadFilterModule(filtersModule)
+      : undefined;
+    const config = await loadAndValidateConfig(configPath, { filters });
     const duration = Date.now() - startTime;
 
     // Count configuration elements
@@ -0,0 +1,42 @@
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { ConfigurationError } from '../config/types.js';
+import type { TemplateFilters } from '../templates/filters.js';
+
+/**
+ * Import the template filters an app registers through
+ * `PromptunaRuntimeConfig.filters`, so the CLIs validate templates against the
+ * same filter set. The module must export the filters as `filters` or as its
+ * default export.
+ * @param modulePath Path to a JS module (relative to the working directory)
+ * @throws ConfigurationError if the module cannot be loaded or exports no filters
+ */
+export async function loadFilterModule(
+  modulePath: string
+): Promise<TemplateFilters> {
+  let loaded: any;
+  try {
+    loaded = await import(pathToFileURL(resolve(modulePath)).href);
+  } catch (error) {
+    throw new ConfigurationError(
+      `Failed to load filter module: ${modulePath}`,
+      {
+        modulePath,
+        error: error instanceof Error ? error.message : error,
+      }
+    );
+  }
+
+  const filters = loaded.filters ?? loaded.default;
+  if (
+    !filters ||
+    typeof filters !== 'object' ||
+    !Object.values(filters).every(filter => typeof filter === 'function')
+  ) {
+    throw new ConfigurationError(
+      `Filter module ${modulePath} must export an object of filter functions as "filters" or default`,
+      { modulePath }
+    );
+  }
+  return filters;
+}
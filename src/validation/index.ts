@@ -1,4 +1,3 @@
-import { readFile } from 'fs/promises';
 import { Liquid } from 'liquidjs';
 import {
   PromptunaConfig,
@@ -9,11 +8,48 @@ import {
   SUPPORTED_SCHEMA_VERSIONS,
   isSchemaVersionSupported,
 } from '../version.js';
+import {
+  getBinaryVariables,
+  getMessageTemplates,
+  getPartialReferences,
+  getTemplateVariables,
+} from '../templates/analysis.js';
+import {
+  describeValueType,
+  matchesVariableType,
+} from '../templates/variables.js';
+import type { ChainPromptStep } from '../chains/types.js';
+import { getStepId, isParallelStep } from '../chains/runner.js';
 import {
   registerCustomFilters,
   getTemplateSuggestion,
+  type TemplateFilters,
 } from '../templates/filters.js';
+import {
+  getProviderRegistration,
+  getRegisteredProviderTypes,
+} from '../providers/registry.js';
+import { getMockConfigIssues } from '../providers/mock.js';
 import validateSchema from './compiled-validator.js';
+import { loadConfigSource, type SourceLocation } from './sources.js';
+
+/** Maps a JSON pointer in the config to where it was written */
+type Locator = (pointer: string) => SourceLocation | undefined;
+
+export interface ValidateConfigOptions {
+  /** Used to suffix error messages with the originating file and line */
+  locate?: Locator;
+  /** User template filters (`PromptunaRuntimeConfig.filters`) accepted by the strict filter check */
+  filters?: TemplateFilters;
+}
+
+/**
+ * Formats the source location of a config value as an error message suffix
+ */
+function at(locate: Locator | undefined, pointer: string): string {
+  const location = locate?.(pointer);
+  return location ? ` (${location.file}:${location.line})` : '';
+}
 
 /**
  * Converts a JSON path to a human-readable location description
@@ -37,6 +73,18 @@ function formatErrorPath(path: string): string {
     } else if (part === 'providers' && nextPart) {
       readable.push(`in provider "${nextPart}"`);
       i++;
+    } else if (part === 'tools' && nextPart && isNaN(Number(nextPart))) {
+      readable.push(`in tool "${nextPart}"`);
+      i++;
+    } else if (part === 'chains' && nextPart) {
+      readable.push(`chain step ${parseInt(nextPart) + 1}`);
+      i++;
+    } else if (part === 'partials' && nextPart) {
+      readable.push(`in partial "${nextPart}"`);
+      i++;
+    } else if (part === 'variables' && nextPart) {
+      readable.push(`variable "${nextPart}"`);
+      i++;
     } else if (part === 'messages' && nextPart) {
       readable.push(`message ${parseInt(nextPart) + 1}`);
       i++;
@@ -69,7 +117,9 @@ function translateSchemaError(error: any): string {
       } else if (missingProperty === 'prompts') {
         return `❌ Missing required field: Your configuration must include a "prompts" section to define your prompts.`;
       } else if (missingProperty === 'type') {
-        return `❌ Missing provider type: ${location} must specify a "type" field. Use "openai", "anthropic", or "google".`;
+        return `❌ Missing provider type: ${location} must specify a "type" field. Use one of: ${getRegisteredProviderTypes()
+          .map(t => `"${t}"`)
+          .join(', ')}.`;
       } else if (missingProperty === 'provider') {
         return `❌ Missing provider reference: ${location} must specify which "provider" to use.`;
       } else if (missingProperty === 'model') {
@@ -116,17 +166,23 @@ function translateSchemaError(error: any): string {
 /**
  * Sync validation function for already-loaded config data
  * @param config Raw config object to validate
+ * @param options Optional source locator for file/line aware error messages
  * @returns Validated PromptunaConfig object
  * @throws ConfigurationError if validation fails
  */
-export function validateConfig(config: unknown): PromptunaConfig {
+export function validateConfig(
+  config: unknown,
+  options: ValidateConfigOptions = {}
+): PromptunaConfig {
+  const { locate, filters } = options;
+
   // First run JSON Schema validation (sync)
   const isValid = validateSchema(config);
 
   if (!isValid) {
     // Convert technical AJV errors into user-friendly messages
     const userFriendlyErrors = validateSchema.errors?.map(
-      translateSchemaError
+      error => translateSchemaError(error) + at(locate, error.instancePath)
     ) || ['Configuration validation failed with unknown errors'];
 
     throw new ConfigurationError('Configuration validation failed', {
@@ -139,10 +195,17 @@ export function validateConfig(config: unknown): PromptunaConfig {
   const typedConfig = config as PromptunaConfig;
 
   // Run business logic validation (these remain sync)
-  validateVersion(typedConfig);
-  validateDefaultVariants(typedConfig);
-  validateRequiredParameters(typedConfig);
-  validateTemplates(typedConfig);
+  validateVersion(typedConfig, locate);
+  validateDefaultVariants(typedConfig, locate);
+  validateProviderTypes(typedConfig, locate);
+  validateRateLimits(typedConfig, locate);
+  validateMockProviders(typedConfig, locate);
+  validateRequiredParameters(typedConfig, locate);
+  validateToolReferences(typedConfig, locate);
+  validateBudgetFallbacks(typedConfig, locate);
+  validateChains(typedConfig, locate);
+  validateTemplates(typedConfig, locate, filters);
+  validateVariables(typedConfig, locate, filters);
 
   return typedConfig;
 }
@@ -150,19 +213,38 @@ export function validateConfig(config: unknown): PromptunaConfig {
 /**
  * Async function to load and validate config from file
  * @param configPath Path to the configuration file
+ * @param options User template filters to accept during validation
  * @returns Promise resolving to validated PromptunaConfig
  * @throws ConfigurationError if file loading or validation fails
  */
 export async function loadAndValidateConfig(
-  configPath: string
+  configPath: string,
+  options: Omit<ValidateConfigOptions, 'locate'> = {}
 ): Promise<PromptunaConfig> {
+  return (await loadAndValidateConfigSource(configPath, options)).config;
+}
+
+/**
+ * Like {@link loadAndValidateConfig}, but also returns every file the config
+ * was assembled from (the root file first, then `$ref` includes)
+ * @param configPath Path to the configuration file
+ * @param options User template filters to accept during validation
+ * @throws ConfigurationError if file loading or validation fails
+ */
+export async function loadAndValidateConfigSource(
+  configPath: string,
+  options: Omit<ValidateConfigOptions, 'locate'> = {}
+): Promise<{ config: PromptunaConfig; files: string[] }> {
   try {
-    // Read and parse JSON (async)
-    const configContent = await readFile(configPath, 'utf-8');
-    const config = JSON.parse(configContent);
+    // Read and parse JSON/YAML, inlining any $ref includes (async)
+    const source = await loadConfigSource(configPath);
 
     // Validate using sync function
-    return validateConfig(config);
+    const config = validateConfig(source.config, {
+      ...options,
+      locate: source.locate,
+    });
+    return { config, files: source.files };
   } catch (error) {
     if (error instanceof ConfigurationError) {
       throw error;
@@ -180,14 +262,14 @@ export async function loadAndValidateConfig(
  * Check if the configuration version is supported
  * @private
  */
-function validateVersion(config: PromptunaConfig): void {
+function validateVersion(config: PromptunaConfig, locate?: Locator): void {
   const versionMatch = config.version.match(/^(\d+)\.(\d+)\.(\d+)$/);
   if (!versionMatch) {
     throw new ConfigurationError(
       `❌ Invalid version format: "${config.version}" is not a valid semantic version. Use format "X.Y.Z" like "1.0.0".`,
       {
         errors: [
-          `❌ Invalid version format: "${config.version}" is not a valid semantic version. Use format "X.Y.Z" like "1.0.0".`,
+          `❌ Invalid version format: "${config.version}" is not a valid semantic version. Use format "X.Y.Z" like "1.0.0".${at(locate, '/version')}`,
         ],
         version: config.version,
         expectedFormat: 'X.Y.Z (semantic versioning)',
@@ -200,7 +282,7 @@ function validateVersion(config: PromptunaConfig): void {
       `❌ Unsupported schema version: Version "${config.version}" is not supported by this SDK. Use one of: ${SUPPORTED_SCHEMA_VERSIONS.join(', ')}.`,
       {
         errors: [
-          `❌ Unsupported schema version: Version "${config.version}" is not supported by this SDK. Use one of: ${SUPPORTED_SCHEMA_VERSIONS.join(', ')}.`,
+          `❌ Unsupported schema version: Version "${config.version}" is not supported by this SDK. Use one of: ${SUPPORTED_SCHEMA_VERSIONS.join(', ')}.${at(locate, '/version')}`,
         ],
         version: config.version,
         supportedVersions: SUPPORTED_SCHEMA_VERSIONS,
@@ -213,7 +295,10 @@ function validateVersion(config: PromptunaConfig): void {
  * Validates that each prompt has exactly one default variant (critical for routing)
  * @private
  */
-function validateDefaultVariants(config: PromptunaConfig): void {
+function validateDefaultVariants(
+  config: PromptunaConfig,
+  locate?: Locator
+): void {
   const errors: string[] = [];
 
   for (const [promptId, prompt] of Object.entries(config.prompts)) {
@@ -225,11 +310,11 @@ function validateDefaultVariants(config: PromptunaConfig): void {
       const availableVariants = Object.keys(prompt.variants || {});
       if (availableVariants.length === 1) {
         errors.push(
-          `❌ Missing default variant: Prompt "${promptId}" needs a default variant. Add "default": true to variant "${availableVariants[0]}".`
+          `❌ Missing default variant: Prompt "${promptId}" needs a default variant. Add "default": true to variant "${availableVariants[0]}".${at(locate, `/prompts/${promptId}`)}`
         );
       } else {
         errors.push(
-          `❌ Missing default variant: Prompt "${promptId}" must have exactly one variant with "default": true. Choose one of: ${availableVariants.join(', ')}.`
+          `❌ Missing default variant: Prompt "${promptId}" must have exactly one variant with "default": true. Choose one of: ${availableVariants.join(', ')}.${at(locate, `/prompts/${promptId}`)}`
         );
       }
     }
@@ -237,7 +322,7 @@ function validateDefaultVariants(config: PromptunaConfig): void {
     if (defaultVariants.length > 1) {
       const defaultVariantIds = defaultVariants.map(([id]) => id);
       errors.push(
-        `❌ Multiple default variants: Prompt "${promptId}" has ${defaultVariants.length} variants marked as default (${defaultVariantIds.join(', ')}). Only one variant can have "default": true.`
+        `❌ Multiple default variants: Prompt "${promptId}" has ${defaultVariants.length} variants marked as default (${defaultVariantIds.join(', ')}). Only one variant can have "default": true.${at(locate, `/prompts/${promptId}`)}`
       );
     }
   }
@@ -250,17 +335,162 @@ function validateDefaultVariants(config: PromptunaConfig): void {
 }
 
 /**
- * Ensures each variant includes mandatory parameters for its provider (critical for execution)
+ * Ensures every provider uses a built-in or registered provider type and
+ * supplies the `config` keys that type needs
+ * @private
+ */
+function validateProviderTypes(
+  config: PromptunaConfig,
+  locate?: Locator
+): void {
+  const knownTypes = getRegisteredProviderTypes();
+  const errors: string[] = [];
+
+  for (const [providerId, provider] of Object.entries(config.providers)) {
+    const registration = getProviderRegistration(provider.type);
+    if (!registration) {
+      errors.push(
+        `❌ Unknown provider type: Provider "${providerId}" uses type "${provider.type}", which is not built in or registered. Use one of: ${knownTypes.map(t => `"${t}"`).join(', ')}, or call registerProvider("${provider.type}", ...) before loading the configuration.${at(locate, `/providers/${providerId}/type`)}`
+      );
+      continue;
+    }
+
+    const missing = (registration.requiredConfig ?? []).filter(
+      key => provider.config?.[key] === undefined
+    );
+    if (missing.length) {
+      errors.push(
+        `❌ Missing provider config: Provider "${providerId}" of type "${provider.type}" requires ${missing.map(k => `"${k}"`).join(', ')} in its "config" object.${at(locate, `/providers/${providerId}`)}`
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError('Provider type validation failed', {
+      errors,
+    });
+  }
+}
+
+/**
+ * Ensures `config.rateLimits` of every provider holds positive limits
  * @private
  */
-function validateRequiredParameters(config: PromptunaConfig): void {
-  // Minimal hard-coded rules per provider type
-  const REQUIRED: Record<string, string[]> = {
-    openai: [],
-    anthropic: ['max_tokens'],
-    google: [],
+function validateRateLimits(config: PromptunaConfig, locate?: Locator): void {
+  const errors: string[] = [];
+  const checkLimits = (limits: unknown, pointer: string, where: string) => {
+    if (typeof limits !== 'object' || limits === null) {
+      errors.push(
+        `❌ Invalid rate limits: ${where} must be an object with "rpm", "tpm", "maxConcurrency" and/or "maxQueueMs".${at(locate, pointer)}`
+      );
+      return;
+    }
+    for (const key of ['rpm', 'tpm', 'maxConcurrency', 'maxQueueMs']) {
+      const value = (limits as Record<string, unknown>)[key];
+      const valid =
+        key === 'maxQueueMs'
+          ? typeof value === 'number' && value >= 0
+          : typeof value === 'number' && value > 0;
+      if (value !== undefined && !valid) {
+        errors.push(
+          `❌ Invalid rate limit: "${key}" of ${where} must be a ${key === 'maxQueueMs' ? 'non-negative' : 'positive'} number, got ${JSON.stringify(value)}.${at(locate, `${pointer}/${key}`)}`
+        );
+      }
+    }
   };
 
+  for (const [providerId, provider] of Object.entries(config.providers)) {
+    const rateLimits = provider.config?.rateLimits;
+    if (rateLimits === undefined) continue;
+
+    const pointer = `/providers/${providerId}/config/rateLimits`;
+    checkLimits(rateLimits, pointer, `provider "${providerId}"`);
+    for (const [model, limits] of Object.entries(rateLimits?.models ?? {})) {
+      checkLimits(
+        limits,
+        `${pointer}/models/${model}`,
+        `model "${model}" of provider "${providerId}"`
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError('Rate limit validation failed', { errors });
+  }
+}
+
+/**
+ * Ensures the simulation settings of `mock` providers are usable, so they
+ * fail at load time rather than when the provider is first built
+ * @private
+ */
+function validateMockProviders(
+  config: PromptunaConfig,
+  locate?: Locator
+): void {
+  const errors: string[] = [];
+
+  for (const [providerId, provider] of Object.entries(config.providers)) {
+    if (provider.type !== 'mock') continue;
+
+    for (const { key, problem } of getMockConfigIssues(provider.config ?? {})) {
+      errors.push(
+        `❌ Invalid mock provider config: In provider "${providerId}", ${problem}.${at(locate, `/providers/${providerId}/config/${key}`)}`
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError('Mock provider validation failed', {
+      errors,
+    });
+  }
+}
+
+/**
+ * Ensures every `budgetFallback` names another variant of the same prompt
+ * @private
+ */
+function validateBudgetFallbacks(
+  config: PromptunaConfig,
+  locate?: Locator
+): void {
+  const errors: string[] = [];
+
+  for (const [promptId, prompt] of Object.entries(config.prompts)) {
+    const variantIds = Object.keys(prompt.variants ?? {});
+    for (const [variantId, variant] of Object.entries(prompt.variants ?? {})) {
+      const fallback = variant.budgetFallback;
+      if (fallback === undefined) continue;
+      const pointer = `/prompts/${promptId}/variants/${variantId}/budgetFallback`;
+
+      if (fallback === variantId) {
+        errors.push(
+          `❌ Invalid budget fallback: Variant "${variantId}" of prompt "${promptId}" names itself as its "budgetFallback". Pick a cheaper variant of the same prompt.${at(locate, pointer)}`
+        );
+      } else if (!variantIds.includes(fallback)) {
+        errors.push(
+          `❌ Unknown budget fallback: Variant "${variantId}" of prompt "${promptId}" falls back to "${fallback}", which is not a variant of this prompt. Available: ${variantIds.join(', ')}.${at(locate, pointer)}`
+        );
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError('Budget fallback validation failed', {
+      errors,
+    });
+  }
+}
+
+/**
+ * Ensures each variant includes mandatory parameters for its provider (critical for execution)
+ * @private
+ */
+function validateRequiredParameters(
+  config: PromptunaConfig,
+  locate?: Locator
+): void {
   const errors: string[] = [];
 
   for (const [promptId, prompt] of Object.entries(config.prompts)) {
@@ -270,28 +500,30 @@ function validateRequiredParameters(config: PromptunaConfig): void {
         const availableProviders = Object.keys(config.providers);
         if (availableProviders.length === 0) {
           errors.push(
-            `❌ Missing provider: Variant "${variantId}" in prompt "${promptId}" references provider "${variant.provider}", but no providers are defined. Add a providers section first.`
+            `❌ Missing provider: Variant "${variantId}" in prompt "${promptId}" references provider "${variant.provider}", but no providers are defined. Add a providers section first.${at(locate, `/prompts/${promptId}/variants/${variantId}/provider`)}`
           );
         } else {
           errors.push(
-            `❌ Invalid provider reference: Variant "${variantId}" in prompt "${promptId}" references non-existent provider "${variant.provider}". Available providers: ${availableProviders.join(', ')}.`
+            `❌ Invalid provider reference: Variant "${variantId}" in prompt "${promptId}" references non-existent provider "${variant.provider}". Available providers: ${availableProviders.join(', ')}.${at(locate, `/prompts/${promptId}/variants/${variantId}/provider`)}`
           );
         }
         continue;
       }
 
-      const needed = REQUIRED[provider.type] ?? [];
+      // Rules come from the provider registry (built-in and custom types)
+      const needed =
+        getProviderRegistration(provider.type)?.requiredParameters ?? [];
       const params = variant.parameters ?? {};
       const missing = needed.filter(key => !(key in params));
 
       if (missing.length) {
         if (provider.type === 'anthropic' && missing.includes('max_tokens')) {
           errors.push(
-            `❌ Missing required parameter: Anthropic provider requires "max_tokens" parameter in variant "${variantId}" of prompt "${promptId}". Add "parameters": { "max_tokens": 1000 } or similar.`
+            `❌ Missing required parameter: Anthropic provider requires "max_tokens" parameter in variant "${variantId}" of prompt "${promptId}". Add "parameters": { "max_tokens": 1000 } or similar.${at(locate, `/prompts/${promptId}/variants/${variantId}`)}`
           );
         } else {
           errors.push(
-            `❌ Missing required parameters: Variant "${variantId}" in prompt "${promptId}" is missing required parameter(s) for provider type "${provider.type}": ${missing.join(', ')}.`
+            `❌ Missing required parameters: Variant "${variantId}" in prompt "${promptId}" is missing required parameter(s) for provider type "${provider.type}": ${missing.join(', ')}.${at(locate, `/prompts/${promptId}/variants/${variantId}`)}`
           );
         }
       }
@@ -306,20 +538,200 @@ function validateRequiredParameters(config: PromptunaConfig): void {
 }
 
 /**
- * Validates that all templates in the configuration have valid syntax
+ * Ensures every tool referenced by a variant is declared in the top-level tools section
  * @private
  */
-function validateTemplates(config: PromptunaConfig): void {
+function validateToolReferences(
+  config: PromptunaConfig,
+  locate?: Locator
+): void {
+  const declaredTools = Object.keys(config.tools ?? {});
+  const errors: string[] = [];
+
+  for (const [promptId, prompt] of Object.entries(config.prompts)) {
+    for (const [variantId, variant] of Object.entries(prompt.variants)) {
+      const variantTools = variant.tools ?? [];
+
+      for (const toolId of variantTools) {
+        if (!declaredTools.includes(toolId)) {
+          errors.push(
+            `❌ Invalid tool reference: Variant "${variantId}" in prompt "${promptId}" references tool "${toolId}", which is not declared in the top-level "tools" section.${declaredTools.length ? ` Available tools: ${declaredTools.join(', ')}.` : ''}${at(locate, `/prompts/${promptId}/variants/${variantId}/tools`)}`
+          );
+        }
+      }
+
+      const choice = variant.toolChoice;
+      if (choice && variantTools.length === 0) {
+        errors.push(
+          `❌ Invalid tool choice: Variant "${variantId}" in prompt "${promptId}" sets "toolChoice" but does not list any "tools".${at(locate, `/prompts/${promptId}/variants/${variantId}/toolChoice`)}`
+        );
+      } else if (
+        typeof choice === 'object' &&
+        !variantTools.includes(choice.name)
+      ) {
+        errors.push(
+          `❌ Invalid tool choice: Variant "${variantId}" in prompt "${promptId}" forces tool "${choice.name}", which is not listed in the variant's "tools".${at(locate, `/prompts/${promptId}/variants/${variantId}/toolChoice`)}`
+        );
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError('Tool validation failed', { errors });
+  }
+}
+
+/**
+ * Validates chain steps: referenced prompts/variants exist, step ids are
+ * unique, and every path reads the output of an earlier step
+ * @private
+ */
+function validateChains(config: PromptunaConfig, locate?: Locator): void {
+  const errors: string[] = [];
+
+  for (const [promptId, prompt] of Object.entries(config.prompts)) {
+    // The chain's own prompt runs first and stores its output under its id
+    const available = new Set<string>([promptId]);
+
+    for (const [stepIndex, step] of (prompt.chains ?? []).entries()) {
+      const pointer = `/prompts/${promptId}/chains/${stepIndex}`;
+      const label = `Chain step ${stepIndex + 1} of prompt "${promptId}"`;
+
+      const checkPath = (path: string, field: string, fieldPointer: string) => {
+        const [stepId] = path.split('.');
+        if (!available.has(stepId)) {
+          errors.push(
+            `❌ Invalid chain path: ${label} reads "${path}" in "${field}", but no earlier step has id "${stepId}". Available: ${[...available].join(', ')}.${at(locate, fieldPointer)}`
+          );
+        }
+      };
+
+      if (step.when) {
+        checkPath(step.when.path, 'when', `${pointer}/when`);
+      }
+
+      const branches: Array<[ChainPromptStep, string]> = isParallelStep(step)
+        ? step.parallel.map((branch, i) => [branch, `${pointer}/parallel/${i}`])
+        : [[step, pointer]];
+      const produced: string[] = [];
+
+      for (const [branch, branchPointer] of branches) {
+        const target = config.prompts[branch.prompt];
+        if (!target) {
+          errors.push(
+            `❌ Invalid chain step: ${label} references prompt "${branch.prompt}", which does not exist.${at(locate, `${branchPointer}/prompt`)}`
+          );
+        } else if (branch.variant && !target.variants[branch.variant]) {
+          errors.push(
+            `❌ Invalid chain step: ${label} references variant "${branch.variant}", which does not exist in prompt "${branch.prompt}".${at(locate, `${branchPointer}/variant`)}`
+          );
+        }
+
+        for (const [name, path] of Object.entries(branch.map ?? {})) {
+          checkPath(path, `map.${name}`, `${branchPointer}/map/${name}`);
+        }
+        if (branch.forEach !== undefined) {
+          checkPath(branch.forEach, 'forEach', `${branchPointer}/forEach`);
+        }
+        if (branch !== step && branch.when) {
+          checkPath(branch.when.path, 'when', `${branchPointer}/when`);
+        }
+        produced.push(getStepId(branch)!);
+      }
+
+      if (step.id && isParallelStep(step)) produced.push(step.id);
+
+      for (const id of produced) {
+        if (
+          available.has(id) ||
+          produced.indexOf(id) !== produced.lastIndexOf(id)
+        ) {
+          errors.push(
+            `❌ Duplicate chain step id: ${label} stores its output as "${id}", which is already used. Give the step a unique "id".${at(locate, pointer)}`
+          );
+        }
+      }
+      produced.forEach(id => available.add(id));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError('Chain validation failed', {
+      errors: [...new Set(errors)],
+    });
+  }
+}
+
+/**
+ * Validates that all templates and partials in the configuration have valid
+ * syntax, and that every partial they render exists and is not part of a cycle
+ * @private
+ */
+function validateTemplates(
+  config: PromptunaConfig,
+  locate?: Locator,
+  filters?: TemplateFilters
+): void {
+  const partials = config.partials ?? {};
+
   // Use LiquidJS for template validation
   const liquid = new Liquid({
     strictVariables: false,
     strictFilters: true, // Enable strict filters for validation
   });
 
-  // Register custom filters to match TemplateProcessor
-  registerCustomFilters(liquid);
+  // Register custom and user filters to match TemplateProcessor
+  registerCustomFilters(liquid, filters);
 
   const errors: string[] = [];
+  const available = Object.keys(partials).join(', ') || 'none';
+
+  const checkPartialReferences = (
+    template: string,
+    where: string,
+    pointer: string
+  ) => {
+    for (const name of getPartialReferences(template)) {
+      if (!(name in partials)) {
+        errors.push(
+          `❌ Missing partial: ${where} renders partial "${name}", which is not defined in "partials". Available: ${available}.${at(locate, pointer)}`
+        );
+      }
+    }
+  };
+
+  for (const [name, template] of Object.entries(partials)) {
+    const pointer = `/partials/${name}`;
+    try {
+      liquid.parse(template);
+    } catch (error: any) {
+      const suggestion = getTemplateSuggestion(error.message, filters);
+      const suggestionText = suggestion ? ` Suggestion: ${suggestion}` : '';
+      errors.push(
+        `❌ Template syntax error in partial "${name}": ${error.message}.${suggestionText}${at(locate, pointer)}`
+      );
+    }
+    checkPartialReferences(template, `partial "${name}"`, pointer);
+  }
+
+  // A partial that (indirectly) renders itself would recurse forever
+  const visiting: string[] = [];
+  const visited = new Set<string>();
+  const findCycle = (name: string): void => {
+    if (visited.has(name) || !(name in partials)) return;
+    if (visiting.includes(name)) {
+      const cycle = [...visiting.slice(visiting.indexOf(name)), name];
+      errors.push(
+        `❌ Circular partials: ${cycle.map(n => `"${n}"`).join(' → ')} render each other.${at(locate, `/partials/${name}`)}`
+      );
+      return;
+    }
+    visiting.push(name);
+    getPartialReferences(partials[name]).forEach(findCycle);
+    visiting.pop();
+    visited.add(name);
+  };
+  Object.keys(partials).forEach(findCycle);
 
   for (const [promptId, prompt] of Object.entries(config.prompts)) {
     for (const [variantId, variant] of Object.entries(prompt.variants)) {
@@ -327,19 +739,28 @@ function validateTemplates(config: PromptunaConfig): void {
 
       if (typedVariant.messages && Array.isArray(typedVariant.messages)) {
         for (const [messageIndex, message] of typedVariant.messages.entries()) {
-          if (message.content?.template) {
+          const pointer = `/prompts/${promptId}/variants/${variantId}/messages/${messageIndex}/content`;
+
+          for (const {
+            template,
+            pointer: templatePointer,
+            part,
+          } of getMessageTemplates(message, pointer)) {
+            const partText = part !== undefined ? `, part ${part + 1}` : '';
+            const where = `prompt "${promptId}", variant "${variantId}", message ${messageIndex + 1}${partText}`;
             try {
               // Parse the template to validate syntax
-              liquid.parse(message.content.template);
+              liquid.parse(template);
             } catch (error: any) {
-              const suggestion = getTemplateSuggestion(error.message);
+              const suggestion = getTemplateSuggestion(error.message, filters);
               const suggestionText = suggestion
                 ? ` Suggestion: ${suggestion}`
                 : '';
               errors.push(
-                `❌ Template syntax error in prompt "${promptId}", variant "${variantId}", message ${messageIndex + 1}: ${error.message}.${suggestionText}`
+                `❌ Template syntax error in ${where}: ${error.message}.${suggestionText}${at(locate, templatePointer)}`
               );
             }
+            checkPartialReferences(template, where, templatePointer);
           }
         }
       }
@@ -347,7 +768,101 @@ function validateTemplates(config: PromptunaConfig): void {
   }
 
   if (errors.length > 0) {
-    throw new ConfigurationError('Template validation failed', { errors });
+    throw new ConfigurationError('Template validation failed', {
+      errors: [...new Set(errors)],
+    });
+  }
+}
+
+/**
+ * Cross-checks each prompt's declared `variables` against the variables its
+ * templates reference: every referenced variable must be declared, every
+ * declared variable must be used, binary parts need `binary` (or `any`)
+ * variables and defaults must match their declared type
+ * @private
+ */
+function validateVariables(
+  config: PromptunaConfig,
+  locate?: Locator,
+  filters?: TemplateFilters
+): void {
+  // Same filters as TemplateProcessor, so analysis parses what renders
+  const liquid = new Liquid({ templates: config.partials ?? {} });
+  registerCustomFilters(liquid, filters);
+
+  const errors: string[] = [];
+
+  for (const [promptId, prompt] of Object.entries(config.prompts)) {
+    const definitions = prompt.variables;
+    if (!definitions) continue;
+
+    const pointer = `/prompts/${promptId}/variables`;
+    const used = new Set<string>();
+
+    for (const [variantId, variant] of Object.entries(prompt.variants)) {
+      for (const [messageIndex, message] of (
+        variant.messages ?? []
+      ).entries()) {
+        const messagePointer = `/prompts/${promptId}/variants/${variantId}/messages/${messageIndex}/content`;
+        const where = `prompt "${promptId}", variant "${variantId}", message ${messageIndex + 1}`;
+
+        for (const {
+          template,
+          pointer: templatePointer,
+        } of getMessageTemplates(message, messagePointer)) {
+          for (const { path } of getTemplateVariables(liquid, template)) {
+            const [name] = path;
+            if (name === undefined) continue;
+            used.add(name);
+            if (!(name in definitions)) {
+              errors.push(
+                `❌ Undeclared variable: ${where} uses "${name}", which is not declared in the prompt's "variables". Declared: ${Object.keys(definitions).join(', ') || 'none'}.${at(locate, templatePointer)}`
+              );
+            }
+          }
+        }
+
+        for (const name of getBinaryVariables(message)) {
+          used.add(name);
+          const type = definitions[name]?.type ?? 'any';
+          if (!(name in definitions)) {
+            errors.push(
+              `❌ Undeclared variable: ${where} uses "${name}" for a binary part, but it is not declared in the prompt's "variables".${at(locate, messagePointer)}`
+            );
+          } else if (type !== 'binary' && type !== 'any') {
+            errors.push(
+              `❌ Wrong variable type: ${where} uses "${name}" for a binary part, but it is declared as ${type}. Declare it with "type": "binary".${at(locate, `${pointer}/${name}`)}`
+            );
+          }
+        }
+      }
+    }
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      const definitionPointer = `${pointer}/${name}`;
+      if (!used.has(name)) {
+        errors.push(
+          `❌ Unused variable: prompt "${promptId}" declares "${name}", but no variant's templates reference it.${at(locate, definitionPointer)}`
+        );
+      }
+      if (definition.default === undefined) continue;
+      if (definition.required === true) {
+        errors.push(
+          `❌ Conflicting variable settings: variable "${name}" of prompt "${promptId}" is required but also has a default. Remove one of them.${at(locate, definitionPointer)}`
+        );
+      }
+      if (!matchesVariableType(definition.default, definition.type)) {
+        errors.push(
+          `❌ Invalid variable default: variable "${name}" of prompt "${promptId}" is declared as ${definition.type} but its default is ${describeValueType(definition.default)}.${at(locate, `${definitionPointer}/default`)}`
+        );
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigurationError('Variable validation failed', {
+      errors: [...new Set(errors)],
+    });
   }
 }
 
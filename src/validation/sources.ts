@@ -0,0 +1,317 @@
+import { readFile } from 'fs/promises';
+import { dirname, extname, join, isAbsolute } from 'path';
+import {
+  LineCounter,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+  type Node,
+} from 'yaml';
+import { ConfigurationError } from '../config/types.js';
+
+/** Position of a config value in the file it was written in */
+export interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+/** A config assembled from one or more files */
+export interface ConfigSource {
+  /** Fully resolved config with every include inlined */
+  config: unknown;
+  /** Every file that contributed to the config, root first */
+  files: string[];
+  /**
+   * Finds where the value at a JSON pointer (e.g. `/prompts/greeting/variants`)
+   * was defined, falling back to the closest enclosing value
+   */
+  locate(pointer: string): SourceLocation | undefined;
+}
+
+interface ParsedFile {
+  value: unknown;
+  /** JSON pointer within the file → 1-based line */
+  lines: Map<string, number>;
+}
+
+const YAML_EXTENSIONS = ['.yaml', '.yml'];
+const INCLUDE_EXTENSIONS = ['.json', ...YAML_EXTENSIONS, '.liquid'];
+
+/** Escape a key for use as a JSON pointer segment (RFC 6901) */
+function pointerSegment(key: string | number): string {
+  return String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * An object is an include when its `$ref` names a local config or template
+ * file. JSON-Schema refs (`#/definitions/x`) and URLs are left untouched.
+ */
+function getIncludeRef(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const ref = (value as Record<string, unknown>).$ref;
+  if (typeof ref !== 'string' || ref.startsWith('#') || ref.includes('://')) {
+    return undefined;
+  }
+  const [file] = ref.split('#');
+  return INCLUDE_EXTENSIONS.includes(extname(file).toLowerCase())
+    ? ref
+    : undefined;
+}
+
+/**
+ * Record the line of every map key / sequence item under `pointer`
+ */
+function collectLines(
+  node: Node | null | undefined,
+  pointer: string,
+  lineCounter: LineCounter,
+  lines: Map<string, number>
+): void {
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      const keyNode = pair.key as Node | null;
+      const key = isScalar(keyNode) ? String(keyNode.value) : String(keyNode);
+      const childPointer = `${pointer}/${pointerSegment(key)}`;
+      if (keyNode?.range) {
+        lines.set(childPointer, lineCounter.linePos(keyNode.range[0]).line);
+      }
+      collectLines(pair.value as Node, childPointer, lineCounter, lines);
+    }
+  } else if (isSeq(node)) {
+    node.items.forEach((item, index) => {
+      const childPointer = `${pointer}/${index}`;
+      const itemNode = item as Node;
+      if (itemNode?.range) {
+        lines.set(childPointer, lineCounter.linePos(itemNode.range[0]).line);
+      }
+      collectLines(itemNode, childPointer, lineCounter, lines);
+    });
+  }
+}
+
+/**
+ * Parse a single file by extension. `.liquid` files become plain strings.
+ * @throws ConfigurationError with file and line on syntax errors
+ */
+function parseFile(file: string, text: string): ParsedFile {
+  const extension = extname(file).toLowerCase();
+  const lines = new Map<string, number>([['', 1]]);
+
+  if (extension === '.liquid') {
+    return { value: text, lines };
+  }
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter, prettyErrors: false });
+
+  if (YAML_EXTENSIONS.includes(extension)) {
+    const [error] = doc.errors;
+    if (error) {
+      const { line } = lineCounter.linePos(error.pos[0]);
+      throw new ConfigurationError(
+        `Failed to parse YAML config: ${file}:${line}`,
+        { file, line, error: error.message }
+      );
+    }
+    collectLines(doc.contents as Node, '', lineCounter, lines);
+    return { value: doc.toJS(), lines };
+  }
+
+  // JSON is parsed natively; the YAML document only provides line numbers
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    const [yamlError] = doc.errors;
+    const line = yamlError && lineCounter.linePos(yamlError.pos[0]).line;
+    throw new SyntaxError(
+      `${(error as Error).message}${line ? ` (${file}:${line})` : ''}`
+    );
+  }
+  if (!doc.errors.length) {
+    collectLines(doc.contents as Node, '', lineCounter, lines);
+  }
+  return { value, lines };
+}
+
+/**
+ * Resolve a JSON pointer fragment (`/prompts/greeting`) inside a parsed value
+ */
+function resolvePointer(
+  value: unknown,
+  pointer: string,
+  file: string
+): unknown {
+  if (!pointer) return value;
+
+  return pointer
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((current, segment) => {
+      if (current && typeof current === 'object' && segment in current) {
+        return (current as Record<string, unknown>)[segment];
+      }
+      throw new ConfigurationError(
+        `Include fragment "#${pointer}" not found in ${file}`,
+        { file, fragment: pointer }
+      );
+    }, value);
+}
+
+/**
+ * Load a config file (JSON or YAML) and inline every `$ref` include.
+ *
+ * `{ "$ref": "./prompts/greeting.yaml" }` is replaced by the referenced file's
+ * content (optionally narrowed with a `#/json/pointer` fragment); sibling keys
+ * override the included object's keys. A `$ref` to a `.liquid` file yields the
+ * file's text, so `content.template` can live in its own file. Paths are
+ * relative to the file containing the `$ref`.
+ *
+ * @param configPath Root configuration file
+ * @throws ConfigurationError for unreadable files, syntax errors and include cycles
+ */
+export async function loadConfigSource(
+  configPath: string
+): Promise<ConfigSource> {
+  const parsed = new Map<string, ParsedFile>();
+  const locations = new Map<string, SourceLocation>();
+
+  const load = async (file: string): Promise<ParsedFile> => {
+    let result = parsed.get(file);
+    if (!result) {
+      result = parseFile(file, await readFile(file, 'utf-8'));
+      parsed.set(file, result);
+    }
+    return result;
+  };
+
+  // Read/parse failures of the root file are reported by the caller
+  const loadInclude = async (file: string, from: string) => {
+    try {
+      return await load(file);
+    } catch (error) {
+      if (error instanceof ConfigurationError) throw error;
+      throw new ConfigurationError(
+        `Failed to load included file: ${file} (referenced from ${from})`,
+        { file, error: error instanceof Error ? error.message : error }
+      );
+    }
+  };
+
+  const resolveValue = async (
+    value: unknown,
+    file: string,
+    lines: Map<string, number>,
+    filePointer: string,
+    outPointer: string,
+    stack: string[]
+  ): Promise<unknown> => {
+    locations.set(outPointer, { file, line: lines.get(filePointer) ?? 1 });
+
+    const ref = getIncludeRef(value);
+    if (ref) {
+      const [relativeFile, fragment = ''] = ref.split('#');
+      const target = isAbsolute(relativeFile)
+        ? relativeFile
+        : join(dirname(file), relativeFile);
+      const key = `${target}#${fragment}`;
+
+      if (stack.includes(key)) {
+        throw new ConfigurationError(
+          `Circular include: ${[...stack, key].join(' → ')}`,
+          { file, ref }
+        );
+      }
+
+      const included = await loadInclude(target, file);
+      const resolved = await resolveValue(
+        resolvePointer(included.value, fragment, target),
+        target,
+        included.lines,
+        fragment,
+        outPointer,
+        [...stack, key]
+      );
+
+      const { $ref: _ref, ...siblings } = value as Record<string, unknown>;
+      if (!Object.keys(siblings).length) return resolved;
+
+      const merged: Record<string, unknown> = {
+        ...(resolved as Record<string, unknown>),
+      };
+      for (const [childKey, child] of Object.entries(siblings)) {
+        const segment = pointerSegment(childKey);
+        merged[childKey] = await resolveValue(
+          child,
+          file,
+          lines,
+          `${filePointer}/${segment}`,
+          `${outPointer}/${segment}`,
+          stack
+        );
+      }
+      return merged;
+    }
+
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const [index, item] of value.entries()) {
+        items.push(
+          await resolveValue(
+            item,
+            file,
+            lines,
+            `${filePointer}/${index}`,
+            `${outPointer}/${index}`,
+            stack
+          )
+        );
+      }
+      return items;
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [childKey, child] of Object.entries(value)) {
+        const segment = pointerSegment(childKey);
+        result[childKey] = await resolveValue(
+          child,
+          file,
+          lines,
+          `${filePointer}/${segment}`,
+          `${outPointer}/${segment}`,
+          stack
+        );
+      }
+      return result;
+    }
+
+    return value;
+  };
+
+  const root = await load(configPath);
+  const config = await resolveValue(
+    root.value,
+    configPath,
+    root.lines,
+    '',
+    '',
+    [`${configPath}#`]
+  );
+
+  return {
+    config,
+    files: [...parsed.keys()],
+    locate(pointer: string) {
+      for (let current = pointer; ; ) {
+        const location = locations.get(current);
+        if (location || !current) return location;
+        current = current.slice(0, current.lastIndexOf('/'));
+      }
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import {
+  getProviderRegistration,
+  registerProvider,
+  type ProviderRegistration,
+} from '../../src/providers/registry';
+import type {
+  ChatCompletionResponse,
+  ChatCompletionUsage,
+  Provider,
+} from '../../src/providers/types';
+import type { PromptunaConfig } from '../../src/config/types';
+import { testConfigs } from '../fixtures/test-utils';
+
+const BUILT_IN_TYPES = ['openai', 'anthropic', 'google'];
+const originals = new Map<string, ProviderRegistration>();
+
+/**
+ * Fresh copy of the `valid` test config that a test may change freely
+ */
+export function testConfig(): PromptunaConfig {
+  return structuredClone(testConfigs.valid);
+}
+
+/**
+ * Makes the built-in provider types create the given stubs instead of SDK
+ * clients. Stubs are keyed by provider id (`openai_gpt4`, `anthropic_claude`,
+ * `google_gemini`); undo with `restoreProviders()` in `afterEach`.
+ */
+export function stubProviders(stubs: Record<string, Provider>): void {
+  for (const type of BUILT_IN_TYPES) {
+    if (!originals.has(type)) {
+      originals.set(type, getProviderRegistration(type)!);
+    }
+    registerProvider(type, ({ providerId }) => {
+      const stub = stubs[providerId];
+      if (!stub) throw new Error(`No stub for provider "${providerId}"`);
+      return stub;
+    });
+  }
+}
+
+/**
+ * Puts back the built-in provider types replaced by `stubProviders()`
+ */
+export function restoreProviders(): void {
+  for (const [type, registration] of originals) {
+    registerProvider(type, registration);
+  }
+  originals.clear();
+}
+
+/**
+ * Single-choice assistant answer as returned by a provider
+ */
+export function chatResponse(
+  content: string,
+  extra: { id?: string; model?: string; usage?: ChatCompletionUsage } = {}
+): ChatCompletionResponse {
+  return {
+    id: extra.id ?? 'resp-1',
+    model: extra.model ?? 'gpt-4',
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: 'stop',
+      },
+    ],
+    ...(extra.usage && { usage: extra.usage }),
+  };
+}
@@ -1,6 +1,13 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Promptuna } from '../../src/Promptuna';
+import { ProviderError } from '../../src/errors';
+import type { ChatCompletionChunk } from '../../src/providers/types';
 import { testConfigs } from '../fixtures/test-utils';
+import {
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../helpers/promptuna';
 
 // Mock fs/promises for config loading
 import { readFile } from 'fs/promises';
@@ -209,4 +216,154 @@ describe('Promptuna Integration Tests', () => {
       expect(mockReadFile).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('streaming chat completion', () => {
+    async function* chunks(
+      parts: string[]
+    ): AsyncGenerator<ChatCompletionChunk> {
+      for (const [index, part] of parts.entries()) {
+        yield {
+          id: 'stream-1',
+          model: 'gpt-4',
+          choices: [
+            {
+              delta: { content: part },
+              finish_reason: index === parts.length - 1 ? 'stop' : null,
+              index: 0,
+            },
+          ],
+          ...(index === parts.length - 1 && {
+            usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+          }),
+        };
+      }
+    }
+
+    afterEach(restoreProviders);
+
+    it('should stream chunks and emit a single observability event', async () => {
+      const onObservability = vi.fn();
+      promptuna = new Promptuna({
+        configPath: './test-config.json',
+        onObservability,
+      });
+      stubProviders({
+        openai_gpt4: {
+          chatCompletion: vi.fn(),
+          streamChatCompletion: () => chunks(['Hello ', 'Alice']),
+        },
+      });
+
+      let content = '';
+      for await (const chunk of promptuna.streamChatCompletion({
+        promptId: 'greeting',
+        variables: { name: 'Alice' },
+      })) {
+        content += chunk.choices[0].delta.content ?? '';
+      }
+
+      expect(content).toBe('Hello Alice');
+      expect(onObservability).toHaveBeenCalledTimes(1);
+      const event = onObservability.mock.calls[0][0];
+      expect(event).toMatchObject({
+        success: true,
+        variantId: 'v_default',
+        provider: 'openai',
+        providerRequestId: 'stream-1',
+        tokenUsage: { prompt: 5, completion: 2, total: 7 },
+      });
+      expect(event.timings.firstToken).toEqual(expect.any(Number));
+    });
+
+    it('should fall back when the primary target fails before the first chunk', async () => {
+      const config = testConfig();
+      config.prompts.greeting.variants.v_default.fallback = [
+        { provider: 'anthropic_claude', model: 'claude-3-haiku' },
+      ];
+      const onObservability = vi.fn();
+      promptuna = new Promptuna({ config, onObservability });
+      stubProviders({
+        openai_gpt4: {
+          chatCompletion: vi.fn(),
+          async *streamChatCompletion() {
+            throw new ProviderError('rate-limit', '429', true, undefined, 429);
+          },
+        },
+        anthropic_claude: {
+          chatCompletion: vi.fn(),
+          streamChatCompletion: () => chunks(['Hi']),
+        },
+      });
+
+      const received = [];
+      for await (const chunk of promptuna.streamChatCompletion({
+        promptId: 'greeting',
+      })) {
+        received.push(chunk);
+      }
+
+      expect(received).toHaveLength(1);
+      expect(onObservability.mock.calls[0][0]).toMatchObject({
+        success: true,
+        provider: 'anthropic',
+        fallbackUsed: true,
+        fallbacks: [
+          { provider: 'openai', model: 'gpt-4', reason: 'rate-limit' },
+        ],
+      });
+    });
+
+    it('should wrap failures in ExecutionError and emit an error event', async () => {
+      const onObservability = vi.fn();
+      promptuna = new Promptuna({
+        configPath: './test-config.json',
+        onObservability,
+      });
+      stubProviders({
+        openai_gpt4: {
+          chatCompletion: vi.fn(),
+          async *streamChatCompletion() {
+            throw new ProviderError('provider-error', 'Invalid API key', false);
+          },
+        },
+      });
+
+      const consume = async () => {
+        for await (const _chunk of promptuna.streamChatCompletion({
+          promptId: 'greeting',
+        })) {
+          // drain
+        }
+      };
+
+      await expect(consume()).rejects.toThrow(
+        'Chat completion failed for unknown: Invalid API key'
+      );
+      expect(onObservability).toHaveBeenCalledTimes(1);
+      expect(onObservability.mock.calls[0][0].success).toBe(false);
+    });
+
+    it('should still emit an event when the consumer stops early', async () => {
+      const onObservability = vi.fn();
+      promptuna = new Promptuna({
+        configPath: './test-config.json',
+        onObservability,
+      });
+      stubProviders({
+        openai_gpt4: {
+          chatCompletion: vi.fn(),
+          streamChatCompletion: () => chunks(['a', 'b', 'c']),
+        },
+      });
+
+      for await (const _chunk of promptuna.streamChatCompletion({
+        promptId: 'greeting',
+      })) {
+        break;
+      }
+
+      expect(onObservability).toHaveBeenCalledTimes(1);
+      expect(onObservability.mock.calls[0][0].success).toBe(true);
+    });
+  });
 });
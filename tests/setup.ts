@@ -15,6 +15,7 @@ vi.mock('crypto', () => ({
     update: vi.fn().mockReturnThis(),
     digest: vi.fn(() => 'deadbeef12345678'), // Fixed hash for deterministic tests
   })),
+  randomUUID: vi.fn(() => 'test-uuid-123'),
 }));
 
 // Mock file system operations
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryBudgetStore } from '../../../src/budgets/memory';
+
+describe('MemoryBudgetStore', () => {
+  it('sums usage inside the rolling window only', async () => {
+    let now = 0;
+    const store = new MemoryBudgetStore(() => now);
+
+    await store.record('key', { tokens: 100, costUsd: 0.1 }, 1_000);
+    now = 600;
+    await store.record('key', { tokens: 50, costUsd: 0.05 }, 1_000);
+
+    expect(await store.getUsage('key', 1_000)).toEqual({
+      tokens: 150,
+      costUsd: expect.closeTo(0.15),
+    });
+
+    now = 1_000;
+    expect(await store.getUsage('key', 1_000)).toEqual({
+      tokens: 50,
+      costUsd: 0.05,
+    });
+    expect(await store.getUsage('other', 1_000)).toEqual({
+      tokens: 0,
+      costUsd: 0,
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BudgetTracker, getBudgetKey } from '../../../src/budgets/tracker';
+import type { BudgetLimit, BudgetStore } from '../../../src/budgets/types';
+import type { ChatCompletionChunk } from '../../../src/providers/types';
+import { Promptuna } from '../../../src/Promptuna';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+const perUser: BudgetLimit = {
+  name: 'user-daily',
+  scope: 'user',
+  maxTokens: 1_000,
+  windowMs: 60_000,
+};
+const perTenant: BudgetLimit = {
+  name: 'tenant-cost',
+  scope: 'tenant',
+  promptIds: ['summary'],
+  maxCostUsd: 1,
+  windowMs: 60_000,
+};
+
+describe('getBudgetKey', () => {
+  it('keys usage by limit and scope id', () => {
+    expect(getBudgetKey(perUser, { promptId: 'greeting', userId: 'u1' })).toBe(
+      'budget:user-daily:user:u1'
+    );
+  });
+
+  it('skips requests without the scope id or outside promptIds', () => {
+    expect(getBudgetKey(perUser, { promptId: 'greeting' })).toBeUndefined();
+    expect(
+      getBudgetKey(perTenant, { promptId: 'greeting', tenantId: 'acme' })
+    ).toBeUndefined();
+  });
+});
+
+describe('BudgetTracker', () => {
+  it('reports the first limit the projected usage would exceed', async () => {
+    const tracker = new BudgetTracker({ limits: [perUser, perTenant] });
+    const request = { promptId: 'summary', userId: 'u1', tenantId: 'acme' };
+
+    await tracker.record(request, { tokens: 900, costUsd: 0.9 });
+
+    expect(
+      await tracker.check(request, { tokens: 100, costUsd: 0.1 })
+    ).toBeUndefined();
+    expect(
+      await tracker.check(request, { tokens: 50, costUsd: 0.2 })
+    ).toMatchObject({
+      limit: perTenant,
+      usage: { tokens: 900, costUsd: 0.9 },
+      projected: { tokens: 50, costUsd: 0.2 },
+    });
+    expect(
+      await tracker.check(request, { tokens: 200, costUsd: 0 })
+    ).toMatchObject({ limit: perUser });
+    expect(
+      await tracker.check(
+        { promptId: 'summary', userId: 'u2' },
+        { tokens: 200, costUsd: 0 }
+      )
+    ).toBeUndefined();
+  });
+
+  it('never fails requests because of store errors', async () => {
+    const store: BudgetStore = {
+      getUsage: vi.fn().mockRejectedValue(new Error('down')),
+      record: vi.fn().mockRejectedValue(new Error('down')),
+    };
+    const tracker = new BudgetTracker({ limits: [perUser], store });
+    const request = { promptId: 'greeting', userId: 'u1' };
+
+    await expect(
+      tracker.record(request, { tokens: 10, costUsd: 0 })
+    ).resolves.toBeUndefined();
+    await expect(
+      tracker.check(request, { tokens: 10, costUsd: 0 })
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('Promptuna budgets', () => {
+  const response = chatResponse('Hello Alice', {
+    usage: {
+      prompt_tokens: 1_000,
+      completion_tokens: 500,
+      total_tokens: 1_500,
+    },
+  });
+  const params = {
+    promptId: 'greeting',
+    variables: { name: 'Alice' },
+    userId: 'alice',
+  };
+
+  afterEach(restoreProviders);
+
+  it('rejects calls that would exceed a token budget', async () => {
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({
+      config: testConfig(),
+      onObservability,
+      budgets: {
+        limits: [
+          {
+            name: 'user-hourly',
+            scope: 'user',
+            // 1,500 used by the first call + ~120 projected for the second
+            maxTokens: 1_600,
+            windowMs: 3_600_000,
+          },
+        ],
+      },
+    });
+    const chatCompletion = vi.fn().mockResolvedValue(response);
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    await promptuna.chatCompletion(params);
+    await expect(promptuna.chatCompletion(params)).rejects.toMatchObject({
+      details: {
+        errorType: 'BudgetExceededError',
+        errorCode: 'budget-exceeded',
+        providerDetails: {
+          limit: 'user-hourly',
+          usage: { tokens: 1_500 },
+          maxTokens: 1_600,
+        },
+      },
+    });
+    // Other users have their own budget
+    await promptuna.chatCompletion({ ...params, userId: 'bob' });
+
+    expect(chatCompletion).toHaveBeenCalledTimes(2);
+    const events = onObservability.mock.calls.map(call => call[0]);
+    expect(events.map(event => event.budget)).toEqual([
+      { decision: 'allowed' },
+      { decision: 'rejected', limit: 'user-hourly' },
+      { decision: 'allowed' },
+    ]);
+  });
+
+  it('downgrades to the budget fallback variant', async () => {
+    const config = testConfig();
+    const variants = config.prompts.greeting.variants;
+    variants.v_mini = {
+      ...variants.v_default,
+      default: false,
+      model: 'gpt-4o-mini',
+    };
+    variants.v_default.budgetFallback = 'v_mini';
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({
+      config,
+      onObservability,
+      budgets: {
+        limits: [
+          {
+            name: 'user-spend',
+            scope: 'user',
+            // First call: $0.06 at gpt-4 prices
+            maxCostUsd: 0.065,
+            windowMs: 3_600_000,
+            onExceeded: 'downgrade',
+          },
+        ],
+      },
+    });
+    const chatCompletion = vi.fn().mockResolvedValue(response);
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    await promptuna.chatCompletion(params);
+    await promptuna.chatCompletion(params);
+
+    expect(chatCompletion.mock.calls[1][0].model).toBe('gpt-4o-mini');
+    expect(onObservability.mock.calls[1][0]).toMatchObject({
+      variantId: 'v_mini',
+      budget: {
+        decision: 'downgraded',
+        limit: 'user-spend',
+        originalVariantId: 'v_default',
+      },
+    });
+  });
+
+  it('charges streams the consumer abandons early', async () => {
+    const store: BudgetStore = {
+      getUsage: vi.fn().mockResolvedValue({ tokens: 0, costUsd: 0 }),
+      record: vi.fn().mockResolvedValue(undefined),
+    };
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({
+      config: testConfig(),
+      onObservability,
+      budgets: {
+        limits: [{ name: 'user-hourly', scope: 'user', windowMs: 3_600_000 }],
+        store,
+      },
+    });
+    async function* chunks(): AsyncGenerator<ChatCompletionChunk> {
+      for (const content of ['Hello', ' Alice']) {
+        yield {
+          id: 'stream-1',
+          model: 'gpt-4',
+          choices: [{ index: 0, delta: { content }, finish_reason: null }],
+        };
+      }
+    }
+    stubProviders({
+      openai_gpt4: { chatCompletion: vi.fn(), streamChatCompletion: chunks },
+    });
+
+    for await (const _chunk of promptuna.streamChatCompletion(params)) {
+      break;
+    }
+
+    // No usage was reported before the break – the projection is charged
+    expect(store.record).toHaveBeenCalledWith(
+      'budget:user-hourly:user:alice',
+      { tokens: expect.any(Number), costUsd: expect.any(Number) },
+      3_600_000
+    );
+    const [, charged] = vi.mocked(store.record).mock.calls[0];
+    expect(charged.tokens).toBeGreaterThan(0);
+    expect(charged.costUsd).toBeGreaterThan(0);
+    expect(onObservability.mock.calls[0][0]).toMatchObject({
+      success: true,
+      estimatedCostUsd: charged.costUsd,
+    });
+  });
+
+  it('checks budgets before summarizing history and charges the summary', async () => {
+    const config = testConfig();
+    config.providers.openai_gpt4.config = {
+      models: { 'gpt-4': { contextWindow: 700 } },
+    };
+    config.prompts.greeting.variants.v_default.truncationStrategy = 'summarize';
+    const store: BudgetStore = {
+      getUsage: vi
+        .fn()
+        .mockResolvedValueOnce({ tokens: 0, costUsd: 0 })
+        .mockResolvedValue({ tokens: 100_000, costUsd: 0 }),
+      record: vi.fn().mockResolvedValue(undefined),
+    };
+    const promptuna = new Promptuna({
+      config,
+      budgets: {
+        limits: [
+          {
+            name: 'user-hourly',
+            scope: 'user',
+            maxTokens: 100_000,
+            windowMs: 3_600_000,
+          },
+        ],
+        store,
+      },
+    });
+    const chatCompletion = vi
+      .fn()
+      .mockResolvedValueOnce(
+        chatResponse('Small talk.', {
+          usage: {
+            prompt_tokens: 600,
+            completion_tokens: 5,
+            total_tokens: 605,
+          },
+        })
+      )
+      .mockResolvedValueOnce(response);
+    stubProviders({ openai_gpt4: { chatCompletion } });
+    const request = {
+      ...params,
+      messageHistory: [
+        { role: 'user' as const, content: 'z'.repeat(2400) },
+        { role: 'assistant' as const, content: 'Noted.' },
+      ],
+    };
+
+    await promptuna.chatCompletion(request);
+    expect(chatCompletion).toHaveBeenCalledTimes(2);
+    expect(
+      vi.mocked(store.record).mock.calls.map(([, usage]) => usage.tokens)
+    ).toEqual([605, 1_500]);
+
+    await expect(promptuna.chatCompletion(request)).rejects.toMatchObject({
+      details: { errorType: 'BudgetExceededError' },
+    });
+    // Rejected before the summary call
+    expect(chatCompletion).toHaveBeenCalledTimes(2);
+  });
+});
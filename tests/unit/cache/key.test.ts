@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The global test setup fixes every hash – keys need the real digest here
+vi.mock('crypto', async () => await vi.importActual('crypto'));
+
+import { buildCacheKey } from '../../../src/cache/key';
+import type { ChatCompletionOptions } from '../../../src/providers/types';
+
+const base: ChatCompletionOptions = {
+  model: 'gpt-4',
+  messages: [{ role: 'user', content: 'Hello Alice' }],
+  temperature: 0.7,
+  max_tokens: 100,
+};
+
+describe('buildCacheKey', () => {
+  it('is stable regardless of property order', () => {
+    const reordered: ChatCompletionOptions = {
+      max_tokens: 100,
+      temperature: 0.7,
+      messages: [{ content: 'Hello Alice', role: 'user' }],
+      model: 'gpt-4',
+    };
+
+    expect(buildCacheKey('openai', reordered)).toBe(
+      buildCacheKey('openai', base)
+    );
+  });
+
+  it('ignores per-request metadata', () => {
+    expect(
+      buildCacheKey('openai', {
+        ...base,
+        userId: 'user-1',
+        signal: new AbortController().signal,
+      })
+    ).toBe(buildCacheKey('openai', base));
+  });
+
+  it('changes with messages, model, parameters and provider type', () => {
+    const key = buildCacheKey('openai', base);
+
+    expect(
+      buildCacheKey('openai', {
+        ...base,
+        messages: [{ role: 'user', content: 'Hello Bob' }],
+      })
+    ).not.toBe(key);
+    expect(buildCacheKey('openai', { ...base, model: 'gpt-4o' })).not.toBe(key);
+    expect(buildCacheKey('openai', { ...base, temperature: 0 })).not.toBe(key);
+    expect(buildCacheKey('anthropic', base)).not.toBe(key);
+  });
+});
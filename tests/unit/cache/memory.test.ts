@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { MemoryCacheStore } from '../../../src/cache/memory';
+import type { ChatCompletionResponse } from '../../../src/providers/types';
+import { Promptuna } from '../../../src/Promptuna';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+const response = (id: string): ChatCompletionResponse => ({
+  id,
+  model: 'gpt-4',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content: id },
+      finish_reason: 'stop',
+    },
+  ],
+});
+
+describe('MemoryCacheStore', () => {
+  it('returns stored values', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', response('a'));
+
+    await expect(store.get('a')).resolves.toEqual(response('a'));
+    await expect(store.get('missing')).resolves.toBeUndefined();
+  });
+
+  it('expires entries after their TTL', async () => {
+    let now = 0;
+    const store = new MemoryCacheStore(10, () => now);
+    await store.set('a', response('a'), 100);
+
+    now = 99;
+    await expect(store.get('a')).resolves.toBeDefined();
+    now = 100;
+    await expect(store.get('a')).resolves.toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', response('a'));
+    await store.set('b', response('b'));
+    // Touch "a" so "b" becomes the eviction candidate
+    await store.get('a');
+    await store.set('c', response('c'));
+
+    await expect(store.get('a')).resolves.toBeDefined();
+    await expect(store.get('b')).resolves.toBeUndefined();
+    await expect(store.get('c')).resolves.toBeDefined();
+  });
+
+  it('supports delete and clear', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', response('a'));
+    await store.set('b', response('b'));
+
+    await store.delete('a');
+    expect(store.size).toBe(1);
+    await store.clear();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('Promptuna response cache', () => {
+  const response = chatResponse('Hello Alice', {
+    id: 'resp-cached',
+    usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+  });
+
+  afterEach(restoreProviders);
+
+  it('serves repeated calls from the cache', async () => {
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({
+      config: testConfig(),
+      cache: { defaultTtlMs: 60_000 },
+      onObservability,
+    });
+    const chatCompletion = vi.fn().mockResolvedValue(response);
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    const params = { promptId: 'greeting', variables: { name: 'Alice' } };
+    const first = await promptuna.chatCompletion(params);
+    const second = await promptuna.chatCompletion(params);
+
+    expect(second).toEqual(first);
+    expect(chatCompletion).toHaveBeenCalledTimes(1);
+
+    const [missEvent, hitEvent] = onObservability.mock.calls.map(
+      call => call[0]
+    );
+    expect(missEvent.cacheHit).toBe(false);
+    expect(hitEvent).toMatchObject({
+      success: true,
+      cacheHit: true,
+      provider: 'openai',
+      providerRequestId: 'resp-cached',
+    });
+    expect(hitEvent.timings.provider).toBe(0);
+    expect(hitEvent.tokenUsage).toBeUndefined();
+  });
+
+  it('uses a custom store with the variant TTL', async () => {
+    const config = testConfig();
+    config.prompts.greeting.variants.v_default.cache = { ttlMs: 5_000 };
+    const store = {
+      get: vi.fn().mockResolvedValue(undefined),
+      set: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn(),
+      clear: vi.fn(),
+    };
+    const promptuna = new Promptuna({
+      config,
+      cache: { store, defaultTtlMs: 60_000 },
+    });
+    stubProviders({
+      openai_gpt4: { chatCompletion: vi.fn().mockResolvedValue(response) },
+    });
+
+    await promptuna.chatCompletion({ promptId: 'greeting' });
+
+    expect(store.get).toHaveBeenCalledWith(expect.any(String));
+    expect(store.set).toHaveBeenCalledWith(
+      store.get.mock.calls[0][0],
+      response,
+      5_000
+    );
+  });
+
+  it('skips variants with caching disabled', async () => {
+    const config = testConfig();
+    config.prompts.greeting.variants.v_default.cache = { enabled: false };
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({ config, cache: {}, onObservability });
+    const chatCompletion = vi.fn().mockResolvedValue(response);
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    await promptuna.chatCompletion({ promptId: 'greeting' });
+    await promptuna.chatCompletion({ promptId: 'greeting' });
+
+    expect(chatCompletion).toHaveBeenCalledTimes(2);
+    expect(onObservability.mock.calls[0][0].cacheHit).toBeUndefined();
+  });
+});
@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFile, writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { Cassette } from '../../../src/cassettes/cassette';
+import {
+  createRecordingProvider,
+  createReplayProvider,
+} from '../../../src/cassettes/provider';
+import { CassetteMismatchError } from '../../../src/errors';
+import type { ChatCompletionOptions } from '../../../src/providers/types';
+import { Promptuna } from '../../../src/Promptuna';
+import { registerProvider } from '../../../src/providers/registry';
+import { chatResponse, testConfig } from '../../helpers/promptuna';
+
+const path = 'tests/cassettes/greeting.json';
+const options: ChatCompletionOptions = {
+  model: 'gpt-4',
+  messages: [{ role: 'user', content: 'Hello Ada' }],
+  temperature: 0.7,
+  userId: 'u1',
+  signal: new AbortController().signal,
+};
+const response = {
+  id: 'resp-1',
+  model: 'gpt-4',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant' as const, content: 'Hi Ada!' },
+      finish_reason: 'stop',
+    },
+  ],
+};
+const chunks = ['Hi', ' Ada!'].map(content => ({
+  id: 'resp-1',
+  model: 'gpt-4',
+  choices: [{ index: 0, delta: { content }, finish_reason: null }],
+}));
+
+const mockReadFile = vi.mocked(readFile);
+const mockWriteFile = vi.mocked(writeFile);
+
+/** Cassette file contents from the last write */
+const written = () => JSON.parse(mockWriteFile.mock.calls.at(-1)![1] as string);
+
+beforeEach(() => {
+  mockReadFile.mockRejectedValue(
+    Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' })
+  );
+});
+
+describe('Cassette', () => {
+  it('starts a new cassette and stores normalised requests', async () => {
+    const cassette = new Cassette({ mode: 'record', path });
+
+    await cassette.record('openai_gpt4', false, options, { response });
+
+    expect(mockWriteFile).toHaveBeenCalledWith(
+      resolve(path),
+      expect.any(String)
+    );
+    expect(written()).toEqual({
+      version: 1,
+      interactions: [
+        {
+          providerId: 'openai_gpt4',
+          stream: false,
+          request: {
+            messages: [{ content: 'Hello Ada', role: 'user' }],
+            model: 'gpt-4',
+            temperature: 0.7,
+          },
+          response,
+        },
+      ],
+    });
+  });
+
+  it('replaces a re-recorded request and keeps the others', async () => {
+    mockReadFile.mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        interactions: [
+          {
+            providerId: 'openai_gpt4',
+            stream: false,
+            request: { model: 'gpt-4', messages: [] },
+            response,
+          },
+          {
+            providerId: 'openai_gpt4',
+            stream: false,
+            request: {
+              model: 'gpt-4',
+              temperature: 0.7,
+              messages: [{ role: 'user', content: 'Hello Ada' }],
+            },
+            response: { ...response, id: 'old' },
+          },
+        ],
+      }) as any
+    );
+    const cassette = new Cassette({ mode: 'record', path });
+
+    await cassette.record('openai_gpt4', false, options, { response });
+
+    expect(
+      written().interactions.map((entry: any) => entry.response.id)
+    ).toEqual(['resp-1', 'resp-1']);
+    expect(written().interactions[1].request.messages).toHaveLength(1);
+  });
+
+  it('replays matches regardless of key order and ignored options', async () => {
+    mockReadFile.mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        interactions: [
+          {
+            providerId: 'openai_gpt4',
+            stream: false,
+            request: {
+              temperature: 0.2,
+              model: 'gpt-4',
+              messages: [{ role: 'user', content: 'Hello Ada' }],
+            },
+            response,
+          },
+        ],
+      }) as any
+    );
+    const cassette = new Cassette({
+      mode: 'replay',
+      path,
+      ignore: ['temperature'],
+    });
+
+    const match = await cassette.find('openai_gpt4', false, options);
+
+    expect(match.response).toEqual(response);
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+
+  it('fails loudly on unmatched requests and missing cassettes', async () => {
+    mockReadFile.mockResolvedValueOnce(
+      JSON.stringify({ version: 1, interactions: [] }) as any
+    );
+    const cassette = new Cassette({ mode: 'replay', path });
+
+    const error = await cassette
+      .find('openai_gpt4', true, options)
+      .catch(error => error);
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect(error.message).toBe(
+      `No recorded streamed request to "openai_gpt4" matches in cassette ${resolve(path)}`
+    );
+    expect(error.details).toMatchObject({
+      providerId: 'openai_gpt4',
+      stream: true,
+      recorded: 0,
+      request: { model: 'gpt-4', temperature: 0.7 },
+    });
+
+    await expect(
+      new Cassette({ mode: 'replay', path }).find('openai_gpt4', false, options)
+    ).rejects.toThrow(`Failed to read cassette: ${resolve(path)}`);
+  });
+});
+
+describe('cassette providers', () => {
+  it('records streams once fully consumed and replays their chunks', async () => {
+    const recorder = new Cassette({ mode: 'record', path });
+    const provider = createRecordingProvider(
+      {
+        chatCompletion: vi.fn(),
+        async *streamChatCompletion() {
+          yield* chunks;
+        },
+      },
+      recorder,
+      'openai_gpt4'
+    );
+
+    const received = [];
+    for await (const chunk of provider.streamChatCompletion!(options)) {
+      received.push(chunk);
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    }
+    expect(received).toEqual(chunks);
+    expect(written().interactions[0]).toMatchObject({ stream: true, chunks });
+
+    mockReadFile.mockResolvedValueOnce(mockWriteFile.mock.calls[0][1] as any);
+    const replay = createReplayProvider(
+      new Cassette({ mode: 'replay', path }),
+      'openai_gpt4'
+    );
+    const replayed = [];
+    for await (const chunk of replay.streamChatCompletion!(options)) {
+      replayed.push(chunk);
+    }
+    expect(replayed).toEqual(chunks);
+    await expect(replay.chatCompletion(options)).rejects.toThrow(
+      CassetteMismatchError
+    );
+  });
+
+  it('does not record failed calls', async () => {
+    const recorder = new Cassette({ mode: 'record', path });
+    const provider = createRecordingProvider(
+      { chatCompletion: vi.fn().mockRejectedValue(new Error('503')) },
+      recorder,
+      'openai_gpt4'
+    );
+
+    await expect(provider.chatCompletion(options)).rejects.toThrow('503');
+    expect(provider.streamChatCompletion).toBeUndefined();
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('Promptuna record and replay', () => {
+  it('records provider calls and replays them without the provider', async () => {
+    const chatCompletion = vi.fn().mockResolvedValue(
+      chatResponse('Hello Alice', {
+        id: 'recorded-1',
+        model: 'in-house-7b',
+        usage: { prompt_tokens: 20, completion_tokens: 2, total_tokens: 22 },
+      })
+    );
+    const factory = vi.fn(() => ({ chatCompletion }));
+    registerProvider('in_house', factory);
+
+    const config = testConfig();
+    config.providers.openai_gpt4 = { type: 'in_house' };
+    let recorded = '';
+    mockReadFile.mockImplementation(async () => {
+      if (!recorded) {
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      }
+      return recorded;
+    });
+    mockWriteFile.mockImplementation(async (_path, data) => {
+      recorded = data as string;
+    });
+
+    const recorder = new Promptuna({
+      config,
+      cassette: { mode: 'record', path },
+    });
+    await recorder.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+      userId: 'alice',
+    });
+    expect(JSON.parse(recorded).interactions).toHaveLength(1);
+
+    factory.mockClear();
+    chatCompletion.mockClear();
+    const replayer = new Promptuna({
+      config,
+      cassette: { mode: 'replay', path },
+    });
+    const replayed = await replayer.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+      userId: 'bob',
+    });
+
+    expect(replayed).toMatchObject({
+      id: 'recorded-1',
+      choices: [{ message: { content: 'Hello Alice' } }],
+    });
+    expect(factory).not.toHaveBeenCalled();
+    expect(chatCompletion).not.toHaveBeenCalled();
+
+    await expect(
+      replayer.chatCompletion({
+        promptId: 'greeting',
+        variables: { name: 'Bob' },
+      })
+    ).rejects.toMatchObject({
+      details: {
+        errorType: 'CassetteMismatchError',
+        errorCode: 'cassette-mismatch',
+        providerDetails: expect.objectContaining({ recorded: 1 }),
+      },
+    });
+  });
+});
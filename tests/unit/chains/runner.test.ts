@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  executeChain,
+  getPath,
+  isConditionMet,
+  type ChainStepRequest,
+} from '../../../src/chains/runner';
+import { ExecutionError } from '../../../src/config/types';
+import { Promptuna } from '../../../src/Promptuna';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+/** Executor answering with a fixed content per prompt id */
+function createExecutor(
+  replies: Record<string, string | ((req: ChainStepRequest) => string)>,
+  structured: string[] = []
+) {
+  return vi.fn(async (request: ChainStepRequest) => {
+    const reply = replies[request.promptId];
+    const content = typeof reply === 'function' ? reply(request) : reply;
+    return {
+      response: {
+        id: `resp_${request.stepId}`,
+        model: 'gpt-4',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant' as const, content },
+            finish_reason: 'stop',
+          },
+        ],
+      },
+      variantId: request.variantId ?? 'v_default',
+      structured: structured.includes(request.promptId),
+    };
+  });
+}
+
+describe('chain runner', () => {
+  describe('getPath', () => {
+    it('should resolve nested keys and array indexes', () => {
+      const outputs = { classify: { labels: ['a', 'b'] } };
+      expect(getPath(outputs, 'classify.labels.1')).toBe('b');
+      expect(getPath(outputs, 'classify.missing.deep')).toBeUndefined();
+    });
+  });
+
+  describe('isConditionMet', () => {
+    const outputs = { classify: { category: 'billing', score: 0 } };
+
+    it('should evaluate equals, notEquals, in and exists', () => {
+      expect(
+        isConditionMet(
+          { path: 'classify.category', equals: 'billing' },
+          outputs
+        )
+      ).toBe(true);
+      expect(
+        isConditionMet(
+          { path: 'classify.category', notEquals: 'billing' },
+          outputs
+        )
+      ).toBe(false);
+      expect(
+        isConditionMet(
+          { path: 'classify.category', in: ['tech', 'billing'] },
+          outputs
+        )
+      ).toBe(true);
+      expect(
+        isConditionMet({ path: 'classify.score', exists: true }, outputs)
+      ).toBe(true);
+      expect(
+        isConditionMet({ path: 'classify.reason', exists: true }, outputs)
+      ).toBe(false);
+    });
+  });
+
+  describe('executeChain', () => {
+    it('should feed mapped text and JSON outputs into later steps', async () => {
+      const execute = createExecutor(
+        {
+          classify: '{"category":"billing"}',
+          answer: req =>
+            `Answer for ${req.variables.category} (${req.variables.name})`,
+        },
+        ['classify']
+      );
+
+      const result = await executeChain({
+        steps: [
+          { prompt: 'classify' },
+          { prompt: 'answer', map: { category: 'classify.category' } },
+        ],
+        input: { name: 'Alice' },
+        requestId: 'chain-1',
+        execute,
+      });
+
+      expect(result.outputs).toEqual({
+        classify: { category: 'billing' },
+        answer: 'Answer for billing (Alice)',
+      });
+      expect(result.output).toBe('Answer for billing (Alice)');
+      expect(result.requestId).toBe('chain-1');
+      expect(result.steps.map(step => step.status)).toEqual([
+        'completed',
+        'completed',
+      ]);
+    });
+
+    it('should skip steps whose condition fails', async () => {
+      const execute = createExecutor({
+        classify: '{"category":"tech"}',
+        billing: 'refund',
+        tech: 'reboot',
+      });
+
+      const result = await executeChain({
+        steps: [
+          { prompt: 'classify', output: 'json' },
+          {
+            prompt: 'billing',
+            when: { path: 'classify.category', equals: 'billing' },
+          },
+          {
+            prompt: 'tech',
+            when: { path: 'classify.category', equals: 'tech' },
+          },
+        ],
+        input: {},
+        requestId: 'chain-2',
+        execute,
+      });
+
+      expect(result.steps).toContainEqual({ id: 'billing', status: 'skipped' });
+      expect(result.outputs).not.toHaveProperty('billing');
+      expect(result.output).toBe('reboot');
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fan out parallel branches and fan in their outputs', async () => {
+      const execute = createExecutor({
+        draft: 'draft text',
+        critique: 'too long',
+        facts: 'all correct',
+        final: req =>
+          `${req.variables.review.critique} / ${req.variables.review.facts}`,
+      });
+
+      const result = await executeChain({
+        steps: [
+          { prompt: 'draft' },
+          {
+            id: 'review',
+            parallel: [
+              { prompt: 'critique', map: { text: 'draft' } },
+              { prompt: 'facts', map: { text: 'draft' } },
+            ],
+          },
+          { prompt: 'final', map: { review: 'review' } },
+        ],
+        input: {},
+        requestId: 'chain-3',
+        execute,
+      });
+
+      expect(result.outputs.review).toEqual({
+        critique: 'too long',
+        facts: 'all correct',
+      });
+      expect(result.output).toBe('too long / all correct');
+    });
+
+    it('should run forEach steps once per item', async () => {
+      const execute = createExecutor(
+        {
+          split: '["a","b","c"]',
+          upper: req => `${req.variables.section}`.toUpperCase(),
+        },
+        ['split']
+      );
+
+      const result = await executeChain({
+        steps: [
+          { prompt: 'split' },
+          { prompt: 'upper', forEach: 'split', as: 'section' },
+        ],
+        input: {},
+        requestId: 'chain-4',
+        execute,
+      });
+
+      expect(result.outputs.upper).toEqual(['A', 'B', 'C']);
+      expect(result.steps.map(step => step.id)).toEqual([
+        'split',
+        'upper[0]',
+        'upper[1]',
+        'upper[2]',
+      ]);
+    });
+
+    it('should name the failed step in the error', async () => {
+      const execute = vi.fn(async (request: ChainStepRequest) => {
+        if (request.promptId === 'answer') {
+          throw new ExecutionError('Provider failed', {
+            providerType: 'openai',
+          });
+        }
+        return createExecutor({ classify: 'ok' })(request);
+      });
+
+      const error = await executeChain({
+        steps: [{ prompt: 'classify' }, { prompt: 'answer' }],
+        input: {},
+        requestId: 'chain-5',
+        execute,
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ExecutionError);
+      expect(error.message).toBe('Chain step "answer" failed: Provider failed');
+      expect(error.details).toMatchObject({
+        providerType: 'openai',
+        chainStepId: 'answer',
+        parentRequestId: 'chain-5',
+      });
+    });
+
+    it('should reject output that is not valid JSON', async () => {
+      await expect(
+        executeChain({
+          steps: [{ prompt: 'classify', output: 'json' }],
+          input: {},
+          requestId: 'chain-6',
+          execute: createExecutor({ classify: 'not json' }),
+        })
+      ).rejects.toThrow('Chain step "classify" did not return valid JSON');
+    });
+  });
+});
+
+describe('Promptuna.runChain', () => {
+  afterEach(restoreProviders);
+
+  it('runs chain steps and links their observability events', async () => {
+    const config = testConfig();
+    config.prompts.summary = structuredClone(config.prompts.greeting);
+    config.prompts.summary.variants.v_default.messages[1].content = {
+      template: 'Summarise: {{text}}',
+    };
+    config.prompts.greeting.chains = [
+      { prompt: 'summary', variant: 'v_default', map: { text: 'greeting' } },
+    ];
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({ config, onObservability });
+    const chatCompletion = vi
+      .fn()
+      .mockResolvedValueOnce(chatResponse('Hi Alice, doing great'))
+      .mockResolvedValueOnce(chatResponse('A greeting'));
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    const result = await promptuna.runChain({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+    });
+
+    expect(result.output).toBe('A greeting');
+    expect(result.outputs.greeting).toBe('Hi Alice, doing great');
+    expect(chatCompletion.mock.calls[1][0].messages[1].content).toBe(
+      'Summarise: Hi Alice, doing great'
+    );
+
+    const events = onObservability.mock.calls.map(call => call[0]);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      promptId: 'greeting',
+      parentRequestId: result.requestId,
+      chainStepId: 'greeting',
+    });
+    expect(events[1]).toMatchObject({
+      promptId: 'summary',
+      variantId: 'v_default',
+      routingReason: 'pinned',
+      parentRequestId: result.requestId,
+      chainStepId: 'summary',
+    });
+  });
+});
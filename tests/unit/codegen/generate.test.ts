@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { generateTypes } from '../../../src/codegen/generate';
+import type { PromptunaConfig } from '../../../src/config/types';
+
+const variant = (templates: string[], extra: Record<string, unknown> = {}) => ({
+  provider: 'openai',
+  model: 'gpt-4',
+  messages: templates.map(template => ({
+    role: 'user' as const,
+    content: { template },
+  })),
+  ...extra,
+});
+
+const config = {
+  version: '1.0',
+  providers: { openai: { type: 'openai' } },
+  responseSchemas: {
+    ticket_summary: {
+      type: 'object',
+      required: ['summary'],
+      properties: { summary: { type: 'string' } },
+    },
+  },
+  prompts: {
+    greeting: {
+      variants: {
+        v_default: variant(['Hello {{ user.name }} from {{ city }}'], {
+          default: true,
+        }),
+        v_short: variant([
+          'Hi {{ user.name | upcase }}{% if vip %}!{% endif %}',
+        ]),
+      },
+    },
+    summarise: {
+      variants: {
+        v_default: variant(
+          [
+            '{% for item in items %}{{ item.title }}{% endfor %} ({{ items.size }})',
+          ],
+          {
+            default: true,
+            responseFormat: {
+              type: 'json_schema',
+              schemaRef: 'ticket_summary',
+            },
+          }
+        ),
+      },
+    },
+    describe_image: {
+      variants: {
+        v_default: {
+          ...variant([]),
+          default: true,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', template: 'Describe this image' },
+                { type: 'image', variable: 'photo' },
+              ],
+            },
+          ],
+        },
+      },
+    },
+    static: {
+      variants: { v_default: variant(['No variables'], { default: true }) },
+    },
+  },
+} as unknown as PromptunaConfig;
+
+describe('generateTypes', () => {
+  const output = generateTypes(config, { source: 'promptuna.json' });
+
+  it('emits a header and a union of prompt ids', () => {
+    expect(output).toMatch(
+      /^\/\*\*\n \* Generated by promptuna-codegen from promptuna\.json/
+    );
+    expect(output).toContain(
+      "export type PromptId = keyof PromptunaGenerated['prompts'];"
+    );
+    expect(output).toContain("variants: 'v_default' | 'v_short';");
+  });
+
+  it('requires variables referenced by every variant', () => {
+    expect(output).toContain(
+      [
+        '      variables: {',
+        '        user: {',
+        '          name: unknown;',
+        '        };',
+        '        city?: unknown;',
+        '        vip?: unknown;',
+        '      };',
+      ].join('\n')
+    );
+  });
+
+  it('ignores loop locals and keeps array properties untyped', () => {
+    expect(output).toContain(
+      ['      variables: {', '        items: unknown;', '      };'].join('\n')
+    );
+    expect(output).not.toContain('item:');
+  });
+
+  it('types binary part variables as BinaryInput', () => {
+    expect(output).toContain("import type { BinaryInput } from 'promptuna';");
+    expect(output).toContain('photo: BinaryInput;');
+  });
+
+  it('types parsed responses from responseSchemas', () => {
+    expect(output).toContain('export interface TicketSummary {');
+    expect(output).toContain('parsed: TicketSummary;');
+    expect(output).toContain('variables: Record<string, never>;');
+  });
+
+  it('types declared variables from their declarations', () => {
+    const declared = structuredClone(config) as any;
+    declared.prompts.greeting.variables = {
+      user: { type: 'object' },
+      city: { type: 'string', default: 'London' },
+      vip: { type: 'boolean', required: false },
+    };
+
+    expect(generateTypes(declared)).toContain(
+      [
+        '      variables: {',
+        '        user: {',
+        '          name: unknown;',
+        '        };',
+        '        city?: string;',
+        '        vip?: boolean;',
+        '      };',
+      ].join('\n')
+    );
+  });
+
+  it('imports from a custom module', () => {
+    expect(generateTypes(config, { importFrom: '../src' })).toContain(
+      "import type { BinaryInput } from '../src';"
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  schemaToTypeScript,
+  toTypeName,
+} from '../../../src/codegen/schemaToTs';
+
+describe('schemaToTypeScript', () => {
+  it('converts objects with required and optional properties', () => {
+    const { declarations } = schemaToTypeScript('User', {
+      type: 'object',
+      description: 'A user',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        'e-mail': { type: ['string', 'null'] },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      additionalProperties: false,
+    });
+
+    expect(declarations).toEqual([
+      [
+        '/** A user */',
+        'export interface User {',
+        '  name: string;',
+        '  age?: number;',
+        '  "e-mail"?: string | null;',
+        '  tags?: string[];',
+        '}',
+      ].join('\n'),
+    ]);
+  });
+
+  it('converts enums, consts, unions and index signatures', () => {
+    const { declarations } = schemaToTypeScript('Result', {
+      anyOf: [
+        { const: 'none' },
+        {
+          type: 'object',
+          properties: { level: { enum: ['low', 'high'] } },
+          required: ['level'],
+          additionalProperties: { type: 'number' },
+        },
+      ],
+    });
+
+    expect(declarations[0]).toBe(
+      [
+        'export type Result = "none" | {',
+        '  level: "low" | "high";',
+        '  [key: string]: number;',
+        '};',
+      ].join('\n')
+    );
+  });
+
+  it('emits named types for local $defs and leaves unknown refs untyped', () => {
+    const { declarations } = schemaToTypeScript('Order', {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { $ref: '#/$defs/item' } },
+        customer: { $ref: 'https://example.com/customer.json' },
+      },
+      required: ['items'],
+      $defs: {
+        item: { type: 'object', properties: { sku: { type: 'string' } } },
+      },
+    });
+
+    expect(declarations).toHaveLength(2);
+    expect(declarations[0]).toContain('items: OrderItem[];');
+    expect(declarations[0]).toContain('customer?: unknown;');
+    expect(declarations[1]).toContain('export interface OrderItem {');
+  });
+
+  it('derives PascalCase type names from schema ids', () => {
+    expect(toTypeName('user_profile')).toBe('UserProfile');
+    expect(toTypeName('jsonGreeting')).toBe('JsonGreeting');
+    expect(toTypeName('2fa-code')).toBe('T2faCode');
+  });
+});
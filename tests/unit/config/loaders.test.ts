@@ -0,0 +1,207 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from 'vitest';
+import { readFile } from 'fs/promises';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import { createHttpConfigLoader } from '../../../src/config/loaders';
+import { Promptuna } from '../../../src/Promptuna';
+import { testConfigs } from '../../fixtures/test-utils';
+import { testConfig } from '../../helpers/promptuna';
+
+// Minimal config service – serves `current` with an ETag and honours If-None-Match
+let server: Server;
+let url: string;
+let requests: IncomingMessage['headers'][] = [];
+let current: { body: string; etag: string; status?: number };
+
+const serve = (config: unknown, etag: string) => {
+  current = { body: JSON.stringify(config), etag };
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(req.headers);
+    if (current.status) {
+      res.writeHead(current.status);
+      res.end();
+    } else if (req.headers['if-none-match'] === current.etag) {
+      res.writeHead(304, { etag: current.etag });
+      res.end();
+    } else {
+      res.writeHead(200, {
+        'content-type': 'application/json',
+        etag: current.etag,
+      });
+      res.end(current.body);
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  url = `http://127.0.0.1:${port}/promptuna.json`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  serve(testConfigs.valid, '"v1"');
+});
+
+describe('createHttpConfigLoader', () => {
+  it('returns the config text with its ETag', async () => {
+    const load = createHttpConfigLoader(url, {
+      headers: { authorization: 'Bearer token' },
+    });
+
+    const loaded = await load({});
+
+    expect(JSON.parse(loaded!.config as string)).toEqual(testConfigs.valid);
+    expect(loaded!.etag).toBe('"v1"');
+    expect(requests[0].authorization).toBe('Bearer token');
+    expect(requests[0]['if-none-match']).toBeUndefined();
+  });
+
+  it('resolves null when the server answers 304', async () => {
+    const load = createHttpConfigLoader(url);
+
+    await expect(load({ etag: '"v1"' })).resolves.toBeNull();
+    expect(requests[0]['if-none-match']).toBe('"v1"');
+  });
+
+  it('throws a ConfigurationError on HTTP errors', async () => {
+    current.status = 503;
+    const load = createHttpConfigLoader(url);
+
+    await expect(load({})).rejects.toMatchObject({
+      code: 'CONFIGURATION_ERROR',
+      message: expect.stringContaining('HTTP 503'),
+    });
+  });
+
+  it('drives Promptuna reloads with conditional requests', async () => {
+    const onConfigEvent = vi.fn();
+    const promptuna = new Promptuna({
+      configLoader: createHttpConfigLoader(url),
+      onConfigEvent,
+    });
+    const render = () =>
+      promptuna.getTemplate({
+        promptId: 'greeting',
+        variantId: 'v_default',
+        variables: { name: 'Alice' },
+      });
+
+    const [before] = await render();
+
+    // Unchanged – the server answers 304 and nothing is swapped
+    await expect(promptuna.reloadConfig()).resolves.toBe(false);
+    expect(requests[1]['if-none-match']).toBe('"v1"');
+
+    const updated = structuredClone(testConfigs.valid);
+    updated.prompts.greeting.variants.v_default.messages[0].content = {
+      template: 'Welcome {{name}}',
+    };
+    serve(updated, '"v2"');
+
+    await expect(promptuna.reloadConfig()).resolves.toBe(true);
+    const [after] = await render();
+
+    expect(before.content).not.toBe(after.content);
+    expect(after.content).toBe('Welcome Alice');
+    expect(onConfigEvent).toHaveBeenCalledTimes(1);
+    expect(onConfigEvent).toHaveBeenCalledWith({
+      type: 'config-reloaded',
+      etag: '"v2"',
+      timestamp: expect.any(String),
+    });
+  });
+});
+
+describe('Promptuna config sources', () => {
+  it('accepts an in-memory config object', async () => {
+    const config = testConfig();
+    const promptuna = new Promptuna({ config });
+    // Later mutations by the caller must not leak into the active config
+    config.prompts.greeting.variants.v_default.messages[0].content = {
+      template: 'changed',
+    };
+
+    const [message] = await promptuna.getTemplate({
+      promptId: 'greeting',
+      variantId: 'v_default',
+      variables: { name: 'Alice' },
+    });
+
+    expect(message.content).not.toBe('changed');
+    expect(readFile).not.toHaveBeenCalled();
+  });
+
+  it('loads through a custom async loader', async () => {
+    const configLoader = vi.fn().mockResolvedValue({
+      config: testConfig(),
+      etag: 'rev-1',
+    });
+    const promptuna = new Promptuna({ configLoader });
+
+    await promptuna.getTemplate({
+      promptId: 'greeting',
+      variantId: 'v_default',
+      variables: { name: 'Alice' },
+    });
+    configLoader.mockResolvedValueOnce(null);
+    await expect(promptuna.reloadConfig()).resolves.toBe(false);
+
+    expect(configLoader).toHaveBeenNthCalledWith(1, { etag: undefined });
+    expect(configLoader).toHaveBeenNthCalledWith(2, { etag: 'rev-1' });
+  });
+
+  it('polls the loader when an interval is set', async () => {
+    vi.useFakeTimers();
+    try {
+      const configLoader = vi.fn().mockResolvedValue(null);
+      const promptuna = new Promptuna({
+        configLoader,
+        configPollIntervalMs: 1_000,
+      });
+
+      await vi.advanceTimersByTimeAsync(3_000);
+      expect(configLoader).toHaveBeenCalledTimes(3);
+
+      promptuna.close();
+      await vi.advanceTimersByTimeAsync(3_000);
+      expect(configLoader).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects ambiguous or missing config sources', () => {
+    expect(() => new Promptuna({})).toThrow(
+      'Exactly one of configPath, config or configLoader must be provided'
+    );
+    expect(
+      () =>
+        new Promptuna({
+          configPath: './test-config.json',
+          config: testConfigs.valid,
+        })
+    ).toThrow('Exactly one of');
+    expect(
+      () =>
+        new Promptuna({
+          config: testConfigs.valid,
+          watchConfig: true,
+        })
+    ).toThrow('watchConfig requires configPath');
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const close = vi.fn();
+const unref = vi.fn();
+type Listener = (event: string, fileName: string | null) => void;
+const listeners = new Map<string, Listener>();
+
+vi.mock('fs', () => ({
+  watch: vi.fn((dir: string, cb: Listener) => {
+    listeners.set(dir, cb);
+    return { close, unref };
+  }),
+}));
+
+import { watch } from 'fs';
+import { readFile } from 'fs/promises';
+import { watchConfigFiles } from '../../../src/config/watcher';
+import { Promptuna } from '../../../src/Promptuna';
+import { testConfig } from '../../helpers/promptuna';
+
+const emit = (dir: string, fileName: string | null) =>
+  listeners.get(dir)!('change', fileName);
+
+describe('watchConfigFiles', () => {
+  beforeEach(() => {
+    listeners.clear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('watches each parent directory once without keeping the process alive', () => {
+    watchConfigFiles(
+      [
+        '/srv/app/promptuna.json',
+        '/srv/app/providers.json',
+        '/srv/app/templates/greeting.liquid',
+      ],
+      vi.fn(),
+      50
+    );
+
+    expect(watch).toHaveBeenCalledTimes(2);
+    expect(watch).toHaveBeenCalledWith('/srv/app', expect.any(Function));
+    expect(watch).toHaveBeenCalledWith(
+      '/srv/app/templates',
+      expect.any(Function)
+    );
+    expect(unref).toHaveBeenCalledTimes(2);
+  });
+
+  it('debounces bursts of change events across the watched files', () => {
+    const onChange = vi.fn();
+    watchConfigFiles(
+      ['/srv/app/promptuna.json', '/srv/app/templates/greeting.liquid'],
+      onChange,
+      50
+    );
+
+    emit('/srv/app', 'promptuna.json');
+    vi.advanceTimersByTime(30);
+    emit('/srv/app/templates', 'greeting.liquid');
+    vi.advanceTimersByTime(49);
+    expect(onChange).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores other files in the watched directories', () => {
+    const onChange = vi.fn();
+    watchConfigFiles(
+      ['/srv/app/promptuna.json', '/srv/app/templates/greeting.liquid'],
+      onChange,
+      50
+    );
+
+    emit('/srv/app', 'package.json');
+    emit('/srv/app/templates', 'promptuna.json');
+    vi.advanceTimersByTime(100);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('stops watching and cancels a pending reload', () => {
+    const onChange = vi.fn();
+    const stop = watchConfigFiles(
+      ['/srv/app/promptuna.json', '/srv/app/templates/greeting.liquid'],
+      onChange,
+      50
+    );
+
+    emit('/srv/app', 'promptuna.json');
+    stop();
+    vi.advanceTimersByTime(100);
+
+    expect(close).toHaveBeenCalledTimes(2);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe('Promptuna.reloadConfig', () => {
+  const render = (promptuna: Promptuna) =>
+    promptuna.getTemplate({
+      promptId: 'greeting',
+      variantId: 'v_default',
+      variables: { name: 'Alice' },
+    });
+  const serve = (config: unknown) =>
+    vi.mocked(readFile).mockResolvedValueOnce(JSON.stringify(config));
+
+  it('swaps in a valid config and drops templates rendered with the old partials', async () => {
+    const config = testConfig();
+    config.partials = { intro: 'Hi' };
+    config.prompts.greeting.variants.v_default.messages[0].content = {
+      template: "{% include 'intro' %} {{name}}!",
+    };
+    serve(config);
+    const onConfigEvent = vi.fn();
+    const promptuna = new Promptuna({
+      configPath: './test-config.json',
+      onConfigEvent,
+    });
+    expect((await render(promptuna))[0].content).toBe('Hi Alice!');
+
+    config.partials.intro = 'Welcome';
+    serve(config);
+    await expect(promptuna.reloadConfig()).resolves.toBe(true);
+
+    expect(onConfigEvent).toHaveBeenCalledWith({
+      type: 'config-reloaded',
+      configPath: expect.stringContaining('test-config.json'),
+      timestamp: expect.any(String),
+    });
+    expect((await render(promptuna))[0].content).toBe('Welcome Alice!');
+  });
+
+  it('keeps a reload that finishes before the initial load', async () => {
+    const initial = testConfig();
+    const reloaded = testConfig();
+    reloaded.prompts.greeting.variants.v_default.messages[0].content = {
+      template: 'Reloaded for {{name}}',
+    };
+    let finishInitial!: () => void;
+    const configLoader = vi
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise(resolve => {
+            finishInitial = () => resolve({ config: initial, etag: 'v1' });
+          })
+      )
+      .mockResolvedValueOnce({ config: reloaded, etag: 'v2' });
+    const promptuna = new Promptuna({ configLoader });
+
+    const first = render(promptuna);
+    await expect(promptuna.reloadConfig()).resolves.toBe(true);
+    finishInitial();
+
+    expect((await first)[0].content).toBe('Reloaded for Alice');
+    expect((await render(promptuna))[0].content).toBe('Reloaded for Alice');
+  });
+
+  it('keeps the current config when the new one is invalid', async () => {
+    serve(testConfig());
+    const onConfigEvent = vi.fn();
+    const promptuna = new Promptuna({
+      configPath: './test-config.json',
+      onConfigEvent,
+    });
+    const before = await render(promptuna);
+
+    vi.mocked(readFile).mockResolvedValueOnce('{ not json');
+
+    await expect(promptuna.reloadConfig()).resolves.toBe(false);
+
+    expect(onConfigEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'config-rejected',
+        error: expect.objectContaining({
+          message: expect.stringContaining('Failed to load config file'),
+        }),
+      })
+    );
+    await expect(render(promptuna)).resolves.toEqual(before);
+  });
+
+  it('watches included files and follows includes added by a reload', async () => {
+    vi.useFakeTimers();
+    const files: Record<string, string> = {
+      '/srv/app/promptuna.json': JSON.stringify(testConfig()),
+    };
+    vi.mocked(readFile).mockImplementation(async file => files[String(file)]);
+    const promptuna = new Promptuna({
+      configPath: '/srv/app/promptuna.json',
+      watchConfig: { debounceMs: 10 },
+    });
+    expect(watch).toHaveBeenLastCalledWith('/srv/app', expect.any(Function));
+    await render(promptuna);
+    // The file set did not change – the watcher is kept
+    expect(watch).toHaveBeenCalledTimes(1);
+
+    const config = testConfig();
+    config.prompts.greeting.variants.v_default.messages[0].content = {
+      template: { $ref: './templates/greeting.liquid' } as never,
+    };
+    files['/srv/app/promptuna.json'] = JSON.stringify(config);
+    files['/srv/app/templates/greeting.liquid'] = 'Hey {{name}}';
+    emit('/srv/app', 'promptuna.json');
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(watch).toHaveBeenLastCalledWith(
+      '/srv/app/templates',
+      expect.any(Function)
+    );
+    expect((await render(promptuna))[0].content).toBe('Hey Alice');
+
+    files['/srv/app/templates/greeting.liquid'] = 'Howdy {{name}}';
+    emit('/srv/app/templates', 'greeting.liquid');
+    await vi.advanceTimersByTimeAsync(10);
+    expect((await render(promptuna))[0].content).toBe('Howdy Alice');
+
+    promptuna.close();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  runAssertion,
+  validateAssertion,
+} from '../../../src/evaluation/assertions';
+import type { AssertionContext } from '../../../src/evaluation/types';
+import { ConfigurationError } from '../../../src/config/types';
+
+const response = (content: string, parsed?: unknown) => ({
+  id: 'resp-1',
+  model: 'gpt-4',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant' as const, content },
+      finish_reason: 'stop',
+    },
+  ],
+  ...(parsed !== undefined && { parsed }),
+});
+
+const context = (
+  output: string,
+  expected?: unknown,
+  parsed?: unknown
+): AssertionContext => ({
+  output,
+  parsed,
+  response: response(output, parsed),
+  case: { id: '1', variables: { name: 'Ada' }, expected },
+  variantId: 'v_default',
+});
+
+describe('validateAssertion', () => {
+  it('accepts well-formed assertions', () => {
+    expect(() =>
+      validateAssertion({ type: 'regex', pattern: '^Hi' }, 'cases.jsonl:1')
+    ).not.toThrow();
+  });
+
+  it('rejects unknown types and invalid patterns with their location', () => {
+    expect(() => validateAssertion({ type: 'fuzzy' }, 'cases.jsonl:3')).toThrow(
+      /Invalid assertion in cases\.jsonl:3: unknown type "fuzzy"/
+    );
+    expect(() =>
+      validateAssertion({ type: 'regex', pattern: '(' }, 'cases.jsonl:4')
+    ).toThrow(ConfigurationError);
+    expect(() => validateAssertion({ type: 'llm-judge' }, 'x')).toThrow(
+      '"promptId" must be a string'
+    );
+  });
+});
+
+describe('runAssertion', () => {
+  it('compares exact text against the expected output', async () => {
+    await expect(
+      runAssertion({ type: 'exact' }, context(' Hello Ada\n', 'Hello Ada'))
+    ).resolves.toEqual({ type: 'exact', pass: true });
+    await expect(
+      runAssertion(
+        { type: 'exact', value: 'hello ada', ignoreCase: true },
+        context('Hello Ada')
+      )
+    ).resolves.toMatchObject({ pass: true });
+    await expect(
+      runAssertion({ type: 'exact' }, context('Hi Ada', 'Hello Ada'))
+    ).resolves.toEqual({
+      type: 'exact',
+      pass: false,
+      reason: 'Expected "Hello Ada", got "Hi Ada"',
+    });
+  });
+
+  it('compares structured expectations with the parsed answer', async () => {
+    await expect(
+      runAssertion(
+        { type: 'exact' },
+        context('{"label":"spam"}', { label: 'spam' }, { label: 'spam' })
+      )
+    ).resolves.toMatchObject({ pass: true });
+    await expect(
+      runAssertion({ type: 'exact' }, context('not json', { label: 'spam' }))
+    ).resolves.toMatchObject({ pass: false, reason: 'Output is not JSON' });
+  });
+
+  it('checks contains, regex and json-schema assertions', async () => {
+    await expect(
+      runAssertion(
+        { type: 'contains', value: ['Ada', 'welcome'] },
+        context('Hello Ada')
+      )
+    ).resolves.toMatchObject({ pass: false, reason: 'Missing "welcome"' });
+    await expect(
+      runAssertion(
+        { type: 'regex', pattern: '^hello', flags: 'i' },
+        context('Hello Ada')
+      )
+    ).resolves.toMatchObject({ pass: true });
+    await expect(
+      runAssertion(
+        {
+          type: 'json-schema',
+          schema: {
+            type: 'object',
+            properties: { label: { type: 'string' } },
+            required: ['label'],
+          },
+        },
+        context('{"score":1}')
+      )
+    ).resolves.toMatchObject({
+      pass: false,
+      reason: "/ must have required property 'label'",
+    });
+  });
+
+  it('runs custom assertions by name and reports thrown errors as failures', async () => {
+    const short = vi.fn(({ output }) => output.length < 20);
+    await expect(
+      runAssertion({ type: 'custom', name: 'short' }, context('Hello Ada'), {
+        customAssertions: { short },
+      })
+    ).resolves.toEqual({ type: 'custom', name: 'short', pass: true });
+
+    await expect(
+      runAssertion(
+        {
+          type: 'custom',
+          name: 'broken',
+          assert: () => {
+            throw new Error('boom');
+          },
+        },
+        context('Hello Ada')
+      )
+    ).resolves.toMatchObject({ pass: false, reason: 'boom' });
+  });
+
+  it('asks a judge prompt for a verdict', async () => {
+    const chatCompletion = vi
+      .fn()
+      .mockResolvedValueOnce(
+        response('', { score: 0.8, reason: 'Friendly and correct' })
+      )
+      .mockResolvedValueOnce(response('{"pass": false, "score": 0.9}'))
+      .mockResolvedValueOnce(response('Looks good to me'));
+    const judge = {
+      type: 'llm-judge' as const,
+      promptId: 'judge',
+      criteria: 'Greets the user by name',
+      threshold: 0.7,
+    };
+
+    await expect(
+      runAssertion(judge, context('Hello Ada', 'Hello Ada'), {
+        chatCompletion,
+      })
+    ).resolves.toEqual({
+      type: 'llm-judge',
+      pass: true,
+      score: 0.8,
+      reason: 'Friendly and correct',
+    });
+    expect(chatCompletion).toHaveBeenCalledWith({
+      promptId: 'judge',
+      variantId: undefined,
+      variables: {
+        input: { name: 'Ada' },
+        output: 'Hello Ada',
+        expected: 'Hello Ada',
+        criteria: 'Greets the user by name',
+      },
+    });
+
+    await expect(
+      runAssertion(judge, context('Hello Ada'), { chatCompletion })
+    ).resolves.toMatchObject({ pass: false, score: 0.9 });
+    await expect(
+      runAssertion(judge, context('Hello Ada'), { chatCompletion })
+    ).resolves.toMatchObject({
+      pass: false,
+      reason: 'Judge did not return a JSON verdict',
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFile } from 'fs/promises';
+import { loadDataset, parseDataset } from '../../../src/evaluation/dataset';
+
+describe('parseDataset', () => {
+  it('reads one case per line and names cases after their line', () => {
+    const cases = parseDataset(
+      [
+        '{"variables": {"name": "Ada"}, "expected": "Hello Ada"}',
+        '',
+        '// structured case',
+        '{"id": "spam", "expected": {"label": "spam"}, "assertions": [{"type": "exact"}]}',
+      ].join('\n')
+    );
+
+    expect(cases).toEqual([
+      { id: '1', variables: { name: 'Ada' }, expected: 'Hello Ada' },
+      {
+        id: 'spam',
+        expected: { label: 'spam' },
+        assertions: [{ type: 'exact' }],
+      },
+    ]);
+  });
+
+  it('names the line of malformed cases', () => {
+    expect(() =>
+      parseDataset('{"variables": {}}\n{oops', 'cases.jsonl')
+    ).toThrow('Invalid JSON in cases.jsonl:2');
+    expect(() => parseDataset('{"variables": []}', 'cases.jsonl')).toThrow(
+      '"variables" in cases.jsonl:1 must be an object'
+    );
+    expect(() =>
+      parseDataset('{"assertions": [{"type": "similar"}]}', 'cases.jsonl')
+    ).toThrow(/Invalid assertion in cases\.jsonl:1/);
+  });
+});
+
+describe('loadDataset', () => {
+  it('reads the dataset file', async () => {
+    vi.mocked(readFile).mockResolvedValueOnce('{"expected": "Hi"}\n' as any);
+
+    await expect(loadDataset('cases.jsonl')).resolves.toEqual([
+      { id: '1', expected: 'Hi' },
+    ]);
+  });
+
+  it('reports unreadable files as configuration errors', async () => {
+    vi.mocked(readFile).mockRejectedValueOnce(new Error('ENOENT'));
+
+    await expect(loadDataset('missing.jsonl')).rejects.toMatchObject({
+      code: 'CONFIGURATION_ERROR',
+      message: 'Failed to read dataset: missing.jsonl',
+      details: { path: 'missing.jsonl', error: 'ENOENT' },
+    });
+  });
+});
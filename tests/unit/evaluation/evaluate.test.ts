@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { evaluate } from '../../../src/evaluation/evaluate';
+import { formatReport } from '../../../src/evaluation/report';
+import type { EvaluationCase } from '../../../src/evaluation/types';
+import { ExecutionError } from '../../../src/config/types';
+import { Promptuna } from '../../../src/Promptuna';
+import { getTextContent } from '../../../src/content/utils';
+import type { ChatCompletionOptions } from '../../../src/providers/types';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+const response = (content: string) => ({
+  id: 'resp-1',
+  model: 'gpt-4',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant' as const, content },
+      finish_reason: 'stop',
+    },
+  ],
+});
+
+const costs = (tokens: number) => ({
+  requests: 0,
+  promptTokens: tokens,
+  completionTokens: tokens / 2,
+  estimatedCostUsd: tokens / 100_000,
+  unpricedRequests: 0,
+});
+
+/** Client whose `v_formal` variant greets formally and whose `v_casual` fails on Bob */
+function createClient() {
+  let calls = 0;
+  return {
+    chatCompletion: vi.fn(async ({ variantId, variables }: any) => {
+      calls++;
+      if (variantId === 'v_casual' && variables.name === 'Bob') {
+        throw new ExecutionError('Provider exploded', {});
+      }
+      return response(
+        variantId === 'v_formal'
+          ? `Good day, ${variables.name}.`
+          : `hey ${variables.name}`
+      );
+    }),
+    getCosts: vi.fn(() => costs(calls * 100)),
+  };
+}
+
+const cases: EvaluationCase[] = [
+  { id: 'ada', variables: { name: 'Ada' }, expected: 'Good day, Ada.' },
+  {
+    id: 'bob',
+    variables: { name: 'Bob' },
+    assertions: [{ type: 'contains', value: 'Bob' }],
+  },
+];
+
+describe('evaluate', () => {
+  it('runs every case through each pinned variant and compares them', async () => {
+    const client = createClient();
+    const onResult = vi.fn();
+
+    const report = await evaluate(client, {
+      promptId: 'greeting',
+      variants: ['v_formal', 'v_casual'],
+      cases,
+      onResult,
+    });
+
+    expect(client.chatCompletion).toHaveBeenCalledWith(
+      expect.objectContaining({
+        promptId: 'greeting',
+        variantId: 'v_casual',
+        variables: { name: 'Ada' },
+      })
+    );
+    expect(onResult).toHaveBeenCalledTimes(4);
+    expect(report).toMatchObject({ promptId: 'greeting', cases: 2 });
+
+    const [formal, casual] = report.variants;
+    expect(formal).toMatchObject({
+      variantId: 'v_formal',
+      cases: 2,
+      passed: 2,
+      errors: 0,
+      passRate: 1,
+    });
+    expect(casual).toMatchObject({ passed: 0, errors: 1, passRate: 0 });
+    expect(casual.results).toEqual([
+      expect.objectContaining({
+        caseId: 'ada',
+        pass: false,
+        output: 'hey Ada',
+        assertions: [
+          {
+            type: 'exact',
+            pass: false,
+            reason: 'Expected "Good day, Ada.", got "hey Ada"',
+          },
+        ],
+      }),
+      expect.objectContaining({
+        caseId: 'bob',
+        pass: false,
+        error: 'Provider exploded',
+        assertions: [],
+      }),
+    ]);
+  });
+
+  it('keeps case order when running concurrently', async () => {
+    const client = createClient();
+    const many = Array.from({ length: 5 }, (_, index) => ({
+      id: `c${index}`,
+      variables: { name: `User${index}` },
+    }));
+
+    const report = await evaluate(client, {
+      promptId: 'greeting',
+      variants: ['v_formal'],
+      cases: many,
+      concurrency: 3,
+    });
+
+    expect(report.variants[0].results.map(result => result.caseId)).toEqual([
+      'c0',
+      'c1',
+      'c2',
+      'c3',
+      'c4',
+    ]);
+    // No expected output and no assertions – any answer passes
+    expect(report.variants[0].passRate).toBe(1);
+  });
+
+  it('fails before running anything on unregistered custom assertions', async () => {
+    const client = createClient();
+
+    await expect(
+      evaluate(client, {
+        promptId: 'greeting',
+        variants: ['v_formal'],
+        cases: [{ assertions: [{ type: 'custom', name: 'polite' }] }],
+      })
+    ).rejects.toThrow('Custom assertion "polite" is not registered');
+    expect(client.chatCompletion).not.toHaveBeenCalled();
+  });
+});
+
+describe('formatReport', () => {
+  it('renders a comparison row per variant and lists failures', async () => {
+    const report = await evaluate(createClient(), {
+      promptId: 'greeting',
+      variants: ['v_formal', 'v_casual'],
+      cases,
+    });
+
+    const text = formatReport(report);
+
+    expect(text).toContain('Prompt: greeting · 2 cases · 2 variants');
+    expect(text).toMatch(/v_formal\s+100\.0%\s+2\/2\s+0\s+-/);
+    expect(text).toMatch(/v_casual\s+0\.0%\s+0\/2\s+1\s+-/);
+    expect(text).toContain(
+      '✗ v_casual · case ada – exact: Expected "Good day, Ada.", got "hey Ada"'
+    );
+    expect(text).toContain('✗ v_casual · case bob – error: Provider exploded');
+    expect(formatReport(report, { failures: false })).not.toContain(
+      'Failures:'
+    );
+  });
+});
+
+describe('evaluate with Promptuna', () => {
+  afterEach(restoreProviders);
+
+  it('scores variants with assertions and a judge prompt', async () => {
+    const config = testConfig();
+    config.prompts.greeting.variants.v_short = {
+      ...config.prompts.greeting.variants.v_default,
+      default: false,
+      messages: [{ role: 'user', content: { template: 'Hi {{name}}' } }],
+    };
+    config.prompts.judge = {
+      description: 'Grades an answer against criteria',
+      variants: {
+        v_default: {
+          default: true,
+          provider: 'openai_gpt4',
+          model: 'gpt-4',
+          messages: [
+            {
+              role: 'user',
+              content: {
+                template: 'Does "{{output}}" satisfy: {{criteria}}?',
+              },
+            },
+          ],
+        },
+      },
+      routing: { rules: [{ weight: 100, target: 'v_default' }] },
+    };
+    const promptuna = new Promptuna({ config });
+
+    const chatCompletion = vi.fn(
+      async ({ messages }: ChatCompletionOptions) => {
+        const prompt = getTextContent(messages.at(-1)!.content);
+        const content = prompt.startsWith('Does')
+          ? JSON.stringify({ score: prompt.includes('Hello') ? 1 : 0 })
+          : prompt.startsWith('Hi')
+            ? 'Hi'
+            : 'Hello Alice';
+        return chatResponse(content, {
+          usage: {
+            prompt_tokens: 1_000,
+            completion_tokens: 500,
+            total_tokens: 1_500,
+          },
+        });
+      }
+    );
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    const report = await evaluate(promptuna, {
+      promptId: 'greeting',
+      variants: ['v_default', 'v_short'],
+      cases: [{ id: 'alice', variables: { name: 'Alice' } }],
+      assertions: [
+        { type: 'contains', value: 'Alice' },
+        { type: 'llm-judge', promptId: 'judge', criteria: 'polite' },
+      ],
+    });
+
+    expect(report.variants[0]).toMatchObject({
+      variantId: 'v_default',
+      passRate: 1,
+      averageScore: 1,
+      promptTokens: 1_000,
+      completionTokens: 500,
+      // gpt-4: $30 input / $60 output per million tokens; judge calls not included
+      estimatedCostUsd: expect.closeTo(0.06),
+    });
+    expect(report.variants[1].results[0].assertions).toEqual([
+      { type: 'contains', pass: false, reason: 'Missing "Alice"' },
+      { type: 'llm-judge', pass: false, score: 0 },
+    ]);
+    expect(chatCompletion).toHaveBeenCalledTimes(4);
+  });
+});
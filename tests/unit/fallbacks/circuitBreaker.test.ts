@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+
+import { CircuitBreaker } from '../../../src/fallbacks/circuitBreaker';
+import { ProviderError, SchemaValidationError } from '../../../src/errors';
+import type { ExecutionTarget } from '../../../src/fallbacks/types';
+import { Promptuna } from '../../../src/Promptuna';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+const target: ExecutionTarget = {
+  providerId: 'anthropic_claude',
+  providerType: 'anthropic',
+  model: 'claude-3-haiku',
+};
+
+const outage = new ProviderError('provider-error', '503', true);
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000;
+    breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 500,
+      now: () => now,
+    });
+  });
+
+  it('stays closed below the failure threshold', () => {
+    breaker.recordFailure(target, outage);
+
+    expect(breaker.canAttempt(target)).toBe(true);
+    expect(breaker.getSnapshot()).toEqual([
+      {
+        providerId: 'anthropic_claude',
+        model: 'claude-3-haiku',
+        state: 'closed',
+        consecutiveFailures: 1,
+        lastFailureReason: 'provider-error',
+      },
+    ]);
+  });
+
+  it('opens after consecutive retryable failures', () => {
+    breaker.recordFailure(target, outage);
+    breaker.recordFailure(target, outage);
+
+    expect(breaker.canAttempt(target)).toBe(false);
+    expect(breaker.getSnapshot()[0]).toMatchObject({
+      state: 'open',
+      openedAt: 1_000,
+    });
+  });
+
+  it('ignores off-schema output even when it falls through', () => {
+    const invalid = new SchemaValidationError('bad', [], '{}', true);
+    breaker.recordFailure(target, invalid);
+    breaker.recordFailure(target, invalid);
+
+    expect(breaker.canAttempt(target)).toBe(true);
+  });
+
+  it('ignores calls refused by the client-side rate limiter', () => {
+    const refused = new ProviderError(
+      'rate-limit',
+      'queue full',
+      true,
+      'client-rate-limit'
+    );
+    breaker.recordFailure(target, refused);
+    breaker.recordFailure(target, refused);
+
+    expect(breaker.canAttempt(target)).toBe(true);
+  });
+
+  it('ignores non-retryable errors', () => {
+    const badRequest = new ProviderError('provider-error', '400', false);
+    breaker.recordFailure(target, badRequest);
+    breaker.recordFailure(target, badRequest);
+
+    expect(breaker.canAttempt(target)).toBe(true);
+    expect(breaker.getSnapshot()[0].consecutiveFailures).toBe(0);
+  });
+
+  it('lets a single probe through once the reset timeout elapses', () => {
+    breaker.recordFailure(target, outage);
+    breaker.recordFailure(target, outage);
+    now += 500;
+
+    expect(breaker.getSnapshot()[0].state).toBe('half-open');
+    expect(breaker.canAttempt(target)).toBe(true);
+    // Probe in flight – everyone else keeps skipping
+    expect(breaker.canAttempt(target)).toBe(false);
+
+    breaker.recordSuccess(target);
+
+    expect(breaker.canAttempt(target)).toBe(true);
+    expect(breaker.getSnapshot()[0]).toEqual({
+      providerId: 'anthropic_claude',
+      model: 'claude-3-haiku',
+      state: 'closed',
+      consecutiveFailures: 0,
+      lastFailureReason: 'provider-error',
+    });
+  });
+
+  it('re-opens when the half-open probe fails', () => {
+    breaker.recordFailure(target, outage);
+    breaker.recordFailure(target, outage);
+    now += 500;
+    breaker.canAttempt(target);
+
+    breaker.recordFailure(target, outage);
+
+    expect(breaker.canAttempt(target)).toBe(false);
+    expect(breaker.getSnapshot()[0]).toMatchObject({
+      state: 'open',
+      openedAt: 1_500,
+    });
+  });
+
+  it('tracks provider/model pairs independently', () => {
+    breaker.recordFailure(target, outage);
+    breaker.recordFailure(target, outage);
+
+    expect(breaker.canAttempt({ ...target, model: 'claude-3-opus' })).toBe(
+      true
+    );
+  });
+});
+
+describe('Promptuna circuit breaker', () => {
+  afterEach(restoreProviders);
+
+  it('skips an unhealthy primary and reports provider health', async () => {
+    const config = testConfig();
+    config.prompts.greeting.variants.v_default.fallback = [
+      { provider: 'anthropic_claude', model: 'claude-3-haiku' },
+    ];
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({
+      config,
+      circuitBreaker: { failureThreshold: 1 },
+      onObservability,
+    });
+    const primary = vi
+      .fn()
+      .mockRejectedValue(new ProviderError('provider-error', '503', true));
+    stubProviders({
+      openai_gpt4: { chatCompletion: primary },
+      anthropic_claude: {
+        chatCompletion: vi
+          .fn()
+          .mockResolvedValue(chatResponse('Hi', { model: 'claude-3-haiku' })),
+      },
+    });
+
+    await promptuna.chatCompletion({ promptId: 'greeting' });
+    await promptuna.chatCompletion({ promptId: 'greeting' });
+
+    expect(primary).toHaveBeenCalledTimes(1);
+    expect(onObservability.mock.calls[1][0].fallbacks).toEqual([
+      {
+        provider: 'openai',
+        model: 'gpt-4',
+        reason: 'circuit-open',
+        attempt: 0,
+      },
+    ]);
+    expect(promptuna.getProviderHealth()).toEqual([
+      expect.objectContaining({
+        providerId: 'openai_gpt4',
+        state: 'open',
+        lastFailureReason: 'provider-error',
+      }),
+      expect.objectContaining({
+        providerId: 'anthropic_claude',
+        state: 'closed',
+      }),
+    ]);
+  });
+
+  it('reports no health data when disabled', () => {
+    const promptuna = new Promptuna({
+      config: testConfig(),
+      circuitBreaker: false,
+    });
+
+    expect(promptuna.getProviderHealth()).toEqual([]);
+  });
+});
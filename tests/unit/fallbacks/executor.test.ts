@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 
 import { executeWithFallback } from '../../../src/fallbacks/executor';
+import { CircuitBreaker } from '../../../src/fallbacks/circuitBreaker';
 import { ProviderError } from '../../../src/errors';
 import type { ExecutionTarget } from '../../../src/fallbacks/types';
 
@@ -90,8 +91,243 @@ describe('executeWithFallback', () => {
     expect(cb).toHaveBeenNthCalledWith(1, {
       target: primary,
       error: retryError,
+      attempt: 1,
     });
     // second call: success (no error prop)
-    expect(cb).toHaveBeenNthCalledWith(2, { target: secondary });
+    expect(cb).toHaveBeenNthCalledWith(2, { target: secondary, attempt: 1 });
+  });
+
+  describe('retry policies', () => {
+    const noDelay = { baseDelayMs: 0, jitter: 'none' as const };
+
+    it('retries the same target before falling back', async () => {
+      const e1 = new ProviderError('rate-limit', 'r1', true);
+      const attempt = vi
+        .fn()
+        .mockRejectedValueOnce(e1)
+        .mockResolvedValueOnce('retried_ok');
+      const cb = vi.fn();
+
+      const res = await executeWithFallback(
+        [{ ...primary, retry: { maxAttempts: 3, ...noDelay } }, secondary],
+        attempt,
+        getProvider,
+        cb
+      );
+
+      expect(res).toBe('retried_ok');
+      expect(attempt).toHaveBeenCalledTimes(2);
+      expect(attempt).toHaveBeenNthCalledWith(2, stubProvider, {
+        ...primary,
+        retry: { maxAttempts: 3, ...noDelay },
+      });
+      expect(cb).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ attempt: 1, error: e1, retryDelayMs: 0 })
+      );
+      expect(cb).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ attempt: 2 })
+      );
+    });
+
+    it('moves to the next target once maxAttempts is exhausted', async () => {
+      const err = new ProviderError('timeout', 't', true);
+      const attempt = vi
+        .fn()
+        .mockRejectedValueOnce(err)
+        .mockRejectedValueOnce(err)
+        .mockResolvedValueOnce('fallback_ok');
+      const cb = vi.fn();
+
+      const res = await executeWithFallback(
+        [{ ...primary, retry: { maxAttempts: 2, ...noDelay } }, secondary],
+        attempt,
+        getProvider,
+        cb
+      );
+
+      expect(res).toBe('fallback_ok');
+      expect(attempt).toHaveBeenCalledTimes(3);
+      // Last failure on the primary carries no retry delay
+      expect(cb.mock.calls[1][0]).toEqual({
+        target: expect.objectContaining({ providerId: 'p1' }),
+        error: err,
+        attempt: 2,
+      });
+    });
+
+    it('does not retry non-retryable errors', async () => {
+      const fatal = new ProviderError('provider-error', 'bad request', false);
+      const attempt = vi.fn().mockRejectedValue(fatal);
+
+      await expect(
+        executeWithFallback(
+          [{ ...primary, retry: { maxAttempts: 5, ...noDelay } }],
+          attempt,
+          getProvider
+        )
+      ).rejects.toBe(fatal);
+      expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips to the next target when Retry-After exceeds maxDelayMs', async () => {
+      const err = new ProviderError(
+        'rate-limit',
+        '429',
+        true,
+        undefined,
+        429,
+        60_000
+      );
+      const attempt = vi
+        .fn()
+        .mockRejectedValueOnce(err)
+        .mockResolvedValueOnce('next_ok');
+
+      const res = await executeWithFallback(
+        [
+          { ...primary, retry: { maxAttempts: 3, maxDelayMs: 1000 } },
+          secondary,
+        ],
+        attempt,
+        getProvider
+      );
+
+      expect(res).toBe('next_ok');
+      expect(attempt).toHaveBeenLastCalledWith(stubProvider, secondary);
+    });
+
+    it('stops waiting and retrying once the caller aborts during a backoff', async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const attempt = vi
+        .fn()
+        .mockRejectedValue(new ProviderError('rate-limit', '429', true));
+
+      const pending = executeWithFallback(
+        [
+          {
+            ...primary,
+            retry: { maxAttempts: 3, baseDelayMs: 5000, jitter: 'none' },
+          },
+          secondary,
+        ],
+        attempt,
+        getProvider,
+        undefined,
+        undefined,
+        controller.signal
+      );
+      const settled = expect(pending).rejects.toMatchObject({
+        code: 'aborted',
+        retryable: false,
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+      await settled;
+
+      expect(attempt).toHaveBeenCalledTimes(1);
+      vi.useRealTimers();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('skips targets whose circuit is open', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1 });
+      breaker.recordFailure(primary, new ProviderError('timeout', 't', true));
+      const attempt = vi.fn().mockResolvedValue('fallback_ok');
+      const cb = vi.fn();
+
+      const res = await executeWithFallback(
+        [primary, secondary],
+        attempt,
+        getProvider,
+        cb,
+        breaker
+      );
+
+      expect(res).toBe('fallback_ok');
+      expect(attempt).toHaveBeenCalledTimes(1);
+      expect(attempt).toHaveBeenCalledWith(stubProvider, secondary);
+      expect(cb).toHaveBeenNthCalledWith(1, {
+        target: primary,
+        error: expect.objectContaining({ reason: 'circuit-open' }),
+        attempt: 0,
+      });
+    });
+
+    it('stops retrying a target once its circuit opens', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1 });
+      const err = new ProviderError('rate-limit', '429', true);
+      const attempt = vi
+        .fn()
+        .mockRejectedValueOnce(err)
+        .mockResolvedValueOnce('fallback_ok');
+
+      await executeWithFallback(
+        [{ ...primary, retry: { maxAttempts: 3, baseDelayMs: 0 } }, secondary],
+        attempt,
+        getProvider,
+        undefined,
+        breaker
+      );
+
+      expect(attempt).toHaveBeenCalledTimes(2);
+      expect(attempt).toHaveBeenLastCalledWith(stubProvider, secondary);
+      expect(breaker.getSnapshot()).toEqual([
+        expect.objectContaining({ providerId: 'p1', state: 'open' }),
+        expect.objectContaining({ providerId: 'p2', state: 'closed' }),
+      ]);
+    });
+
+    it('throws circuit-open when every circuit is open', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1 });
+      breaker.recordFailure(primary, new ProviderError('timeout', 't', true));
+      const attempt = vi.fn();
+
+      await expect(
+        executeWithFallback([primary], attempt, getProvider, undefined, breaker)
+      ).rejects.toMatchObject({ reason: 'circuit-open', retryable: true });
+      expect(attempt).not.toHaveBeenCalled();
+    });
+
+    it('does not strand the half-open probe when getProvider throws', async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 0,
+      });
+      breaker.recordFailure(primary, new ProviderError('timeout', 't', true));
+      const attempt = vi.fn().mockResolvedValue('probe_ok');
+      const failingGetProvider = vi
+        .fn()
+        .mockImplementationOnce(() => {
+          throw new Error('Provider not found');
+        })
+        .mockReturnValue(stubProvider);
+
+      await expect(
+        executeWithFallback(
+          [primary],
+          attempt,
+          failingGetProvider,
+          undefined,
+          breaker
+        )
+      ).rejects.toThrow('Provider not found');
+
+      await expect(
+        executeWithFallback(
+          [primary],
+          attempt,
+          failingGetProvider,
+          undefined,
+          breaker
+        )
+      ).resolves.toBe('probe_ok');
+      expect(breaker.getSnapshot()).toEqual([
+        expect.objectContaining({ providerId: 'p1', state: 'closed' }),
+      ]);
+    });
   });
 });
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import {
+  RateLimiter,
+  resolveRateLimits,
+} from '../../../src/fallbacks/rateLimiter';
+import type { ExecutionTarget } from '../../../src/fallbacks/types';
+import { Promptuna } from '../../../src/Promptuna';
+import type { ChatCompletionResponse } from '../../../src/providers/types';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+const target: ExecutionTarget = {
+  providerId: 'openai_main',
+  providerType: 'openai',
+  model: 'gpt-4o',
+};
+
+describe('resolveRateLimits', () => {
+  it('merges provider-wide limits with the matching model entry', () => {
+    const config = {
+      rpm: 500,
+      maxQueueMs: 100,
+      models: { 'gpt-4o': { rpm: 50 } },
+    };
+
+    expect(resolveRateLimits(config, 'gpt-4o-2024-08-06')).toEqual({
+      rpm: 50,
+      maxQueueMs: 100,
+    });
+    expect(resolveRateLimits(config, 'gpt-4.1')).toEqual({
+      rpm: 500,
+      maxQueueMs: 100,
+    });
+  });
+
+  it('returns undefined when nothing is limited', () => {
+    expect(resolveRateLimits(undefined, 'gpt-4o')).toBeUndefined();
+    expect(resolveRateLimits({ maxQueueMs: 100 }, 'gpt-4o')).toBeUndefined();
+  });
+});
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    limiter = new RateLimiter(() => Date.now());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues calls until a request token has refilled', async () => {
+    const limits = { rpm: 60, maxQueueMs: 5_000 };
+    const granted = vi.fn();
+
+    // One request per second after the burst of 60
+    for (let i = 0; i < 60; i++) await limiter.acquire(target, limits, 0);
+    void limiter.acquire(target, limits, 0).then(granted);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(granted).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toHaveBeenCalled();
+  });
+
+  it('fails fast when the token bucket needs longer than maxQueueMs', async () => {
+    const limits = { tpm: 6_000, maxQueueMs: 1_000 };
+    await limiter.acquire(target, limits, 6_000);
+
+    // 200 tokens refill in 2s
+    await expect(limiter.acquire(target, limits, 200)).rejects.toMatchObject({
+      reason: 'rate-limit',
+      retryable: true,
+      code: 'client-rate-limit',
+      retryAfterMs: 2_000,
+    });
+  });
+
+  it('settles the token bucket with the actual usage', async () => {
+    const limits = { tpm: 6_000, maxQueueMs: 0 };
+    const lease = await limiter.acquire(target, limits, 6_000);
+    lease.release(1_000);
+
+    // 5,000 tokens were returned to the bucket
+    await expect(limiter.acquire(target, limits, 5_000)).resolves.toBeDefined();
+  });
+
+  it('limits concurrency and gives up after maxQueueMs', async () => {
+    const limits = { maxConcurrency: 1, maxQueueMs: 500 };
+    const first = await limiter.acquire(target, limits, 0);
+    const second = limiter.acquire(target, limits, 0);
+    const third = limiter.acquire(target, limits, 0);
+    const thirdRejected = expect(third).rejects.toMatchObject({
+      code: 'client-rate-limit',
+    });
+
+    await vi.advanceTimersByTimeAsync(100);
+    first.release();
+    const lease = await second;
+
+    await vi.advanceTimersByTimeAsync(400);
+    await thirdRejected;
+    lease.release();
+    lease.release(); // releasing twice is a no-op
+    await expect(limiter.acquire(target, limits, 0)).resolves.toBeDefined();
+  });
+
+  it('leaves the queue when the signal aborts', async () => {
+    const limits = { maxConcurrency: 1 };
+    const lease = await limiter.acquire(target, limits, 0);
+    const controller = new AbortController();
+    const waiting = limiter.acquire(target, limits, 0, controller.signal);
+
+    controller.abort(new Error('cancelled'));
+    await expect(waiting).rejects.toThrow('cancelled');
+
+    lease.release();
+    await expect(limiter.acquire(target, limits, 0)).resolves.toBeDefined();
+  });
+
+  it('rejects queued calls and clears its timers on close', async () => {
+    const limits = { rpm: 1, maxQueueMs: 120_000 };
+    await limiter.acquire(target, limits, 0);
+    const waiting = limiter.acquire(target, limits, 0);
+
+    // The refill timer alone does not hold the process open
+    const [entry] = (limiter as any).entries.values();
+    expect(entry.timer.hasRef()).toBe(false);
+
+    limiter.close();
+    await expect(waiting).rejects.toMatchObject({
+      reason: 'provider-error',
+      retryable: false,
+      code: 'client-closed',
+    });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('keeps separate buckets per provider/model', async () => {
+    const limits = { rpm: 1, maxQueueMs: 0 };
+    await limiter.acquire(target, limits, 0);
+
+    await expect(
+      limiter.acquire({ ...target, model: 'gpt-4o-mini' }, limits, 0)
+    ).resolves.toBeDefined();
+    await expect(limiter.acquire(target, limits, 0)).rejects.toMatchObject({
+      code: 'client-rate-limit',
+    });
+  });
+});
+
+describe('Promptuna client-side rate limits', () => {
+  afterEach(restoreProviders);
+
+  it('falls through to the next target instead of queueing past maxQueueMs', async () => {
+    const config = testConfig();
+    config.providers.openai_gpt4.config = {
+      rateLimits: { maxConcurrency: 1, maxQueueMs: 0 },
+    };
+    config.prompts.greeting.variants.v_default.fallback = [
+      { provider: 'google_gemini', model: 'gemini-1.5-flash' },
+    ];
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({ config, onObservability });
+
+    let finishOpenAI!: () => void;
+    const openai = vi.fn(
+      () =>
+        new Promise<ChatCompletionResponse>(resolve => {
+          finishOpenAI = () => resolve(chatResponse('Hi'));
+        })
+    );
+    const gemini = vi
+      .fn()
+      .mockResolvedValue(chatResponse('Hi', { model: 'gemini-1.5-flash' }));
+    stubProviders({
+      openai_gpt4: { chatCompletion: openai },
+      google_gemini: { chatCompletion: gemini },
+    });
+
+    const params = { promptId: 'greeting', variables: { name: 'Alice' } };
+    const first = promptuna.chatCompletion(params);
+    await vi.waitFor(() => expect(openai).toHaveBeenCalled());
+    const second = await promptuna.chatCompletion(params);
+    finishOpenAI();
+
+    expect((await first).model).toBe('gpt-4');
+    expect(second.model).toBe('gemini-1.5-flash');
+    expect(openai).toHaveBeenCalledTimes(1);
+    expect(onObservability.mock.calls[0][0].fallbacks).toEqual([
+      {
+        provider: 'openai',
+        model: 'gpt-4',
+        reason: 'rate-limit',
+        attempt: 1,
+      },
+    ]);
+    expect(promptuna.getProviderHealth()).toContainEqual(
+      expect.objectContaining({ model: 'gpt-4', consecutiveFailures: 0 })
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  computeRetryDelay,
+  resolveRetryPolicy,
+  DEFAULT_RETRY_POLICY,
+} from '../../../src/fallbacks/retry';
+import { ProviderError } from '../../../src/errors';
+import { getRetryAfterMs } from '../../../src/shared/utils/retryAfter';
+
+const rateLimit = (retryAfterMs?: number) =>
+  new ProviderError('rate-limit', '429', true, undefined, 429, retryAfterMs);
+
+describe('retry policy', () => {
+  it('defaults to a single attempt', () => {
+    expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    expect(resolveRetryPolicy().maxAttempts).toBe(1);
+    expect(resolveRetryPolicy({ maxAttempts: 4 }).baseDelayMs).toBe(250);
+  });
+
+  describe('computeRetryDelay', () => {
+    it('backs off exponentially without jitter', () => {
+      const policy = resolveRetryPolicy({ baseDelayMs: 100, jitter: 'none' });
+
+      expect(computeRetryDelay(policy, 1, rateLimit())).toBe(100);
+      expect(computeRetryDelay(policy, 2, rateLimit())).toBe(200);
+      expect(computeRetryDelay(policy, 3, rateLimit())).toBe(400);
+    });
+
+    it('caps the backoff at maxDelayMs', () => {
+      const policy = resolveRetryPolicy({
+        baseDelayMs: 100,
+        maxDelayMs: 300,
+        jitter: 'none',
+      });
+
+      expect(computeRetryDelay(policy, 5, rateLimit())).toBe(300);
+    });
+
+    it('applies full and equal jitter', () => {
+      const full = resolveRetryPolicy({ baseDelayMs: 100, jitter: 'full' });
+      const equal = resolveRetryPolicy({ baseDelayMs: 100, jitter: 'equal' });
+
+      expect(computeRetryDelay(full, 2, rateLimit(), () => 0.25)).toBe(50);
+      expect(computeRetryDelay(equal, 2, rateLimit(), () => 0.5)).toBe(150);
+    });
+
+    it('honours Retry-After within maxDelayMs', () => {
+      const policy = resolveRetryPolicy({ maxDelayMs: 5000 });
+
+      expect(computeRetryDelay(policy, 1, rateLimit(2000))).toBe(2000);
+      expect(computeRetryDelay(policy, 1, rateLimit(9000))).toBeUndefined();
+    });
+
+    it('ignores Retry-After when respectRetryAfter is false', () => {
+      const policy = resolveRetryPolicy({
+        baseDelayMs: 100,
+        jitter: 'none',
+        respectRetryAfter: false,
+      });
+
+      expect(computeRetryDelay(policy, 1, rateLimit(9000))).toBe(100);
+    });
+  });
+
+  describe('getRetryAfterMs', () => {
+    it('reads retry-after-ms and retry-after seconds', () => {
+      expect(getRetryAfterMs({ headers: { 'retry-after-ms': '150' } })).toBe(
+        150
+      );
+      expect(
+        getRetryAfterMs({ headers: new Headers({ 'retry-after': '3' }) })
+      ).toBe(3000);
+    });
+
+    it('returns undefined without usable headers', () => {
+      expect(getRetryAfterMs(new Error('boom'))).toBeUndefined();
+      expect(
+        getRetryAfterMs({ headers: { 'retry-after': 'soon' } })
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { estimateCostUsd, getModelPricing } from '../../../src/models/pricing';
+
+describe('getModelPricing', () => {
+  it('finds built-in prices, including dated snapshots', () => {
+    expect(getModelPricing('openai', 'gpt-4o-2024-08-06')).toEqual({
+      inputPerMillion: 2.5,
+      outputPerMillion: 10,
+    });
+    expect(getModelPricing('openai', 'unknown-model')).toBeUndefined();
+  });
+
+  it('checks override tables in order before the built-in prices', () => {
+    const provider = { 'gpt-4o': { inputPerMillion: 1, outputPerMillion: 2 } };
+    const runtime = { gpt: { inputPerMillion: 3, outputPerMillion: 4 } };
+
+    expect(getModelPricing('openai', 'gpt-4o', provider, runtime)).toBe(
+      provider['gpt-4o']
+    );
+    expect(getModelPricing('openai', 'gpt-4o', undefined, runtime)).toBe(
+      runtime.gpt
+    );
+  });
+});
+
+describe('estimateCostUsd', () => {
+  it('prices input and output tokens per million', () => {
+    expect(
+      estimateCostUsd(
+        { prompt_tokens: 1_000, completion_tokens: 500 },
+        { inputPerMillion: 2.5, outputPerMillion: 10 }
+      )
+    ).toBeCloseTo(0.0075);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getModelMetadata, registerModel } from '../../../src/models/registry';
+
+describe('getModelMetadata', () => {
+  it('finds built-in models by exact name', () => {
+    expect(getModelMetadata('openai', 'gpt-4o')).toEqual({
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+    });
+  });
+
+  it('matches dated snapshots by the longest prefix', () => {
+    expect(getModelMetadata('openai', 'gpt-4o-mini-2024-07-18')).toBe(
+      getModelMetadata('openai', 'gpt-4o-mini')
+    );
+    expect(getModelMetadata('openai', 'gpt-4-0613')?.contextWindow).toBe(8_192);
+    expect(
+      getModelMetadata('anthropic', 'claude-3-5-sonnet-20241022')?.contextWindow
+    ).toBe(200_000);
+  });
+
+  it('does not match names that only share characters', () => {
+    expect(getModelMetadata('openai', 'gpt-4omega')).toBeUndefined();
+    expect(getModelMetadata('google', 'gpt-4o')).toBeUndefined();
+  });
+
+  it('prefers provider overrides, then registered models', () => {
+    registerModel('openai', 'gpt-4o', { contextWindow: 64_000 });
+    expect(getModelMetadata('openai', 'gpt-4o-2024-08-06')).toEqual({
+      contextWindow: 64_000,
+    });
+    expect(
+      getModelMetadata('openai', 'gpt-4o', {
+        'gpt-4o': { contextWindow: 32_000 },
+      })
+    ).toEqual({ contextWindow: 32_000 });
+  });
+
+  it('resolves models of custom provider types once registered', () => {
+    expect(getModelMetadata('in_house', 'llama-3.1-8b')).toBeUndefined();
+    registerModel('in_house', 'llama-3.1', { contextWindow: 8_192 });
+    expect(getModelMetadata('in_house', 'llama-3.1-8b')).toEqual({
+      contextWindow: 8_192,
+    });
+  });
+});
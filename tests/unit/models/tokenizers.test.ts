@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCharacterEstimator,
+  estimateMessageTokens,
+  estimateTokens,
+  getTokenizer,
+  registerTokenizer,
+} from '../../../src/models/tokenizers';
+
+describe('tokenizers', () => {
+  const estimator = createCharacterEstimator(4);
+
+  it('estimates tokens from the character count', () => {
+    expect(estimator.countTokens('')).toBe(0);
+    expect(estimator.countTokens('abcd')).toBe(1);
+    expect(estimator.countTokens('abcde')).toBe(2);
+  });
+
+  it('uses a denser estimate for Anthropic and a default for unknown types', () => {
+    expect(getTokenizer('anthropic').countTokens('a'.repeat(35))).toBe(10);
+    expect(getTokenizer('unknown').countTokens('a'.repeat(40))).toBe(10);
+  });
+
+  it('lets applications plug in their own tokenizer', () => {
+    registerTokenizer('in_house', { countTokens: text => text.length });
+    expect(getTokenizer('in_house').countTokens('abc')).toBe(3);
+  });
+
+  it('counts text, tool calls and binary parts of a message', () => {
+    expect(
+      estimateMessageTokens({ role: 'user', content: 'a'.repeat(8) }, estimator)
+    ).toBe(6);
+    expect(
+      estimateMessageTokens(
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'a'.repeat(8) },
+            { type: 'image', url: 'https://example.com/cat.png' },
+          ],
+        },
+        estimator
+      )
+    ).toBe(1_006);
+    expect(
+      estimateMessageTokens(
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'search', arguments: '{"q":1}' }],
+        },
+        estimator
+      )
+    ).toBe(8);
+  });
+
+  it('sums the estimates of a message list', () => {
+    expect(
+      estimateTokens(
+        [
+          { role: 'system', content: 'a'.repeat(8) },
+          { role: 'user', content: 'a'.repeat(8) },
+        ],
+        estimator
+      )
+    ).toBe(12);
+  });
+});
@@ -0,0 +1,328 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  buildSummaryMessages,
+  fitToContext,
+} from '../../../src/models/truncation';
+import { createCharacterEstimator } from '../../../src/models/tokenizers';
+import { ExecutionError } from '../../../src/config/types';
+import { ProviderError } from '../../../src/errors';
+import type { ChatMessage } from '../../../src/providers/types';
+import type { ContextBudget } from '../../../src/models/truncation';
+import { Promptuna } from '../../../src/Promptuna';
+import type { TruncationStrategy } from '../../../src/models/types';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+// 1 token per character plus 4 per message keeps the arithmetic readable
+const tokenizer = createCharacterEstimator(1);
+const budget = (contextWindow: number, model = 'gpt-4o'): ContextBudget => ({
+  model,
+  contextWindow,
+  reservedOutputTokens: 10,
+  tokenizer,
+});
+const message = (
+  role: ChatMessage['role'],
+  length: number,
+  extra: Partial<ChatMessage> = {}
+): ChatMessage => ({ role, content: 'x'.repeat(length), ...extra });
+
+describe('fitToContext', () => {
+  const template = [message('system', 6), message('user', 6)]; // 20 tokens
+
+  it('sends everything when the messages fit', async () => {
+    const history = [message('user', 6)];
+    const result = await fitToContext({
+      strategy: 'fail',
+      history,
+      messages: template,
+      budgets: [budget(40)],
+    });
+
+    expect(result.messages).toEqual([...history, ...template]);
+    expect(result.truncation).toEqual({
+      strategy: 'fail',
+      estimatedTokens: 30,
+      droppedMessages: 0,
+      summarized: false,
+    });
+  });
+
+  it('drops the oldest history messages until every budget fits', async () => {
+    const history = [message('user', 6), message('assistant', 6)];
+    const result = await fitToContext({
+      strategy: 'drop-oldest',
+      history,
+      messages: template,
+      budgets: [budget(100), budget(40, 'small')],
+    });
+
+    expect(result.messages).toEqual([history[1], ...template]);
+    expect(result.truncation.droppedMessages).toBe(1);
+  });
+
+  it('never keeps a tool result without its tool call', async () => {
+    const history = [
+      message('user', 6),
+      message('assistant', 2, {
+        toolCalls: [{ id: 'call_1', name: 'f', arguments: '{}' }],
+      }),
+      message('tool', 2, { toolCallId: 'call_1' }),
+      message('user', 2),
+    ];
+    const result = await fitToContext({
+      strategy: 'drop-oldest',
+      history,
+      messages: template,
+      budgets: [budget(50)],
+    });
+
+    expect(result.messages).toEqual([history[3], ...template]);
+    expect(result.truncation.droppedMessages).toBe(3);
+  });
+
+  it('rejects oversized requests with the fail strategy', async () => {
+    const promise = fitToContext({
+      strategy: 'fail',
+      history: [message('user', 20)],
+      messages: template,
+      budgets: [budget(40)],
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(ExecutionError);
+    await expect(promise).rejects.toMatchObject({
+      message: 'Messages exceed the context window of model "gpt-4o"',
+      details: {
+        strategy: 'fail',
+        estimatedTokens: 44,
+        contextWindow: 40,
+        reservedOutputTokens: 10,
+      },
+    });
+  });
+
+  it('rejects template messages that do not fit on their own', async () => {
+    await expect(
+      fitToContext({
+        strategy: 'drop-oldest',
+        history: [message('user', 2)],
+        messages: template,
+        budgets: [budget(25)],
+      })
+    ).rejects.toMatchObject({ details: { estimatedTokens: 20 } });
+  });
+
+  it('replaces dropped messages with a summary', async () => {
+    const history = [message('user', 1_000), message('user', 6)];
+    const summarize = vi.fn().mockResolvedValue('They said hi.');
+    const result = await fitToContext({
+      strategy: 'summarize',
+      history,
+      messages: template,
+      budgets: [budget(600)],
+      summarize,
+    });
+
+    expect(summarize).toHaveBeenCalledWith([history[0]]);
+    expect(result.messages).toEqual([
+      {
+        role: 'system',
+        content: 'Summary of the earlier conversation: They said hi.',
+      },
+      history[1],
+      ...template,
+    ]);
+    expect(result.truncation).toMatchObject({
+      droppedMessages: 1,
+      summarized: true,
+    });
+  });
+});
+
+describe('buildSummaryMessages', () => {
+  it('renders the dropped messages as a transcript', () => {
+    const [, transcript] = buildSummaryMessages([
+      { role: 'user', content: 'What is the weather?' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'weather', arguments: '{}' }],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'And here?' },
+          { type: 'image', url: 'https://example.com/sky.png' },
+        ],
+      },
+    ]);
+
+    expect(transcript.content).toBe(
+      'user: What is the weather?\nassistant: [called weather({})]\nuser: And here? [image]'
+    );
+  });
+});
+
+describe('Promptuna context window truncation', () => {
+  const response = chatResponse('Hi');
+  // 40 characters each – 14 estimated tokens with the message overhead
+  const messageHistory: ChatMessage[] = [
+    { role: 'user', content: 'a'.repeat(40) },
+    { role: 'assistant', content: 'b'.repeat(40) },
+    { role: 'user', content: 'c'.repeat(40) },
+  ];
+
+  // 140 tokens leave 40 for the prompt once max_tokens (100) is reserved
+  const truncatingConfig = (
+    strategy: TruncationStrategy,
+    contextWindow = 140
+  ) => {
+    const config = testConfig();
+    config.providers.openai_gpt4.config = {
+      models: { 'gpt-4': { contextWindow } },
+    };
+    config.prompts.greeting.variants.v_default.truncationStrategy = strategy;
+    return config;
+  };
+
+  afterEach(restoreProviders);
+
+  it('drops the oldest history messages that do not fit', async () => {
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({
+      config: truncatingConfig('drop-oldest'),
+      onObservability,
+    });
+    const chatCompletion = vi.fn().mockResolvedValue(response);
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+      messageHistory,
+    });
+
+    const { messages } = chatCompletion.mock.calls[0][0];
+    expect(messages).toHaveLength(3);
+    expect(messages[0].content).toBe('c'.repeat(40));
+    expect(onObservability.mock.calls[0][0].truncation).toEqual({
+      strategy: 'drop-oldest',
+      estimatedTokens: 37,
+      droppedMessages: 2,
+      summarized: false,
+    });
+  });
+
+  it('replaces dropped messages with a summary', async () => {
+    // Leaves room for the 512 token summary once the long message is dropped
+    const promptuna = new Promptuna({
+      config: truncatingConfig('summarize', 700),
+    });
+    const chatCompletion = vi
+      .fn()
+      .mockResolvedValueOnce(chatResponse('Small talk.'))
+      .mockResolvedValueOnce(response);
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+      messageHistory: [
+        { role: 'user', content: 'z'.repeat(2400) },
+        ...messageHistory.slice(1),
+      ],
+    });
+
+    const [summaryRequest, request] = chatCompletion.mock.calls.map(
+      call => call[0]
+    );
+    expect(summaryRequest.messages[1].content).toBe(
+      `user: ${'z'.repeat(2400)}`
+    );
+    expect(summaryRequest.max_completion_tokens).toBe(512);
+    expect(request.messages[0]).toEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation: Small talk.',
+    });
+    expect(request.messages[1].content).toBe('b'.repeat(40));
+  });
+
+  it('retries the summary call and charges its usage to the request', async () => {
+    const config = truncatingConfig('summarize', 700);
+    config.prompts.greeting.variants.v_default.retry = {
+      maxAttempts: 2,
+      baseDelayMs: 0,
+    };
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({ config, onObservability });
+    const usage = (total: number) => ({
+      prompt_tokens: total - 10,
+      completion_tokens: 10,
+      total_tokens: total,
+    });
+    const chatCompletion = vi
+      .fn()
+      .mockRejectedValueOnce(
+        new ProviderError('rate-limit', '429', true, undefined, 429)
+      )
+      .mockResolvedValueOnce(chatResponse('Small talk.', { usage: usage(700) }))
+      .mockResolvedValueOnce(chatResponse('Hi', { usage: usage(100) }));
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    const result = await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+      messageHistory: [
+        { role: 'user', content: 'z'.repeat(2400) },
+        ...messageHistory.slice(1),
+      ],
+    });
+
+    expect(chatCompletion).toHaveBeenCalledTimes(3);
+    expect(chatCompletion.mock.calls[2][0].messages[0].content).toBe(
+      'Summary of the earlier conversation: Small talk.'
+    );
+    expect(result.usage).toEqual({
+      prompt_tokens: 780,
+      completion_tokens: 20,
+      total_tokens: 800,
+    });
+    const event = onObservability.mock.calls[0][0];
+    expect(event).toMatchObject({
+      success: true,
+      tokenUsage: { prompt: 780, completion: 20, total: 800 },
+      fallbacks: [{ provider: 'openai', model: 'gpt-4', reason: 'rate-limit' }],
+    });
+    // gpt-4: $30 / $60 per million tokens
+    expect(event.estimatedCostUsd).toBeCloseTo(0.0246);
+  });
+
+  it('rejects oversized requests with the fail strategy', async () => {
+    const promptuna = new Promptuna({ config: truncatingConfig('fail') });
+    const chatCompletion = vi.fn();
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    await expect(
+      promptuna.chatCompletion({
+        promptId: 'greeting',
+        variables: { name: 'Alice' },
+        messageHistory,
+      })
+    ).rejects.toMatchObject({
+      details: {
+        originalError: 'Messages exceed the context window of model "gpt-4"',
+        providerDetails: {
+          strategy: 'fail',
+          estimatedTokens: 65,
+          contextWindow: 140,
+          reservedOutputTokens: 100,
+        },
+      },
+    });
+    expect(chatCompletion).not.toHaveBeenCalled();
+  });
+});
@@ -76,4 +76,24 @@ describe('ObservabilityBuilder', () => {
     expect(evt.timings.total).toBe(100);
     expect(emitSpy).toHaveBeenCalledWith(evt);
   });
+
+  it('counts retries in timings', () => {
+    builder.addFallbackAttempt({
+      provider: 'openai',
+      model: 'gpt-4',
+      reason: 'rate-limit',
+      attempt: 1,
+      retryDelayMs: 200,
+    });
+    builder.addFallbackAttempt({
+      provider: 'openai',
+      model: 'gpt-4',
+      reason: 'rate-limit',
+      attempt: 2,
+    });
+
+    const evt = builder.buildError(new Error('exhausted'));
+    expect(evt.timings.retries).toBe(1);
+    expect(evt.fallbacks).toHaveLength(2);
+  });
 });
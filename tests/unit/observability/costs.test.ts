@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CostTracker } from '../../../src/observability/costs';
+import type { PromptunaObservability } from '../../../src/observability/types';
+import { Promptuna } from '../../../src/Promptuna';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+const event = (
+  overrides: Partial<PromptunaObservability>
+): PromptunaObservability => ({
+  requestId: 'req',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  sdkVersion: '1.0.0',
+  promptId: 'greeting',
+  variantId: 'v_a',
+  routingReason: 'default',
+  timings: { total: 10 },
+  provider: 'openai',
+  model: 'gpt-4o',
+  fallbackUsed: false,
+  success: true,
+  tokenUsage: { prompt: 100, completion: 50, total: 150 },
+  estimatedCostUsd: 0.01,
+  ...overrides,
+});
+
+describe('CostTracker', () => {
+  const tracker = new CostTracker();
+  tracker.record(event({ userId: 'alice' }));
+  tracker.record(event({ userId: 'alice', variantId: 'v_b' }));
+  tracker.record(event({ variantId: 'v_b', estimatedCostUsd: 0.03 }));
+  tracker.record(
+    event({ promptId: 'summary', userId: 'bob', estimatedCostUsd: undefined })
+  );
+  tracker.record(
+    event({
+      userId: 'bob',
+      success: false,
+      tokenUsage: undefined,
+      estimatedCostUsd: undefined,
+    })
+  );
+
+  it('sums every request by default', () => {
+    expect(tracker.getSummary()).toEqual({
+      requests: 5,
+      promptTokens: 400,
+      completionTokens: 200,
+      estimatedCostUsd: expect.closeTo(0.05),
+      unpricedRequests: 1,
+    });
+  });
+
+  it('filters by prompt, variant and user', () => {
+    expect(
+      tracker.getSummary({ promptId: 'greeting', variantId: 'v_b' })
+    ).toMatchObject({ requests: 2, estimatedCostUsd: expect.closeTo(0.04) });
+    expect(tracker.getSummary({ userId: 'bob' })).toMatchObject({
+      requests: 2,
+      estimatedCostUsd: 0,
+      unpricedRequests: 1,
+    });
+  });
+
+  it('groups totals by a dimension', () => {
+    const byVariant = tracker.groupBy('variantId', { promptId: 'greeting' });
+    expect(Object.keys(byVariant).sort()).toEqual(['v_a', 'v_b']);
+    expect(byVariant.v_a.requests).toBe(2);
+
+    expect(Object.keys(tracker.groupBy('userId')).sort()).toEqual([
+      'alice',
+      'anonymous',
+      'bob',
+    ]);
+  });
+
+  it('forgets all totals on reset', () => {
+    const other = new CostTracker();
+    other.record(event({}));
+    other.reset();
+    expect(other.getSummary().requests).toBe(0);
+  });
+});
+
+describe('Promptuna cost tracking', () => {
+  const response = chatResponse('Hello Alice', {
+    usage: {
+      prompt_tokens: 1_000,
+      completion_tokens: 500,
+      total_tokens: 1_500,
+    },
+  });
+
+  afterEach(restoreProviders);
+
+  it('prices every event and accumulates costs per variant', async () => {
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({ config: testConfig(), onObservability });
+    stubProviders({
+      openai_gpt4: { chatCompletion: vi.fn().mockResolvedValue(response) },
+    });
+
+    await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+      userId: 'alice',
+    });
+    await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Bob' },
+    });
+
+    // gpt-4 list price: $30 input / $60 output per million tokens
+    expect(onObservability.mock.calls[0][0].estimatedCostUsd).toBeCloseTo(0.06);
+    expect(promptuna.getCosts({ userId: 'alice' })).toMatchObject({
+      requests: 1,
+      promptTokens: 1_000,
+      completionTokens: 500,
+      estimatedCostUsd: expect.closeTo(0.06),
+    });
+    expect(promptuna.getCostsBy('variantId', { promptId: 'greeting' })).toEqual(
+      {
+        v_default: expect.objectContaining({
+          requests: 2,
+          estimatedCostUsd: expect.closeTo(0.12),
+        }),
+      }
+    );
+
+    promptuna.resetCosts();
+    expect(promptuna.getCosts().requests).toBe(0);
+  });
+
+  it('prefers provider config pricing over runtime pricing', async () => {
+    const config = testConfig();
+    config.providers.openai_gpt4.config = {
+      pricing: { 'gpt-4': { inputPerMillion: 1, outputPerMillion: 2 } },
+    };
+    const promptuna = new Promptuna({
+      config,
+      pricing: {
+        openai: { 'gpt-4': { inputPerMillion: 10, outputPerMillion: 20 } },
+        anthropic: { claude: { inputPerMillion: 3, outputPerMillion: 15 } },
+      },
+    });
+    stubProviders({
+      openai_gpt4: { chatCompletion: vi.fn().mockResolvedValue(response) },
+    });
+
+    await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+    });
+
+    expect(promptuna.getCosts().estimatedCostUsd).toBeCloseTo(0.002);
+  });
+});
@@ -76,7 +76,8 @@ describe('AnthropicProvider', () => {
       expect.objectContaining({
         tools: expect.any(Array),
         tool_choice: expect.any(Object),
-      })
+      }),
+      expect.any(Object)
     );
   });
 
@@ -149,4 +150,322 @@ describe('AnthropicProvider', () => {
       } as any)
     ).rejects.toThrow('Network error');
   });
+
+  describe('streamChatCompletion', () => {
+    async function* fakeStream(events: any[]) {
+      for (const event of events) yield event;
+    }
+
+    it('should translate stream events into delta chunks with usage', async () => {
+      createMsgSpy.mockResolvedValueOnce(
+        fakeStream([
+          {
+            type: 'message_start',
+            message: { id: 'msg_stream', usage: { input_tokens: 4 } },
+          },
+          { type: 'content_block_start', index: 0 },
+          {
+            type: 'content_block_delta',
+            delta: { type: 'text_delta', text: 'Hi ' },
+          },
+          {
+            type: 'content_block_delta',
+            delta: { type: 'text_delta', text: 'there' },
+          },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'end_turn' },
+            usage: { output_tokens: 2 },
+          },
+          { type: 'message_stop' },
+        ])
+      );
+
+      const chunks = [];
+      for await (const chunk of provider.streamChatCompletion({
+        model: 'claude-3-sonnet-20240229',
+        messages: [{ role: 'user', content: 'Hi' }],
+        max_tokens: 100,
+      } as any)) {
+        chunks.push(chunk);
+      }
+
+      expect(createMsgSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ stream: true }),
+        expect.any(Object)
+      );
+      expect(chunks.every(c => c.id === 'msg_stream')).toBe(true);
+      expect(chunks.map(c => c.choices[0].delta.content ?? '').join('')).toBe(
+        'Hi there'
+      );
+      expect(chunks[chunks.length - 1]).toMatchObject({
+        choices: [{ finish_reason: 'end_turn' }],
+        usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 },
+      });
+    });
+
+    it('should stream partial JSON for structured responses', async () => {
+      createMsgSpy.mockResolvedValueOnce(
+        fakeStream([
+          { type: 'message_start', message: { id: 'msg_json' } },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: {
+              type: 'tool_use',
+              id: 'toolu_s',
+              name: 'structured_response',
+            },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'input_json_delta', partial_json: '{"a":' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'input_json_delta', partial_json: '1}' },
+          },
+          { type: 'content_block_stop', index: 0 },
+        ])
+      );
+
+      let content = '';
+      for await (const chunk of provider.streamChatCompletion({
+        model: 'claude',
+        messages: [{ role: 'user', content: 'json' }],
+        responseFormat: { type: 'json_schema' },
+        responseSchema: { type: 'object' },
+      } as any)) {
+        content += chunk.choices[0].delta.content ?? '';
+      }
+
+      expect(JSON.parse(content)).toEqual({ a: 1 });
+    });
+
+    it('should emit streamed tool_use blocks as tool calls, not content', async () => {
+      createMsgSpy.mockResolvedValueOnce(
+        fakeStream([
+          { type: 'message_start', message: { id: 'msg_tools' } },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'text', text: '' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'text_delta', text: 'Checking.' },
+          },
+          { type: 'content_block_stop', index: 0 },
+          {
+            type: 'content_block_start',
+            index: 1,
+            content_block: {
+              type: 'tool_use',
+              id: 'toolu_1',
+              name: 'get_weather',
+              input: {},
+            },
+          },
+          {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'input_json_delta', partial_json: '{"city":' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'input_json_delta', partial_json: '"Oslo"}' },
+          },
+          { type: 'content_block_stop', index: 1 },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use' },
+            usage: { output_tokens: 12 },
+          },
+        ])
+      );
+
+      const chunks = [];
+      for await (const chunk of provider.streamChatCompletion({
+        model: 'claude',
+        messages: [{ role: 'user', content: 'Weather in Oslo?' }],
+        tools: [{ name: 'get_weather', parameters: { type: 'object' } }],
+      } as any)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map(c => c.choices[0].delta.content ?? '').join('')).toBe(
+        'Checking.'
+      );
+      expect(chunks.flatMap(c => c.choices[0].delta.toolCalls ?? [])).toEqual([
+        { id: 'toolu_1', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+      ]);
+      expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe(
+        'tool_use'
+      );
+    });
+  });
+
+  describe('tool calling', () => {
+    it('should translate tools and normalise tool_use blocks', async () => {
+      createMsgSpy.mockResolvedValueOnce({
+        id: 'msg_tools',
+        content: [
+          { type: 'text', text: 'Checking.' },
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'get_weather',
+            input: { city: 'Oslo' },
+          },
+        ],
+        stop_reason: 'tool_use',
+      });
+
+      const res = await provider.chatCompletion({
+        model: 'claude',
+        messages: [{ role: 'user', content: 'Weather in Oslo?' }],
+        max_tokens: 100,
+        tools: [{ name: 'get_weather', parameters: { type: 'object' } }],
+        toolChoice: 'required',
+      } as any);
+
+      const request = createMsgSpy.mock.calls[0][0];
+      expect(request.tools).toEqual([
+        { name: 'get_weather', input_schema: { type: 'object' } },
+      ]);
+      expect(request.tool_choice).toEqual({ type: 'any' });
+      expect(res.choices[0].message).toEqual({
+        role: 'assistant',
+        content: 'Checking.',
+        toolCalls: [
+          { id: 'toolu_1', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+        ],
+      });
+    });
+
+    it('should map tool history into tool_use and tool_result blocks', async () => {
+      createMsgSpy.mockResolvedValueOnce({
+        id: 'msg_followup',
+        content: [{ type: 'text', text: 'Sunny' }],
+      });
+
+      await provider.chatCompletion({
+        model: 'claude',
+        messages: [
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+              {
+                id: 'toolu_1',
+                name: 'get_weather',
+                arguments: '{"city":"Oslo"}',
+              },
+            ],
+          },
+          { role: 'tool', toolCallId: 'toolu_1', content: 'clear' },
+        ],
+      } as any);
+
+      expect(createMsgSpy.mock.calls[0][0].messages).toEqual([
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'tool_use',
+              id: 'toolu_1',
+              name: 'get_weather',
+              input: { city: 'Oslo' },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'toolu_1', content: 'clear' },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('multimodal content', () => {
+    it('should translate images and files into image and document blocks', async () => {
+      createMsgSpy.mockResolvedValueOnce({
+        id: 'msg_mm',
+        content: [{ type: 'text', text: 'A receipt' }],
+      });
+
+      await provider.chatCompletion({
+        model: 'claude',
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Summarise' },
+              { type: 'image', data: 'aW1n', mimeType: 'image/jpeg' },
+              { type: 'image', url: 'https://x.test/cat.png' },
+              {
+                type: 'file',
+                data: 'cGRm',
+                mimeType: 'application/pdf',
+                filename: 'receipt.pdf',
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(createMsgSpy.mock.calls[0][0].messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Summarise' },
+            {
+              type: 'image',
+              source: {
+                type: 'base64',
+                media_type: 'image/jpeg',
+                data: 'aW1n',
+              },
+            },
+            {
+              type: 'image',
+              source: { type: 'url', url: 'https://x.test/cat.png' },
+            },
+            {
+              type: 'document',
+              source: {
+                type: 'base64',
+                media_type: 'application/pdf',
+                data: 'cGRm',
+              },
+              title: 'receipt.pdf',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should reject audio parts', async () => {
+      await expect(
+        provider.chatCompletion({
+          model: 'claude',
+          messages: [
+            {
+              role: 'user',
+              content: [{ type: 'audio', data: 'YXVk', mimeType: 'audio/wav' }],
+            },
+          ],
+        })
+      ).rejects.toMatchObject({
+        name: 'ProviderError',
+        code: 'unsupported-content',
+      });
+    });
+  });
 });
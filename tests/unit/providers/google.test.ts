@@ -31,7 +31,11 @@ describe('GoogleProvider', () => {
     generateContentSpy.mockResolvedValueOnce({
       id: 'google1',
       text: 'Hi from Google',
-      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+      usageMetadata: {
+        promptTokenCount: 1,
+        candidatesTokenCount: 1,
+        totalTokenCount: 2,
+      },
     });
 
     const res = await provider.chatCompletion({
@@ -77,6 +81,21 @@ describe('GoogleProvider', () => {
     );
   });
 
+  it('should pass the abort signal through the request config', async () => {
+    generateContentSpy.mockResolvedValueOnce({ id: 'google3', text: 'ok' });
+    const controller = new AbortController();
+
+    await provider.chatCompletion({
+      model: 'gemini',
+      messages: [{ role: 'user', content: 'hello' }],
+      signal: controller.signal,
+    });
+
+    const { config } = generateContentSpy.mock.calls[0][0];
+    expect(config.abortSignal).toBe(controller.signal);
+    expect(config).not.toHaveProperty('signal');
+  });
+
   it('should normalise timeout error', async () => {
     generateContentSpy.mockRejectedValueOnce({
       message: 'Gateway timeout',
@@ -149,4 +168,210 @@ describe('GoogleProvider', () => {
       } as any)
     ).rejects.toThrow('Network error');
   });
+
+  describe('streamChatCompletion', () => {
+    it('should normalise streamed responses into delta chunks', async () => {
+      const generateContentStreamSpy = vi.fn().mockResolvedValueOnce(
+        (async function* () {
+          yield { responseId: 'g-stream', text: 'Hi ' };
+          yield {
+            responseId: 'g-stream',
+            text: 'there',
+            candidates: [{ finishReason: 'STOP' }],
+            usageMetadata: {
+              promptTokenCount: 3,
+              candidatesTokenCount: 2,
+              totalTokenCount: 5,
+            },
+          };
+        })()
+      );
+      (provider as any).ai.models.generateContentStream =
+        generateContentStreamSpy;
+
+      const chunks = [];
+      for await (const chunk of provider.streamChatCompletion({
+        model: 'gemini',
+        messages: [{ role: 'user', content: 'hi' }],
+      } as any)) {
+        chunks.push(chunk);
+      }
+
+      expect(generateContentStreamSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'gemini', contents: 'User: hi' })
+      );
+      expect(chunks.map(c => c.choices[0].delta.content).join('')).toBe(
+        'Hi there'
+      );
+      expect(chunks[1]).toMatchObject({
+        id: 'g-stream',
+        choices: [{ finish_reason: 'stop' }],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+      });
+    });
+
+    it('should emit streamed function calls as delta.toolCalls', async () => {
+      (provider as any).ai.models.generateContentStream = vi
+        .fn()
+        .mockResolvedValueOnce(
+          (async function* () {
+            yield {
+              responseId: 'g-tools',
+              functionCalls: [{ name: 'get_weather', args: { city: 'Oslo' } }],
+            };
+            yield {
+              responseId: 'g-tools',
+              functionCalls: [
+                { id: 'fc_2', name: 'get_time', args: { city: 'Oslo' } },
+              ],
+              candidates: [{ finishReason: 'STOP' }],
+            };
+          })()
+        );
+
+      const chunks = [];
+      for await (const chunk of provider.streamChatCompletion({
+        model: 'gemini',
+        messages: [{ role: 'user', content: 'Weather in Oslo?' }],
+        tools: [{ name: 'get_weather', parameters: { type: 'object' } }],
+      } as any)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map(c => c.choices[0].delta.content)).toEqual([
+        undefined,
+        undefined,
+      ]);
+      expect(chunks.flatMap(c => c.choices[0].delta.toolCalls ?? [])).toEqual([
+        { id: 'call_0', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+        { id: 'fc_2', name: 'get_time', arguments: '{"city":"Oslo"}' },
+      ]);
+    });
+  });
+
+  describe('tool calling', () => {
+    it('should declare functions and normalise function calls', async () => {
+      generateContentSpy.mockResolvedValueOnce({
+        id: 'google_tools',
+        text: undefined,
+        functionCalls: [{ name: 'get_weather', args: { city: 'Oslo' } }],
+      });
+
+      const res = await provider.chatCompletion({
+        model: 'gemini',
+        messages: [{ role: 'user', content: 'Weather in Oslo?' }],
+        tools: [{ name: 'get_weather', parameters: { type: 'object' } }],
+        toolChoice: 'auto',
+      } as any);
+
+      const { config } = generateContentSpy.mock.calls[0][0];
+      expect(config.tools).toEqual([
+        {
+          functionDeclarations: [
+            { name: 'get_weather', parameters: { type: 'object' } },
+          ],
+        },
+      ]);
+      expect(config.toolConfig).toEqual({
+        functionCallingConfig: { mode: 'AUTO' },
+      });
+      expect(res.choices[0].message.toolCalls).toEqual([
+        { id: 'call_0', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+      ]);
+    });
+
+    it('should send structured contents when history contains tool turns', async () => {
+      generateContentSpy.mockResolvedValueOnce({ id: 'g2', text: 'Sunny' });
+
+      await provider.chatCompletion({
+        model: 'gemini',
+        messages: [
+          { role: 'user', content: 'Weather in Oslo?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+              {
+                id: 'call_0',
+                name: 'get_weather',
+                arguments: '{"city":"Oslo"}',
+              },
+            ],
+          },
+          { role: 'tool', toolCallId: 'call_0', content: '{"sky":"clear"}' },
+        ],
+      } as any);
+
+      expect(generateContentSpy.mock.calls[0][0].contents).toEqual([
+        { role: 'user', parts: [{ text: 'Weather in Oslo?' }] },
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                id: 'call_0',
+                name: 'get_weather',
+                args: { city: 'Oslo' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'call_0',
+                name: 'get_weather',
+                response: { sky: 'clear' },
+              },
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('multimodal content', () => {
+    it('should send inlineData and fileData parts as structured contents', async () => {
+      generateContentSpy.mockResolvedValueOnce({ id: 'g_mm', text: 'A cat' });
+
+      await provider.chatCompletion({
+        model: 'gemini-1.5-flash',
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image', data: 'aW1n', mimeType: 'image/png' },
+              {
+                type: 'audio',
+                url: 'gs://bucket/clip.mp3',
+                mimeType: 'audio/mpeg',
+              },
+            ],
+          },
+        ],
+      });
+
+      const request = generateContentSpy.mock.calls[0][0];
+      expect(request.config.systemInstruction).toEqual(['Be brief']);
+      expect(request.contents).toEqual([
+        {
+          role: 'user',
+          parts: [
+            { text: 'What is this?' },
+            { inlineData: { mimeType: 'image/png', data: 'aW1n' } },
+            {
+              fileData: {
+                fileUri: 'gs://bucket/clip.mp3',
+                mimeType: 'audio/mpeg',
+              },
+            },
+          ],
+        },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MockProvider } from '../../../src/providers/mock';
+import { getProviderRegistration } from '../../../src/providers/registry';
+import { ProviderError } from '../../../src/errors';
+import type { ChatCompletionOptions } from '../../../src/providers/types';
+import { Promptuna } from '../../../src/Promptuna';
+import { testConfig } from '../../helpers/promptuna';
+
+const options: ChatCompletionOptions = {
+  model: 'mock-1',
+  messages: [
+    { role: 'system', content: 'You are terse.' },
+    { role: 'user', content: 'Hello there, mock' },
+  ],
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('MockProvider', () => {
+  it('echoes the last user message with estimated usage', async () => {
+    const response = await new MockProvider('dev').chatCompletion(options);
+
+    expect(response).toMatchObject({
+      id: 'mock-1',
+      model: 'mock-1',
+      choices: [
+        {
+          message: { role: 'assistant', content: 'Hello there, mock' },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: { completion_tokens: 5 },
+    });
+    expect(response.usage!.prompt_tokens).toBeGreaterThan(8);
+  });
+
+  it('serves canned responses in turn and renders templates', async () => {
+    const canned = new MockProvider('dev', { response: ['first', 'second'] });
+    const replies = [];
+    for (let i = 0; i < 3; i++) {
+      replies.push(
+        (await canned.chatCompletion(options)).choices[0].message.content
+      );
+    }
+    expect(replies).toEqual(['first', 'second', 'first']);
+
+    const templated = new MockProvider('dev', {
+      template:
+        '[{{ model }}] {{ lastMessage | upcase }} ({{ messages.size }})',
+    });
+    await expect(templated.chatCompletion(options)).resolves.toMatchObject({
+      choices: [{ message: { content: '[mock-1] HELLO THERE, MOCK (2)' } }],
+    });
+  });
+
+  it('synthesizes JSON for json_schema requests', async () => {
+    const response = await new MockProvider('dev').chatCompletion({
+      ...options,
+      responseFormat: { type: 'json_schema', schemaRef: 'sentiment' },
+      responseSchema: {
+        type: 'object',
+        properties: { sentiment: { enum: ['positive', 'negative'] } },
+        required: ['sentiment'],
+      },
+    });
+
+    expect(JSON.parse(response.choices[0].message.content)).toEqual({
+      sentiment: 'positive',
+    });
+  });
+
+  it('streams the reply word by word with usage on the last chunk', async () => {
+    const chunks = [];
+    for await (const chunk of new MockProvider('dev').streamChatCompletion(
+      options
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map(chunk => chunk.choices[0].delta.content)).toEqual([
+      'Hello',
+      ' there,',
+      ' mock',
+    ]);
+    expect(chunks.at(-1)).toMatchObject({
+      choices: [{ finish_reason: 'stop' }],
+      usage: { completion_tokens: 5 },
+    });
+    expect(chunks[0].usage).toBeUndefined();
+  });
+
+  it('returns the configured failures in order, then succeeds', async () => {
+    const provider = new MockProvider('dev', {
+      failures: ['rate-limit', 'timeout', 'error'],
+      retryAfterMs: 2_000,
+    });
+
+    await expect(provider.chatCompletion(options)).rejects.toMatchObject({
+      reason: 'rate-limit',
+      retryable: true,
+      httpStatus: 429,
+      retryAfterMs: 2_000,
+    });
+    await expect(provider.chatCompletion(options)).rejects.toMatchObject({
+      reason: 'timeout',
+      code: 'timeout',
+    });
+    await expect(provider.chatCompletion(options)).rejects.toMatchObject({
+      reason: 'provider-error',
+      code: 'mock-error',
+      httpStatus: 500,
+    });
+    await expect(provider.chatCompletion(options)).resolves.toMatchObject({
+      id: 'mock-4',
+    });
+  });
+
+  it('fails randomly at the configured rates', async () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.1);
+    const provider = new MockProvider('dev', { rateLimitRate: 0.2 });
+
+    await expect(provider.chatCompletion(options)).rejects.toBeInstanceOf(
+      ProviderError
+    );
+    vi.spyOn(Math, 'random').mockReturnValue(0.9);
+    await expect(provider.chatCompletion(options)).resolves.toBeDefined();
+  });
+
+  it('waits out the latency and stops waiting when aborted', async () => {
+    vi.useFakeTimers();
+    const provider = new MockProvider('dev', { latencyMs: 500 });
+
+    let settled = false;
+    const pending = provider.chatCompletion(options).then(() => {
+      settled = true;
+    });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(settled).toBe(true);
+
+    const controller = new AbortController();
+    const aborted = provider.chatCompletion({
+      ...options,
+      signal: controller.signal,
+    });
+    controller.abort(new Error('stop'));
+    await expect(aborted).rejects.toThrow('stop');
+  });
+
+  it('rejects invalid settings', () => {
+    expect(() => new MockProvider('dev', { errorRate: 2 })).toThrow(
+      'Invalid config of mock provider "dev": "errorRate" must be a number between 0 and 1'
+    );
+    expect(
+      () => new MockProvider('dev', { failures: ['explode' as any] })
+    ).toThrow('unknown failures "explode"');
+    expect(() => new MockProvider('dev', { template: '{% if %}' })).toThrow(
+      'invalid template'
+    );
+  });
+
+  it('is registered as the built-in mock type', () => {
+    const provider = getProviderRegistration('mock')!.factory({
+      runtimeConfig: { configPath: 'promptuna.json' },
+      providerId: 'dev',
+      providerConfig: { type: 'mock', config: { response: 'hi' } },
+    });
+
+    expect(provider).toBeInstanceOf(MockProvider);
+  });
+});
+
+describe('Promptuna with mock providers', () => {
+  it('runs without API keys and falls back past simulated failures', async () => {
+    const config = testConfig();
+    config.providers = {
+      flaky: { type: 'mock', config: { failures: ['rate-limit'] } },
+      backup: {
+        type: 'mock',
+        config: { template: 'Echo: {{ lastMessage }}' },
+      },
+    };
+    Object.assign(config.prompts.greeting.variants.v_default, {
+      provider: 'flaky',
+      model: 'mock-large',
+      fallback: [{ provider: 'backup', model: 'mock-small' }],
+    });
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({ config, onObservability });
+
+    const response = await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+    });
+
+    expect(response.choices[0].message.content).toBe(
+      'Echo: Hello Alice! How are you today?'
+    );
+    expect(onObservability.mock.calls[0][0]).toMatchObject({
+      success: true,
+      fallbackUsed: true,
+      model: 'mock-small',
+    });
+  });
+
+  it('synthesizes answers that satisfy the response schema', async () => {
+    const config = testConfig();
+    config.providers.openai_gpt4 = { type: 'mock' };
+    config.prompts.greeting.variants.v_default.responseFormat = {
+      type: 'json_schema',
+      schemaRef: 'user_profile',
+    };
+    const promptuna = new Promptuna({ config });
+
+    const response = await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+    });
+
+    expect(response.parsed).toEqual({
+      name: 'name',
+      age: 0,
+      email: 'user@example.com',
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import { OpenAIProvider } from '../../../src/providers/openai';
+import { getProviderRegistration } from '../../../src/providers/registry';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+// Minimal OpenAI-compatible server – answers every request with a fixed completion
+let server: Server;
+let baseURL: string;
+let requests: RecordedRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          id: 'stub-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'llama3',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hello from stub' },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 },
+        })
+      );
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseURL = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+describe('OpenAI-compatible endpoints', () => {
+  it('should send requests to the configured baseURL with custom headers', async () => {
+    const provider = new OpenAIProvider({
+      apiKey: 'local-key',
+      baseURL: `${baseURL}/v1`,
+      headers: { 'x-team': 'search' },
+      organization: 'org-123',
+    });
+
+    const res = await provider.chatCompletion({
+      model: 'llama3',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    expect(res.choices[0].message.content).toBe('Hello from stub');
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/v1/chat/completions',
+      body: { model: 'llama3', messages: [{ role: 'user', content: 'Hi' }] },
+    });
+    expect(requests[0].headers).toMatchObject({
+      authorization: 'Bearer local-key',
+      'x-team': 'search',
+      'openai-organization': 'org-123',
+    });
+  });
+
+  it('should use Azure deployment URLs with api-version and api-key', async () => {
+    const provider = new OpenAIProvider({
+      apiKey: 'azure-key',
+      baseURL: `${baseURL}/openai/deployments/gpt-4o-prod`,
+      apiVersion: '2024-10-21',
+    });
+
+    await provider.chatCompletion({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    expect(requests[0].url).toBe(
+      '/openai/deployments/gpt-4o-prod/chat/completions?api-version=2024-10-21'
+    );
+    expect(requests[0].headers['api-key']).toBe('azure-key');
+  });
+
+  it('should build openai-compatible providers from provider config', async () => {
+    const provider = getProviderRegistration('openai-compatible')!.factory({
+      runtimeConfig: { configPath: 'x.json', openaiApiKey: 'sk-real' },
+      providerId: 'ollama',
+      providerConfig: {
+        type: 'openai-compatible',
+        config: { baseURL: `${baseURL}/v1` },
+      },
+    });
+
+    const res = await provider.chatCompletion({
+      model: 'llama3',
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    expect(res.usage).toEqual({
+      prompt_tokens: 3,
+      completion_tokens: 4,
+      total_tokens: 7,
+    });
+    // The OpenAI key must never be sent to a third-party server
+    expect(requests[0].headers.authorization).toBe('Bearer not-needed');
+  });
+});
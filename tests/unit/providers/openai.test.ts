@@ -56,7 +56,8 @@ describe('OpenAIProvider', () => {
     } as any);
 
     expect(createChatSpy).toHaveBeenCalledWith(
-      expect.objectContaining({ model: 'gpt-4', messages: expect.any(Array) })
+      expect.objectContaining({ model: 'gpt-4', messages: expect.any(Array) }),
+      expect.any(Object)
     );
 
     expect(res).toEqual({
@@ -73,6 +74,25 @@ describe('OpenAIProvider', () => {
     });
   });
 
+  it('should forward the abort signal as a request option', async () => {
+    createChatSpy.mockResolvedValueOnce({
+      id: 'resp_signal',
+      model: 'gpt-4',
+      choices: [],
+    });
+    const controller = new AbortController();
+
+    await provider.chatCompletion({
+      model: 'gpt-4',
+      messages: [{ role: 'user', content: 'Hello' }],
+      signal: controller.signal,
+    });
+
+    const [body, requestOptions] = createChatSpy.mock.calls[0];
+    expect(body).not.toHaveProperty('signal');
+    expect(requestOptions).toEqual({ signal: controller.signal });
+  });
+
   it('should include structured response format when responseFormat.type === "json_schema"', async () => {
     createChatSpy.mockResolvedValueOnce({
       id: 'resp_struct',
@@ -102,7 +122,8 @@ describe('OpenAIProvider', () => {
           type: 'json_schema',
           json_schema: expect.any(Object),
         },
-      })
+      }),
+      expect.any(Object)
     );
   });
 
@@ -178,4 +199,372 @@ describe('OpenAIProvider', () => {
       } as any)
     ).rejects.toThrow('Network error');
   });
+
+  describe('streamChatCompletion', () => {
+    async function* fakeStream(chunks: any[]) {
+      for (const chunk of chunks) yield chunk;
+    }
+
+    it('should request a stream with usage and normalise delta chunks', async () => {
+      createChatSpy.mockResolvedValueOnce(
+        fakeStream([
+          {
+            id: 'chunk1',
+            model: 'gpt-4',
+            choices: [
+              {
+                index: 0,
+                delta: { role: 'assistant', content: 'Hel' },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            id: 'chunk1',
+            model: 'gpt-4',
+            choices: [
+              { index: 0, delta: { content: 'lo' }, finish_reason: 'stop' },
+            ],
+          },
+          {
+            id: 'chunk1',
+            model: 'gpt-4',
+            choices: [],
+            usage: { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 },
+          },
+        ])
+      );
+
+      const chunks = [];
+      for await (const chunk of provider.streamChatCompletion({
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'Hello' }],
+      } as any)) {
+        chunks.push(chunk);
+      }
+
+      expect(createChatSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+        expect.any(Object)
+      );
+      expect(chunks.map(c => c.choices[0]?.delta.content).join('')).toBe(
+        'Hello'
+      );
+      expect(chunks[0].choices[0].delta.role).toBe('assistant');
+      expect(chunks[1].choices[0].finish_reason).toBe('stop');
+      expect(chunks[2].usage).toEqual({
+        prompt_tokens: 1,
+        completion_tokens: 2,
+        total_tokens: 3,
+      });
+    });
+
+    it('should assemble streamed tool call fragments into delta.toolCalls', async () => {
+      createChatSpy.mockResolvedValueOnce(
+        fakeStream([
+          {
+            id: 'chunk2',
+            model: 'gpt-4',
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  role: 'assistant',
+                  content: null,
+                  tool_calls: [
+                    {
+                      index: 0,
+                      id: 'call_1',
+                      type: 'function',
+                      function: { name: 'get_weather', arguments: '' },
+                    },
+                  ],
+                },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            id: 'chunk2',
+            model: 'gpt-4',
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  tool_calls: [
+                    { index: 0, function: { arguments: '{"city":' } },
+                  ],
+                },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            id: 'chunk2',
+            model: 'gpt-4',
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  tool_calls: [
+                    { index: 0, function: { arguments: '"Oslo"}' } },
+                  ],
+                },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            id: 'chunk2',
+            model: 'gpt-4',
+            choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }],
+          },
+        ])
+      );
+
+      const chunks = [];
+      for await (const chunk of provider.streamChatCompletion({
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'Weather in Oslo?' }],
+        tools: [{ name: 'get_weather', parameters: { type: 'object' } }],
+      } as any)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.slice(0, 3).map(c => c.choices[0].delta.toolCalls)).toEqual(
+        [undefined, undefined, undefined]
+      );
+      expect(chunks[3].choices[0]).toEqual({
+        delta: {
+          toolCalls: [
+            { id: 'call_1', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+          ],
+        },
+        finish_reason: 'tool_calls',
+        index: 0,
+      });
+    });
+
+    it('should normalise errors raised while opening the stream', async () => {
+      createChatSpy.mockRejectedValueOnce({
+        message: 'Rate limit',
+        status: 429,
+      });
+
+      const stream = provider.streamChatCompletion({
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'hi' }],
+      } as any);
+
+      await expect(stream.next()).rejects.toMatchObject({
+        reason: 'rate-limit',
+        retryable: true,
+      });
+    });
+  });
+
+  describe('tool calling', () => {
+    const weatherTool = {
+      name: 'get_weather',
+      description: 'Weather lookup',
+      parameters: { type: 'object', properties: { city: { type: 'string' } } },
+    };
+
+    it('should translate tools and toolChoice into OpenAI fields', async () => {
+      createChatSpy.mockResolvedValueOnce({
+        id: 'resp_tools',
+        model: 'gpt-4',
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_1',
+                  type: 'function',
+                  function: {
+                    name: 'get_weather',
+                    arguments: '{"city":"Oslo"}',
+                  },
+                },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+      });
+
+      const res = await provider.chatCompletion({
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'Weather in Oslo?' }],
+        tools: [weatherTool],
+        toolChoice: { name: 'get_weather' },
+      } as any);
+
+      const request = createChatSpy.mock.calls[0][0];
+      expect(request.tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'get_weather',
+            description: 'Weather lookup',
+            parameters: weatherTool.parameters,
+          },
+        },
+      ]);
+      expect(request.tool_choice).toEqual({
+        type: 'function',
+        function: { name: 'get_weather' },
+      });
+      expect(request).not.toHaveProperty('toolChoice');
+      expect(res.choices[0].message.toolCalls).toEqual([
+        { id: 'call_1', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+      ]);
+    });
+
+    it('should send assistant tool calls and tool results from history', async () => {
+      createChatSpy.mockResolvedValueOnce({
+        id: 'resp_followup',
+        model: 'gpt-4',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Sunny' },
+            finish_reason: 'stop',
+          },
+        ],
+      });
+
+      await provider.chatCompletion({
+        model: 'gpt-4',
+        messages: [
+          { role: 'user', content: 'Weather in Oslo?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+              {
+                id: 'call_1',
+                name: 'get_weather',
+                arguments: '{"city":"Oslo"}',
+              },
+            ],
+          },
+          { role: 'tool', toolCallId: 'call_1', content: '{"sky":"clear"}' },
+        ],
+      } as any);
+
+      expect(createChatSpy.mock.calls[0][0].messages).toEqual([
+        { role: 'user', content: 'Weather in Oslo?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'get_weather', arguments: '{"city":"Oslo"}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"sky":"clear"}' },
+      ]);
+    });
+  });
+
+  describe('multimodal content', () => {
+    const reply = {
+      id: 'resp_mm',
+      model: 'gpt-4o',
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'A cat' },
+          finish_reason: 'stop',
+        },
+      ],
+    };
+
+    it('should translate parts into image_url, file and input_audio parts', async () => {
+      createChatSpy.mockResolvedValueOnce(reply);
+
+      await provider.chatCompletion({
+        model: 'gpt-4o',
+        messages: [
+          {
+            role: 'system',
+            content: [{ type: 'text', text: 'Describe images' }],
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image', url: 'https://x.test/cat.png', detail: 'low' },
+              { type: 'image', data: 'aW1n', mimeType: 'image/png' },
+              {
+                type: 'file',
+                data: 'cGRm',
+                mimeType: 'application/pdf',
+                filename: 'a.pdf',
+              },
+              { type: 'audio', data: 'YXVk', mimeType: 'audio/mpeg' },
+            ],
+          },
+        ],
+      });
+
+      expect(createChatSpy.mock.calls[0][0].messages).toEqual([
+        { role: 'system', content: 'Describe images' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            {
+              type: 'image_url',
+              image_url: { url: 'https://x.test/cat.png', detail: 'low' },
+            },
+            {
+              type: 'image_url',
+              image_url: { url: 'data:image/png;base64,aW1n' },
+            },
+            {
+              type: 'file',
+              file: {
+                file_data: 'data:application/pdf;base64,cGRm',
+                filename: 'a.pdf',
+              },
+            },
+            {
+              type: 'input_audio',
+              input_audio: { data: 'YXVk', format: 'mp3' },
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should reject file URLs with a non-retryable error', async () => {
+      await expect(
+        provider.chatCompletion({
+          model: 'gpt-4o',
+          messages: [
+            {
+              role: 'user',
+              content: [{ type: 'file', url: 'https://x.test/a.pdf' }],
+            },
+          ],
+        })
+      ).rejects.toMatchObject({
+        name: 'ProviderError',
+        retryable: false,
+        code: 'unsupported-content',
+      });
+      expect(createChatSpy).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  registerProvider,
+  getProviderRegistration,
+  getRegisteredProviderTypes,
+} from '../../../src/providers/registry';
+import { buildProviderParams } from '../../../src/shared/utils/normalizeParameters';
+import { validateConfig } from '../../../src/validation/index';
+import { ConfigurationError } from '../../../src/config/types';
+import { testConfigs } from '../../fixtures/test-utils';
+import { Promptuna } from '../../../src/Promptuna';
+import { chatResponse, testConfig } from '../../helpers/promptuna';
+
+const stubProvider = { chatCompletion: vi.fn() };
+
+function configWithProviderType(type: string, parameters?: any) {
+  return {
+    ...testConfigs.valid,
+    providers: { internal: { type } },
+    prompts: {
+      greeting: {
+        ...testConfigs.valid.prompts.greeting,
+        variants: {
+          v_default: {
+            ...testConfigs.valid.prompts.greeting.variants.v_default,
+            provider: 'internal',
+            parameters,
+          },
+        },
+      },
+    },
+  };
+}
+
+describe('provider registry', () => {
+  it('includes the built-in provider types', () => {
+    expect(getRegisteredProviderTypes()).toEqual(
+      expect.arrayContaining(['openai', 'anthropic', 'google'])
+    );
+  });
+
+  it('built-in factories require their API keys', () => {
+    expect(() =>
+      getProviderRegistration('openai')!.factory({
+        runtimeConfig: { configPath: 'x.json' },
+        providerId: 'openai',
+        providerConfig: { type: 'openai' },
+      })
+    ).toThrow('OpenAI API key not provided in configuration');
+  });
+
+  it('prefers per-provider keys from apiKeys', () => {
+    const provider = getProviderRegistration('anthropic')!.factory({
+      runtimeConfig: {
+        configPath: 'x.json',
+        apiKeys: { claude_eu: 'eu-key' },
+      },
+      providerId: 'claude_eu',
+      providerConfig: { type: 'anthropic' },
+    });
+    expect((provider as any).apiKey).toBe('eu-key');
+  });
+
+  it('requires baseURL for openai-compatible providers', () => {
+    const config = configWithProviderType('openai-compatible');
+    expect(() => validateConfig(config)).toThrow(
+      'Provider type validation failed'
+    );
+
+    config.providers.internal = {
+      type: 'openai-compatible',
+      config: { baseURL: 'http://localhost:11434/v1' },
+    } as any;
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  it('accepts a bare factory and passes canonical parameters through', () => {
+    const factory = vi.fn(() => stubProvider);
+    registerProvider('passthrough_llm', factory);
+
+    expect(getProviderRegistration('passthrough_llm')?.factory).toBe(factory);
+    expect(
+      buildProviderParams('passthrough_llm', { temperature: 0.5, top_p: 0.9 })
+    ).toEqual({ temperature: 0.5, top_p: 0.9 });
+  });
+
+  it('applies custom parameter mapping rules', () => {
+    registerProvider('mapped_llm', {
+      factory: () => stubProvider,
+      parameters: {
+        max_tokens: { param: 'maxNewTokens', max: 512 },
+        temperature: false,
+      },
+    });
+
+    expect(
+      buildProviderParams('mapped_llm', { max_tokens: 2048, temperature: 0.2 })
+    ).toEqual({ maxNewTokens: 512 });
+  });
+
+  it('rejects invalid type names', () => {
+    expect(() => registerProvider('bad type', () => stubProvider)).toThrow(
+      'Invalid provider type'
+    );
+  });
+
+  describe('config validation', () => {
+    it('rejects unregistered provider types', () => {
+      try {
+        validateConfig(configWithProviderType('not_registered'));
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigurationError);
+        expect((error as ConfigurationError).message).toBe(
+          'Provider type validation failed'
+        );
+      }
+    });
+
+    it('accepts registered provider types', () => {
+      registerProvider('validated_llm', () => stubProvider);
+      const config = configWithProviderType('validated_llm');
+      expect(validateConfig(config)).toEqual(config);
+    });
+
+    it('enforces required parameters declared by the registration', () => {
+      registerProvider('strict_llm', {
+        factory: () => stubProvider,
+        requiredParameters: ['max_tokens'],
+      });
+
+      expect(() =>
+        validateConfig(configWithProviderType('strict_llm', {}))
+      ).toThrow('Required parameter validation failed');
+      expect(() =>
+        validateConfig(configWithProviderType('strict_llm', { max_tokens: 5 }))
+      ).not.toThrow();
+    });
+  });
+});
+
+describe('Promptuna with custom providers', () => {
+  it('creates providers through the registry', async () => {
+    const chatCompletion = vi.fn().mockResolvedValue(
+      chatResponse('Hi from in-house', {
+        id: 'custom-1',
+        model: 'in-house-7b',
+      })
+    );
+    const factory = vi.fn(() => ({ chatCompletion }));
+    registerProvider('in_house', factory);
+
+    const config = testConfig();
+    config.providers.openai_gpt4 = { type: 'in_house' };
+    const promptuna = new Promptuna({ config });
+
+    const res = await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice' },
+    });
+
+    expect(res.choices[0].message.content).toBe('Hi from in-house');
+    expect(factory).toHaveBeenCalledWith({
+      runtimeConfig: expect.objectContaining({ config }),
+      providerId: 'openai_gpt4',
+      providerConfig: { type: 'in_house' },
+    });
+    // Unknown parameters are passed through under their canonical names
+    expect(chatCompletion).toHaveBeenCalledWith(
+      expect.objectContaining({ temperature: 0.7, max_tokens: 100 })
+    );
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseStructuredResponse,
+  validateStructuredContent,
+} from '../../../src/responses/structured';
+import { SchemaValidationError } from '../../../src/errors';
+import { Promptuna } from '../../../src/Promptuna';
+import type { PromptunaConfig } from '../../../src/config/types';
+import type { ResponseFormat } from '../../../src/responses/types';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+const schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+  },
+  required: ['name', 'email'],
+  additionalProperties: false,
+};
+
+const reply = (content: string, total = 10) => ({
+  id: 'resp',
+  model: 'gpt-4',
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant' as const, content },
+      finish_reason: 'stop',
+    },
+  ],
+  usage: {
+    prompt_tokens: total - 2,
+    completion_tokens: 2,
+    total_tokens: total,
+  },
+});
+
+describe('structured output', () => {
+  describe('validateStructuredContent', () => {
+    it('should return the parsed value for valid output', () => {
+      expect(
+        validateStructuredContent('{"name":"Ann","email":"ann@x.io"}', schema)
+      ).toEqual({ valid: true, parsed: { name: 'Ann', email: 'ann@x.io' } });
+    });
+
+    it('should report schema and format violations', () => {
+      const result = validateStructuredContent(
+        '{"name":1,"email":"nope"}',
+        schema
+      );
+      expect(result.valid).toBe(false);
+      expect((result as any).errors).toEqual([
+        '/name must be string',
+        '/email must match format "email"',
+      ]);
+    });
+
+    it('should report output that is not JSON', () => {
+      const result = validateStructuredContent('Sure! Here you go', schema);
+      expect((result as any).errors[0]).toMatch(/^not valid JSON/);
+    });
+  });
+
+  describe('parseStructuredResponse', () => {
+    const responseFormat = {
+      type: 'json_schema' as const,
+      schemaRef: 'user_profile',
+    };
+
+    it('should attach parsed output without calling repair', async () => {
+      const repair = vi.fn();
+      const result = await parseStructuredResponse(
+        reply('{"name":"Ann","email":"ann@x.io"}'),
+        { schema, responseFormat, repair }
+      );
+
+      expect(result.parsed).toEqual({ name: 'Ann', email: 'ann@x.io' });
+      expect(repair).not.toHaveBeenCalled();
+    });
+
+    it('should throw a non-retryable SchemaValidationError by default', async () => {
+      const error = await parseStructuredResponse(reply('{"name":"Ann"}'), {
+        schema,
+        responseFormat,
+        repair: vi.fn(),
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error).toMatchObject({
+        reason: 'invalid-output',
+        code: 'schema-violation',
+        retryable: false,
+        details: {
+          errors: ["/ must have required property 'email'"],
+          content: '{"name":"Ann"}',
+        },
+      });
+    });
+
+    it('should be retryable when onInvalid is fallback', async () => {
+      await expect(
+        parseStructuredResponse(reply('oops'), {
+          schema,
+          responseFormat: { ...responseFormat, onInvalid: 'fallback' },
+          repair: vi.fn(),
+        })
+      ).rejects.toMatchObject({ retryable: true });
+    });
+
+    it('should re-prompt with the errors and sum token usage', async () => {
+      const repair = vi
+        .fn()
+        .mockResolvedValueOnce(reply('{"name":"Ann","email":"ann@x.io"}', 20));
+
+      const result = await parseStructuredResponse(reply('{"name":"Ann"}'), {
+        schema,
+        responseFormat: { ...responseFormat, repairAttempts: 2 },
+        repair,
+      });
+
+      expect(result.parsed).toEqual({ name: 'Ann', email: 'ann@x.io' });
+      expect(result.usage?.total_tokens).toBe(30);
+
+      const [extraMessages] = repair.mock.calls[0];
+      expect(extraMessages).toEqual([
+        { role: 'assistant', content: '{"name":"Ann"}' },
+        {
+          role: 'user',
+          content: expect.stringContaining(
+            "- / must have required property 'email'"
+          ),
+        },
+      ]);
+    });
+
+    it('should give up after the configured repair attempts', async () => {
+      const repair = vi.fn().mockResolvedValue(reply('still wrong'));
+
+      await expect(
+        parseStructuredResponse(reply('wrong'), {
+          schema,
+          responseFormat: { ...responseFormat, repairAttempts: 2 },
+          repair,
+        })
+      ).rejects.toBeInstanceOf(SchemaValidationError);
+      expect(repair).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+describe('Promptuna structured output', () => {
+  const profile = { name: 'Alice', age: 30, email: 'alice@example.com' };
+
+  const structuredConfig = (
+    responseFormat: Partial<ResponseFormat> = {}
+  ): PromptunaConfig => {
+    const config = testConfig();
+    config.prompts.greeting.variants.v_default.responseFormat = {
+      type: 'json_schema',
+      schemaRef: 'user_profile',
+      ...responseFormat,
+    };
+    return config;
+  };
+
+  afterEach(restoreProviders);
+
+  it('returns the validated answer as parsed', async () => {
+    const promptuna = new Promptuna({ config: structuredConfig() });
+    stubProviders({
+      openai_gpt4: {
+        chatCompletion: vi
+          .fn()
+          .mockResolvedValue(chatResponse(JSON.stringify(profile))),
+      },
+    });
+
+    const response = await promptuna.chatCompletion<typeof profile>({
+      promptId: 'greeting',
+    });
+
+    expect(response.parsed).toEqual(profile);
+  });
+
+  it('rejects answers that violate the schema', async () => {
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({
+      config: structuredConfig(),
+      onObservability,
+    });
+    stubProviders({
+      openai_gpt4: {
+        chatCompletion: vi
+          .fn()
+          .mockResolvedValue(chatResponse('{"name":"Alice"}')),
+      },
+    });
+
+    const error = await promptuna
+      .chatCompletion({ promptId: 'greeting' })
+      .catch(e => e);
+
+    expect(error.details).toMatchObject({
+      errorType: 'SchemaValidationError',
+      errorCode: 'schema-violation',
+      providerDetails: { content: '{"name":"Alice"}' },
+    });
+    expect(onObservability.mock.calls[0][0].error).toMatchObject({
+      type: 'SchemaValidationError',
+      code: 'schema-violation',
+    });
+  });
+
+  it('repairs, then falls back to the next target', async () => {
+    const config = structuredConfig({
+      repairAttempts: 1,
+      onInvalid: 'fallback',
+    });
+    config.prompts.greeting.variants.v_default.fallback = [
+      { provider: 'anthropic_claude', model: 'claude-3-haiku' },
+    ];
+    const promptuna = new Promptuna({ config });
+    const openai = vi.fn().mockResolvedValue(chatResponse('not json'));
+    stubProviders({
+      openai_gpt4: { chatCompletion: openai },
+      anthropic_claude: {
+        chatCompletion: vi
+          .fn()
+          .mockResolvedValue(chatResponse(JSON.stringify(profile))),
+      },
+    });
+
+    const response = await promptuna.chatCompletion({ promptId: 'greeting' });
+
+    expect(openai).toHaveBeenCalledTimes(2);
+    expect(openai.mock.calls[1][0].messages.at(-1).content).toContain(
+      'did not match the required JSON schema'
+    );
+    expect(response.parsed).toEqual(profile);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { synthesizeFromSchema } from '../../../src/responses/synthesize';
+import { validateStructuredContent } from '../../../src/responses/structured';
+
+const conforms = (schema: object) => {
+  const value = synthesizeFromSchema(schema);
+  expect(validateStructuredContent(JSON.stringify(value), schema)).toEqual({
+    valid: true,
+    parsed: value,
+  });
+  return value;
+};
+
+describe('synthesizeFromSchema', () => {
+  it('builds objects with every property, using formats and names', () => {
+    expect(
+      conforms({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          age: { type: 'integer', minimum: 18 },
+          email: { type: 'string', format: 'email' },
+          tags: { type: 'array', items: { type: 'string' }, minItems: 2 },
+          active: { type: 'boolean' },
+        },
+        required: ['name', 'age', 'email'],
+        additionalProperties: false,
+      })
+    ).toEqual({
+      name: 'name',
+      age: 18,
+      email: 'user@example.com',
+      tags: ['string', 'string'],
+      active: true,
+    });
+  });
+
+  it('honours enum, const, bounds and string lengths', () => {
+    expect(
+      conforms({
+        type: 'object',
+        properties: {
+          label: { enum: ['spam', 'ham'] },
+          kind: { const: 'email' },
+          score: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+          code: { type: 'string', minLength: 6, maxLength: 6 },
+          count: { type: 'integer', minimum: 1, multipleOf: 5 },
+        },
+      })
+    ).toEqual({
+      label: 'spam',
+      kind: 'email',
+      score: 0.5,
+      code: 'codexx',
+      count: 5,
+    });
+  });
+
+  it('follows local refs, unions and allOf', () => {
+    expect(
+      conforms({
+        $defs: {
+          address: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+            required: ['city'],
+          },
+        },
+        allOf: [
+          {
+            type: 'object',
+            properties: { home: { $ref: '#/$defs/address' } },
+            required: ['home'],
+          },
+          {
+            type: 'object',
+            properties: {
+              note: { anyOf: [{ type: 'null' }, { type: 'string' }] },
+            },
+          },
+        ],
+      })
+    ).toEqual({ home: { city: 'city' }, note: null });
+  });
+
+  it('stops optional recursion', () => {
+    const value = conforms({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        children: { type: 'array', items: { $ref: '#' } },
+      },
+      required: ['name'],
+    });
+
+    let depth = 0;
+    for (
+      let node: any = value;
+      node.children?.length;
+      node = node.children[0]
+    ) {
+      depth++;
+    }
+    expect(depth).toBeGreaterThan(0);
+    expect(depth).toBeLessThan(10);
+  });
+});
@@ -258,6 +258,32 @@ describe('Variant Selector', () => {
   });
 
   describe('Priority Order', () => {
+    it('should let a pinned variant bypass every routing rule', () => {
+      const params: VariantSelectorParams = {
+        prompt: testConfigs.complexRouting.prompts.complex_prompt,
+        promptId: 'complex_prompt',
+        userId: testUsers.premium.userId,
+        tags: testUsers.premium.tags,
+        variantId: 'v_experimental',
+      };
+
+      const result = selectVariant(params);
+
+      testAssertions.expectVariantSelected(result, 'v_experimental');
+      testAssertions.expectRoutingReason(result, 'pinned');
+      expect(result.weightPicked).toBeUndefined();
+    });
+
+    it('should reject an unknown pinned variant', () => {
+      expect(() =>
+        selectVariant({
+          prompt: testConfigs.complexRouting.prompts.complex_prompt,
+          promptId: 'complex_prompt',
+          variantId: 'v_missing',
+        })
+      ).toThrow("Variant 'v_missing' not found");
+    });
+
     it('should prioritize tag-based routing over phased rollouts', () => {
       vi.spyOn(Date, 'now').mockReturnValue(testTimes.withinPhase * 1000);
 
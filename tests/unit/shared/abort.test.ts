@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { createAttemptDeadline } from '../../../src/shared/utils/abort';
+import { ProviderError } from '../../../src/errors';
+import { Promptuna } from '../../../src/Promptuna';
+import type {
+  ChatCompletionOptions,
+  ChatCompletionResponse,
+} from '../../../src/providers/types';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+describe('createAttemptDeadline', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves with the operation result before the deadline', async () => {
+    const deadline = createAttemptDeadline(undefined, 1000);
+
+    await expect(deadline.run(Promise.resolve('ok'))).resolves.toBe('ok');
+    expect(deadline.signal.aborted).toBe(false);
+    deadline.dispose();
+  });
+
+  it('rejects with a retryable timeout error once the timeout elapses', async () => {
+    vi.useFakeTimers();
+    const deadline = createAttemptDeadline(undefined, 50);
+    const pending = deadline.run(new Promise(() => {}));
+
+    vi.advanceTimersByTime(50);
+
+    await expect(pending).rejects.toMatchObject({
+      reason: 'timeout',
+      retryable: true,
+      code: 'timeout',
+    });
+    expect(deadline.signal.aborted).toBe(true);
+  });
+
+  it('maps caller cancellation to a non-retryable error', async () => {
+    const controller = new AbortController();
+    const deadline = createAttemptDeadline(controller.signal);
+    const pending = deadline.run(new Promise(() => {}));
+
+    controller.abort();
+
+    const error = await pending.catch(e => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ retryable: false, code: 'aborted' });
+  });
+
+  it('rejects immediately when the caller signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const deadline = createAttemptDeadline(controller.signal, 1000);
+
+    expect(deadline.signal.aborted).toBe(true);
+    await expect(deadline.run(Promise.resolve('late'))).rejects.toMatchObject({
+      code: 'aborted',
+    });
+  });
+
+  it('passes through unrelated errors unchanged', async () => {
+    const deadline = createAttemptDeadline(undefined, 1000);
+    const boom = new ProviderError('rate-limit', '429', true);
+
+    await expect(deadline.run(Promise.reject(boom))).rejects.toBe(boom);
+    deadline.dispose();
+  });
+});
+
+describe('Promptuna timeouts and cancellation', () => {
+  // Never settles on its own – only rejects when the signal aborts
+  const hangUntilAborted = vi.fn(
+    ({ signal }: ChatCompletionOptions) =>
+      new Promise<ChatCompletionResponse>((_resolve, reject) => {
+        signal?.addEventListener('abort', () =>
+          reject(new Error('socket closed'))
+        );
+      })
+  );
+
+  const withFallback = () => {
+    const config = testConfig();
+    config.prompts.greeting.variants.v_default.fallback = [
+      { provider: 'anthropic_claude', model: 'claude-3-haiku' },
+    ];
+    return config;
+  };
+
+  afterEach(restoreProviders);
+
+  it('falls through to the next target when an attempt times out', async () => {
+    const onObservability = vi.fn();
+    const promptuna = new Promptuna({
+      config: withFallback(),
+      onObservability,
+    });
+    stubProviders({
+      openai_gpt4: { chatCompletion: hangUntilAborted },
+      anthropic_claude: {
+        chatCompletion: vi
+          .fn()
+          .mockResolvedValue(chatResponse('Hi', { model: 'claude-3-haiku' })),
+      },
+    });
+
+    const res = await promptuna.chatCompletion({
+      promptId: 'greeting',
+      timeoutMs: 20,
+    });
+
+    expect(res.id).toBe('resp-1');
+    expect(hangUntilAborted).toHaveBeenCalledWith(
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(onObservability.mock.calls[0][0]).toMatchObject({
+      success: true,
+      provider: 'anthropic',
+      fallbacks: [{ provider: 'openai', model: 'gpt-4', reason: 'timeout' }],
+    });
+  });
+
+  it('uses the variant timeout when none is passed', async () => {
+    const config = testConfig();
+    config.prompts.greeting.variants.v_default.timeoutMs = 20;
+    const promptuna = new Promptuna({ config });
+    stubProviders({ openai_gpt4: { chatCompletion: hangUntilAborted } });
+
+    await expect(
+      promptuna.chatCompletion({ promptId: 'greeting' })
+    ).rejects.toThrow('Request timed out after 20ms');
+  });
+
+  it('stops without trying fallbacks when the caller aborts', async () => {
+    const promptuna = new Promptuna({ config: withFallback() });
+    const fallback = vi.fn().mockResolvedValue(chatResponse('Hi'));
+    stubProviders({
+      openai_gpt4: { chatCompletion: hangUntilAborted },
+      anthropic_claude: { chatCompletion: fallback },
+    });
+
+    const controller = new AbortController();
+    const pending = promptuna.chatCompletion({
+      promptId: 'greeting',
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).rejects.toMatchObject({
+      details: expect.objectContaining({ errorCode: 'aborted' }),
+    });
+    expect(fallback).not.toHaveBeenCalled();
+  });
+});
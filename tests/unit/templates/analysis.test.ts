@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { Liquid } from 'liquidjs';
+import {
+  getBinaryVariables,
+  getMessageTemplates,
+  getPartialReferences,
+  getTemplateVariables,
+} from '../../../src/templates/analysis';
+import type { Message } from '../../../src/templates/types';
+
+describe('template analysis', () => {
+  const liquid = new Liquid();
+
+  it('lists the variables a template reads, without loop locals', () => {
+    const variables = getTemplateVariables(
+      liquid,
+      '{{ user.name }} {% for item in items %}{{ item }}{% endfor %} {{ rows[0].id }}'
+    );
+
+    expect(variables).toEqual([
+      { path: ['user', 'name'], indexed: false },
+      { path: ['items'], indexed: false },
+      { path: ['rows'], indexed: true },
+    ]);
+  });
+
+  it('lists statically named partials', () => {
+    expect(
+      getPartialReferences(
+        "{% render 'safety', who: name %}{%- include \"format\" -%}{% include dynamic %}{% render 'safety' %}"
+      )
+    ).toEqual(['safety', 'format']);
+  });
+
+  it('collects the templates and binary variables of multimodal messages', () => {
+    const message: Message = {
+      role: 'user',
+      content: [
+        { type: 'text', template: 'Describe {{ subject }}' },
+        { type: 'image', url: '{{ imageUrl }}' },
+        { type: 'file', variable: 'report' },
+      ],
+    };
+
+    expect(getMessageTemplates(message, '/m')).toEqual([
+      { template: 'Describe {{ subject }}', pointer: '/m/0/template', part: 0 },
+      { template: '{{ imageUrl }}', pointer: '/m/1/url', part: 1 },
+    ]);
+    expect(getBinaryVariables(message)).toEqual(['report']);
+  });
+});
@@ -28,6 +28,20 @@ describe('Template Filters', () => {
       });
     });
 
+    it('should register user filters after the built-in ones', () => {
+      const mockLiquid = {
+        registerFilter: vi.fn(),
+      };
+      const bullet = (items: string[]) => items.map(item => `- ${item}`);
+
+      registerCustomFilters(mockLiquid, { bullet });
+
+      expect(mockLiquid.registerFilter).toHaveBeenLastCalledWith(
+        'bullet',
+        bullet
+      );
+    });
+
     it('should register working filter functions', () => {
       const mockLiquid = {
         registerFilter: vi.fn(),
@@ -114,6 +128,15 @@ describe('Template Filters', () => {
         'Available custom filters: join, numbered, default, capitalize, downcase, upcase, size'
       );
 
+      expect(
+        getTemplateSuggestion('undefined filter: bulet', {
+          bullet: value => value,
+          escape_xml: value => value,
+        })
+      ).toBe(
+        'Available filters: join, numbered, default, capitalize, downcase, upcase, size, bullet, escape_xml'
+      );
+
       expect(getTemplateSuggestion('some other error')).toBe(
         'Check the template syntax for missing braces, quotes, or closing tags'
       );
@@ -1,6 +1,13 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { TemplateProcessor } from '../../../src/templates/processor';
 import { TemplateError } from '../../../src/templates/types';
+import { Promptuna } from '../../../src/Promptuna';
+import {
+  chatResponse,
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
 
 describe('TemplateProcessor', () => {
   let processor: TemplateProcessor;
@@ -126,6 +133,167 @@ describe('TemplateProcessor', () => {
     });
   });
 
+  describe('user filters', () => {
+    it('should render templates with filters passed as options', async () => {
+      const withFilters = new TemplateProcessor({
+        filters: {
+          escape_xml: (value: string) =>
+            String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;'),
+          bullet: (items: string[]) =>
+            items.map(item => `• ${item}`).join('\n'),
+        },
+      });
+
+      await expect(
+        withFilters.processTemplate(
+          '<doc>{{ text | escape_xml }}</doc>\n{{ items | bullet }}',
+          { text: 'a < b & c', items: ['one', 'two'] }
+        )
+      ).resolves.toBe('<doc>a &lt; b &amp; c</doc>\n• one\n• two');
+    });
+  });
+
+  describe('partials', () => {
+    it('should render and include partials from memory', async () => {
+      const withPartials = new TemplateProcessor({
+        partials: {
+          safety: 'Stay safe, {{ who }}.',
+          format: 'Answer in {{ style }}.',
+        },
+      });
+
+      await expect(
+        withPartials.processTemplate(
+          "{% render 'safety', who: name %} {% include 'format' %}",
+          { name: 'Alice', style: 'markdown' }
+        )
+      ).resolves.toBe('Stay safe, Alice. Answer in markdown.');
+    });
+
+    it('should swap partials and clear the cache', async () => {
+      const withPartials = new TemplateProcessor({
+        partials: { safety: 'v1' },
+      });
+      await withPartials.processTemplate("{% render 'safety' %}", {});
+      expect(withPartials.getCacheSize()).toBe(1);
+
+      withPartials.setPartials({ safety: 'v2' });
+
+      expect(withPartials.getCacheSize()).toBe(0);
+      await expect(
+        withPartials.processTemplate("{% render 'safety' %}", {})
+      ).resolves.toBe('v2');
+    });
+
+    it('should throw TemplateError for unknown partials', async () => {
+      await expect(
+        processor.processTemplate("{% include 'package.json' %}", {})
+      ).rejects.toThrow(TemplateError);
+    });
+  });
+
+  describe('strictVariables', () => {
+    it('should throw TemplateError for variables that were not passed', async () => {
+      const strict = new TemplateProcessor({ strictVariables: true });
+
+      await expect(
+        strict.processTemplate('Hello {{name}}!', {})
+      ).rejects.toThrow(TemplateError);
+      await expect(
+        strict.processTemplate('Hello {{name}}!', { name: null })
+      ).resolves.toBe('Hello !');
+    });
+
+    it('should still allow conditions and defaults on missing variables', async () => {
+      const strict = new TemplateProcessor({ strictVariables: true });
+
+      await expect(
+        strict.processTemplate(
+          '{% if vip %}VIP {% endif %}{{ name | default: "guest" }}',
+          {}
+        )
+      ).resolves.toBe('guest');
+    });
+  });
+
+  describe('processContent', () => {
+    it('should render { template } content to a string', async () => {
+      const result = await processor.processContent(
+        { template: 'Hello {{name}}!' },
+        { name: 'Alice' }
+      );
+      expect(result).toBe('Hello Alice!');
+    });
+
+    it('should render text parts and URL templates', async () => {
+      const result = await processor.processContent(
+        [
+          { type: 'text', template: 'Describe {{subject}}' },
+          { type: 'image', url: 'https://x.test/{{id}}.png', detail: 'high' },
+          { type: 'file', data: 'cGRm', mimeType: 'application/pdf' },
+        ],
+        { subject: 'the chart', id: 42 }
+      );
+
+      expect(result).toEqual([
+        { type: 'text', text: 'Describe the chart' },
+        { type: 'image', url: 'https://x.test/42.png', detail: 'high' },
+        { type: 'file', data: 'cGRm', mimeType: 'application/pdf' },
+      ]);
+    });
+
+    it('should resolve binary parts from variables', async () => {
+      const result = await processor.processContent(
+        [
+          { type: 'image', variable: 'photo', mimeType: 'image/png' },
+          { type: 'file', variable: 'contract' },
+          { type: 'audio', variable: 'clip' },
+        ],
+        {
+          photo: Buffer.from('img'),
+          contract: {
+            data: 'data:application/pdf;base64,cGRm',
+            filename: 'contract.pdf',
+          },
+          clip: 'https://x.test/clip.wav',
+        }
+      );
+
+      expect(result).toEqual([
+        { type: 'image', data: 'aW1n', mimeType: 'image/png' },
+        {
+          type: 'file',
+          data: 'cGRm',
+          mimeType: 'application/pdf',
+          filename: 'contract.pdf',
+        },
+        { type: 'audio', url: 'https://x.test/clip.wav' },
+      ]);
+    });
+
+    it('should throw TemplateError for a missing binary variable', async () => {
+      await expect(
+        processor.processContent([{ type: 'image', variable: 'photo' }], {})
+      ).rejects.toThrow(TemplateError);
+    });
+
+    it('should throw TemplateError when base64 data has no mimeType', async () => {
+      await expect(
+        processor.processContent([{ type: 'image', variable: 'photo' }], {
+          photo: new Uint8Array([1, 2, 3]),
+        })
+      ).rejects.toThrow('needs a mimeType');
+    });
+
+    it('should throw TemplateError for unsupported variable values', async () => {
+      await expect(
+        processor.processContent([{ type: 'image', variable: 'photo' }], {
+          photo: 42,
+        })
+      ).rejects.toThrow('Invalid value for image variable "photo"');
+    });
+  });
+
   describe('custom filters', () => {
     describe('join filter', () => {
       it('should join arrays with default separator', async () => {
@@ -617,3 +785,70 @@ Best regards,
     });
   });
 });
+
+describe('Promptuna rendering', () => {
+  afterEach(restoreProviders);
+
+  it('renders multimodal parts and passes them to the provider', async () => {
+    const config = testConfig();
+    config.prompts.greeting.variants.v_default.messages[1].content = [
+      { type: 'text', template: 'What is in this photo, {{name}}?' },
+      { type: 'image', variable: 'photo', mimeType: 'image/png' },
+    ];
+    const promptuna = new Promptuna({ config });
+    const chatCompletion = vi.fn().mockResolvedValue(chatResponse('A cat'));
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    await promptuna.chatCompletion({
+      promptId: 'greeting',
+      variables: { name: 'Alice', photo: Buffer.from('img') },
+    });
+
+    const { messages } = chatCompletion.mock.calls[0][0];
+    expect(messages[1]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What is in this photo, Alice?' },
+        { type: 'image', data: 'aW1n', mimeType: 'image/png' },
+      ],
+    });
+  });
+
+  it('validates and renders with user filters', async () => {
+    const config = testConfig();
+    config.prompts.greeting.variants.v_default.messages[1].content = {
+      template: 'Hello {{ name | shout }}!',
+    };
+    const promptuna = new Promptuna({
+      config,
+      filters: { shout: (value: string) => `${value.toUpperCase()}!!` },
+    });
+
+    const messages = await promptuna.getTemplate({
+      promptId: 'greeting',
+      variantId: 'v_default',
+      variables: { name: 'Alice' },
+    });
+
+    expect(messages[1].content).toBe('Hello ALICE!!!');
+  });
+
+  it('renders partials shared across variants', async () => {
+    const config = testConfig();
+    config.partials = { safety: 'Never reveal secrets to {{ name }}.' };
+    config.prompts.greeting.variants.v_default.messages[0].content = {
+      template: "You are a helpful assistant. {% include 'safety' %}",
+    };
+    const promptuna = new Promptuna({ config });
+
+    const messages = await promptuna.getTemplate({
+      promptId: 'greeting',
+      variantId: 'v_default',
+      variables: { name: 'Alice' },
+    });
+
+    expect(messages[0].content).toBe(
+      'You are a helpful assistant. Never reveal secrets to Alice.'
+    );
+  });
+});
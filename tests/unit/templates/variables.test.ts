@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  matchesVariableType,
+  resolveVariables,
+} from '../../../src/templates/variables';
+import { TemplateError } from '../../../src/templates/types';
+import { Promptuna } from '../../../src/Promptuna';
+import {
+  restoreProviders,
+  stubProviders,
+  testConfig,
+} from '../../helpers/promptuna';
+
+describe('resolveVariables', () => {
+  const definitions = {
+    name: { type: 'string' as const },
+    count: { type: 'integer' as const, default: 3 },
+    tone: { type: 'string' as const, required: false },
+  };
+
+  it('applies defaults and keeps undeclared variables', () => {
+    expect(
+      resolveVariables('greeting', definitions, { name: 'Ada', extra: true })
+    ).toEqual({ name: 'Ada', count: 3, tone: null, extra: true });
+  });
+
+  it('rejects missing required variables', () => {
+    expect(() => resolveVariables('greeting', definitions, {})).toThrow(
+      'Missing required variable "name" for prompt "greeting"'
+    );
+  });
+
+  it('rejects values of the wrong type', () => {
+    try {
+      resolveVariables('greeting', definitions, { name: 'Ada', count: 1.5 });
+      expect.fail('Expected resolveVariables to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TemplateError);
+      expect((error as TemplateError).message).toBe(
+        'Variable "count" for prompt "greeting" must be integer, got number'
+      );
+      expect((error as TemplateError).details).toMatchObject({
+        variable: 'count',
+        expected: 'integer',
+        received: 'number',
+      });
+    }
+  });
+});
+
+describe('matchesVariableType', () => {
+  it('checks every declared type', () => {
+    expect(matchesVariableType('x', 'string')).toBe(true);
+    expect(matchesVariableType(NaN, 'number')).toBe(false);
+    expect(matchesVariableType([], 'object')).toBe(false);
+    expect(matchesVariableType({}, 'object')).toBe(true);
+    expect(matchesVariableType([1], 'array')).toBe(true);
+    expect(matchesVariableType('https://x.test/a.png', 'binary')).toBe(true);
+    expect(matchesVariableType(42, 'binary')).toBe(false);
+    expect(
+      matchesVariableType(
+        { data: new Uint8Array([1]), mimeType: 'x' },
+        'binary'
+      )
+    ).toBe(true);
+    expect(matchesVariableType({ mimeType: 'image/png' }, 'binary')).toBe(
+      false
+    );
+    expect(matchesVariableType(undefined)).toBe(true);
+  });
+});
+
+describe('Promptuna declared variables', () => {
+  afterEach(restoreProviders);
+
+  it('applies defaults and rejects missing or mistyped variables', async () => {
+    const config = testConfig();
+    config.prompts.greeting.variables = {
+      name: { type: 'string', default: 'friend' },
+    };
+    let promptuna = new Promptuna({ config });
+    const chatCompletion = vi.fn();
+    stubProviders({ openai_gpt4: { chatCompletion } });
+
+    const messages = await promptuna.getTemplate({
+      promptId: 'greeting',
+      variantId: 'v_default',
+    });
+    expect(messages[1].content).toBe('Hello friend! How are you today?');
+
+    await expect(
+      promptuna.getTemplate({
+        promptId: 'greeting',
+        variantId: 'v_default',
+        variables: { name: 42 },
+      })
+    ).rejects.toMatchObject({
+      code: 'TEMPLATE_ERROR',
+      message:
+        'Variable "name" for prompt "greeting" must be string, got number',
+    });
+
+    config.prompts.greeting.variables.name = { type: 'string' };
+    promptuna = new Promptuna({ config });
+    await expect(
+      promptuna.chatCompletion({ promptId: 'greeting' })
+    ).rejects.toMatchObject({
+      details: {
+        errorType: 'TemplateError',
+        errorCode: 'TEMPLATE_ERROR',
+        originalError: 'Missing required variable "name" for prompt "greeting"',
+      },
+    });
+    expect(chatCompletion).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,106 @@
 import { expectTypeOf, describe, it } from 'vitest';
 import { Promptuna } from '../../../src/Promptuna';
 import type { ChatCompletionResponse } from '../../../src/providers/types';
+import type { BinaryInput } from '../../../src/content/types';
+
+// Shape emitted by promptuna-codegen
+interface Summary {
+  summary: string;
+}
+
+interface PromptunaGenerated {
+  prompts: {
+    greeting: {
+      variants: 'v_default' | 'v_short';
+      variables: { name: unknown; city?: unknown };
+      parsed: never;
+    };
+    summarise: {
+      variants: 'v_default';
+      variables: { photo: BinaryInput };
+      parsed: Summary;
+    };
+    static: {
+      variants: 'v_default';
+      variables: Record<string, never>;
+      parsed: never;
+    };
+  };
+}
 
 describe('Type-level tests for public SDK', () => {
   it('Promptuna.chatCompletion returns Promise<ChatCompletionResponse>', () => {
     type Ret = ReturnType<Promptuna['chatCompletion']>;
     expectTypeOf<Ret>().toEqualTypeOf<Promise<ChatCompletionResponse>>();
   });
+
+  it('untyped Promptuna accepts any prompt id and variables', () => {
+    type Params = Parameters<Promptuna['chatCompletion']>[0];
+    expectTypeOf<{
+      promptId: string;
+      variables: { anything: number };
+    }>().toMatchTypeOf<Params>();
+    expectTypeOf<{ promptId: string }>().toMatchTypeOf<Params>();
+  });
+
+  describe('Promptuna<PromptunaGenerated>', () => {
+    const client = {} as Promptuna<PromptunaGenerated>;
+    // Type-only assertions – the calls are never executed
+    const typeOnly = (_assertions: () => void) => undefined;
+
+    it('rejects unknown prompt and variant ids', () => {
+      typeOnly(() => {
+        // @ts-expect-error unknown prompt id
+        client.chatCompletion({ promptId: 'missing' });
+        client.chatCompletion({
+          promptId: 'greeting',
+          // @ts-expect-error unknown variant id
+          variantId: 'v_missing',
+          variables: { name: 'Ada' },
+        });
+      });
+    });
+
+    it('requires the variables a prompt references', () => {
+      typeOnly(() => {
+        // @ts-expect-error missing variables
+        client.chatCompletion({ promptId: 'greeting' });
+        // @ts-expect-error missing required variable
+        client.chatCompletion({ promptId: 'greeting', variables: {} });
+        client.chatCompletion({
+          promptId: 'greeting',
+          variables: { name: 'Ada', city: 'London' },
+        });
+        client.chatCompletion({ promptId: 'static' });
+        client.getTemplate({
+          promptId: 'greeting',
+          variantId: 'v_short',
+          variables: { name: 'Ada' },
+        });
+        client.streamChatCompletion({
+          promptId: 'summarise',
+          // @ts-expect-error binary variables need a BinaryInput
+          variables: { photo: 42 },
+        });
+      });
+    });
+
+    it('types parsed responses by prompt', () => {
+      typeOnly(async () => {
+        const response = await client.chatCompletion({
+          promptId: 'summarise',
+          variables: { photo: { data: 'aGk=', mimeType: 'image/png' } },
+        });
+        expectTypeOf(response.parsed).toEqualTypeOf<Summary | undefined>();
+
+        const overridden = await client.chatCompletion<{ id: number }>({
+          promptId: 'summarise',
+          variables: { photo: 'https://example.com/cat.png' },
+        });
+        expectTypeOf(overridden.parsed).toEqualTypeOf<
+          { id: number } | undefined
+        >();
+      });
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Liquid } from 'liquidjs';
 import {
   validateConfig,
   loadAndValidateConfig,
@@ -89,6 +90,378 @@ describe('Validation Module', () => {
     });
   });
 
+  describe('chains', () => {
+    const withChains = (chains: unknown[]) => {
+      const config = structuredClone(testConfigs.valid) as any;
+      config.prompts.summary = structuredClone(config.prompts.greeting);
+      config.prompts.greeting.chains = chains;
+      return config;
+    };
+
+    it('should accept steps that read earlier outputs', () => {
+      const config = withChains([
+        { prompt: 'summary', map: { text: 'greeting' } },
+        {
+          id: 'checks',
+          parallel: [
+            { id: 'a', prompt: 'summary', map: { text: 'summary' } },
+            { id: 'b', prompt: 'summary', variant: 'v_default' },
+          ],
+        },
+        {
+          id: 'final',
+          prompt: 'summary',
+          when: { path: 'checks.a', exists: true },
+        },
+      ]);
+
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    it('should report unknown prompts, forward references and duplicate ids', () => {
+      const config = withChains([
+        { prompt: 'missing' },
+        { prompt: 'summary', variant: 'v_missing', map: { text: 'later' } },
+        { prompt: 'summary' },
+        { id: 'later', prompt: 'summary' },
+      ]);
+
+      try {
+        validateConfig(config);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ConfigurationError).message).toBe(
+          'Chain validation failed'
+        );
+        const { errors } = (error as any).details;
+        expect(errors).toEqual([
+          expect.stringContaining('references prompt "missing"'),
+          expect.stringContaining('references variant "v_missing"'),
+          expect.stringContaining('no earlier step has id "later"'),
+          expect.stringContaining('stores its output as "summary"'),
+        ]);
+      }
+    });
+  });
+
+  describe('multimodal templates', () => {
+    it('should report syntax errors in text parts and URL templates', () => {
+      const config = structuredClone(testConfigs.valid) as any;
+      config.prompts.greeting.variants.v_default.messages[1].content = [
+        { type: 'text', template: 'Hello {{name}}' },
+        { type: 'image', url: 'https://x.test/{{ id' },
+      ];
+
+      try {
+        validateConfig(config);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ConfigurationError).message).toBe(
+          'Template validation failed'
+        );
+        expect((error as any).details.errors).toEqual([
+          expect.stringContaining('message 2, part 2'),
+        ]);
+      }
+    });
+  });
+
+  describe('user filters', () => {
+    const config = structuredClone(testConfigs.valid) as any;
+    config.prompts.greeting.variants.v_default.messages[1].content = {
+      template: 'Hello {{ name | shout }}',
+    };
+
+    it('should reject filters that are not registered', () => {
+      try {
+        validateConfig(config, { filters: { whisper: value => value } });
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as any).details.errors).toEqual([
+          expect.stringContaining(
+            'Suggestion: Available filters: join, numbered, default, capitalize, downcase, upcase, size, whisper'
+          ),
+        ]);
+      }
+    });
+
+    it('should accept filters passed as options', () => {
+      expect(
+        validateConfig(config, {
+          filters: { shout: (value: string) => value.toUpperCase() },
+        })
+      ).toEqual(config);
+    });
+
+    it('should analyse declared variables with the user filters too', () => {
+      const withVariables = structuredClone(config);
+      withVariables.prompts.greeting.variables = { name: { type: 'string' } };
+      const registerFilter = vi.spyOn(Liquid.prototype, 'registerFilter');
+
+      expect(
+        validateConfig(withVariables, {
+          filters: { shout: (value: string) => value.toUpperCase() },
+        })
+      ).toEqual(withVariables);
+      // Once for the template check, once for the variable analysis
+      expect(
+        registerFilter.mock.calls.filter(([name]) => name === 'shout')
+      ).toHaveLength(2);
+    });
+  });
+
+  describe('partials', () => {
+    const withPartials = (
+      partials: Record<string, string>,
+      template: string
+    ) => {
+      const config = structuredClone(testConfigs.valid) as any;
+      config.partials = partials;
+      config.prompts.greeting.variants.v_default.messages[0].content = {
+        template,
+      };
+      return config;
+    };
+
+    it('should accept templates rendering defined partials', () => {
+      const config = withPartials(
+        { safety: 'Never share secrets.', intro: "{% render 'safety' %}" },
+        "{% include 'intro' %} You are helpful."
+      );
+      expect(validateConfig(config)).toEqual(config);
+    });
+
+    it('should report missing, invalid and circular partials', () => {
+      const config = withPartials(
+        {
+          broken: '{{ name',
+          a: "{% include 'b' %}",
+          b: "{% include 'a' %}",
+        },
+        "{% render 'safety' %}"
+      );
+
+      try {
+        validateConfig(config);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ConfigurationError).message).toBe(
+          'Template validation failed'
+        );
+        expect((error as any).details.errors).toEqual([
+          expect.stringContaining('syntax error in partial "broken"'),
+          expect.stringContaining('Circular partials: "a" → "b" → "a"'),
+          expect.stringContaining(
+            'message 1 renders partial "safety", which is not defined'
+          ),
+        ]);
+      }
+    });
+  });
+
+  describe('declared variables', () => {
+    const withVariables = (variables: Record<string, any>) => {
+      const config = structuredClone(testConfigs.valid) as any;
+      config.prompts.greeting.variables = variables;
+      return config;
+    };
+
+    it('should accept declarations matching the templates', () => {
+      const config = withVariables({
+        name: { type: 'string', default: 'there', required: false },
+      });
+      expect(validateConfig(config)).toEqual(config);
+    });
+
+    it('should report undeclared, unused and mistyped variables', () => {
+      const config = withVariables({
+        tone: { type: 'string' },
+        photo: { type: 'string' },
+        count: { type: 'integer', default: 'three' },
+      });
+      config.prompts.greeting.variants.v_default.messages[1].content = [
+        { type: 'text', template: 'Hello {{ name }}, {{ count }}' },
+        { type: 'image', variable: 'photo' },
+      ];
+
+      try {
+        validateConfig(config);
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as ConfigurationError).message).toBe(
+          'Variable validation failed'
+        );
+        expect((error as any).details.errors).toEqual([
+          expect.stringContaining('uses "name", which is not declared'),
+          expect.stringContaining('"photo" for a binary part'),
+          expect.stringContaining('declares "tone"'),
+          expect.stringContaining('its default is string'),
+        ]);
+      }
+    });
+  });
+
+  describe('tool references', () => {
+    const withTools = (variantPatch: Record<string, any>, tools?: any) => ({
+      ...testConfigs.valid,
+      ...(tools && { tools }),
+      prompts: {
+        greeting: {
+          ...testConfigs.valid.prompts.greeting,
+          variants: {
+            v_default: {
+              ...testConfigs.valid.prompts.greeting.variants.v_default,
+              ...variantPatch,
+            },
+          },
+        },
+      },
+    });
+
+    const weather = { get_weather: { parameters: { type: 'object' } } };
+
+    it('should accept variants referencing declared tools', () => {
+      const config = withTools(
+        { tools: ['get_weather'], toolChoice: { name: 'get_weather' } },
+        weather
+      );
+      expect(validateConfig(config)).toEqual(config);
+    });
+
+    it('should reject references to undeclared tools', () => {
+      expect(() =>
+        validateConfig(withTools({ tools: ['search'] }, weather))
+      ).toThrow('Tool validation failed');
+    });
+
+    it('should reject a forced tool that the variant does not list', () => {
+      try {
+        validateConfig(
+          withTools(
+            { tools: ['get_weather'], toolChoice: { name: 'search' } },
+            weather
+          )
+        );
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as any).details.errors).toEqual([
+          expect.stringContaining('forces tool "search"'),
+        ]);
+      }
+    });
+  });
+
+  describe('rate limits', () => {
+    const withRateLimits = (rateLimits: unknown) => {
+      const config = structuredClone(testConfigs.valid) as any;
+      config.providers.openai_gpt4.config = { rateLimits };
+      return config;
+    };
+
+    it('should accept positive limits with model overrides', () => {
+      const config = withRateLimits({
+        rpm: 500,
+        maxQueueMs: 0,
+        models: { 'gpt-4': { tpm: 10_000, maxConcurrency: 2 } },
+      });
+      expect(validateConfig(config)).toEqual(config);
+    });
+
+    it('should reject invalid limit values', () => {
+      try {
+        validateConfig(
+          withRateLimits({ rpm: 0, models: { 'gpt-4': { tpm: '10k' } } })
+        );
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as any).message).toBe('Rate limit validation failed');
+        expect((error as any).details.errors).toEqual([
+          expect.stringContaining('"rpm" of provider "openai_gpt4"'),
+          expect.stringContaining(
+            '"tpm" of model "gpt-4" of provider "openai_gpt4"'
+          ),
+        ]);
+      }
+    });
+  });
+
+  describe('mock providers', () => {
+    const withMock = (mockConfig: unknown) => {
+      const config = structuredClone(testConfigs.valid) as any;
+      config.providers.openai_gpt4 = { type: 'mock', config: mockConfig };
+      return config;
+    };
+
+    it('should accept valid simulation settings', () => {
+      const config = withMock({
+        response: ['a', 'b'],
+        latencyMs: [10, 50],
+        errorRate: 0.1,
+        failures: ['rate-limit'],
+      });
+      expect(validateConfig(config)).toEqual(config);
+    });
+
+    it('should reject invalid settings at load time with their location', () => {
+      const locate = vi.fn((pointer: string) => ({
+        file: 'config.json',
+        line: pointer.endsWith('/errorRate') ? 7 : 9,
+      }));
+
+      try {
+        validateConfig(withMock({ errorRate: 2, failures: ['crash'] }), {
+          locate,
+        });
+        expect.fail('Expected validation to throw');
+      } catch (error) {
+        expect((error as any).message).toBe('Mock provider validation failed');
+        expect((error as any).details.errors).toEqual([
+          '❌ Invalid mock provider config: In provider "openai_gpt4", "errorRate" must be a number between 0 and 1. (config.json:7)',
+          expect.stringMatching(
+            /"openai_gpt4", unknown failures "crash" .*\(config\.json:9\)$/
+          ),
+        ]);
+      }
+      expect(locate).toHaveBeenCalledWith(
+        '/providers/openai_gpt4/config/failures'
+      );
+    });
+  });
+
+  describe('budget fallbacks', () => {
+    const withFallback = (budgetFallback: string) => {
+      const config = structuredClone(testConfigs.valid) as any;
+      const variants = config.prompts.greeting.variants;
+      variants.v_mini = { ...variants.v_default, default: false };
+      variants.v_default.budgetFallback = budgetFallback;
+      return config;
+    };
+
+    it('should accept another variant of the same prompt', () => {
+      const config = withFallback('v_mini');
+      expect(validateConfig(config)).toEqual(config);
+    });
+
+    it('should reject unknown and self-referencing fallbacks', () => {
+      for (const [fallback, message] of [
+        ['v_missing', 'falls back to "v_missing", which is not a variant'],
+        ['v_default', 'names itself as its "budgetFallback"'],
+      ]) {
+        try {
+          validateConfig(withFallback(fallback));
+          expect.fail('Expected validation to throw');
+        } catch (error) {
+          expect((error as any).message).toBe(
+            'Budget fallback validation failed'
+          );
+          expect((error as any).details.errors).toEqual([
+            expect.stringContaining(message),
+          ]);
+        }
+      }
+    });
+  });
+
   describe('loadAndValidateConfig', () => {
     it('should load and validate configuration from file', async () => {
       mockReadFile.mockResolvedValue(JSON.stringify(testConfigs.valid));
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFile } from 'fs/promises';
+
+import { loadConfigSource } from '../../../src/validation/sources';
+import { loadAndValidateConfig } from '../../../src/validation/index';
+
+const files: Record<string, string> = {};
+const mockReadFile = vi.mocked(readFile);
+
+/** Register an in-memory file, stripping the common indentation of the literal */
+const file = (path: string, text: string) => {
+  const lines = text.replace(/^\n/, '').split('\n');
+  const indent = Math.min(
+    ...lines.filter(l => l.trim()).map(l => l.match(/^ */)![0].length)
+  );
+  files[path] = lines.map(l => l.slice(indent)).join('\n');
+};
+
+beforeEach(() => {
+  for (const key of Object.keys(files)) delete files[key];
+  mockReadFile.mockImplementation((async (path: string) => {
+    if (path in files) return files[path];
+    throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+  }) as any);
+});
+
+describe('loadConfigSource', () => {
+  it('parses YAML configs', async () => {
+    file(
+      'config/promptuna.yaml',
+      `
+      version: 1.0.0
+      providers:
+        openai_gpt4:
+          type: openai
+      prompts: {}
+      `
+    );
+
+    const { config } = await loadConfigSource('config/promptuna.yaml');
+
+    expect(config).toEqual({
+      version: '1.0.0',
+      providers: { openai_gpt4: { type: 'openai' } },
+      prompts: {},
+    });
+  });
+
+  it('inlines $ref includes relative to the including file', async () => {
+    file(
+      'config/promptuna.yaml',
+      `
+      version: 1.0.0
+      providers:
+        $ref: ./providers.json
+      prompts:
+        greeting:
+          $ref: prompts/greeting.yaml
+          description: Overridden description
+      `
+    );
+    file('config/providers.json', '{ "openai_gpt4": { "type": "openai" } }');
+    file(
+      'config/prompts/greeting.yaml',
+      `
+      description: Greets the user
+      variants:
+        v_default:
+          default: true
+          provider: openai_gpt4
+          model: gpt-4
+          messages:
+            - role: user
+              content:
+                template:
+                  $ref: ../templates/greeting.liquid
+      `
+    );
+    file('config/templates/greeting.liquid', 'Hello {{ name }}!\n');
+
+    const { config, files: used } = await loadConfigSource(
+      'config/promptuna.yaml'
+    );
+
+    expect(config).toMatchObject({
+      providers: { openai_gpt4: { type: 'openai' } },
+      prompts: {
+        greeting: {
+          description: 'Overridden description',
+          variants: {
+            v_default: {
+              messages: [
+                { role: 'user', content: { template: 'Hello {{ name }}!\n' } },
+              ],
+            },
+          },
+        },
+      },
+    });
+    expect(used).toEqual([
+      'config/promptuna.yaml',
+      'config/providers.json',
+      'config/prompts/greeting.yaml',
+      'config/templates/greeting.liquid',
+    ]);
+  });
+
+  it('supports JSON pointer fragments and leaves schema refs alone', async () => {
+    file(
+      'promptuna.json',
+      JSON.stringify({
+        responseSchemas: {
+          user: { $ref: 'schemas.yaml#/user' },
+          address: { $ref: '#/$defs/address' },
+        },
+      })
+    );
+    file(
+      'schemas.yaml',
+      `
+      user:
+        type: object
+      `
+    );
+
+    const { config } = await loadConfigSource('promptuna.json');
+
+    expect(config).toEqual({
+      responseSchemas: {
+        user: { type: 'object' },
+        address: { $ref: '#/$defs/address' },
+      },
+    });
+  });
+
+  it('reports the file and line of values', async () => {
+    file(
+      'promptuna.yaml',
+      `
+      version: 1.0.0
+      prompts:
+        greeting:
+          $ref: greeting.yaml
+      `
+    );
+    file(
+      'greeting.yaml',
+      `
+      description: Greets the user
+      variants:
+        v_default:
+          model: gpt-4
+      `
+    );
+
+    const { locate } = await loadConfigSource('promptuna.yaml');
+
+    expect(locate('/version')).toEqual({ file: 'promptuna.yaml', line: 1 });
+    expect(locate('/prompts/greeting/variants/v_default/model')).toEqual({
+      file: 'greeting.yaml',
+      line: 4,
+    });
+    // Unknown pointers fall back to the closest enclosing value
+    expect(locate('/prompts/greeting/variants/v_default/missing')).toEqual({
+      file: 'greeting.yaml',
+      line: 3,
+    });
+  });
+
+  it('rejects circular includes', async () => {
+    file('a.yaml', 'child:\n  $ref: b.yaml\n');
+    file('b.yaml', 'child:\n  $ref: a.yaml\n');
+
+    await expect(loadConfigSource('a.yaml')).rejects.toThrow(
+      'Circular include'
+    );
+  });
+
+  it('names the file and line of YAML syntax errors', async () => {
+    file('broken.yaml', 'version: 1.0.0\nprompts:\n  - a\n  b: c\n');
+
+    await expect(loadConfigSource('broken.yaml')).rejects.toThrow(
+      /Failed to parse YAML config: broken\.yaml:\d+/
+    );
+  });
+
+  it('names missing included files', async () => {
+    file('promptuna.yaml', 'prompts:\n  $ref: missing.yaml\n');
+
+    await expect(loadConfigSource('promptuna.yaml')).rejects.toThrow(
+      'Failed to load included file: missing.yaml (referenced from promptuna.yaml)'
+    );
+  });
+});
+
+describe('loadAndValidateConfig with multi-file configs', () => {
+  it('reports the originating file and line of validation errors', async () => {
+    file(
+      'promptuna.yaml',
+      `
+      version: 1.0.0
+      providers:
+        openai_gpt4:
+          type: openai
+      prompts:
+        greeting:
+          $ref: prompts/greeting.yaml
+      `
+    );
+    file(
+      'prompts/greeting.yaml',
+      `
+      description: Greets the user
+      variants:
+        v_default:
+          default: true
+          provider: openai_gpt4
+          model: gpt-4
+          messages:
+            - role: user
+              content:
+                template: "Hello {{ name "
+      `
+    );
+
+    const error = await loadAndValidateConfig('promptuna.yaml').catch(e => e);
+
+    expect(error.message).toBe('Template validation failed');
+    expect(error.details.errors[0]).toMatch(/\(prompts\/greeting\.yaml:10\)$/);
+  });
+});